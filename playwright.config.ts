@@ -8,7 +8,7 @@ import { defineConfig, devices } from "@playwright/test";
  *
  * Features:
  * - Better Auth email verification testing
- * - MailSlurp integration for email testing
+ * - Local inbox email capture (EMAIL_PROVIDER=inbox)
  * - Multiple browser support
  * - CI/CD pipeline ready
  */
@@ -113,5 +113,7 @@ export default defineConfig({
         url: "http://localhost:3000",
         reuseExistingServer: !process.env.CI,
         timeout: 120 * 1000, // 2 minutes
+        // Capture emails in the local inbox read by tests/e2e/utils/inbox.ts
+        env: { EMAIL_PROVIDER: "inbox" },
       },
 });
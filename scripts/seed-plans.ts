@@ -0,0 +1,33 @@
+import dotenv from "dotenv";
+
+// Load environment variables before the database modules read them
+dotenv.config({ path: ".env.local" });
+
+/**
+ * Seed the plan catalog with the default paid plans
+ *
+ * Run once after creating the `billing_plan` table, so subscriptions to the
+ * plans that used to be hard-coded keep their plan. Plans already in the
+ * catalog are left as they are. The plans have no Stripe prices until
+ * `billing:sync-plans` matches them to the products of the same name.
+ */
+async function main() {
+	const { seedPlanCatalog } = await import(
+		"@/modules/billing/server/catalog"
+	);
+	const inserted = await seedPlanCatalog();
+
+	console.log(
+		inserted.length > 0
+			? `✅ Seeded plans: ${inserted.join(", ")}`
+			: "✅ Plan catalog already seeded",
+	);
+}
+
+main().then(
+	() => process.exit(0),
+	(error) => {
+		console.error("❌ Failed to seed plans:", error);
+		process.exit(1);
+	},
+);
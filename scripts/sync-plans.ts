@@ -0,0 +1,31 @@
+import dotenv from "dotenv";
+
+// Load environment variables before the database modules read them
+dotenv.config({ path: ".env.local" });
+
+/**
+ * Import the plans from the Stripe products, like "Sync from Stripe" on
+ * /admin/billing/plans and the /api/billing/plans/sync endpoint
+ */
+async function main() {
+	const { syncPlansFromStripe } = await import(
+		"@/modules/billing/server/catalog"
+	);
+	const { created, updated, skipped } = await syncPlansFromStripe();
+
+	console.log(`✅ Created: ${created.join(", ") || "none"}`);
+	console.log(`✅ Updated: ${updated.join(", ") || "none"}`);
+	if (skipped.length > 0) {
+		console.warn(
+			`⚠️ Skipped products without a monthly and a yearly price: ${skipped.join(", ")}`,
+		);
+	}
+}
+
+main().then(
+	() => process.exit(0),
+	(error) => {
+		console.error("❌ Failed to sync plans:", error);
+		process.exit(1);
+	},
+);
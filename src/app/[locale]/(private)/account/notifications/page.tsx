@@ -0,0 +1,30 @@
+import { RedirectToSignIn, SignedIn } from "@daveyplate/better-auth-ui";
+import { dehydrate, HydrationBoundary } from "@tanstack/react-query";
+import { setRequestLocale } from "next-intl/server";
+import { EmailPreferencesView } from "@/modules/emails/ui/views/email-preferences-view";
+import { getQueryClient, trpc } from "@/trpc/server";
+
+type Props = {
+	params: Promise<{ locale: string }>;
+};
+
+export default async function AccountNotificationsPage({ params }: Props) {
+	const { locale } = await params;
+
+	// Enable static rendering for this locale
+	setRequestLocale(locale);
+
+	const queryClient = getQueryClient();
+	void queryClient.prefetchQuery(trpc.emails.getPreferences.queryOptions());
+
+	return (
+		<div className="container flex grow flex-col p-4 md:p-6">
+			<RedirectToSignIn />
+			<SignedIn>
+				<HydrationBoundary state={dehydrate(queryClient)}>
+					<EmailPreferencesView />
+				</HydrationBoundary>
+			</SignedIn>
+		</div>
+	);
+}
@@ -1,6 +1,11 @@
 import { RedirectToSignIn, SignedIn } from "@daveyplate/better-auth-ui";
+import { dehydrate, HydrationBoundary } from "@tanstack/react-query";
+import { headers } from "next/headers";
 import { setRequestLocale } from "next-intl/server";
+import { auth } from "@/lib/auth";
+import { getMemberRole } from "@/modules/auth/server/utils";
 import { OrganizationView } from "@/modules/auth/ui/views/organization-view";
+import { getQueryClient, trpc } from "@/trpc/server";
 
 type Props = {
 	params: Promise<{ locale: string }>;
@@ -12,11 +17,27 @@ export default async function OrganizationPage({ params }: Props) {
 	// Enable static rendering for this locale
 	setRequestLocale(locale);
 
+	// Email branding is only editable by owners and admins
+	const session = await auth.api.getSession({ headers: await headers() });
+	const organizationId = session?.session.activeOrganizationId;
+	const role =
+		session && organizationId
+			? await getMemberRole(session.user.id, organizationId)
+			: null;
+	const canManageEmailBranding = role === "owner" || role === "admin";
+
+	const queryClient = getQueryClient();
+	if (canManageEmailBranding) {
+		void queryClient.prefetchQuery(trpc.emails.getBranding.queryOptions());
+	}
+
 	return (
 		<div className="container flex grow flex-col p-4 md:p-6">
 			<RedirectToSignIn />
 			<SignedIn>
-				<OrganizationView />
+				<HydrationBoundary state={dehydrate(queryClient)}>
+					<OrganizationView canManageEmailBranding={canManageEmailBranding} />
+				</HydrationBoundary>
 			</SignedIn>
 		</div>
 	);
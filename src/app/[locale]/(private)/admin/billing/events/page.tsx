@@ -0,0 +1,61 @@
+import { RedirectToSignIn, SignedIn } from "@daveyplate/better-auth-ui";
+import { dehydrate, HydrationBoundary } from "@tanstack/react-query";
+import { headers } from "next/headers";
+import { notFound } from "next/navigation";
+import { setRequestLocale } from "next-intl/server";
+import type { SearchParams } from "nuqs/server";
+import { auth } from "@/lib/auth";
+import { isAdmin } from "@/modules/auth/utils";
+import {
+	loadWebhookEventsSearchParams,
+	WEBHOOK_EVENTS_PAGE_SIZE,
+} from "@/modules/billing/ui/search-params";
+import { WebhookEventsView } from "@/modules/billing/ui/views/webhook-events-view";
+import { getQueryClient, trpc } from "@/trpc/server";
+
+type Props = {
+	params: Promise<{ locale: string }>;
+	searchParams: Promise<SearchParams>;
+};
+
+export default async function AdminBillingEventsPage({
+	params,
+	searchParams,
+}: Props) {
+	const { locale } = await params;
+
+	// Enable static rendering for this locale
+	setRequestLocale(locale);
+
+	// Webhook events are only available to admins
+	const session = await auth.api.getSession({ headers: await headers() });
+	if (session && !isAdmin(session.user)) {
+		notFound();
+	}
+
+	const { status, search, page } =
+		await loadWebhookEventsSearchParams(searchParams);
+
+	const queryClient = getQueryClient();
+	if (session) {
+		void queryClient.prefetchQuery(
+			trpc.billing.listWebhookEvents.queryOptions({
+				status: status ?? undefined,
+				search: search || undefined,
+				page,
+				pageSize: WEBHOOK_EVENTS_PAGE_SIZE,
+			}),
+		);
+	}
+
+	return (
+		<div className="container flex grow flex-col p-4 md:p-6">
+			<RedirectToSignIn />
+			<SignedIn>
+				<HydrationBoundary state={dehydrate(queryClient)}>
+					<WebhookEventsView />
+				</HydrationBoundary>
+			</SignedIn>
+		</div>
+	);
+}
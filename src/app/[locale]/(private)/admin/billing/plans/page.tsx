@@ -0,0 +1,42 @@
+import { RedirectToSignIn, SignedIn } from "@daveyplate/better-auth-ui";
+import { dehydrate, HydrationBoundary } from "@tanstack/react-query";
+import { headers } from "next/headers";
+import { notFound } from "next/navigation";
+import { setRequestLocale } from "next-intl/server";
+import { auth } from "@/lib/auth";
+import { isAdmin } from "@/modules/auth/utils";
+import { PlansCatalogView } from "@/modules/billing/ui/views/plans-catalog-view";
+import { getQueryClient, trpc } from "@/trpc/server";
+
+type Props = {
+	params: Promise<{ locale: string }>;
+};
+
+export default async function AdminBillingPlansPage({ params }: Props) {
+	const { locale } = await params;
+
+	// Enable static rendering for this locale
+	setRequestLocale(locale);
+
+	// The plan catalog is only editable by admins
+	const session = await auth.api.getSession({ headers: await headers() });
+	if (session && !isAdmin(session.user)) {
+		notFound();
+	}
+
+	const queryClient = getQueryClient();
+	if (session) {
+		void queryClient.prefetchQuery(trpc.billing.listCatalog.queryOptions());
+	}
+
+	return (
+		<div className="container flex grow flex-col p-4 md:p-6">
+			<RedirectToSignIn />
+			<SignedIn>
+				<HydrationBoundary state={dehydrate(queryClient)}>
+					<PlansCatalogView />
+				</HydrationBoundary>
+			</SignedIn>
+		</div>
+	);
+}
@@ -0,0 +1,62 @@
+import { RedirectToSignIn, SignedIn } from "@daveyplate/better-auth-ui";
+import { dehydrate, HydrationBoundary } from "@tanstack/react-query";
+import { headers } from "next/headers";
+import { notFound } from "next/navigation";
+import { setRequestLocale } from "next-intl/server";
+import type { SearchParams } from "nuqs/server";
+import { auth } from "@/lib/auth";
+import { isAdmin } from "@/modules/auth/utils";
+import {
+	INBOUND_EMAILS_PAGE_SIZE,
+	loadInboundEmailsSearchParams,
+} from "@/modules/emails/ui/search-params";
+import { InboundEmailsView } from "@/modules/emails/ui/views/inbound-emails-view";
+import { getQueryClient, trpc } from "@/trpc/server";
+
+type Props = {
+	params: Promise<{ locale: string }>;
+	searchParams: Promise<SearchParams>;
+};
+
+export default async function AdminInboundEmailsPage({
+	params,
+	searchParams,
+}: Props) {
+	const { locale } = await params;
+
+	// Enable static rendering for this locale
+	setRequestLocale(locale);
+
+	// Support messages are only available to admins
+	const session = await auth.api.getSession({ headers: await headers() });
+	if (session && !isAdmin(session.user)) {
+		notFound();
+	}
+
+	const { kind, status, search, page } =
+		await loadInboundEmailsSearchParams(searchParams);
+
+	const queryClient = getQueryClient();
+	if (session) {
+		void queryClient.prefetchQuery(
+			trpc.emails.listInbound.queryOptions({
+				kind: kind ?? undefined,
+				status: status ?? undefined,
+				search: search || undefined,
+				page,
+				pageSize: INBOUND_EMAILS_PAGE_SIZE,
+			}),
+		);
+	}
+
+	return (
+		<div className="container flex grow flex-col p-4 md:p-6">
+			<RedirectToSignIn />
+			<SignedIn>
+				<HydrationBoundary state={dehydrate(queryClient)}>
+					<InboundEmailsView />
+				</HydrationBoundary>
+			</SignedIn>
+		</div>
+	);
+}
@@ -0,0 +1,59 @@
+import { RedirectToSignIn, SignedIn } from "@daveyplate/better-auth-ui";
+import { dehydrate, HydrationBoundary } from "@tanstack/react-query";
+import { headers } from "next/headers";
+import { notFound } from "next/navigation";
+import { setRequestLocale } from "next-intl/server";
+import type { SearchParams } from "nuqs/server";
+import { auth } from "@/lib/auth";
+import { isAdmin } from "@/modules/auth/utils";
+import {
+	EMAIL_MESSAGES_PAGE_SIZE,
+	loadEmailMessagesSearchParams,
+} from "@/modules/emails/ui/search-params";
+import { EmailMessagesView } from "@/modules/emails/ui/views/email-messages-view";
+import { getQueryClient, trpc } from "@/trpc/server";
+
+type Props = {
+	params: Promise<{ locale: string }>;
+	searchParams: Promise<SearchParams>;
+};
+
+export default async function AdminEmailsPage({ params, searchParams }: Props) {
+	const { locale } = await params;
+
+	// Enable static rendering for this locale
+	setRequestLocale(locale);
+
+	// The delivery log is only available to admins
+	const session = await auth.api.getSession({ headers: await headers() });
+	if (session && !isAdmin(session.user)) {
+		notFound();
+	}
+
+	const { status, template, search, page } =
+		await loadEmailMessagesSearchParams(searchParams);
+
+	const queryClient = getQueryClient();
+	if (session) {
+		void queryClient.prefetchQuery(
+			trpc.emails.listMessages.queryOptions({
+				status: status ?? undefined,
+				template: template ?? undefined,
+				search: search || undefined,
+				page,
+				pageSize: EMAIL_MESSAGES_PAGE_SIZE,
+			}),
+		);
+	}
+
+	return (
+		<div className="container flex grow flex-col p-4 md:p-6">
+			<RedirectToSignIn />
+			<SignedIn>
+				<HydrationBoundary state={dehydrate(queryClient)}>
+					<EmailMessagesView />
+				</HydrationBoundary>
+			</SignedIn>
+		</div>
+	);
+}
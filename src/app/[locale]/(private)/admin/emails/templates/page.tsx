@@ -0,0 +1,56 @@
+import { RedirectToSignIn, SignedIn } from "@daveyplate/better-auth-ui";
+import { dehydrate, HydrationBoundary } from "@tanstack/react-query";
+import { headers } from "next/headers";
+import { notFound } from "next/navigation";
+import { setRequestLocale } from "next-intl/server";
+import type { SearchParams } from "nuqs/server";
+import { auth } from "@/lib/auth";
+import { isAdmin } from "@/modules/auth/utils";
+import { loadEmailPreviewSearchParams } from "@/modules/emails/ui/search-params";
+import { EmailPreviewView } from "@/modules/emails/ui/views/email-preview-view";
+import { getQueryClient, trpc } from "@/trpc/server";
+
+type Props = {
+	params: Promise<{ locale: string }>;
+	searchParams: Promise<SearchParams>;
+};
+
+export default async function AdminEmailTemplatesPage({
+	params,
+	searchParams,
+}: Props) {
+	const { locale } = await params;
+
+	// Enable static rendering for this locale
+	setRequestLocale(locale);
+
+	// Template previews are only available to admins
+	const session = await auth.api.getSession({ headers: await headers() });
+	if (session && !isAdmin(session.user)) {
+		notFound();
+	}
+
+	const { template, locale: previewLocale } =
+		await loadEmailPreviewSearchParams(searchParams);
+
+	const queryClient = getQueryClient();
+	if (session) {
+		void queryClient.prefetchQuery(
+			trpc.emails.previewTemplate.queryOptions({
+				template,
+				locale: previewLocale,
+			}),
+		);
+	}
+
+	return (
+		<div className="container flex grow flex-col p-4 md:p-6">
+			<RedirectToSignIn />
+			<SignedIn>
+				<HydrationBoundary state={dehydrate(queryClient)}>
+					<EmailPreviewView />
+				</HydrationBoundary>
+			</SignedIn>
+		</div>
+	);
+}
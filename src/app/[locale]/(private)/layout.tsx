@@ -6,6 +6,7 @@ import { MainSidebar } from "@/components/main-sidebar";
 import { SidebarProvider } from "@/components/ui/sidebar";
 import { Toaster } from "@/components/ui/sonner";
 import { auth } from "@/lib/auth";
+import { DunningBanner } from "@/modules/billing/ui/components/dunning-banner";
 
 type Props = {
 	children: React.ReactNode;
@@ -19,6 +20,7 @@ type Props = {
  * It provides:
  * - Authentication protection - redirects to sign-in if not authenticated
  * - Sidebar navigation using shadcn Sidebar components
+ * - A banner while a subscription payment is failing
  * - Consistent layout structure for all private pages
  * - Internationalization support
  */
@@ -44,6 +46,7 @@ export default async function PrivateLayout({ children, params }: Props) {
 				<SidebarProvider>
 					<MainSidebar />
 					<main className="flex flex-col min-h-screen w-screen p-2">
+						<DunningBanner />
 						<div className="flex flex-col flex-1 bg-background rounded-lg border shadow-sm">
 							{children}
 						</div>
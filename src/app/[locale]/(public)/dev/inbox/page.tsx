@@ -0,0 +1,38 @@
+import { dehydrate, HydrationBoundary } from "@tanstack/react-query";
+import { notFound } from "next/navigation";
+import { setRequestLocale } from "next-intl/server";
+import type { SearchParams } from "nuqs/server";
+import { isEmailInboxEnabled } from "@/modules/emails/inbox";
+import { loadEmailInboxSearchParams } from "@/modules/emails/ui/search-params";
+import { EmailInboxView } from "@/modules/emails/ui/views/email-inbox-view";
+import { getQueryClient, trpc } from "@/trpc/server";
+
+type Props = {
+	params: Promise<{ locale: string }>;
+	searchParams: Promise<SearchParams>;
+};
+
+export default async function DevInboxPage({ params, searchParams }: Props) {
+	const { locale } = await params;
+
+	// Enable static rendering for this locale
+	setRequestLocale(locale);
+
+	// Captured emails contain sign-in links, never expose them in production
+	if (!isEmailInboxEnabled()) {
+		notFound();
+	}
+
+	const { to } = await loadEmailInboxSearchParams(searchParams);
+
+	const queryClient = getQueryClient();
+	void queryClient.prefetchQuery(trpc.emails.listInbox.queryOptions({ to }));
+
+	return (
+		<div className="container flex grow flex-col p-4 md:p-6">
+			<HydrationBoundary state={dehydrate(queryClient)}>
+				<EmailInboxView />
+			</HydrationBoundary>
+		</div>
+	);
+}
@@ -0,0 +1,42 @@
+import { getTranslations, setRequestLocale } from "next-intl/server";
+import FooterSection from "@/components/footer";
+import { HeroHeader } from "@/components/header";
+import { env } from "@/lib/env";
+import { verifyUnsubscribeToken } from "@/modules/emails/preferences";
+import { UnsubscribeConfirmation } from "@/modules/emails/ui/components/unsubscribe-confirmation";
+
+type Props = {
+	params: Promise<{ locale: string }>;
+	searchParams: Promise<{ token?: string }>;
+};
+
+export default async function UnsubscribePage({ params, searchParams }: Props) {
+	const { locale } = await params;
+	const { token = "" } = await searchParams;
+
+	// Enable static rendering for this locale
+	setRequestLocale(locale);
+
+	const t = await getTranslations("unsubscribe");
+	const payload = verifyUnsubscribeToken(token, env.BETTER_AUTH_SECRET);
+
+	return (
+		<div>
+			<HeroHeader />
+			<main className="overflow-hidden">
+				<section className="mx-auto flex max-w-xl flex-col gap-6 px-6 py-32">
+					<h1 className="text-center text-3xl font-bold">{t("title")}</h1>
+					{payload ? (
+						<UnsubscribeConfirmation
+							token={token}
+							category={payload.category}
+						/>
+					) : (
+						<p className="text-center text-muted-foreground">{t("invalid")}</p>
+					)}
+				</section>
+			</main>
+			<FooterSection />
+		</div>
+	);
+}
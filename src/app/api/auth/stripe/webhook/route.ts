@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { handleStripeWebhook } from "@/modules/billing/server/webhooks";
+import { StripeWebhookError } from "@/modules/billing/webhooks";
+
+/**
+ * Stripe webhook endpoint
+ *
+ * Takes precedence over the Stripe plugin's endpoint at the same URL, so
+ * every event is stored and processed exactly once.
+ */
+export async function POST(request: Request) {
+	try {
+		const result = await handleStripeWebhook(request);
+
+		return NextResponse.json(result);
+	} catch (error) {
+		if (error instanceof StripeWebhookError) {
+			return NextResponse.json(
+				{ error: error.message },
+				{ status: error.status },
+			);
+		}
+
+		throw error;
+	}
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { isAuthorizedCronRequest } from "@/lib/server-utils";
+import {
+	PlanCatalogError,
+	syncPlansFromStripe,
+} from "@/modules/billing/server/catalog";
+
+/**
+ * Plan catalog sync endpoint
+ *
+ * Imports the plans from the Stripe products with a monthly and a yearly
+ * price. Run it after changing products in Stripe, or from a scheduler.
+ */
+export async function GET(request: Request) {
+	if (!isAuthorizedCronRequest(request)) {
+		return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+	}
+
+	try {
+		const result = await syncPlansFromStripe();
+
+		return NextResponse.json(result);
+	} catch (error) {
+		if (error instanceof PlanCatalogError) {
+			return NextResponse.json({ error: error.message }, { status: 503 });
+		}
+
+		throw error;
+	}
+}
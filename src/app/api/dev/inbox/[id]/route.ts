@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { getEmailInbox, isEmailInboxEnabled } from "@/modules/emails/inbox";
+
+/**
+ * Get a single captured email (development and E2E tests only)
+ */
+export async function GET(
+	_request: Request,
+	{ params }: { params: Promise<{ id: string }> },
+) {
+	const { id } = await params;
+	const message = isEmailInboxEnabled() ? await getEmailInbox().get(id) : null;
+
+	if (!message) {
+		return NextResponse.json({ error: "Not found" }, { status: 404 });
+	}
+
+	return NextResponse.json(message);
+}
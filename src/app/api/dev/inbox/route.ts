@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { getEmailInbox, isEmailInboxEnabled } from "@/modules/emails/inbox";
+
+/**
+ * Local email inbox API (development and E2E tests only)
+ *
+ * GET lists the captured emails, newest first, optionally `?to=<address>`.
+ * DELETE empties the inbox.
+ */
+export async function GET(request: Request) {
+	if (!isEmailInboxEnabled()) {
+		return NextResponse.json({ error: "Not found" }, { status: 404 });
+	}
+
+	const to = new URL(request.url).searchParams.get("to") ?? undefined;
+	const messages = await getEmailInbox().list({ to });
+
+	return NextResponse.json(messages);
+}
+
+export async function DELETE() {
+	if (!isEmailInboxEnabled()) {
+		return NextResponse.json({ error: "Not found" }, { status: 404 });
+	}
+
+	await getEmailInbox().clear();
+
+	return NextResponse.json({ cleared: true });
+}
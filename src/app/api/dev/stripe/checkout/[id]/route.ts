@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+import { getLocalStripe } from "@/lib/stripe";
+import { LocalStripeError } from "@/modules/billing/local-stripe/errors";
+import { renderLocalStripePage } from "@/modules/billing/local-stripe/pages";
+
+type Params = { params: Promise<{ id: string }> };
+
+const toErrorResponse = (error: unknown) => {
+	if (error instanceof LocalStripeError) {
+		return NextResponse.json(
+			{ error: error.message },
+			{ status: error.status },
+		);
+	}
+
+	throw error;
+};
+
+/**
+ * Local Stripe Checkout page (STRIPE_LOCAL=true only)
+ *
+ * GET shows the session, POST with `action=pay` starts the subscription and
+ * `action=cancel` leaves, both redirect back to the app.
+ */
+export async function GET(_request: Request, { params }: Params) {
+	const localStripe = await getLocalStripe();
+
+	if (!localStripe) {
+		return NextResponse.json({ error: "Not found" }, { status: 404 });
+	}
+
+	const { id } = await params;
+
+	try {
+		return renderLocalStripePage({
+			title: "Checkout",
+			lines: localStripe.describeCheckoutSession(id),
+			actions: [
+				{ value: "pay", label: "Pay" },
+				{ value: "cancel", label: "Cancel" },
+			],
+		});
+	} catch (error) {
+		return toErrorResponse(error);
+	}
+}
+
+export async function POST(request: Request, { params }: Params) {
+	const localStripe = await getLocalStripe();
+
+	if (!localStripe) {
+		return NextResponse.json({ error: "Not found" }, { status: 404 });
+	}
+
+	const { id } = await params;
+	const action = (await request.formData()).get("action");
+
+	try {
+		const redirectUrl =
+			action === "pay"
+				? localStripe.completeCheckoutSession(id)
+				: localStripe.expireCheckoutSession(id);
+
+		return NextResponse.redirect(redirectUrl, 303);
+	} catch (error) {
+		return toErrorResponse(error);
+	}
+}
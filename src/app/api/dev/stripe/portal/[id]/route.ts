@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+import { getLocalStripe } from "@/lib/stripe";
+import { LocalStripeError } from "@/modules/billing/local-stripe/errors";
+import { renderLocalStripePage } from "@/modules/billing/local-stripe/pages";
+
+type Params = { params: Promise<{ id: string }> };
+
+const toErrorResponse = (error: unknown) => {
+	if (error instanceof LocalStripeError) {
+		return NextResponse.json(
+			{ error: error.message },
+			{ status: error.status },
+		);
+	}
+
+	throw error;
+};
+
+/**
+ * Local Stripe billing portal page (STRIPE_LOCAL=true only)
+ *
+ * GET shows what the session's flow changes, POST with `action=confirm`
+ * applies it and `action=back` leaves, both redirect back to the app.
+ */
+export async function GET(_request: Request, { params }: Params) {
+	const localStripe = await getLocalStripe();
+
+	if (!localStripe) {
+		return NextResponse.json({ error: "Not found" }, { status: 404 });
+	}
+
+	const { id } = await params;
+
+	try {
+		return renderLocalStripePage({
+			title: "Billing portal",
+			lines: [localStripe.describePortalSession(id)],
+			actions: [
+				{ value: "confirm", label: "Confirm" },
+				{ value: "back", label: "Back" },
+			],
+		});
+	} catch (error) {
+		return toErrorResponse(error);
+	}
+}
+
+export async function POST(request: Request, { params }: Params) {
+	const localStripe = await getLocalStripe();
+
+	if (!localStripe) {
+		return NextResponse.json({ error: "Not found" }, { status: 404 });
+	}
+
+	const { id } = await params;
+	const action = (await request.formData()).get("action");
+
+	try {
+		const redirectUrl =
+			action === "confirm"
+				? localStripe.completePortalSession(id)
+				: localStripe.leavePortalSession(id);
+
+		return NextResponse.redirect(redirectUrl, 303);
+	} catch (error) {
+		return toErrorResponse(error);
+	}
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { getLocalStripe } from "@/lib/stripe";
+import { LocalStripeError } from "@/modules/billing/local-stripe/errors";
+
+/**
+ * Renew a local Stripe subscription (STRIPE_LOCAL=true only)
+ *
+ * Bills the next period right away, `?paid=false` makes the payment fail to
+ * try out failed payments. Subscriptions set to cancel end instead.
+ */
+export async function POST(
+	request: Request,
+	{ params }: { params: Promise<{ id: string }> },
+) {
+	const localStripe = await getLocalStripe();
+
+	if (!localStripe) {
+		return NextResponse.json({ error: "Not found" }, { status: 404 });
+	}
+
+	const { id } = await params;
+	const paid = new URL(request.url).searchParams.get("paid") !== "false";
+
+	try {
+		const subscription = localStripe.renewSubscription(id, { paid });
+
+		return NextResponse.json({
+			id: subscription.id,
+			status: subscription.status,
+		});
+	} catch (error) {
+		if (error instanceof LocalStripeError) {
+			return NextResponse.json(
+				{ error: error.message },
+				{ status: error.status },
+			);
+		}
+
+		throw error;
+	}
+}
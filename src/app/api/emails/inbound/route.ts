@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { handleInboundEmailRequest, InboundEmailError } from "@/modules/emails";
+
+/**
+ * Inbound email endpoint
+ *
+ * Receives replies sent to INBOUND_EMAIL_DOMAIN from an inbound email
+ * provider, as a raw MIME email or a parsed JSON payload.
+ */
+export async function POST(request: Request) {
+	try {
+		const result = await handleInboundEmailRequest(request);
+
+		return NextResponse.json(result);
+	} catch (error) {
+		if (error instanceof InboundEmailError) {
+			return NextResponse.json(
+				{ error: error.message },
+				{ status: error.status },
+			);
+		}
+
+		throw error;
+	}
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { isAuthorizedCronRequest } from "@/lib/server-utils";
+import { processEmailOutbox } from "@/modules/emails";
+
+/**
+ * Email outbox worker endpoint
+ *
+ * Meant to be called by a scheduler (e.g. every minute) to deliver
+ * queued emails whose retry backoff has elapsed.
+ */
+export async function GET(request: Request) {
+	if (!isAuthorizedCronRequest(request)) {
+		return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+	}
+
+	const result = await processEmailOutbox();
+
+	return NextResponse.json(result);
+}
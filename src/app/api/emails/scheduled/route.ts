@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { isAuthorizedCronRequest } from "@/lib/server-utils";
+import { retryCreditOverageReports } from "@/modules/billing/server/credits";
+import { processScheduledEmails } from "@/modules/emails";
+
+/**
+ * Scheduled emails endpoint
+ *
+ * Meant to be called by a scheduler (e.g. every hour) to send reminders
+ * and digests that are due. Emails already sent are skipped. Credit overage
+ * that couldn't be reported to Stripe is reported again on the same run.
+ */
+export async function GET(request: Request) {
+	if (!isAuthorizedCronRequest(request)) {
+		return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+	}
+
+	const result = await processScheduledEmails();
+	const creditOverage = await retryCreditOverageReports();
+
+	return NextResponse.json({ ...result, creditOverage });
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { unsubscribeWithToken } from "@/modules/emails";
+
+/**
+ * One-click unsubscribe endpoint (RFC 8058)
+ *
+ * Mail clients POST `List-Unsubscribe=One-Click` to the URL of the
+ * `List-Unsubscribe` header. A GET only shows the confirmation page, since
+ * link scanners open URLs without the recipient asking to unsubscribe.
+ */
+export async function POST(request: Request) {
+	const token = new URL(request.url).searchParams.get("token") ?? "";
+	const category = await unsubscribeWithToken(token);
+
+	if (!category) {
+		return NextResponse.json(
+			{ error: "Invalid unsubscribe link" },
+			{ status: 400 },
+		);
+	}
+
+	return NextResponse.json({ unsubscribed: category });
+}
+
+export async function GET(request: Request) {
+	const url = new URL(request.url);
+	const token = url.searchParams.get("token") ?? "";
+
+	return NextResponse.redirect(
+		new URL(`/unsubscribe?token=${encodeURIComponent(token)}`, url.origin),
+	);
+}
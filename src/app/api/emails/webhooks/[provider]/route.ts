@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { EmailWebhookError, handleEmailWebhook } from "@/modules/emails";
+
+/**
+ * Email provider webhook endpoint
+ *
+ * Receives delivery, bounce and complaint notifications from the email
+ * provider (resend, postmark, sendgrid or ses) named in the URL.
+ */
+export async function POST(
+	request: Request,
+	{ params }: { params: Promise<{ provider: string }> },
+) {
+	const { provider } = await params;
+
+	try {
+		const result = await handleEmailWebhook(provider, request);
+
+		return NextResponse.json(result);
+	} catch (error) {
+		if (error instanceof EmailWebhookError) {
+			return NextResponse.json(
+				{ error: error.message },
+				{ status: error.status },
+			);
+		}
+
+		throw error;
+	}
+}
@@ -1,13 +1,19 @@
 "use client";
 
 import {
+	Bell,
 	Building,
 	CreditCard,
 	Home,
+	Inbox,
+	LayoutTemplate,
 	LogOut,
+	Mail,
+	Package,
 	Shield,
 	User,
 	Users,
+	Webhook,
 } from "lucide-react";
 import { useRouter } from "next/navigation";
 import { useTranslations } from "next-intl";
@@ -26,6 +32,7 @@ import {
 	SidebarMenuItem,
 } from "@/components/ui/sidebar";
 import { authClient } from "@/lib/auth-client";
+import { isAdmin } from "@/modules/auth/utils";
 import { Link, usePathname } from "@/modules/i18n/navigation";
 import { Logo } from "./logo";
 
@@ -36,6 +43,7 @@ import { Logo } from "./logo";
  * Features:
  * - Header with app branding
  * - Content section with navigation items (Dashboard, Account, Organization)
+ * - Admin section, only shown to users with the admin role
  * - Active state highlighting based on current URL
  * - Footer with user info and sign out functionality
  * - Uses shadcn Sidebar components
@@ -100,6 +108,39 @@ const MainSidebar = () => {
 			url: "/account/billing",
 			icon: CreditCard,
 		},
+		{
+			title: t("notifications"),
+			url: "/account/notifications",
+			icon: Bell,
+		},
+	];
+
+	const adminItems = [
+		{
+			title: t("emails"),
+			url: "/admin/emails",
+			icon: Mail,
+		},
+		{
+			title: t("emailTemplates"),
+			url: "/admin/emails/templates",
+			icon: LayoutTemplate,
+		},
+		{
+			title: t("inboundEmails"),
+			url: "/admin/emails/inbound",
+			icon: Inbox,
+		},
+		{
+			title: t("plans"),
+			url: "/admin/billing/plans",
+			icon: Package,
+		},
+		{
+			title: t("webhookEvents"),
+			url: "/admin/billing/events",
+			icon: Webhook,
+		},
 	];
 
 	/**
@@ -192,6 +233,30 @@ const MainSidebar = () => {
 						</SidebarMenu>
 					</SidebarGroupContent>
 				</SidebarGroup>
+				{session?.user && isAdmin(session.user) ? (
+					<SidebarGroup>
+						<SidebarGroupLabel className="uppercase">
+							{t("admin")}
+						</SidebarGroupLabel>
+						<SidebarGroupContent>
+							<SidebarMenu>
+								{adminItems.map((item) => (
+									<SidebarMenuItem key={item.title}>
+										<SidebarMenuButton
+											asChild
+											isActive={isActiveItem(item.url)}
+										>
+											<Link href={item.url}>
+												<item.icon className="h-4 w-4" />
+												<span>{item.title}</span>
+											</Link>
+										</SidebarMenuButton>
+									</SidebarMenuItem>
+								))}
+							</SidebarMenu>
+						</SidebarGroupContent>
+					</SidebarGroup>
+				) : null}
 			</SidebarContent>
 
 			{/* Footer Section */}
@@ -14,7 +14,8 @@ import {
 } from "@/components/ui/card";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { cn, formatAmountCents } from "@/lib/utils";
-import { BillingPeriod } from "@/modules/billing/plans";
+import { usePlanCopy } from "@/modules/billing/hooks/use-plan-copy";
+import { BillingPeriod, isFreePlan } from "@/modules/billing/plans";
 import { Link } from "@/modules/i18n/navigation";
 import { useTRPC } from "@/trpc/client";
 import { Badge } from "./ui/badge";
@@ -26,24 +27,16 @@ function PricingTableContent() {
 	const trpc = useTRPC();
 	const [period, setPeriod] = useState<BillingPeriod>(BillingPeriod.MONTHLY);
 
-	// Fetch configured plans (Basic, Plus, Pro) with Stripe prices
-	const { data: plans } = useSuspenseQuery(
-		trpc.billing.getPlans.queryOptions(),
-	);
+	// Fetch the offered plans of the catalog with Stripe prices
+	const { data } = useSuspenseQuery(trpc.billing.getPlans.queryOptions());
+	const plans = data.filter((plan) => !isFreePlan(plan));
 
 	// Free plan features from translations
 	const freeFeatures = Object.values(
 		(t.raw("plans.free.features") ?? {}) as Record<string, string>,
 	);
 
-	// Helper to get translation key per plan name
-	const getPlanKey = (name: string) => {
-		const key = name?.toLowerCase();
-		if (key === "basic") return "plans.basic";
-		if (key === "plus") return "plans.plus";
-		if (key === "pro") return "plans.pro";
-		return "plans.basic";
-	};
+	const getPlanCopy = usePlanCopy();
 
 	return (
 		<section className="py-16 md:py-32">
@@ -108,11 +101,7 @@ function PricingTableContent() {
 
 					{/* Paid plans from TRPC */}
 					{plans.map((plan) => {
-						const planKey = getPlanKey(plan.name);
-						const featuresRaw = t.raw(`${planKey}.features`) as
-							| Record<string, string>
-							| undefined;
-						const features = featuresRaw ? Object.values(featuresRaw) : [];
+						const { name, features } = getPlanCopy(plan);
 						const unitAmount = plan.prices?.[period]?.unitAmount ?? 0;
 						const currency = (
 							plan.prices?.[period]?.currency ?? "USD"
@@ -125,7 +114,7 @@ function PricingTableContent() {
 							>
 								<CardHeader>
 									<CardTitle className="flex items-center justify-between h-6">
-										{t(`${planKey}.name`)}
+										{name}
 										{plan.recommended && (
 											<Badge variant="secondary">
 												{tCommon("recommended")}
@@ -7,4 +7,17 @@ export async function register() {
 
 	process.env.OTEL_LOG_LEVEL = "NONE";
 	process.env.OTEL_SDK_DISABLED = "true";
+
+	// Report email misconfiguration (e.g. wrong SMTP credentials) at startup
+	// instead of on the first email, without delaying the server
+	if (process.env.NEXT_RUNTIME === "nodejs") {
+		const { verifyEmailProvider } = await import("@/modules/emails/providers");
+		void verifyEmailProvider();
+
+		// Receive replies on INBOUND_SMTP_PORT when configured
+		const { startInboundSmtpListener } = await import(
+			"@/modules/emails/inbound"
+		);
+		startInboundSmtpListener();
+	}
 }
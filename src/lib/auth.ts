@@ -1,16 +1,18 @@
 import { stripe } from "@better-auth/stripe";
 import { betterAuth } from "better-auth";
 import { drizzleAdapter } from "better-auth/adapters/drizzle";
+import { createAuthMiddleware } from "better-auth/api";
 import { admin, apiKey, organization } from "better-auth/plugins";
 import slugify from "slugify";
 import { MIN_PASSWORD_LENGTH } from "@/modules/auth/constants";
 import { getDefaultOrganization } from "@/modules/auth/server/utils";
-import { plans } from "@/modules/billing/plans";
+import { getPaidPlans } from "@/modules/billing/server/catalog";
+import { getCheckoutSessionParams } from "@/modules/billing/server/discounts";
 import {
-	authorizeSubscription,
-	onSubscriptionCancel,
-	onSubscriptionComplete,
-} from "@/modules/billing/server/subscriptions";
+	syncSubscriptionSeats,
+	withSeatLimits,
+} from "@/modules/billing/server/seats";
+import { authorizeSubscription } from "@/modules/billing/server/subscriptions";
 import {
 	sendInvitationEmail,
 	sendPasswordResetEmail,
@@ -26,6 +28,14 @@ import { isStripeEnabled, stripeClient } from "./stripe";
 
 const stripeWebhookSecret = process.env.STRIPE_WEBHOOK_SECRET ?? "";
 
+// Endpoints that add or remove organization members
+const MEMBERSHIP_PATHS = [
+	"/organization/accept-invitation",
+	"/organization/add-member",
+	"/organization/remove-member",
+	"/organization/leave",
+];
+
 /**
  * Better Auth Configuration
  *
@@ -39,10 +49,13 @@ const stripeWebhookSecret = process.env.STRIPE_WEBHOOK_SECRET ?? "";
  * - Type-safe authentication context
  */
 export const auth = betterAuth({
-	database: drizzleAdapter(db, {
-		provider: "pg",
-		schema: { ...schema },
-	}),
+	// Invitations and members are only created within the plan's seats
+	database: withSeatLimits(
+		drizzleAdapter(db, {
+			provider: "pg",
+			schema: { ...schema },
+		}),
+	),
 
 	user: {
 		additionalFields: {
@@ -104,6 +117,27 @@ export const auth = betterAuth({
 		},
 	},
 
+	// Request hooks
+	hooks: {
+		// Keep the Stripe subscription quantity in sync with the members
+		after: createAuthMiddleware(async (ctx) => {
+			if (!MEMBERSHIP_PATHS.includes(ctx.path)) {
+				return;
+			}
+
+			const returned = ctx.context.returned as
+				| { organizationId?: string; member?: { organizationId: string } }
+				| null
+				| undefined;
+			const organizationId =
+				returned?.member?.organizationId ?? returned?.organizationId;
+
+			if (organizationId) {
+				await syncSubscriptionSeats(organizationId);
+			}
+		}),
+	},
+
 	// Plugins
 	plugins: [
 		// Admin plugin for system-wide user management
@@ -154,6 +188,8 @@ export const auth = betterAuth({
 				await sendInvitationEmail({
 					to: data.email,
 					organizationName: data.organization.name,
+					organizationId: data.organization.id,
+					invitationId: data.id,
 					inviterName: name ?? "A team member",
 					inviterEmail: email,
 					role: data.role,
@@ -168,14 +204,18 @@ export const auth = betterAuth({
 			? [
 					stripe({
 						stripeClient,
+						// Unused, app/api/auth/stripe/webhook stores and processes the
+						// webhook events in place of the plugin's endpoint
 						stripeWebhookSecret: stripeWebhookSecret,
 						createCustomerOnSignUp: true,
 						subscription: {
 							enabled: true,
-							plans: plans,
+							// Read from the plan catalog, the free plan has no Stripe
+							// prices to check out
+							plans: getPaidPlans,
 							authorizeReference: authorizeSubscription,
-							onSubscriptionComplete: onSubscriptionComplete,
-							onSubscriptionCancel: onSubscriptionCancel,
+							// Trials of the plan's trial days and promotion codes
+							getCheckoutSessionParams,
 						},
 					}),
 				]
@@ -8,6 +8,9 @@ import {
 	timestamp,
 	unique,
 } from "drizzle-orm/pg-core";
+import type Stripe from "stripe";
+import type { PlanFeature } from "@/modules/billing/plans";
+import type { EmailDeliveryOptions } from "@/modules/emails/providers/base";
 import { defaultLocale } from "@/modules/i18n/routing";
 
 /**
@@ -31,6 +34,13 @@ import { defaultLocale } from "@/modules/i18n/routing";
  * - resource_permissions: Resource-specific permissions
  * - organization_security_settings: Organization security config
  * - user_security_settings: User security preferences per org
+ *
+ * Email Tables:
+ * - email_outbox: Rendered emails queued for delivery with retry state
+ * - email_message: Delivery log of every email (masked recipient, provider, status)
+ * - email_suppression: Addresses that hard bounced or complained, never emailed again
+ * - email_preference: Per-user opt-outs of non-transactional email categories
+ * - organization_email_branding: Logo, color, sender name and footer of an organization's emails
  */
 
 export const user = pgTable("user", {
@@ -172,7 +182,8 @@ export const userPreference = pgTable(
 		language: text("language").notNull().default(defaultLocale), // User's preferred language
 		theme: text("theme").default("system"), // Theme preference: light, dark, system
 		timezone: text("timezone").default("UTC"), // User's timezone preference
-		emailNotifications: boolean("emailNotifications").notNull().default(true), // Email notification preference
+		// Legacy opt-out of all email, read as a default by email_preference
+		emailNotifications: boolean("emailNotifications").notNull().default(true),
 		// JSON field for additional preferences that might be added in the future
 		additionalPreferences: text("additionalPreferences"), // Store as JSON string
 		createdAt: timestamp("createdAt").notNull().defaultNow(),
@@ -328,6 +339,222 @@ export const apikey = pgTable("api_key", {
 	metadata: json("metadata"),
 });
 
+// Email outbox - every rendered email is persisted here before delivery
+export const emailOutbox = pgTable(
+	"email_outbox",
+	{
+		id: text("id").primaryKey(),
+		to: text("to").notNull(),
+		subject: text("subject").notNull(),
+		html: text("html").notNull(),
+		text: text("text"),
+		options: json("options").$type<EmailDeliveryOptions>(), // cc, bcc, reply-to, headers, attachments and tags
+		status: text("status").notNull().default("pending"), // pending, sending, sent, dead
+		attempts: integer("attempts").notNull().default(0), // Number of delivery attempts made so far
+		nextAttemptAt: timestamp("next_attempt_at").notNull().defaultNow(), // When the worker may try again
+		lastError: text("last_error"), // Error message of the last failed attempt
+		sentAt: timestamp("sent_at"),
+		createdAt: timestamp("created_at").notNull().defaultNow(),
+		updatedAt: timestamp("updated_at").notNull().defaultNow(),
+	},
+	(table) => [
+		// Index for the worker lookup of due emails
+		index().on(table.status, table.nextAttemptAt),
+	],
+);
+
+export const emailMessage = pgTable(
+	"email_message",
+	{
+		id: text("id").primaryKey(),
+		outboxId: text("outbox_id")
+			.notNull()
+			.references(() => emailOutbox.id, { onDelete: "cascade" }),
+		recipient: text("recipient").notNull(), // Masked recipient address, e.g. j**e@example.com
+		template: text("template"), // Email template type, e.g. invitation
+		locale: text("locale"),
+		subject: text("subject").notNull(),
+		provider: text("provider"), // Provider that accepted the email
+		providerMessageId: text("provider_message_id"), // Id assigned by the provider
+		status: text("status").notNull().default("queued"), // queued, sent, failed, dead, delivered, bounced, complained
+		error: text("error"), // Error message of the last failed attempt
+		sentAt: timestamp("sent_at"),
+		createdAt: timestamp("created_at").notNull().defaultNow(),
+		updatedAt: timestamp("updated_at").notNull().defaultNow(),
+	},
+	(table) => [
+		index().on(table.createdAt),
+		index().on(table.outboxId),
+		index().on(table.providerMessageId),
+	],
+);
+
+export const emailSuppression = pgTable("email_suppression", {
+	id: text("id").primaryKey(),
+	email: text("email").notNull().unique(), // Lowercased address
+	reason: text("reason").notNull(), // bounce, complaint, manual
+	provider: text("provider"), // Provider that reported the bounce or complaint
+	details: text("details"), // Bounce diagnostic or complaint feedback
+	createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Email preferences - one row per user and category, missing rows mean subscribed
+export const emailPreference = pgTable(
+	"email_preference",
+	{
+		id: text("id").primaryKey(),
+		userId: text("user_id")
+			.notNull()
+			.references(() => user.id, { onDelete: "cascade" }),
+		category: text("category").notNull(), // billing, team, product
+		enabled: boolean("enabled").notNull().default(true),
+		createdAt: timestamp("created_at").notNull().defaultNow(),
+		updatedAt: timestamp("updated_at").notNull().defaultNow(),
+	},
+	(table) => [unique().on(table.userId, table.category)],
+);
+
+// Scheduled and webhook emails already sent, keyed per reminder or Stripe
+// event so none is sent twice
+export const scheduledEmail = pgTable("scheduled_email", {
+	id: text("id").primaryKey(),
+	key: text("key").notNull().unique(), // e.g. trialEnding:<subscription id>:<trial end>, subscriptionUpgrade:<event id>
+	template: text("template").notNull(), // Email template type, e.g. trialEnding
+	createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Organization email branding - empty columns fall back to the app defaults
+export const organizationEmailBranding = pgTable(
+	"organization_email_branding",
+	{
+		id: text("id").primaryKey(),
+		organizationId: text("organization_id")
+			.notNull()
+			.unique()
+			.references(() => organization.id, { onDelete: "cascade" }),
+		logoUrl: text("logo_url"),
+		primaryColor: text("primary_color"), // Hex color, e.g. #F46811
+		senderName: text("sender_name"), // Display name of the From address
+		footerText: text("footer_text"),
+		createdAt: timestamp("created_at").notNull().defaultNow(),
+		updatedAt: timestamp("updated_at").notNull().defaultNow(),
+	},
+);
+
+// Inbound emails - replies to invitations and support messages
+export const inboundEmail = pgTable(
+	"inbound_email",
+	{
+		id: text("id").primaryKey(),
+		messageId: text("message_id").unique(), // Message-ID header, drops redelivered emails
+		kind: text("kind").notNull(), // invitation_reply, support
+		fromAddress: text("from_address").notNull(),
+		fromName: text("from_name"),
+		toAddress: text("to_address").notNull(), // Inbound address it was sent to, e.g. support@
+		subject: text("subject").notNull(),
+		text: text("text"),
+		html: text("html"),
+		userId: text("user_id").references(() => user.id, {
+			onDelete: "set null",
+		}), // Sender, when they have an account
+		organizationId: text("organization_id").references(() => organization.id, {
+			onDelete: "set null",
+		}),
+		invitationId: text("invitation_id").references(() => invitation.id, {
+			onDelete: "set null",
+		}),
+		resolvedAt: timestamp("resolved_at"),
+		createdAt: timestamp("created_at").notNull().defaultNow(),
+	},
+	(table) => [index().on(table.createdAt), index().on(table.kind)],
+);
+
+export const creditLedger = pgTable(
+	"credit_ledger",
+	{
+		id: text("id").primaryKey(),
+		organizationId: text("organization_id")
+			.notNull()
+			.references(() => organization.id, { onDelete: "cascade" }),
+		type: text("type").notNull(), // usage, grant
+		amount: integer("amount").notNull(), // Credits, negative for usage
+		feature: text("feature"), // What consumed the credits, e.g. ai.generate
+		description: text("description"),
+		userId: text("user_id").references(() => user.id, {
+			onDelete: "set null",
+		}), // Who recorded the entry
+		idempotencyKey: text("idempotency_key"), // Retried usage events are recorded once
+		periodStart: timestamp("period_start").notNull(), // Credit period the entry counts against
+		overage: integer("overage").notNull().default(0), // Credits used over the limit (soft limit mode)
+		reportedAt: timestamp("reported_at"), // When the overage was reported to Stripe
+		createdAt: timestamp("created_at").notNull().defaultNow(),
+	},
+	(table) => [
+		unique().on(table.organizationId, table.idempotencyKey),
+		index().on(table.organizationId, table.periodStart),
+	],
+);
+
+export const billingPlan = pgTable("billing_plan", {
+	id: integer("id").primaryKey(), // Order of the plan, higher plans have higher ids
+	name: text("name").notNull().unique(), // Subscriptions store the lowercased name
+	priceId: text("price_id"), // Stripe price billed monthly
+	annualDiscountPriceId: text("annual_discount_price_id"), // Stripe price billed yearly
+	stripeProductId: text("stripe_product_id").unique(), // Product the prices were synced from
+	seats: integer("seats").notNull().default(1),
+	monthlyCredits: integer("monthly_credits").notNull().default(0),
+	trialDays: integer("trial_days").notNull().default(0), // Free trial of new subscriptions, 0 for none
+	features: json("features").$type<PlanFeature[]>().notNull().default([]),
+	recommended: boolean("recommended").notNull().default(false),
+	active: boolean("active").notNull().default(true), // Inactive plans are not offered
+	createdAt: timestamp("created_at").notNull().defaultNow(),
+	updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Failed payments of a subscription, one row per dunning episode
+export const subscriptionDunning = pgTable(
+	"subscription_dunning",
+	{
+		id: text("id").primaryKey(),
+		subscriptionId: text("subscription_id")
+			.notNull()
+			.references(() => subscription.id, { onDelete: "cascade" }),
+		organizationId: text("organization_id").notNull(), // Subscription reference
+		stripeInvoiceId: text("stripe_invoice_id").notNull(), // Latest invoice that failed
+		invoiceUrl: text("invoice_url"), // Stripe hosted page to pay the invoice
+		attemptCount: integer("attempt_count").notNull().default(1),
+		nextPaymentAttempt: timestamp("next_payment_attempt"), // Next automatic retry, if any
+		failedAt: timestamp("failed_at").notNull(), // First failure, the grace period starts here
+		resolvedAt: timestamp("resolved_at"), // Paid, or the subscription ended
+		createdAt: timestamp("created_at").notNull().defaultNow(),
+		updatedAt: timestamp("updated_at").notNull().defaultNow(),
+	},
+	(table) => [index().on(table.subscriptionId), index().on(table.resolvedAt)],
+);
+
+// Stripe webhook events, stored by event id so each is processed once
+export const stripeEvent = pgTable(
+	"stripe_event",
+	{
+		id: text("id").primaryKey(), // Stripe event id, e.g. evt_...
+		type: text("type").notNull(), // e.g. customer.subscription.updated
+		status: text("status").notNull().default("pending"), // pending, processing, processed, failed
+		payload: json("payload").$type<Stripe.Event>().notNull(),
+		attempts: integer("attempts").notNull().default(0),
+		lastError: text("last_error"),
+		livemode: boolean("livemode").notNull().default(false),
+		createdAt: timestamp("created_at").notNull(), // When Stripe created the event
+		receivedAt: timestamp("received_at").notNull().defaultNow(),
+		processedAt: timestamp("processed_at"), // First successful processing
+		updatedAt: timestamp("updated_at").notNull().defaultNow(),
+	},
+	(table) => [
+		index().on(table.receivedAt),
+		index().on(table.status),
+		index().on(table.type),
+	],
+);
+
 // Export types for type-safe database operations
 export type User = typeof user.$inferSelect;
 export type NewUser = typeof user.$inferInsert;
@@ -363,3 +590,29 @@ export type NewSubscription = typeof subscription.$inferInsert;
 // API key types
 export type ApiKey = typeof apikey.$inferSelect;
 export type NewApiKey = typeof apikey.$inferInsert;
+
+// Email outbox types
+export type EmailOutbox = typeof emailOutbox.$inferSelect;
+export type NewEmailOutbox = typeof emailOutbox.$inferInsert;
+export type EmailMessage = typeof emailMessage.$inferSelect;
+export type NewEmailMessage = typeof emailMessage.$inferInsert;
+export type EmailSuppression = typeof emailSuppression.$inferSelect;
+export type NewEmailSuppression = typeof emailSuppression.$inferInsert;
+export type EmailPreference = typeof emailPreference.$inferSelect;
+export type NewEmailPreference = typeof emailPreference.$inferInsert;
+export type OrganizationEmailBranding =
+	typeof organizationEmailBranding.$inferSelect;
+export type NewOrganizationEmailBranding =
+	typeof organizationEmailBranding.$inferInsert;
+export type ScheduledEmail = typeof scheduledEmail.$inferSelect;
+export type NewScheduledEmail = typeof scheduledEmail.$inferInsert;
+export type InboundEmail = typeof inboundEmail.$inferSelect;
+export type NewInboundEmail = typeof inboundEmail.$inferInsert;
+export type CreditLedgerEntry = typeof creditLedger.$inferSelect;
+export type NewCreditLedgerEntry = typeof creditLedger.$inferInsert;
+export type BillingPlan = typeof billingPlan.$inferSelect;
+export type NewBillingPlan = typeof billingPlan.$inferInsert;
+export type SubscriptionDunning = typeof subscriptionDunning.$inferSelect;
+export type NewSubscriptionDunning = typeof subscriptionDunning.$inferInsert;
+export type StripeEvent = typeof stripeEvent.$inferSelect;
+export type NewStripeEvent = typeof stripeEvent.$inferInsert;
@@ -1,5 +1,20 @@
 import { z } from "zod";
 
+const emailProviderNames = [
+	"console",
+	"smtp",
+	"resend",
+	"postmark",
+	"ses",
+	"sendgrid",
+	"inbox",
+] as const;
+
+// Comma separated providers with optional weights, e.g. "smtp:90,resend:10"
+const emailProviderListPattern = new RegExp(
+	`^(${emailProviderNames.join("|")})(:\\d+)?(,(${emailProviderNames.join("|")})(:\\d+)?)*$`,
+);
+
 /**
  * Environment Variables Schema
  *
@@ -7,6 +22,7 @@ import { z } from "zod";
  * - Database connection
  * - Better Auth configuration
  * - Social authentication providers
+ * - Email providers (SMTP or HTTP APIs)
  * - E2E testing configuration (MailDev)
  */
 const envSchema = z
@@ -61,9 +77,86 @@ const envSchema = z
 		SMTP_USER: z.string().optional(),
 		SMTP_PASS: z.string().optional(),
 		SMTP_FROM: z.string().email("Invalid SMTP FROM email address").optional(),
+		// DKIM signing for SMTP (selector and private key go together)
+		SMTP_DKIM_SELECTOR: z.string().optional(),
+		SMTP_DKIM_PRIVATE_KEY: z
+			.string()
+			.startsWith(
+				"-----BEGIN",
+				"SMTP_DKIM_PRIVATE_KEY must be a PEM private key",
+			)
+			.optional(),
+		SMTP_DKIM_DOMAIN: z.string().optional(), // Defaults to the domain of the sender address
+
+		// Email provider selection (auto-detected from SMTP config when not set)
+		EMAIL_PROVIDER: z.enum(emailProviderNames).optional(),
+		// Ordered failover list, takes precedence over EMAIL_PROVIDER
+		EMAIL_PROVIDERS: z
+			.string()
+			.regex(
+				emailProviderListPattern,
+				'EMAIL_PROVIDERS must look like "smtp:90,resend:10"',
+			)
+			.optional(),
+		EMAIL_FROM: z.string().email("Invalid EMAIL_FROM email address").optional(), // Sender for API providers, defaults to SMTP_FROM
+		EMAIL_FROM_BILLING: z
+			.string()
+			.email("Invalid EMAIL_FROM_BILLING email address")
+			.optional(), // Sender for billing emails, defaults to EMAIL_FROM
+		// Directory the inbox provider stores emails in, kept in memory when not set
+		EMAIL_INBOX_DIR: z.string().optional(),
+
+		// HTTP email providers (only the selected one needs to be configured)
+		RESEND_API_KEY: z.string().optional(),
+		RESEND_API_URL: z.string().url("Invalid Resend API URL").optional(),
+		POSTMARK_SERVER_TOKEN: z.string().optional(),
+		POSTMARK_MESSAGE_STREAM: z.string().optional(),
+		POSTMARK_API_URL: z.string().url("Invalid Postmark API URL").optional(),
+		SENDGRID_API_KEY: z.string().optional(),
+		SENDGRID_API_URL: z.string().url("Invalid SendGrid API URL").optional(),
+		AWS_SES_REGION: z.string().optional(),
+		AWS_SES_ACCESS_KEY_ID: z.string().optional(),
+		AWS_SES_SECRET_ACCESS_KEY: z.string().optional(),
+		AWS_SES_API_URL: z.string().url("Invalid SES API URL").optional(),
+
+		// Bounce and complaint webhooks (POST /api/emails/webhooks/[provider])
+		RESEND_WEBHOOK_SECRET: z.string().optional(),
+		POSTMARK_WEBHOOK_TOKEN: z.string().optional(),
+		SENDGRID_WEBHOOK_PUBLIC_KEY: z.string().optional(),
+		AWS_SES_WEBHOOK_TOPIC_ARN: z.string().optional(),
 
 		STRIPE_SECRET_KEY: z.string().optional(),
 		STRIPE_WEBHOOK_SECRET: z.string().optional(),
+		STRIPE_PUBLISHABLE_KEY: z.string().optional(), // Stripe.js key for adding payment methods in the app
+		STRIPE_LOCAL: z.enum(["true", "false"]).optional(), // true: in-memory Stripe stand-in outside production, for offline development and tests
+
+		// Monthly credits (limits.monthlyCredits of each plan)
+		CREDIT_LIMIT_MODE: z.enum(["hard", "soft"]).default("hard"), // soft: usage over the limit is allowed and billed as overage
+		STRIPE_CREDITS_METER_EVENT: z.string().optional(), // Stripe billing meter event name overage is reported to
+
+		// Free trials (trialDays of each plan)
+		TRIAL_MODE: z.enum(["card", "no_card"]).default("card"), // no_card: trials start without a card and cancel if none is added
+
+		// Failed payments (past_due and unpaid subscriptions)
+		DUNNING_GRACE_DAYS: z.coerce.number().int().min(0).max(90).default(14), // Days from the first failed payment until the free plan applies
+
+		// Inbound email (POST /api/emails/inbound or the local SMTP listener)
+		INBOUND_EMAIL_DOMAIN: z.string().optional(), // Domain replies are received on, e.g. reply.yourapp.com
+		INBOUND_EMAIL_SECRET: z
+			.string()
+			.min(16, "Inbound email secret must be at least 16 characters")
+			.optional(),
+		INBOUND_SMTP_PORT: z
+			.string()
+			.regex(/^\d+$/, "INBOUND_SMTP_PORT must be a port number")
+			.optional(),
+		INBOUND_SMTP_HOST: z.string().default("127.0.0.1"),
+
+		// Shared secret for scheduled jobs (e.g. the email outbox worker)
+		CRON_SECRET: z
+			.string()
+			.min(16, "Cron secret must be at least 16 characters")
+			.optional(),
 	})
 	.refine(
 		(data) => {
@@ -77,7 +170,12 @@ const envSchema = z
 			message: "SMTP_FROM is required when SMTP_HOST is defined",
 			path: ["SMTP_FROM"], // This will show the error on the SMTP_FROM field
 		},
-	);
+	)
+	.refine((data) => !data.SMTP_DKIM_SELECTOR === !data.SMTP_DKIM_PRIVATE_KEY, {
+		message:
+			"SMTP_DKIM_SELECTOR and SMTP_DKIM_PRIVATE_KEY must be set together",
+		path: ["SMTP_DKIM_PRIVATE_KEY"],
+	});
 
 /**
  * Validated Environment Variables
@@ -127,10 +225,55 @@ export const env = envSchema.parse({
 	SMTP_USER: process.env.SMTP_USER,
 	SMTP_PASS: process.env.SMTP_PASS,
 	SMTP_FROM: process.env.SMTP_FROM,
+	SMTP_DKIM_SELECTOR: process.env.SMTP_DKIM_SELECTOR || undefined,
+	// Keys in .env files usually have escaped line breaks
+	SMTP_DKIM_PRIVATE_KEY:
+		process.env.SMTP_DKIM_PRIVATE_KEY?.replace(/\\n/g, "\n") || undefined,
+	SMTP_DKIM_DOMAIN: process.env.SMTP_DKIM_DOMAIN || undefined,
+
+	// Email provider selection
+	EMAIL_PROVIDER: process.env.EMAIL_PROVIDER || undefined,
+	EMAIL_PROVIDERS: process.env.EMAIL_PROVIDERS || undefined,
+	EMAIL_FROM: process.env.EMAIL_FROM || undefined,
+	EMAIL_FROM_BILLING: process.env.EMAIL_FROM_BILLING || undefined,
+	EMAIL_INBOX_DIR: process.env.EMAIL_INBOX_DIR || undefined,
+
+	// HTTP email providers
+	RESEND_API_KEY: process.env.RESEND_API_KEY,
+	RESEND_API_URL: process.env.RESEND_API_URL,
+	POSTMARK_SERVER_TOKEN: process.env.POSTMARK_SERVER_TOKEN,
+	POSTMARK_MESSAGE_STREAM: process.env.POSTMARK_MESSAGE_STREAM,
+	POSTMARK_API_URL: process.env.POSTMARK_API_URL,
+	SENDGRID_API_KEY: process.env.SENDGRID_API_KEY,
+	SENDGRID_API_URL: process.env.SENDGRID_API_URL,
+	AWS_SES_REGION: process.env.AWS_SES_REGION,
+	AWS_SES_ACCESS_KEY_ID: process.env.AWS_SES_ACCESS_KEY_ID,
+	AWS_SES_SECRET_ACCESS_KEY: process.env.AWS_SES_SECRET_ACCESS_KEY,
+	AWS_SES_API_URL: process.env.AWS_SES_API_URL,
+	RESEND_WEBHOOK_SECRET: process.env.RESEND_WEBHOOK_SECRET,
+	POSTMARK_WEBHOOK_TOKEN: process.env.POSTMARK_WEBHOOK_TOKEN,
+	SENDGRID_WEBHOOK_PUBLIC_KEY: process.env.SENDGRID_WEBHOOK_PUBLIC_KEY,
+	AWS_SES_WEBHOOK_TOPIC_ARN: process.env.AWS_SES_WEBHOOK_TOPIC_ARN,
 
 	// Stripe payment processing
 	STRIPE_SECRET_KEY: process.env.STRIPE_SECRET_KEY,
 	STRIPE_WEBHOOK_SECRET: process.env.STRIPE_WEBHOOK_SECRET,
+	STRIPE_PUBLISHABLE_KEY: process.env.STRIPE_PUBLISHABLE_KEY || undefined,
+	STRIPE_LOCAL: process.env.STRIPE_LOCAL || undefined,
+	CREDIT_LIMIT_MODE: process.env.CREDIT_LIMIT_MODE || undefined,
+	STRIPE_CREDITS_METER_EVENT:
+		process.env.STRIPE_CREDITS_METER_EVENT || undefined,
+	TRIAL_MODE: process.env.TRIAL_MODE || undefined,
+	DUNNING_GRACE_DAYS: process.env.DUNNING_GRACE_DAYS || undefined,
+
+	// Inbound email
+	INBOUND_EMAIL_DOMAIN: process.env.INBOUND_EMAIL_DOMAIN || undefined,
+	INBOUND_EMAIL_SECRET: process.env.INBOUND_EMAIL_SECRET || undefined,
+	INBOUND_SMTP_PORT: process.env.INBOUND_SMTP_PORT || undefined,
+	INBOUND_SMTP_HOST: process.env.INBOUND_SMTP_HOST || undefined,
+
+	// Scheduled jobs
+	CRON_SECRET: process.env.CRON_SECRET || undefined,
 });
 
 // Export the type for use in other files
@@ -1,4 +1,5 @@
 import "server-only";
+import { timingSafeEqual } from "node:crypto";
 import { env } from "./env";
 
 export function getTrustedOrigins() {
@@ -10,3 +11,33 @@ export function getTrustedOrigins() {
 
 	return Array.from(new Set(origins));
 }
+
+/**
+ * Check that a scheduled job request carries `Authorization: Bearer <CRON_SECRET>`
+ *
+ * Always rejects when CRON_SECRET is not configured.
+ */
+export function isAuthorizedCronRequest(request: Request): boolean {
+	return hasBearerToken(request, env.CRON_SECRET);
+}
+
+/**
+ * Check that a request carries `Authorization: Bearer <secret>`
+ *
+ * Always rejects when the secret is not configured.
+ */
+export function hasBearerToken(
+	request: Request,
+	secret: string | undefined,
+): boolean {
+	if (!secret) {
+		return false;
+	}
+
+	const expected = Buffer.from(`Bearer ${secret}`);
+	const received = Buffer.from(request.headers.get("authorization") ?? "");
+
+	return (
+		expected.length === received.length && timingSafeEqual(expected, received)
+	);
+}
@@ -1,8 +1,65 @@
 import "server-only";
 import Stripe from "stripe";
+import type {
+	LocalStripeBackend,
+	LocalStripeOptions,
+} from "@/modules/billing/local-stripe";
 
 const stripeSecretKey = process.env.STRIPE_SECRET_KEY;
 const stripeWebhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
+const appUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+
+const localStripeOptions: LocalStripeOptions = {
+	appUrl,
+	webhookSecret: stripeWebhookSecret,
+	webhookUrl: `${appUrl}/api/auth/stripe/webhook`,
+};
+
+/**
+ * In-memory Stripe stand-in for offline development and tests (see
+ * src/modules/billing/local-stripe), undefined unless STRIPE_LOCAL=true.
+ *
+ * The backend is imported on first use. NODE_ENV is inlined by the build,
+ * so production bundles never include it.
+ */
+export async function getLocalStripe(): Promise<
+	LocalStripeBackend | undefined
+> {
+	if (
+		process.env.NODE_ENV !== "production" &&
+		process.env.STRIPE_LOCAL === "true"
+	) {
+		const { getLocalStripeBackend } = await import(
+			"@/modules/billing/local-stripe"
+		);
+		return getLocalStripeBackend(localStripeOptions);
+	}
+
+	return undefined;
+}
+
+function createStripeClient(secretKey: string): Stripe {
+	if (
+		process.env.NODE_ENV !== "production" &&
+		process.env.STRIPE_LOCAL === "true"
+	) {
+		// Same client as `createLocalStripeClient`, the backend is loaded by
+		// the first request
+		return new Stripe(secretKey, {
+			httpClient: Stripe.createFetchHttpClient(
+				async (...request: Parameters<LocalStripeBackend["fetch"]>) => {
+					const { getLocalStripeBackend } = await import(
+						"@/modules/billing/local-stripe"
+					);
+					return getLocalStripeBackend(localStripeOptions).fetch(...request);
+				},
+			),
+			maxNetworkRetries: 0,
+		});
+	}
+
+	return new Stripe(secretKey);
+}
 
 /**
  * Centralized Stripe client singleton.
@@ -14,7 +71,7 @@ const stripeWebhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
  * If Stripe is not configured (no secret key), this will be undefined.
  */
 export const stripeClient: Stripe | undefined = stripeSecretKey
-	? new Stripe(stripeSecretKey)
+	? createStripeClient(stripeSecretKey)
 	: undefined;
 
 /**
@@ -1,4 +1,4 @@
-import { eq, inArray } from "drizzle-orm";
+import { and, eq, inArray } from "drizzle-orm";
 import { db } from "@/lib/db";
 import { member, organization } from "@/lib/db/schema";
 
@@ -26,3 +26,21 @@ export async function getDefaultOrganization(userId: string) {
 
 	return null;
 }
+
+/**
+ * Get the role of a user in an organization, null when not a member
+ */
+export async function getMemberRole(
+	userId: string,
+	organizationId: string,
+): Promise<string | null> {
+	const [membership] = await db
+		.select({ role: member.role })
+		.from(member)
+		.where(
+			and(eq(member.userId, userId), eq(member.organizationId, organizationId)),
+		)
+		.limit(1);
+
+	return membership?.role ?? null;
+}
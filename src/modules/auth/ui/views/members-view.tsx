@@ -9,6 +9,7 @@ import {
 	BreadcrumbSeparator,
 } from "@/components/ui/breadcrumb";
 import { useBetterAuthClassNames } from "@/hooks/use-better-auth-classnames";
+import { SeatUsageCard } from "@/modules/billing/ui/components/seat-usage-card";
 
 export const MembersView = () => {
 	const tNav = useTranslations("navigation");
@@ -27,7 +28,8 @@ export const MembersView = () => {
 					</BreadcrumbItem>
 				</BreadcrumbList>
 			</Breadcrumb>
-			<div className="w-full max-w-5xl mx-auto">
+			<div className="w-full max-w-5xl mx-auto flex flex-col gap-y-6">
+				<SeatUsageCard />
 				<OrganizationMembersCard classNames={classNames.card} />
 			</div>
 		</div>
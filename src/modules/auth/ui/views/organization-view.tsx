@@ -11,8 +11,16 @@ import {
 	BreadcrumbSeparator,
 } from "@/components/ui/breadcrumb";
 import { useBetterAuthClassNames } from "@/hooks/use-better-auth-classnames";
+import { EmailBrandingSection } from "@/modules/emails/ui/views/email-branding-section";
 
-export const OrganizationView = () => {
+interface Props {
+	/**
+	 * Owners and admins can customize the organization's emails
+	 */
+	canManageEmailBranding?: boolean;
+}
+
+export const OrganizationView = ({ canManageEmailBranding }: Props) => {
 	const tNav = useTranslations("navigation");
 	const classNames = useBetterAuthClassNames();
 
@@ -29,8 +37,9 @@ export const OrganizationView = () => {
 					</BreadcrumbItem>
 				</BreadcrumbList>
 			</Breadcrumb>
-			<div className="w-full max-w-5xl mx-auto">
+			<div className="w-full max-w-5xl mx-auto flex flex-col gap-y-8">
 				<OrganizationSettingsCards classNames={classNames} />
+				{canManageEmailBranding && <EmailBrandingSection />}
 			</div>
 		</div>
 	);
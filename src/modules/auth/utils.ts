@@ -0,0 +1,4 @@
+// Better Auth admin plugin roles are comma separated when a user has several
+export function isAdmin(user: { role?: string | null }) {
+	return user.role?.split(",").includes("admin") ?? false;
+}
@@ -0,0 +1,91 @@
+import { z } from "zod";
+import { PlanFeature, type PlanIssue } from "./plans";
+
+/**
+ * Plan Catalog Types
+ *
+ * Paid plans offered by the app, edited by admins or synced from Stripe
+ * products. Shared by the admin plans editor and the tRPC procedures
+ * validating it.
+ */
+
+export interface CatalogPlan {
+	id: number;
+	name: string;
+	priceId: string;
+	annualDiscountPriceId: string;
+	stripeProductId: string | null;
+	seats: number;
+	monthlyCredits: number;
+	/**
+	 * Free trial of new subscriptions, 0 for none
+	 */
+	trialDays: number;
+	features: PlanFeature[];
+	recommended: boolean;
+	active: boolean;
+	/**
+	 * Why the plan isn't offered, empty when it is valid
+	 */
+	issues: PlanIssue[];
+}
+
+export interface PlanSyncResult {
+	created: string[];
+	updated: string[];
+	/**
+	 * Stripe products without both a monthly and a yearly price
+	 */
+	skipped: string[];
+}
+
+type CatalogPlanField =
+	| "name"
+	| "priceId"
+	| "seats"
+	| "monthlyCredits"
+	| "trialDays";
+
+const defaultMessages: Record<CatalogPlanField, string> = {
+	name: "Name is required and must be at most 50 characters",
+	priceId: "Stripe price IDs start with price_",
+	seats: "Plans include at least 1 seat",
+	monthlyCredits: "Credits can't be negative",
+	trialDays: "Trials last from 0 to 730 days",
+};
+
+/**
+ * Build the catalog plan schema, with translated messages on the client
+ *
+ * Plans without an id are created after the existing ones.
+ */
+export const createCatalogPlanSchema = (
+	messages: Record<CatalogPlanField, string> = defaultMessages,
+) => {
+	const priceId = z
+		.string()
+		.trim()
+		.regex(/^(price_\w+)?$/, messages.priceId);
+
+	return z.object({
+		id: z.number().int().positive().optional(),
+		name: z.string().trim().min(1, messages.name).max(50, messages.name),
+		priceId,
+		annualDiscountPriceId: priceId,
+		seats: z.coerce.number().int().min(1, messages.seats),
+		monthlyCredits: z.coerce.number().int().min(0, messages.monthlyCredits),
+		// Longest trial Stripe allows
+		trialDays: z.coerce
+			.number()
+			.int()
+			.min(0, messages.trialDays)
+			.max(730, messages.trialDays),
+		features: z.array(z.nativeEnum(PlanFeature)),
+		recommended: z.boolean(),
+		active: z.boolean(),
+	});
+};
+
+export type CatalogPlanInput = z.infer<
+	ReturnType<typeof createCatalogPlanSchema>
+>;
@@ -0,0 +1,78 @@
+/**
+ * Monthly Credits
+ *
+ * Every plan includes `limits.monthlyCredits`. Usage is recorded in the
+ * organization's credit ledger and counted per credit period: a month
+ * starting on the day of the subscription's billing period, so credits
+ * reset together with the invoice.
+ */
+
+export enum CreditLimitMode {
+	/**
+	 * Usage over the remaining credits is rejected
+	 */
+	HARD = "hard",
+	/**
+	 * Usage over the remaining credits is recorded as overage
+	 */
+	SOFT = "soft",
+}
+
+export enum CreditEntryType {
+	USAGE = "usage",
+	GRANT = "grant",
+}
+
+export interface CreditPeriod {
+	start: Date;
+	end: Date;
+}
+
+/**
+ * The anchor moved by a number of months, on the same day of the month
+ * or the last day of shorter months (Jan 31 -> Feb 28)
+ */
+function addMonths(anchor: Date, months: number): Date {
+	const year = anchor.getUTCFullYear();
+	const month = anchor.getUTCMonth() + months;
+	const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+	return new Date(
+		Date.UTC(
+			year,
+			month,
+			Math.min(anchor.getUTCDate(), lastDay),
+			anchor.getUTCHours(),
+			anchor.getUTCMinutes(),
+			anchor.getUTCSeconds(),
+			anchor.getUTCMilliseconds(),
+		),
+	);
+}
+
+/**
+ * The monthly credit period containing `now`
+ *
+ * Periods start on the day of `anchor`, the subscription's period start,
+ * also for yearly subscriptions. Without a subscription, periods are
+ * calendar months (UTC).
+ */
+export function getCreditPeriod(
+	anchor: Date | null | undefined,
+	now = new Date(),
+): CreditPeriod {
+	const start = anchor ?? new Date(Date.UTC(now.getUTCFullYear(), 0, 1));
+
+	let months =
+		(now.getUTCFullYear() - start.getUTCFullYear()) * 12 +
+		(now.getUTCMonth() - start.getUTCMonth());
+
+	if (addMonths(start, months) > now) {
+		months--;
+	}
+
+	return {
+		start: addMonths(start, months),
+		end: addMonths(start, months + 1),
+	};
+}
@@ -0,0 +1,60 @@
+import { z } from "zod";
+
+/**
+ * Trials and Discounts Types
+ *
+ * Free trials come from the plan's trial days, discounts from Stripe coupons
+ * redeemed with a promotion code at checkout. Amounts are in the smallest
+ * currency unit.
+ */
+
+export enum TrialMode {
+	/**
+	 * Checkout asks for a card before the trial starts
+	 */
+	CARD = "card",
+	/**
+	 * The trial starts without a card and is canceled at its end if none was
+	 * added
+	 */
+	NO_CARD = "no_card",
+}
+
+export interface Discount {
+	name: string;
+	/**
+	 * Promotion code the discount was redeemed with, if any
+	 */
+	code: string | null;
+	percentOff: number | null;
+	amountOff: number | null;
+	currency: string | null;
+	duration: "once" | "repeating" | "forever";
+	durationInMonths: number | null;
+}
+
+export interface ActiveDiscount extends Discount {
+	id: string;
+	/**
+	 * ISO date the discount stops applying, null when it doesn't end
+	 */
+	end: string | null;
+}
+
+export interface SubscriptionTrial {
+	/**
+	 * ISO date the trial ends and the first invoice is billed
+	 */
+	end: string;
+	/**
+	 * Without one the subscription is canceled when the trial ends
+	 */
+	hasPaymentMethod: boolean;
+}
+
+export const promotionCodeSchema = z
+	.string()
+	.trim()
+	.min(1)
+	.max(50)
+	.regex(/^[\w-]+$/);
@@ -0,0 +1,107 @@
+import { SubscriptionStatus } from "./plans";
+
+/**
+ * Dunning Types
+ *
+ * A subscription whose invoice payment failed is past due, and unpaid once
+ * Stripe stops retrying. It keeps its plan for a grace period from the first
+ * failure while the owner is emailed, then the organization is on the free
+ * plan until the invoice is paid.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DUNNING_STATUSES = [
+	SubscriptionStatus.PAST_DUE,
+	SubscriptionStatus.UNPAID,
+];
+
+export function isDunningStatus(status: string | null | undefined) {
+	return DUNNING_STATUSES.includes(status as SubscriptionStatus);
+}
+
+/**
+ * Emails of the failed payment sequence, in the order they are sent
+ */
+export enum DunningStep {
+	FAILED = "failed",
+	REMINDER = "reminder",
+	FINAL_NOTICE = "finalNotice",
+	DOWNGRADED = "downgraded",
+}
+
+export interface DunningStatus {
+	status: SubscriptionStatus;
+	plan: string;
+	/**
+	 * ISO date of the first failed payment
+	 */
+	failedAt: string;
+	/**
+	 * ISO date the organization moves to the free plan
+	 */
+	graceEndsAt: string;
+	downgraded: boolean;
+	attemptCount: number;
+	/**
+	 * ISO date Stripe retries the payment, null when it won't
+	 */
+	nextPaymentAttempt: string | null;
+	/**
+	 * Stripe hosted page to pay the failed invoice
+	 */
+	invoiceUrl: string | null;
+}
+
+export function getGraceEnd(failedAt: Date, graceDays: number): Date {
+	return new Date(failedAt.getTime() + graceDays * DAY_MS);
+}
+
+export function isGracePeriodOver(
+	failedAt: Date,
+	graceDays: number,
+	now = new Date(),
+) {
+	return now >= getGraceEnd(failedAt, graceDays);
+}
+
+/**
+ * Day after the first failure each email of the sequence is sent on
+ *
+ * A reminder halfway through and a final notice the day before the
+ * downgrade. Steps that would fall on the same day as a later one are
+ * skipped, so short grace periods send fewer emails.
+ */
+export function getDunningSchedule(
+	graceDays: number,
+): { step: DunningStep; day: number }[] {
+	const steps = [
+		{ step: DunningStep.FAILED, day: 0 },
+		{ step: DunningStep.REMINDER, day: Math.floor(graceDays / 2) },
+		{ step: DunningStep.FINAL_NOTICE, day: graceDays - 1 },
+		{ step: DunningStep.DOWNGRADED, day: graceDays },
+	];
+
+	return steps.filter(
+		({ day }, index) =>
+			day >= 0 && steps.slice(index + 1).every((later) => later.day > day),
+	);
+}
+
+/**
+ * Latest email of the sequence that is due
+ *
+ * Only the latest one is sent, a step missed while the scheduler wasn't
+ * running is not sent late.
+ */
+export function getDueDunningStep(
+	failedAt: Date,
+	graceDays: number,
+	now = new Date(),
+): DunningStep {
+	const due = getDunningSchedule(graceDays).filter(
+		({ day }) => failedAt.getTime() + day * DAY_MS <= now.getTime(),
+	);
+
+	return due[due.length - 1]?.step ?? DunningStep.FAILED;
+}
@@ -0,0 +1,20 @@
+import { useSuspenseQuery } from "@tanstack/react-query";
+import { useTRPC } from "@/trpc/client";
+import { type PlanFeature, planHasFeature } from "../plans";
+
+/**
+ * Plan features and limits of the active organization
+ * Suspends while loading, render it inside a Suspense boundary
+ */
+export function useEntitlements() {
+	const trpc = useTRPC();
+	const { data: entitlements } = useSuspenseQuery(
+		trpc.billing.getEntitlements.queryOptions(),
+	);
+
+	return {
+		entitlements,
+		hasFeature: (feature: PlanFeature) =>
+			Boolean(entitlements && planHasFeature(entitlements, feature)),
+	};
+}
@@ -0,0 +1,37 @@
+import { useTranslations } from "next-intl";
+import type { Plan } from "../plans";
+
+// Plans with marketing copy in `billing.plans`
+const TRANSLATED_PLANS = ["free", "basic", "plus", "pro"];
+
+/**
+ * Name and feature bullets of a plan
+ *
+ * Catalog plans without translations show their name and limits.
+ */
+export function usePlanCopy() {
+	const t = useTranslations("billing");
+
+	return (plan: Pick<Plan, "name" | "limits">) => {
+		const key = plan.name.toLowerCase();
+
+		if (!TRANSLATED_PLANS.includes(key)) {
+			return {
+				name: plan.name,
+				features: [
+					t("limits.seats", { count: plan.limits.seats }),
+					t("limits.monthlyCredits", { count: plan.limits.monthlyCredits }),
+				],
+			};
+		}
+
+		const features = t.raw(`plans.${key}.features`) as
+			| Record<string, string>
+			| undefined;
+
+		return {
+			name: t(`plans.${key}.name`),
+			features: features ? Object.values(features) : [],
+		};
+	};
+}
@@ -0,0 +1,1617 @@
+import { createHmac, randomBytes } from "node:crypto";
+import type Stripe from "stripe";
+import { LocalStripeError } from "./errors";
+import { LOCAL_STRIPE_PRODUCTS } from "./fixtures";
+import {
+	decodeStripeParams,
+	getBoolean,
+	getList,
+	getNumber,
+	getObject,
+	getString,
+	getStringRecord,
+	type StripeParams,
+} from "./params";
+
+/**
+ * Local Stripe Backend
+ *
+ * An in-memory stand-in for the part of the Stripe API the app uses:
+ * products, prices, customers, subscriptions, invoices, Checkout and
+ * billing portal sessions. The real Stripe SDK talks to it through `fetch`,
+ * so the same code runs against it and against Stripe.
+ * - Checkout and portal session URLs open local pages that complete them
+ * - Every change emits the event Stripe would, signed with the webhook
+ *   secret and POSTed to the webhook URL one after the other
+ * - Renewals, and their failed payments, happen when `renewSubscription`
+ *   is called rather than with time
+ */
+
+export interface LocalStripeOptions {
+	/**
+	 * App URL the local Checkout and billing portal pages are served from
+	 */
+	appUrl: string;
+	/**
+	 * Events are signed with the secret and POSTed to the URL, when both are
+	 * set, and only recorded otherwise
+	 */
+	webhookSecret?: string;
+	webhookUrl?: string;
+	/**
+	 * Start without the products of the fixtures
+	 */
+	empty?: boolean;
+	now?: () => Date;
+}
+
+type Handler = (params: StripeParams, id: string) => unknown;
+
+type InvoiceLinePeriod = { start: number; end: number };
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+// Objects are built from the fields the app and the Stripe plugin read
+const build = <T>(value: Partial<T>) => value as T;
+
+const clone = <T>(value: T): T => structuredClone(value);
+
+const createId = (prefix: string) =>
+	`${prefix}_local${randomBytes(8).toString("hex")}`;
+
+const resourceMissing = (resource: string, id: string) =>
+	new LocalStripeError(`No such ${resource}: '${id}'`, 404, "resource_missing");
+
+const formatAmount = (amount: number, currency: string) =>
+	`${(amount / 100).toFixed(2)} ${currency.toUpperCase()}`;
+
+/**
+ * Top-level fields that changed, with their previous value
+ */
+const getPreviousAttributes = <T extends object>(before: T, after: T) =>
+	Object.fromEntries(
+		Object.keys(after)
+			.filter(
+				(key) =>
+					JSON.stringify(before[key as keyof T]) !==
+					JSON.stringify(after[key as keyof T]),
+			)
+			.map((key) => [key, before[key as keyof T] ?? null]),
+	);
+
+export class LocalStripeBackend {
+	readonly events: Stripe.Event[] = [];
+
+	private readonly products = new Map<string, Stripe.Product>();
+	private readonly prices = new Map<string, Stripe.Price>();
+	private readonly customers = new Map<string, Stripe.Customer>();
+	private readonly subscriptions = new Map<string, Stripe.Subscription>();
+	private readonly invoices = new Map<string, Stripe.Invoice>();
+	private readonly checkoutSessions = new Map<
+		string,
+		{ session: Stripe.Checkout.Session; params: StripeParams }
+	>();
+	private readonly portalSessions = new Map<
+		string,
+		{ session: Stripe.BillingPortal.Session; flow: StripeParams }
+	>();
+	// Prorations of plan changes, billed with the next renewal
+	private readonly pendingLines = new Map<string, Stripe.InvoiceLineItem[]>();
+	private readonly routes: [string, RegExp, Handler][];
+	private invoiceCount = 0;
+	private deliveries: Promise<void> = Promise.resolve();
+
+	constructor(private readonly options: LocalStripeOptions) {
+		this.routes = [
+			["POST", /^\/v1\/products$/, (params) => this.createProduct(params)],
+			["GET", /^\/v1\/products$/, (params) => this.listProducts(params)],
+			["GET", /^\/v1\/products\/([^/]+)$/, (_, id) => this.getProduct(id)],
+			["POST", /^\/v1\/prices$/, (params) => this.createPrice(params)],
+			["GET", /^\/v1\/prices$/, (params) => this.listPrices(params)],
+			["GET", /^\/v1\/prices\/([^/]+)$/, (_, id) => this.getPrice(id)],
+			["POST", /^\/v1\/customers$/, (params) => this.createCustomer(params)],
+			["GET", /^\/v1\/customers$/, (params) => this.listCustomers(params)],
+			["GET", /^\/v1\/customers\/([^/]+)$/, (_, id) => this.getCustomer(id)],
+			[
+				"POST",
+				/^\/v1\/customers\/([^/]+)$/,
+				(params, id) => this.updateCustomer(id, params),
+			],
+			[
+				"POST",
+				/^\/v1\/subscriptions$/,
+				(params) => this.createSubscription(params),
+			],
+			[
+				"GET",
+				/^\/v1\/subscriptions$/,
+				(params) => this.listSubscriptions(params),
+			],
+			[
+				"GET",
+				/^\/v1\/subscriptions\/([^/]+)$/,
+				(_, id) => this.getSubscription(id),
+			],
+			[
+				"POST",
+				/^\/v1\/subscriptions\/([^/]+)$/,
+				(params, id) => this.updateSubscription(id, params),
+			],
+			[
+				"DELETE",
+				/^\/v1\/subscriptions\/([^/]+)$/,
+				(params, id) => this.cancelSubscription(id, params),
+			],
+			["GET", /^\/v1\/invoices$/, (params) => this.listInvoices(params)],
+			[
+				"POST",
+				/^\/v1\/invoices\/create_preview$/,
+				(params) => this.previewInvoice(params),
+			],
+			["GET", /^\/v1\/invoices\/([^/]+)$/, (_, id) => this.getInvoice(id)],
+			[
+				"POST",
+				/^\/v1\/invoices\/([^/]+)\/pay$/,
+				(_, id) => this.payInvoice(id),
+			],
+			[
+				"POST",
+				/^\/v1\/checkout\/sessions$/,
+				(params) => this.createCheckoutSession(params),
+			],
+			[
+				"GET",
+				/^\/v1\/checkout\/sessions\/([^/]+)$/,
+				(_, id) => this.getCheckoutSession(id).session,
+			],
+			[
+				"POST",
+				/^\/v1\/billing_portal\/sessions$/,
+				(params) => this.createPortalSession(params),
+			],
+			// Promotion codes are created in the Stripe dashboard, there are none
+			[
+				"GET",
+				/^\/v1\/promotion_codes$/,
+				(params) => this.toList("/v1/promotion_codes", [], params),
+			],
+			[
+				"POST",
+				/^\/v1\/billing\/meter_events$/,
+				(params) => ({
+					object: "billing.meter_event",
+					event_name: getString(params, "event_name"),
+					identifier: getString(params, "identifier") ?? createId("mev"),
+					payload: getStringRecord(params, "payload"),
+					timestamp: this.seconds(),
+					livemode: false,
+				}),
+			],
+		];
+
+		if (!options.empty) {
+			this.loadFixtures();
+		}
+	}
+
+	/**
+	 * `fetch` for `Stripe.createFetchHttpClient`, answers Stripe API requests
+	 * from memory
+	 */
+	fetch = async (
+		input: string | URL,
+		init: { method?: string; body?: unknown } = {},
+	): Promise<Response> => {
+		const url = new URL(input);
+		const method = init.method ?? "GET";
+		const params = decodeStripeParams(
+			typeof init.body === "string" && init.body
+				? init.body
+				: url.searchParams.toString(),
+		);
+
+		try {
+			return Response.json(this.request(method, url.pathname, params));
+		} catch (error) {
+			if (error instanceof LocalStripeError) {
+				return Response.json(
+					{
+						error: {
+							type: "invalid_request_error",
+							code: error.code,
+							message: error.message,
+						},
+					},
+					{ status: error.status },
+				);
+			}
+
+			throw error;
+		}
+	};
+
+	/**
+	 * Answer an API request, with the `expand` parameter applied
+	 */
+	request(method: string, path: string, params: StripeParams = {}): unknown {
+		for (const [routeMethod, pattern, handler] of this.routes) {
+			const match = method === routeMethod && pattern.exec(path);
+
+			if (match) {
+				const result = clone(handler(params, match[1] ?? ""));
+				const expand = getList(params, "expand").filter(
+					(path): path is string => typeof path === "string",
+				);
+
+				for (const path of expand) {
+					this.expand(result, path.split("."));
+				}
+
+				return result;
+			}
+		}
+
+		throw new LocalStripeError(
+			`Unrecognized request URL (${method}: ${path}), the local Stripe backend doesn't support it`,
+			404,
+		);
+	}
+
+	/**
+	 * Stripe-Signature header of a webhook payload
+	 *
+	 * Signed at the current time, Stripe rejects signatures older than five
+	 * minutes.
+	 */
+	signPayload(payload: string, timestamp = Math.floor(Date.now() / 1000)) {
+		const signature = createHmac("sha256", this.options.webhookSecret ?? "")
+			.update(`${timestamp}.${payload}`)
+			.digest("hex");
+
+		return `t=${timestamp},v1=${signature}`;
+	}
+
+	/**
+	 * Resolves once the events emitted so far were delivered
+	 */
+	async waitForWebhooks(): Promise<void> {
+		await this.deliveries;
+	}
+
+	/**
+	 * Customer-facing summary of a Checkout session, for its local page
+	 */
+	describeCheckoutSession(id: string): string[] {
+		const { params } = this.getCheckoutSession(id);
+		const trialDays = getNumber(
+			getObject(params, "subscription_data"),
+			"trial_period_days",
+		);
+		const lines = (getList(params, "line_items") as StripeParams[]).map(
+			(item) =>
+				this.describePrice(
+					this.getPrice(getString(item, "price") ?? ""),
+					getNumber(item, "quantity") ?? 1,
+				),
+		);
+
+		return trialDays ? [...lines, `${trialDays} day free trial`] : lines;
+	}
+
+	/**
+	 * What completing a billing portal session does, for its local page
+	 */
+	describePortalSession(id: string): string {
+		const { flow } = this.getPortalSession(id);
+		const type = getString(flow, "type");
+
+		if (type === "subscription_cancel") {
+			return "Cancel the subscription at the end of its period";
+		}
+
+		if (type === "subscription_update_confirm") {
+			const items = getList(
+				getObject(flow, "subscription_update_confirm"),
+				"items",
+			) as StripeParams[];
+
+			return `Switch to ${items
+				.map((item) =>
+					this.describePrice(
+						this.getPrice(getString(item, "price") ?? ""),
+						getNumber(item, "quantity") ?? 1,
+					),
+				)
+				.join(", ")}`;
+		}
+
+		return "Nothing to change, back to the app";
+	}
+
+	/**
+	 * Pay a Checkout session, which starts its subscription
+	 *
+	 * Returns the URL the customer is sent back to.
+	 */
+	completeCheckoutSession(id: string): string {
+		const { session, params } = this.getCheckoutSession(id);
+
+		if (session.status !== "open") {
+			throw new LocalStripeError("This Checkout Session is no longer open");
+		}
+
+		const customerId =
+			(session.customer as string | null) ??
+			this.createCustomer({ email: session.customer_email ?? "" }).id;
+		const subscriptionData = getObject(params, "subscription_data");
+
+		const subscription = this.startSubscription(
+			customerId,
+			(getList(params, "line_items") as StripeParams[]).map((item) => ({
+				price: getString(item, "price") ?? "",
+				quantity: getNumber(item, "quantity") ?? 1,
+			})),
+			{
+				trialDays: getNumber(subscriptionData, "trial_period_days") ?? 0,
+				metadata: getStringRecord(subscriptionData, "metadata"),
+			},
+		);
+
+		session.status = "complete";
+		session.customer = customerId;
+		session.subscription = subscription.id;
+		session.payment_status =
+			subscription.status === "trialing" ? "no_payment_required" : "paid";
+
+		this.emit("checkout.session.completed", session);
+
+		return (session.success_url ?? this.options.appUrl).replace(
+			"{CHECKOUT_SESSION_ID}",
+			id,
+		);
+	}
+
+	/**
+	 * Leave a Checkout session without paying
+	 *
+	 * Returns the URL the customer is sent back to.
+	 */
+	expireCheckoutSession(id: string): string {
+		const { session } = this.getCheckoutSession(id);
+
+		if (session.status === "open") {
+			session.status = "expired";
+			this.emit("checkout.session.expired", session);
+		}
+
+		return session.cancel_url ?? this.options.appUrl;
+	}
+
+	/**
+	 * Confirm the flow of a billing portal session
+	 *
+	 * Returns the URL the customer is sent back to.
+	 */
+	completePortalSession(id: string): string {
+		const { session, flow } = this.getPortalSession(id);
+
+		switch (getString(flow, "type")) {
+			case "subscription_cancel": {
+				const details = getObject(flow, "subscription_cancel");
+
+				this.updateSubscription(getString(details, "subscription") ?? "", {
+					cancel_at_period_end: "true",
+				});
+				break;
+			}
+			case "subscription_update_confirm": {
+				const details = getObject(flow, "subscription_update_confirm");
+
+				this.updateSubscription(getString(details, "subscription") ?? "", {
+					items: getList(details, "items"),
+					proration_behavior: "create_prorations",
+				});
+				break;
+			}
+		}
+
+		// Sessions can only be used once
+		this.portalSessions.delete(id);
+
+		return (
+			getString(
+				getObject(getObject(flow, "after_completion"), "redirect"),
+				"return_url",
+			) ??
+			session.return_url ??
+			this.options.appUrl
+		);
+	}
+
+	/**
+	 * Leave a billing portal session without confirming its flow
+	 *
+	 * Returns the URL the customer is sent back to.
+	 */
+	leavePortalSession(id: string): string {
+		const { session } = this.getPortalSession(id);
+
+		this.portalSessions.delete(id);
+
+		return session.return_url ?? this.options.appUrl;
+	}
+
+	/**
+	 * Bill the next period of a subscription
+	 *
+	 * Subscriptions set to cancel at the end of their period end instead. A
+	 * failed payment leaves the invoice open and the subscription past due,
+	 * until the invoice is paid.
+	 */
+	renewSubscription(
+		id: string,
+		{ paid = true }: { paid?: boolean } = {},
+	): Stripe.Subscription {
+		const subscription = this.getSubscription(id);
+
+		if (subscription.status === "canceled") {
+			throw new LocalStripeError("This subscription has been canceled");
+		}
+
+		const before = clone(subscription);
+		const { end } = this.getPeriod(subscription);
+
+		if (subscription.cancel_at_period_end) {
+			subscription.status = "canceled";
+			subscription.ended_at = end;
+			this.pendingLines.delete(id);
+			this.emit(
+				"customer.subscription.deleted",
+				subscription,
+				getPreviousAttributes(before, subscription),
+			);
+
+			return clone(subscription);
+		}
+
+		for (const item of subscription.items.data) {
+			item.current_period_start = end;
+			item.current_period_end = this.addInterval(end, item.price);
+		}
+
+		const invoice = this.createInvoice(
+			subscription,
+			[
+				...(this.pendingLines.get(id) ?? []),
+				...this.getPeriodLines(subscription),
+			],
+			"subscription_cycle",
+			paid,
+		);
+		this.pendingLines.delete(id);
+
+		subscription.status = paid ? "active" : "past_due";
+
+		this.emit(
+			"customer.subscription.updated",
+			subscription,
+			getPreviousAttributes(before, subscription),
+		);
+		this.emit(paid ? "invoice.paid" : "invoice.payment_failed", invoice);
+
+		return clone(subscription);
+	}
+
+	private loadFixtures() {
+		for (const product of LOCAL_STRIPE_PRODUCTS) {
+			this.createProduct({
+				id: product.id,
+				name: product.name,
+				metadata: product.metadata,
+			});
+
+			for (const [interval, price] of Object.entries(product.prices)) {
+				this.createPrice({
+					id: price.id,
+					product: product.id,
+					currency: "usd",
+					unit_amount: String(price.unitAmount),
+					recurring: { interval },
+				});
+			}
+
+			this.getProduct(product.id).default_price = product.prices.month.id;
+		}
+	}
+
+	private seconds() {
+		return Math.floor((this.options.now?.() ?? new Date()).getTime() / 1000);
+	}
+
+	private addInterval(start: number, price: Stripe.Price) {
+		const date = new Date(start * 1000);
+
+		switch (price.recurring?.interval) {
+			case "day":
+				date.setUTCDate(date.getUTCDate() + 1);
+				break;
+			case "week":
+				date.setUTCDate(date.getUTCDate() + 7);
+				break;
+			case "year":
+				date.setUTCFullYear(date.getUTCFullYear() + 1);
+				break;
+			default:
+				date.setUTCMonth(date.getUTCMonth() + 1);
+		}
+
+		return Math.floor(date.getTime() / 1000);
+	}
+
+	private getPeriod(subscription: Stripe.Subscription): InvoiceLinePeriod {
+		const [item] = subscription.items.data;
+
+		return { start: item.current_period_start, end: item.current_period_end };
+	}
+
+	private describePrice(price: Stripe.Price, quantity: number) {
+		const product = this.products.get(price.product as string);
+
+		return `${quantity} × ${product?.name ?? price.id} (at ${formatAmount(
+			price.unit_amount ?? 0,
+			price.currency,
+		)} / ${price.recurring?.interval ?? "once"})`;
+	}
+
+	private toList<T extends { id?: string }>(
+		url: string,
+		items: T[],
+		params: StripeParams,
+	) {
+		const limit = getNumber(params, "limit") ?? 10;
+		const startingAfter = getString(params, "starting_after");
+		const start = startingAfter
+			? items.findIndex((item) => item.id === startingAfter) + 1
+			: 0;
+
+		return {
+			object: "list",
+			url,
+			data: items.slice(start, start + limit),
+			has_more: start + limit < items.length,
+		};
+	}
+
+	private findById(id: string): unknown {
+		const [prefix] = id.split("_");
+		const stores: Record<string, Map<string, unknown>> = {
+			prod: this.products,
+			price: this.prices,
+			cus: this.customers,
+			sub: this.subscriptions,
+			in: this.invoices,
+		};
+
+		return stores[prefix]?.get(id);
+	}
+
+	/**
+	 * Replace the ids at `path` with their objects, e.g.
+	 * `data.items.data.price` or `latest_invoice`
+	 */
+	private expand(value: unknown, path: string[]) {
+		if (Array.isArray(value)) {
+			for (const item of value) {
+				this.expand(item, path);
+			}
+			return;
+		}
+
+		if (!value || typeof value !== "object" || path.length === 0) {
+			return;
+		}
+
+		const [key, ...rest] = path;
+		const record = value as Record<string, unknown>;
+		const field = record[key];
+
+		if (rest.length > 0) {
+			this.expand(field, rest);
+		} else if (typeof field === "string") {
+			record[key] = clone(this.findById(field)) ?? field;
+		}
+	}
+
+	private emit(
+		type: Stripe.Event.Type,
+		object: object,
+		previousAttributes?: Record<string, unknown>,
+	) {
+		const event = build<Stripe.Event>({
+			id: createId("evt"),
+			object: "event",
+			api_version: null,
+			type,
+			created: this.seconds(),
+			livemode: false,
+			pending_webhooks: 1,
+			request: { id: null, idempotency_key: null },
+			data: {
+				object: clone(object),
+				...(previousAttributes && {
+					previous_attributes: clone(previousAttributes),
+				}),
+			} as Stripe.Event["data"],
+		} as Partial<Stripe.Event>);
+
+		this.events.push(event);
+		this.deliveries = this.deliveries.then(() => this.deliver(event));
+	}
+
+	private async deliver(event: Stripe.Event) {
+		const { webhookUrl, webhookSecret } = this.options;
+
+		if (!webhookUrl || !webhookSecret) {
+			return;
+		}
+
+		const payload = JSON.stringify(event);
+
+		try {
+			const response = await globalThis.fetch(webhookUrl, {
+				method: "POST",
+				headers: {
+					"Content-Type": "application/json",
+					"Stripe-Signature": this.signPayload(payload),
+				},
+				body: payload,
+			});
+
+			if (!response.ok) {
+				console.warn(
+					`⚠️ Local Stripe webhook ${event.type} (${event.id}) answered ${response.status}`,
+				);
+			}
+		} catch (error) {
+			console.warn(
+				`⚠️ Local Stripe webhook ${event.type} (${event.id}) failed:`,
+				error,
+			);
+		}
+	}
+
+	// Products and prices
+
+	private createProduct(params: StripeParams): Stripe.Product {
+		const name = getString(params, "name");
+
+		if (!name) {
+			throw new LocalStripeError("Missing required param: name.");
+		}
+
+		const product = build<Stripe.Product>({
+			id: getString(params, "id") ?? createId("prod"),
+			object: "product",
+			active: getBoolean(params, "active") ?? true,
+			name,
+			description: getString(params, "description") ?? null,
+			default_price: null,
+			metadata: getStringRecord(params, "metadata"),
+			created: this.seconds(),
+			updated: this.seconds(),
+			livemode: false,
+		});
+
+		this.products.set(product.id, product);
+
+		return product;
+	}
+
+	private getProduct(id: string) {
+		const product = this.products.get(id);
+
+		if (!product) {
+			throw resourceMissing("product", id);
+		}
+
+		return product;
+	}
+
+	private listProducts(params: StripeParams) {
+		const active = getBoolean(params, "active");
+
+		return this.toList(
+			"/v1/products",
+			[...this.products.values()]
+				.filter((product) => active === undefined || product.active === active)
+				.reverse(),
+			params,
+		);
+	}
+
+	private createPrice(params: StripeParams): Stripe.Price {
+		const product = this.getProduct(getString(params, "product") ?? "");
+		const recurring = getObject(params, "recurring");
+		const interval = getString(recurring, "interval") as
+			| Stripe.Price.Recurring.Interval
+			| undefined;
+
+		const price = build<Stripe.Price>({
+			id: getString(params, "id") ?? createId("price"),
+			object: "price",
+			active: getBoolean(params, "active") ?? true,
+			currency: getString(params, "currency") ?? "usd",
+			unit_amount: getNumber(params, "unit_amount") ?? 0,
+			product: product.id,
+			type: interval ? "recurring" : "one_time",
+			recurring: interval
+				? build<Stripe.Price.Recurring>({
+						interval,
+						interval_count: getNumber(recurring, "interval_count") ?? 1,
+						usage_type: "licensed",
+						meter: null,
+					})
+				: null,
+			lookup_key: getString(params, "lookup_key") ?? null,
+			nickname: getString(params, "nickname") ?? null,
+			metadata: getStringRecord(params, "metadata"),
+			created: this.seconds(),
+			livemode: false,
+		});
+
+		this.prices.set(price.id, price);
+
+		return price;
+	}
+
+	private getPrice(id: string) {
+		const price = this.prices.get(id);
+
+		if (!price) {
+			throw resourceMissing("price", id);
+		}
+
+		return price;
+	}
+
+	private listPrices(params: StripeParams) {
+		const active = getBoolean(params, "active");
+		const type = getString(params, "type");
+		const product = getString(params, "product");
+		const lookupKeys = getList(params, "lookup_keys");
+
+		return this.toList(
+			"/v1/prices",
+			[...this.prices.values()]
+				.filter(
+					(price) =>
+						(active === undefined || price.active === active) &&
+						(!type || price.type === type) &&
+						(!product || price.product === product) &&
+						(!lookupKeys.length || lookupKeys.includes(price.lookup_key ?? "")),
+				)
+				.reverse(),
+			params,
+		);
+	}
+
+	// Customers
+
+	private createCustomer(params: StripeParams): Stripe.Customer {
+		const customer = build<Stripe.Customer>({
+			id: createId("cus"),
+			object: "customer",
+			email: getString(params, "email") ?? null,
+			name: getString(params, "name") ?? null,
+			phone: getString(params, "phone") ?? null,
+			address: null,
+			metadata: getStringRecord(params, "metadata"),
+			invoice_settings: build<Stripe.Customer.InvoiceSettings>({
+				default_payment_method: null,
+			}),
+			created: this.seconds(),
+			livemode: false,
+		});
+
+		this.customers.set(customer.id, customer);
+		this.emit("customer.created", customer);
+
+		return customer;
+	}
+
+	private getCustomer(id: string) {
+		const customer = this.customers.get(id);
+
+		if (!customer) {
+			throw resourceMissing("customer", id);
+		}
+
+		return customer;
+	}
+
+	private updateCustomer(id: string, params: StripeParams) {
+		const customer = this.getCustomer(id);
+		const before = clone(customer);
+		const defaultPaymentMethod = getString(
+			getObject(params, "invoice_settings"),
+			"default_payment_method",
+		);
+
+		customer.email = getString(params, "email") ?? customer.email;
+		customer.name = getString(params, "name") ?? customer.name;
+		customer.phone = getString(params, "phone") ?? customer.phone;
+		customer.metadata = {
+			...customer.metadata,
+			...getStringRecord(params, "metadata"),
+		};
+
+		if (params.address) {
+			customer.address = getStringRecord(
+				params,
+				"address",
+			) as unknown as Stripe.Address;
+		}
+
+		if (defaultPaymentMethod) {
+			customer.invoice_settings.default_payment_method = defaultPaymentMethod;
+		}
+
+		this.emit(
+			"customer.updated",
+			customer,
+			getPreviousAttributes(before, customer),
+		);
+
+		return customer;
+	}
+
+	private listCustomers(params: StripeParams) {
+		const email = getString(params, "email");
+
+		return this.toList(
+			"/v1/customers",
+			[...this.customers.values()]
+				.filter((customer) => !email || customer.email === email)
+				.reverse(),
+			params,
+		);
+	}
+
+	// Subscriptions
+
+	private getSubscription(id: string) {
+		const subscription = this.subscriptions.get(id);
+
+		if (!subscription) {
+			throw resourceMissing("subscription", id);
+		}
+
+		return subscription;
+	}
+
+	private listSubscriptions(params: StripeParams) {
+		const customer = getString(params, "customer");
+		const price = getString(params, "price");
+		// Canceled subscriptions are only listed when asked for
+		const status = getString(params, "status");
+
+		return this.toList(
+			"/v1/subscriptions",
+			[...this.subscriptions.values()]
+				.filter(
+					(subscription) =>
+						(!customer || subscription.customer === customer) &&
+						(!price ||
+							subscription.items.data.some(
+								(item) => item.price.id === price,
+							)) &&
+						(status === "all" ||
+							(status
+								? subscription.status === status
+								: subscription.status !== "canceled")),
+				)
+				.reverse(),
+			params,
+		);
+	}
+
+	private createSubscription(params: StripeParams) {
+		return this.startSubscription(
+			getString(params, "customer") ?? "",
+			(getList(params, "items") as StripeParams[]).map((item) => ({
+				price: getString(item, "price") ?? "",
+				quantity: getNumber(item, "quantity") ?? 1,
+			})),
+			{
+				trialDays: getNumber(params, "trial_period_days") ?? 0,
+				metadata: getStringRecord(params, "metadata"),
+			},
+		);
+	}
+
+	private createItem(
+		subscriptionId: string,
+		price: Stripe.Price,
+		quantity: number,
+		period: InvoiceLinePeriod,
+	) {
+		return build<Stripe.SubscriptionItem>({
+			id: createId("si"),
+			object: "subscription_item",
+			price: clone(price),
+			quantity,
+			subscription: subscriptionId,
+			current_period_start: period.start,
+			current_period_end: period.end,
+			discounts: [],
+			metadata: {},
+			created: period.start,
+		});
+	}
+
+	/**
+	 * Start a subscription, paying its first invoice right away
+	 */
+	private startSubscription(
+		customerId: string,
+		items: { price: string; quantity: number }[],
+		{ trialDays, metadata }: { trialDays: number; metadata: Stripe.Metadata },
+	) {
+		const customer = this.getCustomer(customerId);
+
+		if (!items.length) {
+			throw new LocalStripeError("Missing required param: items.");
+		}
+
+		const id = createId("sub");
+		const start = this.seconds();
+		const prices = items.map((item) => this.getPrice(item.price));
+		const trialEnd = trialDays > 0 ? start + trialDays * DAY_SECONDS : null;
+
+		const subscription = build<Stripe.Subscription>({
+			id,
+			object: "subscription",
+			customer: customer.id,
+			status: trialEnd ? "trialing" : "active",
+			currency: prices[0].currency,
+			items: {
+				object: "list",
+				data: items.map((item, index) =>
+					this.createItem(id, prices[index], item.quantity, {
+						start,
+						end: trialEnd ?? this.addInterval(start, prices[index]),
+					}),
+				),
+				has_more: false,
+				url: `/v1/subscription_items?subscription=${id}`,
+			},
+			cancel_at_period_end: false,
+			cancel_at: null,
+			canceled_at: null,
+			ended_at: null,
+			cancellation_details: { comment: null, feedback: null, reason: null },
+			trial_start: trialEnd ? start : null,
+			trial_end: trialEnd,
+			metadata,
+			latest_invoice: null,
+			default_payment_method: null,
+			collection_method: "charge_automatically",
+			billing_cycle_anchor: trialEnd ?? start,
+			start_date: start,
+			created: start,
+			livemode: false,
+		});
+
+		this.subscriptions.set(id, subscription);
+
+		// Trials start with a free invoice
+		const invoice = this.createInvoice(
+			subscription,
+			this.getPeriodLines(subscription, trialEnd !== null),
+			"subscription_create",
+			true,
+		);
+
+		this.emit("customer.subscription.created", subscription);
+		this.emit("invoice.paid", invoice);
+
+		return subscription;
+	}
+
+	/**
+	 * Cancel at the end of the period, plan changes and metadata
+	 */
+	private updateSubscription(id: string, params: StripeParams) {
+		const subscription = this.getSubscription(id);
+
+		if (subscription.status === "canceled") {
+			throw new LocalStripeError(
+				"A canceled subscription can only update its cancellation_details and metadata.",
+			);
+		}
+
+		const before = clone(subscription);
+		const cancelAtPeriodEnd = getBoolean(params, "cancel_at_period_end");
+		const items = getList(params, "items") as StripeParams[];
+		const defaultPaymentMethod = getString(params, "default_payment_method");
+		let invoice: Stripe.Invoice | undefined;
+
+		if (cancelAtPeriodEnd !== undefined) {
+			const details = getObject(params, "cancellation_details");
+
+			subscription.cancel_at_period_end = cancelAtPeriodEnd;
+			subscription.cancel_at = cancelAtPeriodEnd
+				? this.getPeriod(subscription).end
+				: null;
+			subscription.canceled_at = cancelAtPeriodEnd ? this.seconds() : null;
+			subscription.cancellation_details = {
+				reason: cancelAtPeriodEnd ? "cancellation_requested" : null,
+				comment: getString(details, "comment") ?? null,
+				feedback: (getString(details, "feedback") ??
+					null) as Stripe.Subscription.CancellationDetails.Feedback | null,
+			};
+		}
+
+		if (items.length) {
+			const prorationBehavior =
+				getString(params, "proration_behavior") ?? "create_prorations";
+			const { lines, periodReset } = this.changeItems(subscription, items, {
+				prorate: prorationBehavior !== "none",
+				prorationDate: getNumber(params, "proration_date"),
+			});
+
+			if (periodReset) {
+				// A new billing interval is billed right away
+				invoice = this.createInvoice(
+					subscription,
+					[
+						...(this.pendingLines.get(id) ?? []),
+						...lines,
+						...this.getPeriodLines(subscription),
+					],
+					"subscription_update",
+					true,
+				);
+				this.pendingLines.delete(id);
+			} else if (lines.length) {
+				this.pendingLines.set(id, [
+					...(this.pendingLines.get(id) ?? []),
+					...lines,
+				]);
+			}
+		}
+
+		if (defaultPaymentMethod) {
+			subscription.default_payment_method = defaultPaymentMethod;
+		}
+
+		if (params.metadata) {
+			subscription.metadata = {
+				...subscription.metadata,
+				...getStringRecord(params, "metadata"),
+			};
+		}
+
+		const previousAttributes = getPreviousAttributes(before, subscription);
+
+		if (Object.keys(previousAttributes).length > 0) {
+			this.emit(
+				"customer.subscription.updated",
+				subscription,
+				previousAttributes,
+			);
+		}
+
+		if (invoice) {
+			this.emit("invoice.paid", invoice);
+		}
+
+		return subscription;
+	}
+
+	/**
+	 * Switch the price or quantity of subscription items
+	 *
+	 * Returns the proration lines of the change, calculated at the proration
+	 * date. Switching to another billing interval starts a new period.
+	 */
+	private changeItems(
+		subscription: Stripe.Subscription,
+		items: StripeParams[],
+		{
+			prorate,
+			prorationDate = this.seconds(),
+		}: { prorate: boolean; prorationDate?: number },
+	) {
+		const lines: Stripe.InvoiceLineItem[] = [];
+		let periodReset = false;
+
+		for (const params of items) {
+			const itemId = getString(params, "id");
+			const item = subscription.items.data.find(({ id }) => id === itemId);
+
+			if (!item) {
+				throw resourceMissing("subscription item", itemId ?? "");
+			}
+
+			const price = this.getPrice(getString(params, "price") ?? item.price.id);
+			const quantity = getNumber(params, "quantity") ?? item.quantity ?? 1;
+			const intervalChanged =
+				item.price.recurring?.interval !== price.recurring?.interval;
+
+			if (
+				prorate &&
+				subscription.status !== "trialing" &&
+				(price.id !== item.price.id || quantity !== item.quantity)
+			) {
+				const period = {
+					start: prorationDate,
+					end: item.current_period_end,
+				};
+				const remaining = Math.min(
+					1,
+					Math.max(
+						0,
+						(item.current_period_end - prorationDate) /
+							(item.current_period_end - item.current_period_start),
+					),
+				);
+
+				lines.push(
+					this.createLine(subscription, item, item.price, item.quantity ?? 1, {
+						amount: -Math.round(
+							(item.price.unit_amount ?? 0) * (item.quantity ?? 1) * remaining,
+						),
+						description: `Unused time on ${this.describePrice(item.price, item.quantity ?? 1)}`,
+						proration: true,
+						period,
+					}),
+				);
+
+				// The new interval is billed in full, from now
+				if (!intervalChanged) {
+					lines.push(
+						this.createLine(subscription, item, price, quantity, {
+							amount: Math.round(
+								(price.unit_amount ?? 0) * quantity * remaining,
+							),
+							description: `Remaining time on ${this.describePrice(price, quantity)}`,
+							proration: true,
+							period,
+						}),
+					);
+				}
+			}
+
+			item.price = clone(price);
+			item.quantity = quantity;
+
+			if (intervalChanged) {
+				const start = this.seconds();
+
+				item.current_period_start = start;
+				item.current_period_end = this.addInterval(start, price);
+				periodReset = true;
+			}
+		}
+
+		return { lines, periodReset };
+	}
+
+	private cancelSubscription(id: string, params: StripeParams) {
+		const subscription = this.getSubscription(id);
+
+		if (subscription.status === "canceled") {
+			throw new LocalStripeError("This subscription has already been canceled");
+		}
+
+		const before = clone(subscription);
+		const details = getObject(params, "cancellation_details");
+		const now = this.seconds();
+
+		subscription.status = "canceled";
+		subscription.ended_at = now;
+		subscription.canceled_at = subscription.canceled_at ?? now;
+		subscription.cancellation_details = {
+			reason:
+				subscription.cancellation_details?.reason ?? "cancellation_requested",
+			comment: getString(details, "comment") ?? null,
+			feedback: (getString(details, "feedback") ??
+				null) as Stripe.Subscription.CancellationDetails.Feedback | null,
+		};
+		this.pendingLines.delete(id);
+
+		this.emit(
+			"customer.subscription.deleted",
+			subscription,
+			getPreviousAttributes(before, subscription),
+		);
+
+		return subscription;
+	}
+
+	// Invoices
+
+	private createLine(
+		subscription: Stripe.Subscription,
+		item: Stripe.SubscriptionItem,
+		price: Stripe.Price,
+		quantity: number,
+		{
+			amount,
+			description,
+			proration,
+			period,
+		}: {
+			amount: number;
+			description: string;
+			proration: boolean;
+			period: InvoiceLinePeriod;
+		},
+	) {
+		return build<Stripe.InvoiceLineItem>({
+			id: createId("il"),
+			object: "line_item",
+			amount,
+			currency: price.currency,
+			description,
+			quantity,
+			period,
+			pricing: build<Stripe.InvoiceLineItem.Pricing>({
+				type: "price_details",
+				price_details: {
+					price: price.id,
+					product: price.product as string,
+				},
+				unit_amount_decimal: String(price.unit_amount ?? 0),
+			}),
+			parent: build<Stripe.InvoiceLineItem.Parent>({
+				type: "subscription_item_details",
+				invoice_item_details: null,
+				subscription_item_details:
+					build<Stripe.InvoiceLineItem.Parent.SubscriptionItemDetails>({
+						subscription: subscription.id,
+						subscription_item: item.id,
+						proration,
+						invoice_item: null,
+						proration_details: { credited_items: null },
+					}),
+			}),
+			metadata: {},
+			livemode: false,
+		});
+	}
+
+	/**
+	 * Lines billing the current period of every item
+	 */
+	private getPeriodLines(subscription: Stripe.Subscription, free = false) {
+		return subscription.items.data.map((item) =>
+			this.createLine(subscription, item, item.price, item.quantity ?? 1, {
+				amount: free ? 0 : (item.price.unit_amount ?? 0) * (item.quantity ?? 1),
+				description: this.describePrice(item.price, item.quantity ?? 1),
+				proration: false,
+				period: {
+					start: item.current_period_start,
+					end: item.current_period_end,
+				},
+			}),
+		);
+	}
+
+	private buildInvoice(
+		subscription: Stripe.Subscription,
+		lines: Stripe.InvoiceLineItem[],
+		billingReason: Stripe.Invoice.BillingReason,
+		paid: boolean,
+		id = createId("in"),
+	) {
+		const now = this.seconds();
+		const total = lines.reduce((sum, line) => sum + line.amount, 0);
+		const amountDue = Math.max(0, total);
+		const { start, end } = this.getPeriod(subscription);
+
+		return build<Stripe.Invoice>({
+			id,
+			object: "invoice",
+			customer: subscription.customer,
+			currency: subscription.currency,
+			status: paid ? "paid" : "open",
+			billing_reason: billingReason,
+			collection_method: "charge_automatically",
+			subtotal: total,
+			total,
+			amount_due: amountDue,
+			amount_paid: paid ? amountDue : 0,
+			amount_remaining: paid ? 0 : amountDue,
+			attempt_count: 1,
+			attempted: true,
+			next_payment_attempt: paid ? null : now + 3 * DAY_SECONDS,
+			period_start: start,
+			period_end: end,
+			hosted_invoice_url: null,
+			invoice_pdf: null,
+			lines: {
+				object: "list",
+				data: lines,
+				has_more: false,
+				url: `/v1/invoices/${id}/lines`,
+			},
+			parent: build<Stripe.Invoice.Parent>({
+				type: "subscription_details",
+				quote_details: null,
+				subscription_details: build<Stripe.Invoice.Parent.SubscriptionDetails>({
+					subscription: subscription.id,
+					metadata: subscription.metadata,
+				}),
+			}),
+			status_transitions: {
+				finalized_at: now,
+				marked_uncollectible_at: null,
+				paid_at: paid ? now : null,
+				voided_at: null,
+			},
+			metadata: {},
+			created: now,
+			livemode: false,
+		});
+	}
+
+	private createInvoice(
+		subscription: Stripe.Subscription,
+		lines: Stripe.InvoiceLineItem[],
+		billingReason: Stripe.Invoice.BillingReason,
+		paid: boolean,
+	) {
+		const invoice = this.buildInvoice(subscription, lines, billingReason, paid);
+
+		this.invoiceCount += 1;
+		invoice.number = `LOCAL-${String(this.invoiceCount).padStart(4, "0")}`;
+		this.invoices.set(invoice.id as string, invoice);
+		subscription.latest_invoice = invoice.id as string;
+
+		return invoice;
+	}
+
+	private getInvoice(id: string) {
+		const invoice = this.invoices.get(id);
+
+		if (!invoice) {
+			throw resourceMissing("invoice", id);
+		}
+
+		return invoice;
+	}
+
+	private listInvoices(params: StripeParams) {
+		const customer = getString(params, "customer");
+		const subscription = getString(params, "subscription");
+		const status = getString(params, "status");
+
+		return this.toList(
+			"/v1/invoices",
+			[...this.invoices.values()]
+				.filter(
+					(invoice) =>
+						(!customer || invoice.customer === customer) &&
+						(!subscription ||
+							invoice.parent?.subscription_details?.subscription ===
+								subscription) &&
+						(!status || invoice.status === status),
+				)
+				.reverse(),
+			params,
+		);
+	}
+
+	/**
+	 * Invoice a change of the subscription items would create
+	 *
+	 * The upcoming invoice with the prorations, or the one billed right away
+	 * when the billing interval changes.
+	 */
+	private previewInvoice(params: StripeParams) {
+		const subscription = clone(
+			this.getSubscription(getString(params, "subscription") ?? ""),
+		);
+		const details = getObject(params, "subscription_details");
+		const { lines, periodReset } = this.changeItems(
+			subscription,
+			getList(details, "items") as StripeParams[],
+			{
+				prorate: getString(details, "proration_behavior") !== "none",
+				prorationDate: getNumber(details, "proration_date"),
+			},
+		);
+
+		if (!periodReset) {
+			for (const item of subscription.items.data) {
+				item.current_period_start = item.current_period_end;
+				item.current_period_end = this.addInterval(
+					item.current_period_end,
+					item.price,
+				);
+			}
+		}
+
+		return this.buildInvoice(
+			subscription,
+			[
+				...(this.pendingLines.get(subscription.id) ?? []),
+				...lines,
+				...this.getPeriodLines(subscription),
+			],
+			periodReset ? "subscription_update" : "upcoming",
+			false,
+			`upcoming_${createId("in")}`,
+		);
+	}
+
+	/**
+	 * Pay an open invoice, which brings a past due subscription back to active
+	 */
+	private payInvoice(id: string) {
+		const invoice = this.getInvoice(id);
+
+		if (invoice.status !== "open") {
+			throw new LocalStripeError(
+				"Invoice is already paid",
+				400,
+				"invoice_not_open",
+			);
+		}
+
+		const now = this.seconds();
+
+		invoice.status = "paid";
+		invoice.amount_paid = invoice.amount_due;
+		invoice.amount_remaining = 0;
+		invoice.attempt_count += 1;
+		invoice.next_payment_attempt = null;
+		invoice.status_transitions.paid_at = now;
+
+		this.emit("invoice.paid", invoice);
+
+		const subscriptionId = invoice.parent?.subscription_details?.subscription;
+		const subscription =
+			typeof subscriptionId === "string"
+				? this.subscriptions.get(subscriptionId)
+				: undefined;
+
+		if (
+			subscription &&
+			(subscription.status === "past_due" || subscription.status === "unpaid")
+		) {
+			const before = clone(subscription);
+
+			subscription.status = "active";
+			this.emit(
+				"customer.subscription.updated",
+				subscription,
+				getPreviousAttributes(before, subscription),
+			);
+		}
+
+		return invoice;
+	}
+
+	// Checkout and billing portal
+
+	private createCheckoutSession(params: StripeParams) {
+		if (getString(params, "mode") !== "subscription") {
+			throw new LocalStripeError(
+				"The local Stripe backend only supports subscription Checkout sessions",
+			);
+		}
+
+		const lineItems = getList(params, "line_items") as StripeParams[];
+
+		if (!lineItems.length) {
+			throw new LocalStripeError("Missing required param: line_items.");
+		}
+
+		const prices = lineItems.map((item) =>
+			this.getPrice(getString(item, "price") ?? ""),
+		);
+		const customer = getString(params, "customer");
+
+		if (customer) {
+			this.getCustomer(customer);
+		}
+
+		const id = createId("cs");
+		const created = this.seconds();
+
+		const session = build<Stripe.Checkout.Session>({
+			id,
+			object: "checkout.session",
+			mode: "subscription",
+			status: "open",
+			payment_status: "unpaid",
+			customer: customer ?? null,
+			customer_email: getString(params, "customer_email") ?? null,
+			client_reference_id: getString(params, "client_reference_id") ?? null,
+			currency: prices[0].currency,
+			amount_total: lineItems.reduce(
+				(sum, item, index) =>
+					sum +
+					(prices[index].unit_amount ?? 0) * (getNumber(item, "quantity") ?? 1),
+				0,
+			),
+			metadata: getStringRecord(params, "metadata"),
+			success_url: getString(params, "success_url") ?? null,
+			cancel_url: getString(params, "cancel_url") ?? null,
+			url: `${this.options.appUrl}/api/dev/stripe/checkout/${id}`,
+			subscription: null,
+			created,
+			expires_at: created + DAY_SECONDS,
+			livemode: false,
+		});
+
+		this.checkoutSessions.set(id, { session, params });
+
+		return session;
+	}
+
+	private getCheckoutSession(id: string) {
+		const checkout = this.checkoutSessions.get(id);
+
+		if (!checkout) {
+			throw resourceMissing("checkout.session", id);
+		}
+
+		return checkout;
+	}
+
+	private createPortalSession(params: StripeParams) {
+		const customer = this.getCustomer(getString(params, "customer") ?? "");
+		const flow = getObject(params, "flow_data");
+		const type = getString(flow, "type");
+
+		if (type === "subscription_cancel") {
+			const subscription = this.getSubscription(
+				getString(getObject(flow, "subscription_cancel"), "subscription") ?? "",
+			);
+
+			if (subscription.cancel_at_period_end) {
+				throw new LocalStripeError(
+					"This subscription is already set to be canceled at period end.",
+				);
+			}
+		}
+
+		if (type === "subscription_update_confirm") {
+			this.getSubscription(
+				getString(
+					getObject(flow, "subscription_update_confirm"),
+					"subscription",
+				) ?? "",
+			);
+		}
+
+		const id = createId("bps");
+		const session = build<Stripe.BillingPortal.Session>({
+			id,
+			object: "billing_portal.session",
+			customer: customer.id,
+			return_url: getString(params, "return_url") ?? null,
+			url: `${this.options.appUrl}/api/dev/stripe/portal/${id}`,
+			created: this.seconds(),
+			livemode: false,
+		});
+
+		this.portalSessions.set(id, { session, flow });
+
+		return session;
+	}
+
+	private getPortalSession(id: string) {
+		const portal = this.portalSessions.get(id);
+
+		if (!portal) {
+			throw resourceMissing("billing_portal.session", id);
+		}
+
+		return portal;
+	}
+}
@@ -0,0 +1,14 @@
+/**
+ * Error answered like a Stripe API error, `status` is the HTTP status
+ */
+export class LocalStripeError extends Error {
+	readonly status: number;
+	readonly code: string | undefined;
+
+	constructor(message: string, status = 400, code?: string) {
+		super(message);
+		this.name = "LocalStripeError";
+		this.status = status;
+		this.code = code;
+	}
+}
@@ -0,0 +1,33 @@
+/**
+ * Products the local Stripe backend starts with
+ *
+ * Their metadata matches what the plan catalog imports, so "Sync from
+ * Stripe" on /admin/billing/plans creates offerable plans offline. Price ids
+ * are fixed so specs and seeds can refer to them.
+ */
+export const LOCAL_STRIPE_PRODUCTS = [
+	{
+		id: "prod_local_starter",
+		name: "Starter",
+		metadata: { seats: "3", monthly_credits: "1000" },
+		prices: {
+			month: { id: "price_local_starter_monthly", unitAmount: 900 },
+			year: { id: "price_local_starter_yearly", unitAmount: 9000 },
+		},
+	},
+	{
+		id: "prod_local_pro",
+		name: "Pro",
+		metadata: {
+			seats: "10",
+			monthly_credits: "10000",
+			trial_days: "14",
+			features: "emailBranding,prioritySupport",
+			recommended: "true",
+		},
+		prices: {
+			month: { id: "price_local_pro_monthly", unitAmount: 2900 },
+			year: { id: "price_local_pro_yearly", unitAmount: 29000 },
+		},
+	},
+] as const;
@@ -0,0 +1,50 @@
+import Stripe from "stripe";
+import { LocalStripeBackend, type LocalStripeOptions } from "./backend";
+
+/**
+ * Local Stripe
+ *
+ * With STRIPE_LOCAL=true outside production, `stripeClient` talks to an
+ * in-memory backend instead of the Stripe API, so billing works offline and
+ * in CI:
+ * - Checkout and billing portal sessions open pages under /api/dev/stripe
+ * - Webhook events are signed with STRIPE_WEBHOOK_SECRET and sent to
+ *   /api/auth/stripe/webhook
+ * - The state is lost when the server restarts
+ */
+
+// Route handlers and pages are bundled separately in development, keep a
+// single backend per process
+const globalForLocalStripe = globalThis as unknown as {
+	localStripe?: LocalStripeBackend;
+};
+
+/**
+ * Get the backend of the process, created with the options on first use
+ */
+export function getLocalStripeBackend(
+	options: LocalStripeOptions,
+): LocalStripeBackend {
+	if (!globalForLocalStripe.localStripe) {
+		globalForLocalStripe.localStripe = new LocalStripeBackend(options);
+	}
+	return globalForLocalStripe.localStripe;
+}
+
+/**
+ * Stripe SDK client whose requests are answered by the backend
+ */
+export function createLocalStripeClient(
+	backend: LocalStripeBackend,
+	secretKey = "sk_test_local",
+): Stripe {
+	return new Stripe(secretKey, {
+		httpClient: Stripe.createFetchHttpClient(backend.fetch),
+		maxNetworkRetries: 0,
+	});
+}
+
+export { LocalStripeBackend, type LocalStripeOptions } from "./backend";
+export { LocalStripeError } from "./errors";
+export { LOCAL_STRIPE_PRODUCTS } from "./fixtures";
+export { renderLocalStripePage } from "./pages";
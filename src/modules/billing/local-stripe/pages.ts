@@ -0,0 +1,56 @@
+/**
+ * Local Checkout and billing portal pages, plain HTML with a form per action
+ */
+
+const escapeHtml = (value: string) =>
+	value.replace(
+		/[&<>"']/g,
+		(character) =>
+			({
+				"&": "&amp;",
+				"<": "&lt;",
+				">": "&gt;",
+				'"': "&quot;",
+				"'": "&#39;",
+			})[character] ?? character,
+	);
+
+export function renderLocalStripePage({
+	title,
+	lines,
+	actions,
+}: {
+	title: string;
+	lines: string[];
+	actions: { value: string; label: string }[];
+}): Response {
+	const html = `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>
+body { font-family: system-ui, sans-serif; max-width: 32rem; margin: 4rem auto; padding: 0 1rem; }
+p.notice { color: #6b7280; font-size: 0.875rem; }
+form { display: inline; }
+button { margin-right: 0.5rem; padding: 0.5rem 1rem; cursor: pointer; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p class="notice">Local Stripe stand-in, no payment is made.</p>
+<ul>${lines.map((line) => `<li>${escapeHtml(line)}</li>`).join("")}</ul>
+${actions
+	.map(
+		({ value, label }) =>
+			`<form method="post"><button type="submit" name="action" value="${escapeHtml(value)}">${escapeHtml(label)}</button></form>`,
+	)
+	.join("\n")}
+</body>
+</html>`;
+
+	return new Response(html, {
+		headers: { "Content-Type": "text/html; charset=utf-8" },
+	});
+}
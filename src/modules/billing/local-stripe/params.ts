@@ -0,0 +1,100 @@
+/**
+ * Stripe Request Parameters
+ *
+ * The Stripe SDK form-encodes parameters with bracketed keys, e.g.
+ * `items[0][price]=price_1&expand[0]=latest_invoice`. Decoded back into
+ * objects, numeric keys becoming arrays.
+ */
+
+export type StripeParams = { [key: string]: StripeParam };
+export type StripeParam = string | StripeParam[] | StripeParams;
+
+const isIndex = (key: string) => /^\d+$/.test(key);
+
+/**
+ * Convert the objects whose keys are all indexes into arrays
+ */
+const toArrays = (value: StripeParam): StripeParam => {
+	if (typeof value === "string" || Array.isArray(value)) {
+		return value;
+	}
+
+	const keys = Object.keys(value);
+	const entries = keys.map((key) => [key, toArrays(value[key])] as const);
+
+	if (keys.length > 0 && keys.every(isIndex)) {
+		return entries
+			.sort(([a], [b]) => Number(a) - Number(b))
+			.map(([, item]) => item);
+	}
+
+	return Object.fromEntries(entries);
+};
+
+export function decodeStripeParams(encoded: string): StripeParams {
+	const root: StripeParams = {};
+
+	for (const [name, value] of new URLSearchParams(encoded)) {
+		const [head, ...rest] = name.split("[");
+		const path = [head, ...rest.map((segment) => segment.replace(/]$/, ""))];
+		let node = root;
+
+		path.forEach((key, index) => {
+			if (index === path.length - 1) {
+				node[key] = value;
+				return;
+			}
+
+			if (typeof node[key] !== "object") {
+				node[key] = {};
+			}
+			node = node[key] as StripeParams;
+		});
+	}
+
+	return toArrays(root) as StripeParams;
+}
+
+export function getString(params: StripeParams, key: string) {
+	const value = params[key];
+
+	return typeof value === "string" && value !== "" ? value : undefined;
+}
+
+export function getNumber(params: StripeParams, key: string) {
+	const value = getString(params, key);
+
+	return value === undefined ? undefined : Number(value);
+}
+
+export function getBoolean(params: StripeParams, key: string) {
+	const value = getString(params, key);
+
+	return value === undefined ? undefined : value === "true";
+}
+
+export function getObject(params: StripeParams, key: string): StripeParams {
+	const value = params[key];
+
+	return typeof value === "object" && !Array.isArray(value) ? value : {};
+}
+
+export function getList(params: StripeParams, key: string): StripeParam[] {
+	const value = params[key];
+
+	return Array.isArray(value) ? value : [];
+}
+
+/**
+ * String values of an object parameter, such as `metadata`
+ */
+export function getStringRecord(
+	params: StripeParams,
+	key: string,
+): Record<string, string> {
+	return Object.fromEntries(
+		Object.entries(getObject(params, key)).filter(
+			(entry): entry is [string, string] => typeof entry[1] === "string",
+		),
+	);
+}
@@ -0,0 +1,56 @@
+import { z } from "zod";
+
+/**
+ * Payment Methods Types
+ *
+ * Shared by the payment methods card, the billing contact form and the tRPC
+ * procedures validating it.
+ */
+
+export interface PaymentMethodSummary {
+	id: string;
+	brand: string;
+	last4: string;
+	expMonth: number;
+	expYear: number;
+	/**
+	 * Charged for invoices of the organization
+	 */
+	isDefault: boolean;
+}
+
+/**
+ * Name, email and phone invoices and receipts are sent to
+ */
+export interface BillingContact {
+	name: string;
+	email: string;
+	phone: string;
+}
+
+type BillingContactField = "name" | "email" | "phone";
+
+const defaultMessages: Record<BillingContactField, string> = {
+	name: "Name must be at most 100 characters",
+	email: "Invalid email address",
+	phone: "Phone must be at most 20 digits, spaces, dashes or parentheses",
+};
+
+/**
+ * Build the billing contact schema, with translated messages on the client
+ */
+export const createBillingContactSchema = (
+	messages: Record<BillingContactField, string> = defaultMessages,
+) =>
+	z.object({
+		name: z.string().trim().max(100, messages.name),
+		email: z.string().trim().email(messages.email),
+		phone: z
+			.string()
+			.trim()
+			.regex(/^\+?[\d\s().-]{0,20}$/, messages.phone),
+	});
+
+export type BillingContactInput = z.infer<
+	ReturnType<typeof createBillingContactSchema>
+>;
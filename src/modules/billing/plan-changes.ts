@@ -0,0 +1,68 @@
+import type Stripe from "stripe";
+import type { BillingPeriod } from "./plans";
+
+/**
+ * Plan Change Types
+ *
+ * What switching plan or billing period costs, previewed before the change
+ * is confirmed. Amounts are in the smallest currency unit.
+ */
+
+export interface PlanChangePreview {
+	plan: string;
+	period: BillingPeriod;
+	currency: string;
+	seats: number;
+	/**
+	 * Recurring price of the new plan for all seats
+	 */
+	recurringAmount: number;
+	interval: string;
+	/**
+	 * Charge for the new plan minus the credit for unused time on the current
+	 * one, for the rest of the period. 0 when subscribing.
+	 */
+	prorationAmount: number;
+	/**
+	 * Total of the invoice the change is billed on
+	 */
+	amountDue: number;
+	/**
+	 * ISO date of that invoice
+	 */
+	invoiceDate: string;
+	/**
+	 * Whether that invoice is created right away, e.g. when switching between
+	 * monthly and yearly billing
+	 */
+	chargedNow: boolean;
+	/**
+	 * New subscriptions go through Stripe Checkout
+	 */
+	isNewSubscription: boolean;
+	/**
+	 * Free trial days new subscriptions start with, the first invoice is
+	 * billed when the trial ends
+	 */
+	trialDays: number;
+	/**
+	 * Unix time the prorations were calculated at, the change is billed as
+	 * previewed when confirmed with it
+	 */
+	prorationDate: number | null;
+}
+
+/**
+ * Net amount of the proration lines of an invoice
+ */
+export function getProrationAmount(
+	lines: Pick<Stripe.InvoiceLineItem, "amount" | "parent">[],
+): number {
+	return lines
+		.filter(
+			(line) =>
+				line.parent?.subscription_item_details?.proration ||
+				line.parent?.invoice_item_details?.proration,
+		)
+		.reduce((total, line) => total + line.amount, 0);
+}
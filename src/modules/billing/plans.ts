@@ -13,6 +13,17 @@ export type Plan = {
 		seats: number;
 		monthlyCredits: number;
 	};
+	/**
+	 * Features included in the plan, see `hasFeature` for gating them
+	 */
+	features: PlanFeature[];
+	/**
+	 * Trial of new subscriptions, passed as is to the Stripe plugin. Each
+	 * organization gets one trial.
+	 */
+	freeTrial?: {
+		days: number;
+	};
 	/**
 	 * Enriched price info. `price` mirrors monthly for backward compatibility,
 	 * while `prices` exposes both monthly and yearly.
@@ -42,40 +53,140 @@ export enum BillingPeriod {
 	YEARLY = "yearly",
 }
 
-export const plans: Plan[] = [
-	{
-		id: 1,
-		name: "Basic",
-		// Keep priceId pointing to monthly for backward compatibility
-		priceId: "price_1RtByU5ZK2K6r0Nz39QwKDXG",
-		annualDiscountPriceId: "price_1RuAbW5ZK2K6r0NzCQKAK080",
-		limits: {
-			seats: 1,
-			monthlyCredits: 1000,
-		},
-	},
-	{
-		id: 2,
-		name: "Plus",
-		priceId: "price_1RuAcO5ZK2K6r0NzY6xd5UyB",
-		annualDiscountPriceId: "price_1RuAd45ZK2K6r0NzvHfm272x",
-		limits: {
-			seats: 3,
-			monthlyCredits: 3000,
-		},
-		recommended: true,
-	},
-	{
-		id: 3,
-		name: "Pro",
-		priceId: "price_1RuAg05ZK2K6r0NzYEqA0HUc",
-		annualDiscountPriceId: "price_1RuAgH5ZK2K6r0NzR9e5eQPp",
-		limits: {
-			seats: 5,
-			monthlyCredits: 10000,
-		},
+export enum PlanFeature {
+	/**
+	 * Organization logo, colors, sender name and footer in emails
+	 */
+	EMAIL_BRANDING = "emailBranding",
+	PRIORITY_SUPPORT = "prioritySupport",
+}
+
+export type PlanLimit = keyof Plan["limits"];
+
+/**
+ * Plan of organizations without a paid subscription, it has no Stripe prices
+ *
+ * Paid plans are the billing catalog (`billing_plan` table), managed by
+ * admins or synced from Stripe, see `getPlanCatalog`.
+ */
+export const freePlan: Plan = {
+	id: 0,
+	name: "Free",
+	priceId: "",
+	annualDiscountPriceId: "",
+	limits: {
+		seats: 1,
+		monthlyCredits: 100,
 	},
-];
+	features: [],
+};
+
+export enum PlanIssue {
+	MISSING_MONTHLY_PRICE = "missingMonthlyPrice",
+	MISSING_YEARLY_PRICE = "missingYearlyPrice",
+	SAME_PRICES = "samePrices",
+	NO_SEATS = "noSeats",
+}
+
+/**
+ * Problems that keep a catalog plan from being offered, empty when valid
+ */
+export function validatePlan(
+	plan: Pick<Plan, "priceId" | "annualDiscountPriceId" | "limits">,
+): PlanIssue[] {
+	const issues: PlanIssue[] = [];
+
+	if (!plan.priceId) {
+		issues.push(PlanIssue.MISSING_MONTHLY_PRICE);
+	}
+	if (!plan.annualDiscountPriceId) {
+		issues.push(PlanIssue.MISSING_YEARLY_PRICE);
+	}
+	if (plan.priceId && plan.priceId === plan.annualDiscountPriceId) {
+		issues.push(PlanIssue.SAME_PRICES);
+	}
+	if (plan.limits.seats < 1) {
+		issues.push(PlanIssue.NO_SEATS);
+	}
+
+	return issues;
+}
+
+export function isFreePlan(plan: Pick<Plan, "id">) {
+	return plan.id === freePlan.id;
+}
+
+/**
+ * Find a plan of the catalog by the name stored on subscriptions, which is
+ * lowercased
+ */
+export function findPlanByName(plans: Plan[], name: string | null | undefined) {
+	return plans.find((plan) => plan.name.toLowerCase() === name?.toLowerCase());
+}
+
+/**
+ * Find the plan billed with a Stripe price, monthly or yearly
+ */
+export function findPlanByPriceId(
+	plans: Plan[],
+	priceId: string | null | undefined,
+) {
+	return priceId
+		? plans.find(
+				(plan) =>
+					plan.priceId === priceId || plan.annualDiscountPriceId === priceId,
+			)
+		: undefined;
+}
+
+/**
+ * Plan granted by a subscription, the free plan without a known paid plan
+ */
+export function getPlanForSubscription(
+	plans: Plan[],
+	subscription: { plan?: string | null } | null | undefined,
+): Plan {
+	const plan = findPlanByName(plans, subscription?.plan);
+
+	return plan && !isFreePlan(plan) ? plan : freePlan;
+}
+
+export function getPlanPriceId(plan: Plan, period: BillingPeriod) {
+	return period === BillingPeriod.YEARLY
+		? plan.annualDiscountPriceId
+		: plan.priceId;
+}
+
+/**
+ * Whether the subscription is on the plan, billed for the period when its
+ * price is known
+ */
+export function isSubscribedTo(
+	plans: Plan[],
+	subscription:
+		| { plan?: string | null; priceId?: string | null }
+		| null
+		| undefined,
+	plan: Plan,
+	period: BillingPeriod,
+) {
+	if (getPlanForSubscription(plans, subscription).id !== plan.id) {
+		return false;
+	}
+
+	if (isFreePlan(plan) || !subscription?.priceId) {
+		return true;
+	}
+
+	return subscription.priceId === getPlanPriceId(plan, period);
+}
+
+export function planHasFeature(
+	plan: Pick<Plan, "features">,
+	feature: PlanFeature,
+) {
+	return plan.features.includes(feature);
+}
 
 export enum SubscriptionStatus {
 	ACTIVE = "active",
@@ -88,6 +199,15 @@ export enum SubscriptionStatus {
 	UNPAID = "unpaid",
 }
 
+// Subscriptions that still grant their plan's limits, past due and unpaid
+// ones until the grace period of the failed payment ends
+export const CURRENT_SUBSCRIPTION_STATUSES = [
+	SubscriptionStatus.ACTIVE,
+	SubscriptionStatus.TRIALING,
+	SubscriptionStatus.PAST_DUE,
+	SubscriptionStatus.UNPAID,
+];
+
 export type Subscription = {
 	limits: Record<string, number> | undefined;
 } & BetterAuthSubscription;
@@ -101,9 +221,7 @@ export function mapStripeToAppSubscription(
 ): Subscription {
 	const primaryItem = s.items.data[0];
 	const priceId = primaryItem?.price?.id;
-	const matchedPlan = allPlans.find(
-		(p) => p.priceId === priceId || p.annualDiscountPriceId === priceId,
-	);
+	const matchedPlan = findPlanByPriceId(allPlans, priceId);
 
 	const status = s.status as SubscriptionStatus; // matches our union
 
@@ -0,0 +1,51 @@
+import type { Plan } from "./plans";
+
+/**
+ * Seat Limits
+ *
+ * An organization's plan includes `limits.seats` seats. Members and pending
+ * invitations both take a seat. Without billing there is no plan to upgrade
+ * to, so seats are not limited.
+ */
+
+export interface SeatUsage {
+	/**
+	 * Members of the organization
+	 */
+	used: number;
+	/**
+	 * Invitations waiting to be accepted, each one reserves a seat
+	 */
+	pending: number;
+	/**
+	 * Seats included in the plan, null when seats are not limited
+	 */
+	limit: number | null;
+	plan: string;
+}
+
+/**
+ * Seats an organization on `plan` may use
+ */
+export function getSeatLimit(
+	plan: Pick<Plan, "limits">,
+	isBillingEnabled: boolean,
+): number | null {
+	return isBillingEnabled ? plan.limits.seats : null;
+}
+
+/**
+ * Seats left for new invitations, pending invitations included
+ */
+export function getAvailableSeats({ used, pending, limit }: SeatUsage): number {
+	return limit === null ? Number.POSITIVE_INFINITY : limit - used - pending;
+}
+
+/**
+ * Whether a new member fits in the seats
+ *
+ * Pending invitations are not counted, the member may be accepting one.
+ */
+export function hasSeatForMember({ used, limit }: SeatUsage): boolean {
+	return limit === null || used < limit;
+}
@@ -0,0 +1,461 @@
+import { and, eq, inArray, max } from "drizzle-orm";
+import type Stripe from "stripe";
+import { db } from "@/lib/db";
+import * as schema from "@/lib/db/schema";
+import { stripeClient } from "@/lib/stripe";
+import type { CatalogPlan, CatalogPlanInput, PlanSyncResult } from "../catalog";
+import {
+	CURRENT_SUBSCRIPTION_STATUSES,
+	freePlan,
+	type Plan,
+	PlanFeature,
+	validatePlan,
+} from "../plans";
+
+/**
+ * Plan Catalog
+ *
+ * Paid plans live in the `billing_plan` table, edited by admins or synced
+ * from the Stripe products. The free plan is always part of the catalog.
+ *
+ * Plans are only offered while active and with distinct monthly and yearly
+ * prices, but subscribers keep the limits of a plan that no longer is.
+ */
+
+// Plans are read on most requests and rarely change
+const CATALOG_TTL_MS = 60 * 1000;
+
+let cachedCatalog: { plans: Plan[]; expiresAt: number } | null = null;
+
+/**
+ * Paid plans of the app before the catalog moved to the database, seeded so
+ * their subscribers keep their plan
+ *
+ * Stripe prices differ between accounts, so the plans are seeded without
+ * them. They are offered once `syncPlansFromStripe` matched them to the
+ * products of the same name, or an admin set their prices.
+ */
+export const DEFAULT_PAID_PLANS: schema.NewBillingPlan[] = [
+	{
+		id: 1,
+		name: "Basic",
+		seats: 1,
+		monthlyCredits: 1000,
+		features: [],
+	},
+	{
+		id: 2,
+		name: "Plus",
+		seats: 3,
+		monthlyCredits: 3000,
+		features: [PlanFeature.EMAIL_BRANDING],
+		recommended: true,
+	},
+	{
+		id: 3,
+		name: "Pro",
+		seats: 5,
+		monthlyCredits: 10000,
+		features: [PlanFeature.EMAIL_BRANDING, PlanFeature.PRIORITY_SUPPORT],
+	},
+];
+
+/**
+ * Error thrown for a catalog change that isn't possible
+ */
+export class PlanCatalogError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "PlanCatalogError";
+	}
+}
+
+function toPlan(record: schema.BillingPlan): Plan {
+	return {
+		id: record.id,
+		name: record.name,
+		priceId: record.priceId ?? "",
+		annualDiscountPriceId: record.annualDiscountPriceId ?? "",
+		limits: {
+			seats: record.seats,
+			monthlyCredits: record.monthlyCredits,
+		},
+		features: record.features,
+		freeTrial: record.trialDays > 0 ? { days: record.trialDays } : undefined,
+		recommended: record.recommended,
+	};
+}
+
+async function loadPlans(): Promise<schema.BillingPlan[]> {
+	return db.select().from(schema.billingPlan).orderBy(schema.billingPlan.id);
+}
+
+/**
+ * Every plan subscriptions can be on, the free plan first
+ */
+export async function getPlanCatalog(): Promise<Plan[]> {
+	if (cachedCatalog && cachedCatalog.expiresAt > Date.now()) {
+		return cachedCatalog.plans;
+	}
+
+	const plans = [freePlan, ...(await loadPlans()).map(toPlan)];
+	cachedCatalog = { plans, expiresAt: Date.now() + CATALOG_TTL_MS };
+
+	return plans;
+}
+
+/**
+ * Paid plans of the catalog, for the Stripe plugin to map prices to plans
+ */
+export async function getPaidPlans(): Promise<Plan[]> {
+	return (await getPlanCatalog()).filter((plan) => plan.id !== freePlan.id);
+}
+
+/**
+ * Plans organizations can subscribe to, the free plan first
+ */
+export async function getOfferedPlans(): Promise<Plan[]> {
+	const records = await loadPlans();
+	const offered = records
+		.filter((record) => record.active)
+		.map(toPlan)
+		.filter((plan) => validatePlan(plan).length === 0);
+
+	return [freePlan, ...offered];
+}
+
+export function invalidatePlanCatalog() {
+	cachedCatalog = null;
+}
+
+/**
+ * Insert the default paid plans missing from the catalog
+ *
+ * Plans whose id or name is already taken are left as they are, so seeding
+ * again never overwrites an admin's changes. Returns the inserted plans.
+ */
+export async function seedPlanCatalog(): Promise<string[]> {
+	const inserted = await db
+		.insert(schema.billingPlan)
+		.values(DEFAULT_PAID_PLANS)
+		.onConflictDoNothing()
+		.returning({ name: schema.billingPlan.name });
+
+	invalidatePlanCatalog();
+
+	return inserted.map(({ name }) => name);
+}
+
+/**
+ * Paid plans with what keeps them from being offered, for the admin editor
+ */
+export async function listCatalogPlans(): Promise<CatalogPlan[]> {
+	return (await loadPlans()).map((record) => ({
+		id: record.id,
+		name: record.name,
+		priceId: record.priceId ?? "",
+		annualDiscountPriceId: record.annualDiscountPriceId ?? "",
+		stripeProductId: record.stripeProductId,
+		seats: record.seats,
+		monthlyCredits: record.monthlyCredits,
+		trialDays: record.trialDays,
+		features: record.features,
+		recommended: record.recommended,
+		active: record.active,
+		issues: validatePlan(toPlan(record)),
+	}));
+}
+
+async function getNextPlanId(): Promise<number> {
+	const [{ lastId }] = await db
+		.select({ lastId: max(schema.billingPlan.id) })
+		.from(schema.billingPlan);
+
+	return (lastId ?? freePlan.id) + 1;
+}
+
+async function assertNameAvailable(name: string, id?: number) {
+	const records = await loadPlans();
+	const taken =
+		name.toLowerCase() === freePlan.name.toLowerCase() ||
+		records.some(
+			(record) =>
+				record.id !== id && record.name.toLowerCase() === name.toLowerCase(),
+		);
+
+	if (taken) {
+		throw new PlanCatalogError(`A plan named ${name} already exists`);
+	}
+}
+
+async function hasSubscribers(planName: string): Promise<boolean> {
+	const [subscription] = await db
+		.select({ id: schema.subscription.id })
+		.from(schema.subscription)
+		.where(
+			and(
+				eq(schema.subscription.plan, planName.toLowerCase()),
+				inArray(schema.subscription.status, CURRENT_SUBSCRIPTION_STATUSES),
+			),
+		)
+		.limit(1);
+
+	return Boolean(subscription);
+}
+
+/**
+ * Create a plan, or update the one with `input.id`
+ *
+ * Subscriptions store the plan name, so plans with subscribers can't be
+ * renamed.
+ */
+export async function saveCatalogPlan(
+	input: CatalogPlanInput,
+): Promise<CatalogPlan> {
+	await assertNameAvailable(input.name, input.id);
+
+	const values = {
+		name: input.name,
+		priceId: input.priceId || null,
+		annualDiscountPriceId: input.annualDiscountPriceId || null,
+		seats: input.seats,
+		monthlyCredits: input.monthlyCredits,
+		trialDays: input.trialDays,
+		features: input.features,
+		recommended: input.recommended,
+		active: input.active,
+	};
+
+	if (input.id) {
+		const [existing] = await db
+			.select()
+			.from(schema.billingPlan)
+			.where(eq(schema.billingPlan.id, input.id))
+			.limit(1);
+
+		if (!existing) {
+			throw new PlanCatalogError("Plan not found");
+		}
+
+		if (
+			existing.name.toLowerCase() !== input.name.toLowerCase() &&
+			(await hasSubscribers(existing.name))
+		) {
+			throw new PlanCatalogError(
+				`The ${existing.name} plan has subscribers and can't be renamed`,
+			);
+		}
+
+		await db
+			.update(schema.billingPlan)
+			.set({ ...values, updatedAt: new Date() })
+			.where(eq(schema.billingPlan.id, input.id));
+	} else {
+		await db
+			.insert(schema.billingPlan)
+			.values({ ...values, id: await getNextPlanId() });
+	}
+
+	invalidatePlanCatalog();
+
+	const saved = (await listCatalogPlans()).find(
+		(plan) => plan.name === input.name,
+	);
+
+	if (!saved) {
+		throw new PlanCatalogError("Plan not found");
+	}
+
+	return saved;
+}
+
+/**
+ * Remove a plan nobody is subscribed to, deactivate it otherwise
+ */
+export async function deleteCatalogPlan(id: number): Promise<void> {
+	const [existing] = await db
+		.select()
+		.from(schema.billingPlan)
+		.where(eq(schema.billingPlan.id, id))
+		.limit(1);
+
+	if (!existing) {
+		throw new PlanCatalogError("Plan not found");
+	}
+
+	if (await hasSubscribers(existing.name)) {
+		throw new PlanCatalogError(
+			`The ${existing.name} plan has subscribers, deactivate it instead`,
+		);
+	}
+
+	await db.delete(schema.billingPlan).where(eq(schema.billingPlan.id, id));
+	invalidatePlanCatalog();
+}
+
+interface SyncedProduct {
+	product: Stripe.Product;
+	monthly?: Stripe.Price;
+	yearly?: Stripe.Price;
+}
+
+const isPlanFeature = (value: string): value is PlanFeature =>
+	Object.values<string>(PlanFeature).includes(value);
+
+const parseCount = (value: string | undefined) => {
+	const parsed = Number.parseInt(value ?? "", 10);
+
+	return Number.isNaN(parsed) || parsed < 0 ? undefined : parsed;
+};
+
+/**
+ * Plan limits and features from the product metadata, e.g.
+ * `seats: 10`, `monthly_credits: 5000`, `trial_days: 14`,
+ * `features: emailBranding,prioritySupport` and `recommended: true`
+ */
+function getProductMetadata(product: Stripe.Product) {
+	const { metadata } = product;
+
+	return {
+		seats: parseCount(metadata.seats),
+		monthlyCredits: parseCount(metadata.monthly_credits),
+		trialDays: parseCount(metadata.trial_days),
+		features:
+			metadata.features === undefined
+				? undefined
+				: metadata.features
+						.split(",")
+						.map((feature) => feature.trim())
+						.filter(isPlanFeature),
+		recommended:
+			metadata.recommended === undefined
+				? undefined
+				: metadata.recommended === "true",
+	};
+}
+
+/**
+ * Recurring prices of active products, grouped by product
+ *
+ * The product's default price wins when it has several prices per period.
+ */
+async function listSyncedProducts(
+	stripe: Pick<Stripe, "prices">,
+): Promise<SyncedProduct[]> {
+	const products = new Map<string, SyncedProduct>();
+
+	for await (const price of stripe.prices.list({
+		active: true,
+		type: "recurring",
+		expand: ["data.product"],
+		limit: 100,
+	})) {
+		const { product } = price;
+
+		if (
+			typeof product === "string" ||
+			product.deleted ||
+			!product.active ||
+			price.recurring?.interval_count !== 1
+		) {
+			continue;
+		}
+
+		const synced = products.get(product.id) ?? { product };
+		const period =
+			price.recurring.interval === "month"
+				? "monthly"
+				: price.recurring.interval === "year"
+					? "yearly"
+					: null;
+
+		if (period && (!synced[period] || product.default_price === price.id)) {
+			synced[period] = price;
+		}
+
+		products.set(product.id, synced);
+	}
+
+	return [...products.values()].sort(
+		(a, b) => (a.monthly?.unit_amount ?? 0) - (b.monthly?.unit_amount ?? 0),
+	);
+}
+
+/**
+ * Import the plans from the Stripe products with a monthly and a yearly price
+ *
+ * Plans are matched by product, then by name. Existing plans keep their
+ * name and only take the limits and features set in the product metadata.
+ * Pass a client with the same `prices.list` to sync from another source.
+ */
+export async function syncPlansFromStripe(
+	stripe: Pick<Stripe, "prices"> | undefined = stripeClient,
+): Promise<PlanSyncResult> {
+	if (!stripe) {
+		throw new PlanCatalogError("Stripe is not configured");
+	}
+
+	const result: PlanSyncResult = { created: [], updated: [], skipped: [] };
+	const products = await listSyncedProducts(stripe);
+	const records = await loadPlans();
+	let nextId = await getNextPlanId();
+
+	for (const { product, monthly, yearly } of products) {
+		if (!monthly || !yearly) {
+			result.skipped.push(product.name);
+			continue;
+		}
+
+		const metadata = getProductMetadata(product);
+		const existing =
+			records.find((record) => record.stripeProductId === product.id) ??
+			records.find(
+				(record) => record.name.toLowerCase() === product.name.toLowerCase(),
+			);
+		const prices = {
+			priceId: monthly.id,
+			annualDiscountPriceId: yearly.id,
+			stripeProductId: product.id,
+		};
+
+		if (existing) {
+			await db
+				.update(schema.billingPlan)
+				.set({
+					...prices,
+					seats: metadata.seats ?? existing.seats,
+					monthlyCredits: metadata.monthlyCredits ?? existing.monthlyCredits,
+					trialDays: metadata.trialDays ?? existing.trialDays,
+					features: metadata.features ?? existing.features,
+					recommended: metadata.recommended ?? existing.recommended,
+					updatedAt: new Date(),
+				})
+				.where(eq(schema.billingPlan.id, existing.id));
+
+			result.updated.push(existing.name);
+			continue;
+		}
+
+		if (product.name.toLowerCase() === freePlan.name.toLowerCase()) {
+			result.skipped.push(product.name);
+			continue;
+		}
+
+		await db.insert(schema.billingPlan).values({
+			...prices,
+			id: nextId++,
+			name: product.name,
+			seats: metadata.seats ?? 1,
+			monthlyCredits: metadata.monthlyCredits ?? 0,
+			trialDays: metadata.trialDays ?? 0,
+			features: metadata.features ?? [],
+			recommended: metadata.recommended ?? false,
+		});
+
+		result.created.push(product.name);
+	}
+
+	invalidatePlanCatalog();
+
+	return result;
+}
@@ -0,0 +1,400 @@
+import {
+	and,
+	asc,
+	desc,
+	eq,
+	gt,
+	gte,
+	isNotNull,
+	isNull,
+	lt,
+	sql,
+} from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { db, dbPg } from "@/lib/db";
+import * as schema from "@/lib/db/schema";
+import { env } from "@/lib/env";
+import { isStripeEnabled, stripeClient } from "@/lib/stripe";
+import {
+	CreditEntryType,
+	CreditLimitMode,
+	type CreditPeriod,
+	getCreditPeriod,
+} from "../credits";
+import { getPlanCatalog } from "./catalog";
+import { getCurrentSubscription, getSubscriptionPlan } from "./entitlements";
+
+/**
+ * Credit Ledger
+ *
+ * Usage and granted credits are ledger entries of the organization. The
+ * balance of a period is the plan's monthly credits, plus grants, minus usage.
+ */
+
+export interface CreditBalance {
+	period: CreditPeriod;
+	plan: string;
+	mode: CreditLimitMode;
+	/**
+	 * Monthly credits of the plan
+	 */
+	allowance: number;
+	granted: number;
+	used: number;
+	/**
+	 * Negative once usage goes over the limit in soft limit mode
+	 */
+	remaining: number;
+}
+
+export interface RecordCreditUsageOptions {
+	organizationId: string;
+	amount: number;
+	/**
+	 * What consumed the credits, e.g. "ai.generate"
+	 */
+	feature: string;
+	description?: string;
+	userId?: string;
+	/**
+	 * Usage retried with the same key is recorded once
+	 */
+	idempotencyKey?: string;
+}
+
+/**
+ * Error thrown when usage would exceed the remaining credits in hard limit mode
+ */
+export class CreditLimitError extends Error {
+	readonly remaining: number;
+
+	constructor(remaining: number) {
+		super(
+			`Not enough credits: ${Math.max(0, remaining)} remaining this period`,
+		);
+		this.name = "CreditLimitError";
+		this.remaining = remaining;
+	}
+}
+
+/**
+ * Without billing there is no plan to upgrade to, usage over the credits is
+ * recorded as overage but never rejected
+ */
+export function getCreditLimitMode(): CreditLimitMode {
+	if (!isStripeEnabled) {
+		return CreditLimitMode.SOFT;
+	}
+
+	return env.CREDIT_LIMIT_MODE as CreditLimitMode;
+}
+
+type Executor = Pick<typeof dbPg, "select">;
+
+async function getCreditAllowance(organizationId: string, now: Date) {
+	const [plans, subscription] = await Promise.all([
+		getPlanCatalog(),
+		getCurrentSubscription(organizationId),
+	]);
+	const plan = await getSubscriptionPlan(plans, subscription);
+
+	return {
+		plan: plan.name,
+		allowance: plan.limits.monthlyCredits,
+		period: getCreditPeriod(subscription?.periodStart, now),
+		stripeCustomerId: subscription?.stripeCustomerId ?? null,
+	};
+}
+
+async function sumPeriodEntries(
+	executor: Executor,
+	organizationId: string,
+	period: CreditPeriod,
+) {
+	const [totals] = await executor
+		.select({
+			granted: sql<number>`coalesce(sum(${schema.creditLedger.amount}) filter (where ${schema.creditLedger.type} = ${CreditEntryType.GRANT}), 0)::int`,
+			used: sql<number>`coalesce(-sum(${schema.creditLedger.amount}) filter (where ${schema.creditLedger.type} = ${CreditEntryType.USAGE}), 0)::int`,
+		})
+		.from(schema.creditLedger)
+		.where(
+			and(
+				eq(schema.creditLedger.organizationId, organizationId),
+				gte(schema.creditLedger.periodStart, period.start),
+				lt(schema.creditLedger.periodStart, period.end),
+			),
+		);
+
+	return { granted: totals?.granted ?? 0, used: totals?.used ?? 0 };
+}
+
+/**
+ * Credits of the organization in the current period
+ */
+export async function getCreditBalance(
+	organizationId: string,
+	now = new Date(),
+): Promise<CreditBalance> {
+	const { plan, allowance, period } = await getCreditAllowance(
+		organizationId,
+		now,
+	);
+	const { granted, used } = await sumPeriodEntries(
+		dbPg,
+		organizationId,
+		period,
+	);
+
+	return {
+		period,
+		plan,
+		mode: getCreditLimitMode(),
+		allowance,
+		granted,
+		used,
+		remaining: allowance + granted - used,
+	};
+}
+
+// Most overage entries retried per run of the scheduled jobs
+const OVERAGE_RETRY_BATCH_SIZE = 100;
+
+/**
+ * Report credits used over the limit to the Stripe billing meter
+ *
+ * Returns whether the overage was reported. Failures are logged and left
+ * for `retryCreditOverageReports`.
+ */
+async function reportCreditOverage(
+	entry: schema.CreditLedgerEntry,
+	stripeCustomerId: string | null,
+): Promise<boolean> {
+	if (!env.STRIPE_CREDITS_METER_EVENT || !stripeClient || !stripeCustomerId) {
+		return false;
+	}
+
+	try {
+		await stripeClient.billing.meterEvents.create({
+			event_name: env.STRIPE_CREDITS_METER_EVENT,
+			// Stripe drops meter events with an identifier it already received
+			identifier: entry.id,
+			payload: {
+				stripe_customer_id: stripeCustomerId,
+				value: String(entry.overage),
+			},
+		});
+
+		await db
+			.update(schema.creditLedger)
+			.set({ reportedAt: new Date() })
+			.where(eq(schema.creditLedger.id, entry.id));
+
+		return true;
+	} catch (error) {
+		console.error("❌ Failed to report credit overage to Stripe:", error);
+		return false;
+	}
+}
+
+/**
+ * Report the overage that couldn't be reported when it was recorded
+ *
+ * Called by the scheduled jobs, oldest entries first. Stripe drops meter
+ * events it already received, so an overage is never billed twice.
+ */
+export async function retryCreditOverageReports(): Promise<{
+	reported: number;
+	failed: number;
+}> {
+	if (!env.STRIPE_CREDITS_METER_EVENT || !stripeClient) {
+		return { reported: 0, failed: 0 };
+	}
+
+	const entries = await db
+		.select()
+		.from(schema.creditLedger)
+		.where(
+			and(
+				gt(schema.creditLedger.overage, 0),
+				isNull(schema.creditLedger.reportedAt),
+			),
+		)
+		.orderBy(asc(schema.creditLedger.createdAt))
+		.limit(OVERAGE_RETRY_BATCH_SIZE);
+
+	// The customer of the organization's latest subscription, canceled or not
+	const customers = new Map<string, string | null>();
+	let reported = 0;
+
+	for (const entry of entries) {
+		if (!customers.has(entry.organizationId)) {
+			const [subscription] = await db
+				.select({ stripeCustomerId: schema.subscription.stripeCustomerId })
+				.from(schema.subscription)
+				.where(
+					and(
+						eq(schema.subscription.referenceId, entry.organizationId),
+						isNotNull(schema.subscription.stripeCustomerId),
+					),
+				)
+				.orderBy(desc(schema.subscription.createdAt))
+				.limit(1);
+
+			customers.set(
+				entry.organizationId,
+				subscription?.stripeCustomerId ?? null,
+			);
+		}
+
+		if (
+			await reportCreditOverage(
+				entry,
+				customers.get(entry.organizationId) ?? null,
+			)
+		) {
+			reported++;
+		}
+	}
+
+	return { reported, failed: entries.length - reported };
+}
+
+/**
+ * Record credits consumed by the organization
+ *
+ * Throws `CreditLimitError` in hard limit mode when the remaining credits
+ * don't cover the usage. Returns the existing entry for a repeated
+ * idempotency key.
+ */
+export async function recordCreditUsage({
+	organizationId,
+	amount,
+	feature,
+	description,
+	userId,
+	idempotencyKey,
+}: RecordCreditUsageOptions): Promise<{
+	entry: schema.CreditLedgerEntry;
+	balance: CreditBalance;
+}> {
+	const now = new Date();
+	const mode = getCreditLimitMode();
+	const { plan, allowance, period, stripeCustomerId } =
+		await getCreditAllowance(organizationId, now);
+
+	const result = await dbPg.transaction(async (tx) => {
+		// Usage of an organization is recorded one at a time, so concurrent
+		// requests can't both spend the last credits
+		await tx.execute(
+			sql`select pg_advisory_xact_lock(hashtext(${organizationId}))`,
+		);
+
+		if (idempotencyKey) {
+			const [existing] = await tx
+				.select()
+				.from(schema.creditLedger)
+				.where(
+					and(
+						eq(schema.creditLedger.organizationId, organizationId),
+						eq(schema.creditLedger.idempotencyKey, idempotencyKey),
+					),
+				)
+				.limit(1);
+
+			if (existing) {
+				return { entry: existing, created: false };
+			}
+		}
+
+		const { granted, used } = await sumPeriodEntries(
+			tx,
+			organizationId,
+			period,
+		);
+		const remaining = allowance + granted - used;
+
+		if (mode === CreditLimitMode.HARD && amount > remaining) {
+			throw new CreditLimitError(remaining);
+		}
+
+		const [entry] = await tx
+			.insert(schema.creditLedger)
+			.values({
+				id: nanoid(),
+				organizationId,
+				type: CreditEntryType.USAGE,
+				amount: -amount,
+				feature,
+				description,
+				userId,
+				idempotencyKey,
+				periodStart: period.start,
+				overage: Math.max(0, amount - Math.max(0, remaining)),
+			})
+			.returning();
+
+		return { entry, created: true };
+	});
+
+	if (result.created && result.entry.overage > 0) {
+		await reportCreditOverage(result.entry, stripeCustomerId);
+	}
+
+	const totals = await sumPeriodEntries(dbPg, organizationId, period);
+
+	return {
+		entry: result.entry,
+		balance: {
+			period,
+			plan,
+			mode,
+			allowance,
+			...totals,
+			remaining: allowance + totals.granted - totals.used,
+		},
+	};
+}
+
+/**
+ * Add credits to the organization's current period, e.g. as a goodwill gesture
+ */
+export async function grantCredits({
+	organizationId,
+	amount,
+	description,
+	userId,
+}: {
+	organizationId: string;
+	amount: number;
+	description?: string;
+	userId?: string;
+}): Promise<schema.CreditLedgerEntry> {
+	const { period } = await getCreditAllowance(organizationId, new Date());
+
+	const [entry] = await db
+		.insert(schema.creditLedger)
+		.values({
+			id: nanoid(),
+			organizationId,
+			type: CreditEntryType.GRANT,
+			amount,
+			description,
+			userId,
+			periodStart: period.start,
+		})
+		.returning();
+
+	return entry;
+}
+
+/**
+ * Latest ledger entries of the organization, newest first
+ */
+export async function listCreditEntries(organizationId: string, limit = 50) {
+	return db
+		.select()
+		.from(schema.creditLedger)
+		.where(eq(schema.creditLedger.organizationId, organizationId))
+		.orderBy(desc(schema.creditLedger.createdAt))
+		.limit(limit);
+}
@@ -0,0 +1,210 @@
+import type { StripePlan, Subscription } from "@better-auth/stripe";
+import { and, eq, isNotNull, or } from "drizzle-orm";
+import type Stripe from "stripe";
+import { db } from "@/lib/db";
+import * as schema from "@/lib/db/schema";
+import { env } from "@/lib/env";
+import { stripeClient } from "@/lib/stripe";
+import {
+	type ActiveDiscount,
+	type Discount,
+	promotionCodeSchema,
+	type SubscriptionTrial,
+	TrialMode,
+} from "../discounts";
+import { SubscriptionStatus } from "../plans";
+import { getCurrentSubscription } from "./entitlements";
+
+/**
+ * Trials and Discounts
+ *
+ * Plans with trial days start with a free trial, once per organization.
+ * Promotion codes are checked in the app before checkout and applied to the
+ * Checkout Session, which also accepts codes entered on the Stripe page.
+ */
+
+export function getTrialMode(): TrialMode {
+	return env.TRIAL_MODE as TrialMode;
+}
+
+/**
+ * Whether the organization never subscribed nor had a trial
+ */
+export async function isTrialEligible(organizationId: string) {
+	const [subscription] = await db
+		.select({ id: schema.subscription.id })
+		.from(schema.subscription)
+		.where(
+			and(
+				eq(schema.subscription.referenceId, organizationId),
+				or(
+					isNotNull(schema.subscription.stripeSubscriptionId),
+					isNotNull(schema.subscription.trialStart),
+				),
+			),
+		)
+		.limit(1);
+
+	return !subscription;
+}
+
+export function toDiscount(
+	coupon: Stripe.Coupon,
+	code: string | null,
+): Discount {
+	return {
+		name: coupon.name ?? code ?? coupon.id,
+		code,
+		percentOff: coupon.percent_off,
+		amountOff: coupon.amount_off,
+		currency: coupon.currency,
+		duration: coupon.duration,
+		durationInMonths: coupon.duration_in_months,
+	};
+}
+
+/**
+ * Active promotion code with this code, null when there is none
+ */
+export async function findPromotionCode(
+	code: string,
+): Promise<Stripe.PromotionCode | null> {
+	if (!stripeClient) {
+		return null;
+	}
+
+	const { data } = await stripeClient.promotionCodes.list({
+		code,
+		active: true,
+		limit: 1,
+	});
+	const promotionCode = data[0];
+
+	return promotionCode?.coupon.valid ? promotionCode : null;
+}
+
+/**
+ * Checkout Session parameters for the Stripe plugin
+ *
+ * The plugin passes the upgrade endpoint context third, the promotion code
+ * is sent in the upgrade `metadata`.
+ */
+export async function getCheckoutSessionParams(
+	{ plan, subscription }: { plan: StripePlan; subscription: Subscription },
+	_request?: unknown,
+	ctx?: { body?: { metadata?: Record<string, unknown> } },
+): Promise<{ params: Stripe.Checkout.SessionCreateParams }> {
+	const trialDays = plan.freeTrial?.days ?? 0;
+	const hasTrial =
+		trialDays > 0 && (await isTrialEligible(subscription.referenceId));
+	const withoutCard = hasTrial && getTrialMode() === TrialMode.NO_CARD;
+
+	const code = promotionCodeSchema.safeParse(
+		ctx?.body?.metadata?.promotionCode,
+	);
+	const promotionCode = code.success
+		? await findPromotionCode(code.data)
+		: null;
+
+	if (code.success && !promotionCode) {
+		console.warn(`⚠️ Promotion code ${code.data} is not active, ignoring it`);
+	}
+
+	return {
+		params: {
+			// Replaces the plugin's trial, which it grants again after a cancellation
+			subscription_data: {
+				// Webhook events of the subscription find its record with it
+				metadata: {
+					subscriptionId: subscription.id,
+					referenceId: subscription.referenceId,
+				},
+				...(hasTrial && {
+					trial_period_days: trialDays,
+					...(withoutCard && {
+						trial_settings: {
+							end_behavior: { missing_payment_method: "cancel" },
+						},
+					}),
+				}),
+			},
+			...(withoutCard && { payment_method_collection: "if_required" }),
+			// Stripe doesn't allow entering another code on a discounted session
+			...(promotionCode
+				? { discounts: [{ promotion_code: promotionCode.id }] }
+				: { allow_promotion_codes: true }),
+		},
+	};
+}
+
+function toActiveDiscount(discount: string | Stripe.Discount) {
+	if (typeof discount === "string") {
+		return null;
+	}
+
+	const code =
+		typeof discount.promotion_code === "string" || !discount.promotion_code
+			? null
+			: discount.promotion_code.code;
+
+	return {
+		...toDiscount(discount.coupon, code),
+		id: discount.id,
+		end: discount.end ? new Date(discount.end * 1000).toISOString() : null,
+	} satisfies ActiveDiscount;
+}
+
+/**
+ * Trial and discounts of the organization's current subscription
+ */
+export async function getTrialAndDiscounts(organizationId: string): Promise<{
+	trial: SubscriptionTrial | null;
+	discounts: ActiveDiscount[];
+	trialEligible: boolean;
+}> {
+	const subscription = await getCurrentSubscription(organizationId);
+
+	if (!stripeClient || !subscription?.stripeSubscriptionId) {
+		return {
+			trial: null,
+			discounts: [],
+			trialEligible: await isTrialEligible(organizationId),
+		};
+	}
+
+	const stripeSubscription = await stripeClient.subscriptions.retrieve(
+		subscription.stripeSubscriptionId,
+		{ expand: ["customer", "discounts.promotion_code"] },
+	);
+	const customer =
+		typeof stripeSubscription.customer === "string" ||
+		stripeSubscription.customer.deleted
+			? null
+			: stripeSubscription.customer;
+
+	const discounts = new Map<string, ActiveDiscount>();
+	for (const discount of [
+		...stripeSubscription.discounts,
+		// Discounts of the customer apply to all of its subscriptions
+		...(customer?.discount ? [customer.discount] : []),
+	]) {
+		const activeDiscount = toActiveDiscount(discount);
+		if (activeDiscount) {
+			discounts.set(activeDiscount.id, activeDiscount);
+		}
+	}
+
+	const trial =
+		stripeSubscription.status === SubscriptionStatus.TRIALING &&
+		stripeSubscription.trial_end
+			? {
+					end: new Date(stripeSubscription.trial_end * 1000).toISOString(),
+					hasPaymentMethod: Boolean(
+						stripeSubscription.default_payment_method ??
+							customer?.invoice_settings.default_payment_method,
+					),
+				}
+			: null;
+
+	return { trial, discounts: [...discounts.values()], trialEligible: false };
+}
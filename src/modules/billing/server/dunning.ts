@@ -0,0 +1,266 @@
+import { and, desc, eq, isNull } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import type Stripe from "stripe";
+import { db } from "@/lib/db";
+import * as schema from "@/lib/db/schema";
+import { env } from "@/lib/env";
+import { stripeClient } from "@/lib/stripe";
+import { sendPaymentFailedReminders } from "@/modules/emails";
+import {
+	type DunningStatus,
+	getGraceEnd,
+	isDunningStatus,
+	isGracePeriodOver,
+} from "../dunning";
+import type { SubscriptionStatus } from "../plans";
+
+/**
+ * Dunning
+ *
+ * `invoice.payment_failed` events open a dunning episode for the
+ * subscription, paying the invoice or the subscription leaving past_due and
+ * unpaid closes it. The email scheduler sends the failed payment sequence
+ * of open episodes, entitlements fall back to the free plan once their grace
+ * period is over.
+ */
+
+export function getDunningGraceDays(): number {
+	return env.DUNNING_GRACE_DAYS;
+}
+
+const toDate = (timestamp: number | null) =>
+	timestamp ? new Date(timestamp * 1000) : null;
+
+const getInvoiceSubscriptionId = (invoice: Stripe.Invoice) => {
+	const subscription = invoice.parent?.subscription_details?.subscription;
+
+	return typeof subscription === "string"
+		? subscription
+		: (subscription?.id ?? null);
+};
+
+async function findSubscriptionByStripeId(stripeSubscriptionId: string) {
+	const [subscription] = await db
+		.select()
+		.from(schema.subscription)
+		.where(eq(schema.subscription.stripeSubscriptionId, stripeSubscriptionId))
+		.limit(1);
+
+	return subscription;
+}
+
+/**
+ * Open dunning episode of a subscription, if any
+ */
+export async function getOpenDunning(subscriptionId: string) {
+	const [dunning] = await db
+		.select()
+		.from(schema.subscriptionDunning)
+		.where(
+			and(
+				eq(schema.subscriptionDunning.subscriptionId, subscriptionId),
+				isNull(schema.subscriptionDunning.resolvedAt),
+			),
+		)
+		.orderBy(desc(schema.subscriptionDunning.failedAt))
+		.limit(1);
+
+	return dunning;
+}
+
+/**
+ * When the grace period of a past due or unpaid subscription started
+ *
+ * Subscriptions that went past due before the failed payment was recorded
+ * count from the start of the period their renewal invoice failed in.
+ */
+const getDunningStart = (
+	subscription: schema.Subscription,
+	dunning: schema.SubscriptionDunning | undefined,
+) => dunning?.failedAt ?? subscription.periodStart ?? subscription.updatedAt;
+
+/**
+ * Whether a subscription lost its plan to a failed payment
+ */
+export async function isDowngradedForFailedPayment(
+	subscription: schema.Subscription,
+	now = new Date(),
+) {
+	if (!isDunningStatus(subscription.status)) {
+		return false;
+	}
+
+	return isGracePeriodOver(
+		getDunningStart(subscription, await getOpenDunning(subscription.id)),
+		getDunningGraceDays(),
+		now,
+	);
+}
+
+/**
+ * Failed payment of the organization's current subscription, null when it is
+ * paid up
+ */
+export async function getDunningStatus(
+	subscription: schema.Subscription | undefined,
+	now = new Date(),
+): Promise<DunningStatus | null> {
+	if (!subscription || !isDunningStatus(subscription.status)) {
+		return null;
+	}
+
+	const dunning = await getOpenDunning(subscription.id);
+	const failedAt = getDunningStart(subscription, dunning);
+	const graceDays = getDunningGraceDays();
+
+	return {
+		status: subscription.status as SubscriptionStatus,
+		plan: subscription.plan,
+		failedAt: failedAt.toISOString(),
+		graceEndsAt: getGraceEnd(failedAt, graceDays).toISOString(),
+		downgraded: isGracePeriodOver(failedAt, graceDays, now),
+		attemptCount: dunning?.attemptCount ?? 1,
+		nextPaymentAttempt: dunning?.nextPaymentAttempt?.toISOString() ?? null,
+		invoiceUrl: dunning?.invoiceUrl ?? null,
+	};
+}
+
+/**
+ * Open a dunning episode for the invoice's subscription, or record another
+ * failed attempt in the open one
+ */
+export async function recordPaymentFailure(invoice: Stripe.Invoice) {
+	const stripeSubscriptionId = getInvoiceSubscriptionId(invoice);
+
+	// A failed first payment leaves the subscription incomplete, checkout
+	// handles it
+	if (
+		!invoice.id ||
+		!stripeSubscriptionId ||
+		invoice.billing_reason === "subscription_create"
+	) {
+		return null;
+	}
+
+	const subscription = await findSubscriptionByStripeId(stripeSubscriptionId);
+
+	if (!subscription) {
+		console.warn(
+			`⚠️ Payment failed for unknown subscription ${stripeSubscriptionId}`,
+		);
+		return null;
+	}
+
+	const values = {
+		stripeInvoiceId: invoice.id,
+		invoiceUrl: invoice.hosted_invoice_url ?? null,
+		attemptCount: invoice.attempt_count,
+		nextPaymentAttempt: toDate(invoice.next_payment_attempt),
+		updatedAt: new Date(),
+	};
+
+	const open = await getOpenDunning(subscription.id);
+
+	if (open) {
+		const [dunning] = await db
+			.update(schema.subscriptionDunning)
+			.set(values)
+			.where(eq(schema.subscriptionDunning.id, open.id))
+			.returning();
+
+		return dunning;
+	}
+
+	const [dunning] = await db
+		.insert(schema.subscriptionDunning)
+		.values({
+			...values,
+			id: nanoid(),
+			subscriptionId: subscription.id,
+			organizationId: subscription.referenceId,
+			failedAt: new Date(),
+		})
+		.returning();
+
+	return dunning;
+}
+
+/**
+ * Close the open dunning episode of a subscription
+ */
+export async function resolveDunning(stripeSubscriptionId: string) {
+	const subscription = await findSubscriptionByStripeId(stripeSubscriptionId);
+
+	if (!subscription) {
+		return;
+	}
+
+	await db
+		.update(schema.subscriptionDunning)
+		.set({ resolvedAt: new Date(), updatedAt: new Date() })
+		.where(
+			and(
+				eq(schema.subscriptionDunning.subscriptionId, subscription.id),
+				isNull(schema.subscriptionDunning.resolvedAt),
+			),
+		);
+}
+
+/**
+ * Pay the failed invoice of the organization's subscription again
+ *
+ * Called after the default card changes, so the fixed payment method is
+ * charged right away instead of at Stripe's next retry. A declined card
+ * leaves the invoice open.
+ */
+export async function retryFailedPayment(subscription: schema.Subscription) {
+	const dunning = await getOpenDunning(subscription.id);
+
+	if (!stripeClient || !dunning) {
+		return;
+	}
+
+	try {
+		await stripeClient.invoices.pay(dunning.stripeInvoiceId);
+	} catch (error) {
+		console.warn(
+			`⚠️ Retrying invoice ${dunning.stripeInvoiceId} failed:`,
+			error,
+		);
+	}
+}
+
+/**
+ * Stripe webhook events, the scheduler's email keys keep replayed events
+ * from sending an email twice
+ */
+export async function onDunningEvent(event: Stripe.Event) {
+	switch (event.type) {
+		case "invoice.payment_failed": {
+			const dunning = await recordPaymentFailure(event.data.object);
+
+			if (dunning) {
+				// The first email goes out right away, reminders with the scheduler
+				await sendPaymentFailedReminders(new Date(), dunning.subscriptionId);
+			}
+			break;
+		}
+		case "invoice.paid": {
+			const stripeSubscriptionId = getInvoiceSubscriptionId(event.data.object);
+
+			if (stripeSubscriptionId) {
+				await resolveDunning(stripeSubscriptionId);
+			}
+			break;
+		}
+		case "customer.subscription.updated":
+		case "customer.subscription.deleted": {
+			const stripeSubscription = event.data.object;
+
+			if (!isDunningStatus(stripeSubscription.status)) {
+				await resolveDunning(stripeSubscription.id);
+			}
+			break;
+		}
+	}
+}
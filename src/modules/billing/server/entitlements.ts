@@ -0,0 +1,105 @@
+import { and, desc, eq, inArray } from "drizzle-orm";
+import { db } from "@/lib/db";
+import * as schema from "@/lib/db/schema";
+import {
+	CURRENT_SUBSCRIPTION_STATUSES,
+	freePlan,
+	getPlanForSubscription,
+	type Plan,
+	type PlanFeature,
+	type PlanLimit,
+	planHasFeature,
+} from "../plans";
+import { getPlanCatalog } from "./catalog";
+import { isDowngradedForFailedPayment } from "./dunning";
+
+/**
+ * Plan Entitlements
+ *
+ * Features and limits of an organization come from the plan of its current
+ * subscription. Organizations without one are on the free plan, which is
+ * every organization when Stripe isn't configured. Subscriptions with a
+ * failed payment fall back to the free plan once the grace period is over.
+ */
+
+export interface Entitlements {
+	plan: string;
+	features: PlanFeature[];
+	limits: Plan["limits"];
+}
+
+export async function getCurrentSubscription(organizationId: string) {
+	const [subscription] = await db
+		.select()
+		.from(schema.subscription)
+		.where(
+			and(
+				eq(schema.subscription.referenceId, organizationId),
+				inArray(schema.subscription.status, CURRENT_SUBSCRIPTION_STATUSES),
+			),
+		)
+		.orderBy(desc(schema.subscription.createdAt))
+		.limit(1);
+
+	return subscription;
+}
+
+/**
+ * Plan a subscription grants, the free plan once it lost it to a failed
+ * payment
+ */
+export async function getSubscriptionPlan(
+	plans: Plan[],
+	subscription: schema.Subscription | undefined,
+): Promise<Plan> {
+	if (subscription && (await isDowngradedForFailedPayment(subscription))) {
+		return freePlan;
+	}
+
+	return getPlanForSubscription(plans, subscription);
+}
+
+export async function getOrganizationPlan(
+	organizationId: string,
+): Promise<Plan> {
+	const [plans, subscription] = await Promise.all([
+		getPlanCatalog(),
+		getCurrentSubscription(organizationId),
+	]);
+
+	return getSubscriptionPlan(plans, subscription);
+}
+
+/**
+ * Whether the organization's plan includes `feature`
+ */
+export async function hasFeature(
+	organizationId: string,
+	feature: PlanFeature,
+): Promise<boolean> {
+	return planHasFeature(await getOrganizationPlan(organizationId), feature);
+}
+
+/**
+ * A limit of the organization's plan, e.g. its seats
+ */
+export async function getLimit(
+	organizationId: string,
+	key: PlanLimit,
+): Promise<number> {
+	const plan = await getOrganizationPlan(organizationId);
+
+	return plan.limits[key];
+}
+
+export async function getEntitlements(
+	organizationId: string,
+): Promise<Entitlements> {
+	const plan = await getOrganizationPlan(organizationId);
+
+	return {
+		plan: plan.name,
+		features: plan.features,
+		limits: plan.limits,
+	};
+}
@@ -0,0 +1,276 @@
+import { and, desc, eq, isNotNull } from "drizzle-orm";
+import type Stripe from "stripe";
+import { db } from "@/lib/db";
+import * as schema from "@/lib/db/schema";
+import { stripeClient } from "@/lib/stripe";
+import type {
+	BillingContact,
+	BillingContactInput,
+	PaymentMethodSummary,
+} from "../payment-methods";
+import { retryFailedPayment } from "./dunning";
+import { getCurrentSubscription } from "./entitlements";
+
+/**
+ * Payment Methods
+ *
+ * Cards and the billing contact live on the organization's Stripe customer:
+ * the customer of its latest subscription, or before it subscribes, the
+ * customer of the member managing billing, which checkout uses too.
+ */
+
+/**
+ * Error thrown for a payment method that can't be used or removed
+ */
+export class PaymentMethodError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "PaymentMethodError";
+	}
+}
+
+function getStripe(): Stripe {
+	if (!stripeClient) {
+		throw new PaymentMethodError("Stripe is not configured");
+	}
+
+	return stripeClient;
+}
+
+/**
+ * Stripe customer of the organization, null when it has none yet
+ */
+export async function getBillingCustomerId(
+	organizationId: string,
+	userId: string,
+): Promise<string | null> {
+	const [subscription] = await db
+		.select({ stripeCustomerId: schema.subscription.stripeCustomerId })
+		.from(schema.subscription)
+		.where(
+			and(
+				eq(schema.subscription.referenceId, organizationId),
+				isNotNull(schema.subscription.stripeCustomerId),
+			),
+		)
+		.orderBy(desc(schema.subscription.createdAt))
+		.limit(1);
+
+	if (subscription?.stripeCustomerId) {
+		return subscription.stripeCustomerId;
+	}
+
+	const [user] = await db
+		.select({ stripeCustomerId: schema.user.stripeCustomerId })
+		.from(schema.user)
+		.where(eq(schema.user.id, userId))
+		.limit(1);
+
+	return user?.stripeCustomerId ?? null;
+}
+
+/**
+ * Stripe customer of the organization, created for the member when missing
+ */
+export async function ensureBillingCustomerId(
+	organizationId: string,
+	userId: string,
+): Promise<string> {
+	const customerId = await getBillingCustomerId(organizationId, userId);
+
+	if (customerId) {
+		return customerId;
+	}
+
+	const [user] = await db
+		.select({ email: schema.user.email, name: schema.user.name })
+		.from(schema.user)
+		.where(eq(schema.user.id, userId))
+		.limit(1);
+
+	if (!user) {
+		throw new PaymentMethodError("User not found");
+	}
+
+	const customer = await getStripe().customers.create({
+		email: user.email,
+		name: user.name,
+		metadata: { userId },
+	});
+
+	await db
+		.update(schema.user)
+		.set({ stripeCustomerId: customer.id, updatedAt: new Date() })
+		.where(eq(schema.user.id, userId));
+
+	return customer.id;
+}
+
+async function retrieveCustomer(customerId: string): Promise<Stripe.Customer> {
+	const customer = await getStripe().customers.retrieve(customerId);
+
+	if (customer.deleted) {
+		throw new PaymentMethodError("The billing customer was deleted");
+	}
+
+	return customer;
+}
+
+/**
+ * Cards of the customer, the default one first
+ */
+export async function listPaymentMethods(
+	customerId: string,
+): Promise<PaymentMethodSummary[]> {
+	const [customer, paymentMethods] = await Promise.all([
+		retrieveCustomer(customerId),
+		getStripe().customers.listPaymentMethods(customerId, {
+			type: "card",
+			limit: 100,
+		}),
+	]);
+
+	const defaultPaymentMethod =
+		customer.invoice_settings?.default_payment_method;
+	const defaultId =
+		typeof defaultPaymentMethod === "string"
+			? defaultPaymentMethod
+			: defaultPaymentMethod?.id;
+
+	return paymentMethods.data
+		.map((paymentMethod) => ({
+			id: paymentMethod.id,
+			brand: paymentMethod.card?.brand ?? "unknown",
+			last4: paymentMethod.card?.last4 ?? "",
+			expMonth: paymentMethod.card?.exp_month ?? 0,
+			expYear: paymentMethod.card?.exp_year ?? 0,
+			isDefault: paymentMethod.id === defaultId,
+		}))
+		.sort((a, b) => Number(b.isDefault) - Number(a.isDefault));
+}
+
+/**
+ * Start adding a card, Stripe.js confirms the SetupIntent with the card details
+ */
+export async function createSetupIntent(customerId: string) {
+	const setupIntent = await getStripe().setupIntents.create({
+		customer: customerId,
+		payment_method_types: ["card"],
+		usage: "off_session",
+	});
+
+	if (!setupIntent.client_secret) {
+		throw new PaymentMethodError("Stripe returned no client secret");
+	}
+
+	return { clientSecret: setupIntent.client_secret };
+}
+
+async function assertCustomerPaymentMethod(
+	customerId: string,
+	paymentMethodId: string,
+) {
+	const paymentMethod =
+		await getStripe().paymentMethods.retrieve(paymentMethodId);
+	const owner =
+		typeof paymentMethod.customer === "string"
+			? paymentMethod.customer
+			: paymentMethod.customer?.id;
+
+	if (owner !== customerId) {
+		throw new PaymentMethodError("Payment method not found");
+	}
+}
+
+/**
+ * Charge the card for the organization's invoices, including those of its
+ * current subscription and the one whose payment failed
+ */
+export async function setDefaultPaymentMethod(
+	organizationId: string,
+	customerId: string,
+	paymentMethodId: string,
+): Promise<void> {
+	await assertCustomerPaymentMethod(customerId, paymentMethodId);
+
+	const stripe = getStripe();
+
+	await stripe.customers.update(customerId, {
+		invoice_settings: { default_payment_method: paymentMethodId },
+	});
+
+	// Checkout sets the card on the subscription, which wins over the customer's
+	const subscription = await getCurrentSubscription(organizationId);
+
+	if (subscription?.stripeSubscriptionId) {
+		await stripe.subscriptions.update(subscription.stripeSubscriptionId, {
+			default_payment_method: paymentMethodId,
+		});
+
+		// Charge the new card for a failed invoice right away
+		await retryFailedPayment(subscription);
+	}
+}
+
+/**
+ * Remove a card from the customer
+ *
+ * The default card can't be removed while the organization has a current
+ * subscription, it would have nothing to charge.
+ */
+export async function removePaymentMethod(
+	organizationId: string,
+	customerId: string,
+	paymentMethodId: string,
+): Promise<void> {
+	await assertCustomerPaymentMethod(customerId, paymentMethodId);
+
+	const [paymentMethods, subscription] = await Promise.all([
+		listPaymentMethods(customerId),
+		getCurrentSubscription(organizationId),
+	]);
+	const isDefault = paymentMethods.some(
+		(paymentMethod) =>
+			paymentMethod.id === paymentMethodId && paymentMethod.isDefault,
+	);
+
+	if (isDefault && subscription) {
+		throw new PaymentMethodError(
+			"Make another card the default before removing this one",
+		);
+	}
+
+	await getStripe().paymentMethods.detach(paymentMethodId);
+}
+
+export async function getBillingContact(
+	customerId: string,
+): Promise<BillingContact> {
+	const customer = await retrieveCustomer(customerId);
+
+	return {
+		name: customer.name ?? "",
+		email: customer.email ?? "",
+		phone: customer.phone ?? "",
+	};
+}
+
+/**
+ * Update the name, email and phone on invoices and receipts
+ */
+export async function updateBillingContact(
+	customerId: string,
+	contact: BillingContactInput,
+): Promise<BillingContact> {
+	const customer = await getStripe().customers.update(customerId, {
+		name: contact.name,
+		email: contact.email,
+		phone: contact.phone,
+	});
+
+	return {
+		name: customer.name ?? "",
+		email: customer.email ?? "",
+		phone: customer.phone ?? "",
+	};
+}
@@ -0,0 +1,223 @@
+import { eq } from "drizzle-orm";
+import type Stripe from "stripe";
+import { db } from "@/lib/db";
+import * as schema from "@/lib/db/schema";
+import { stripeClient } from "@/lib/stripe";
+import { getProrationAmount, type PlanChangePreview } from "../plan-changes";
+import {
+	type BillingPeriod,
+	getPlanPriceId,
+	isFreePlan,
+	type Plan,
+	SubscriptionStatus,
+} from "../plans";
+import { isTrialEligible } from "./discounts";
+import { getCurrentSubscription } from "./entitlements";
+
+/**
+ * Plan Changes
+ *
+ * An organization without a subscription subscribes through Stripe Checkout,
+ * with the plan's free trial the first time.
+ * A current subscription is switched to the new price in place, prorated
+ * for the rest of the period; Stripe bills a switch between monthly and
+ * yearly right away and other changes on the next invoice.
+ */
+
+/**
+ * Error thrown for a plan change that isn't possible
+ */
+export class PlanChangeError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "PlanChangeError";
+	}
+}
+
+function getStripe(): Stripe {
+	if (!stripeClient) {
+		throw new PlanChangeError("Stripe is not configured");
+	}
+
+	return stripeClient;
+}
+
+function getTargetPriceId(plan: Plan, period: BillingPeriod): string {
+	const priceId = isFreePlan(plan) ? "" : getPlanPriceId(plan, period);
+
+	if (!priceId) {
+		throw new PlanChangeError(`The ${plan.name} plan has no ${period} price`);
+	}
+
+	return priceId;
+}
+
+/**
+ * The organization's Stripe subscription a plan change updates, if any
+ */
+async function getChangeableSubscription(organizationId: string) {
+	const subscription = await getCurrentSubscription(organizationId);
+
+	// Past due subscriptions are fixed by paying, not by changing plan
+	if (
+		!subscription?.stripeSubscriptionId ||
+		subscription.status === SubscriptionStatus.PAST_DUE
+	) {
+		return null;
+	}
+
+	const stripeSubscription = await getStripe().subscriptions.retrieve(
+		subscription.stripeSubscriptionId,
+	);
+	const item = stripeSubscription.items.data[0];
+
+	if (!item) {
+		return null;
+	}
+
+	return { subscription, stripeSubscription, item };
+}
+
+/**
+ * What changing the organization to `plan` billed per `period` costs
+ */
+export async function previewPlanChange(
+	organizationId: string,
+	plan: Plan,
+	period: BillingPeriod,
+	now = new Date(),
+): Promise<PlanChangePreview> {
+	const stripe = getStripe();
+	const priceId = getTargetPriceId(plan, period);
+	const [price, current] = await Promise.all([
+		stripe.prices.retrieve(priceId),
+		getChangeableSubscription(organizationId),
+	]);
+
+	const unitAmount = price.unit_amount ?? 0;
+	const interval = price.recurring?.interval ?? period;
+
+	if (!current) {
+		const trialDays =
+			plan.freeTrial && (await isTrialEligible(organizationId))
+				? plan.freeTrial.days
+				: 0;
+		const invoiceDate = new Date(now);
+		invoiceDate.setDate(invoiceDate.getDate() + trialDays);
+
+		// Checkout starts the subscription with a single seat
+		return {
+			plan: plan.name,
+			period,
+			currency: price.currency,
+			seats: 1,
+			recurringAmount: unitAmount,
+			interval,
+			prorationAmount: 0,
+			amountDue: unitAmount,
+			invoiceDate: invoiceDate.toISOString(),
+			chargedNow: trialDays === 0,
+			isNewSubscription: true,
+			trialDays,
+			prorationDate: null,
+		};
+	}
+
+	const { stripeSubscription, item } = current;
+
+	if (item.price.id === priceId) {
+		throw new PlanChangeError("The organization is already on this plan");
+	}
+
+	const seats = item.quantity ?? 1;
+	const prorationDate = Math.floor(now.getTime() / 1000);
+	const chargedNow = item.price.recurring?.interval !== interval;
+
+	const invoice = await stripe.invoices.createPreview({
+		customer:
+			typeof stripeSubscription.customer === "string"
+				? stripeSubscription.customer
+				: stripeSubscription.customer.id,
+		subscription: stripeSubscription.id,
+		subscription_details: {
+			items: [{ id: item.id, price: priceId, quantity: seats }],
+			proration_behavior: "create_prorations",
+			proration_date: prorationDate,
+		},
+	});
+
+	return {
+		plan: plan.name,
+		period,
+		currency: invoice.currency,
+		seats,
+		recurringAmount: unitAmount * seats,
+		interval,
+		prorationAmount: getProrationAmount(invoice.lines.data),
+		amountDue: invoice.amount_due,
+		invoiceDate: chargedNow
+			? now.toISOString()
+			: new Date(item.current_period_end * 1000).toISOString(),
+		chargedNow,
+		isNewSubscription: false,
+		trialDays: 0,
+		prorationDate,
+	};
+}
+
+/**
+ * Switch the organization's subscription to `plan` billed per `period`
+ *
+ * Pass the `prorationDate` of the preview so the change is billed as shown.
+ */
+export async function changePlan(
+	organizationId: string,
+	plan: Plan,
+	period: BillingPeriod,
+	prorationDate?: number,
+): Promise<void> {
+	const priceId = getTargetPriceId(plan, period);
+	const current = await getChangeableSubscription(organizationId);
+
+	if (!current) {
+		throw new PlanChangeError("Subscribe to a plan through checkout first");
+	}
+
+	const { subscription, stripeSubscription, item } = current;
+
+	if (item.price.id === priceId) {
+		throw new PlanChangeError("The organization is already on this plan");
+	}
+
+	const updated = await getStripe().subscriptions.update(
+		stripeSubscription.id,
+		{
+			items: [{ id: item.id, price: priceId, quantity: item.quantity ?? 1 }],
+			proration_behavior: "create_prorations",
+			proration_date: prorationDate,
+		},
+	);
+	const updatedItem = updated.items.data[0];
+
+	// The subscription webhook makes the same update, this shows the new plan
+	// without waiting for it
+	await db
+		.update(schema.subscription)
+		.set({
+			plan: plan.name.toLowerCase(),
+			status: updated.status,
+			seats: updatedItem?.quantity ?? subscription.seats,
+			periodStart: updatedItem
+				? new Date(updatedItem.current_period_start * 1000)
+				: subscription.periodStart,
+			periodEnd: updatedItem
+				? new Date(updatedItem.current_period_end * 1000)
+				: subscription.periodEnd,
+			updatedAt: new Date(),
+		})
+		.where(eq(schema.subscription.id, subscription.id));
+
+	console.log(
+		`✅ Subscription ${stripeSubscription.id} changed to ${plan.name} (${period})`,
+	);
+}
@@ -2,66 +2,233 @@ import type { Subscription } from "@better-auth/stripe";
 import { TRPCError } from "@trpc/server";
 import { headers } from "next/headers";
 import type Stripe from "stripe";
+import { z } from "zod";
 import { auth } from "@/lib/auth";
+import type { StripeEvent } from "@/lib/db/schema";
+import { env } from "@/lib/env";
 import { isStripeEnabled, stripeClient } from "@/lib/stripe";
+import { getMemberRole } from "@/modules/auth/server/utils";
 import {
+	adminProcedure,
 	baseProcedure,
 	createTRPCRouter,
+	organizationAdminProcedure,
+	organizationOwnerProcedure,
 	protectedProcedure,
 } from "@/trpc/init";
-import { mapStripeToAppSubscription, type Plan, plans } from "../plans";
+import { createCatalogPlanSchema } from "../catalog";
+import { type Discount, promotionCodeSchema } from "../discounts";
+import type { DunningStatus } from "../dunning";
+import { createBillingContactSchema } from "../payment-methods";
+import {
+	BillingPeriod,
+	findPlanByName,
+	isFreePlan,
+	mapStripeToAppSubscription,
+	type Plan,
+} from "../plans";
+import type { SeatUsage } from "../seats";
+import { StripeEventStatus, StripeWebhookError } from "../webhooks";
+import {
+	deleteCatalogPlan,
+	getOfferedPlans,
+	getPlanCatalog,
+	listCatalogPlans,
+	PlanCatalogError,
+	saveCatalogPlan,
+	syncPlansFromStripe,
+} from "./catalog";
+import {
+	type CreditBalance,
+	CreditLimitError,
+	getCreditBalance,
+	grantCredits,
+	recordCreditUsage,
+} from "./credits";
+import {
+	findPromotionCode,
+	getTrialAndDiscounts,
+	toDiscount,
+} from "./discounts";
+import { getDunningStatus } from "./dunning";
+import {
+	type Entitlements,
+	getCurrentSubscription,
+	getEntitlements,
+} from "./entitlements";
+import {
+	createSetupIntent,
+	ensureBillingCustomerId,
+	getBillingContact,
+	getBillingCustomerId,
+	listPaymentMethods,
+	PaymentMethodError,
+	removePaymentMethod,
+	setDefaultPaymentMethod,
+	updateBillingContact,
+} from "./payment-methods";
+import { changePlan, PlanChangeError, previewPlanChange } from "./plan-changes";
+import { getSeatUsage } from "./seats";
+import { listStripeEvents, replayStripeEvent } from "./webhooks";
+
+// Dates are sent as ISO strings, there is no data transformer
+const serializeCreditBalance = (balance: CreditBalance) => ({
+	...balance,
+	period: {
+		start: balance.period.start.toISOString(),
+		end: balance.period.end.toISOString(),
+	},
+});
+
+// Payment method errors are the user's to fix
+const toPaymentMethodTRPCError = (error: unknown) => {
+	if (error instanceof PaymentMethodError) {
+		return new TRPCError({
+			code: "BAD_REQUEST",
+			message: error.message,
+			cause: error,
+		});
+	}
+
+	return error;
+};
+
+const planChangeSchema = z.object({
+	plan: z.string().min(1),
+	period: z.nativeEnum(BillingPeriod),
+});
+
+const findPaidPlan = async (name: string) => {
+	const plan = findPlanByName(await getOfferedPlans(), name);
+
+	if (!plan || isFreePlan(plan)) {
+		throw new TRPCError({ code: "NOT_FOUND", message: "Plan not found" });
+	}
+
+	return plan;
+};
+
+const toPlanChangeTRPCError = (error: unknown) => {
+	if (error instanceof PlanChangeError) {
+		return new TRPCError({
+			code: "BAD_REQUEST",
+			message: error.message,
+			cause: error,
+		});
+	}
+
+	return error;
+};
+
+// Catalog errors are the admin's to fix
+const toPlanCatalogTRPCError = (error: unknown) => {
+	if (error instanceof PlanCatalogError) {
+		return new TRPCError({
+			code: "BAD_REQUEST",
+			message: error.message,
+			cause: error,
+		});
+	}
+
+	return error;
+};
+
+const toStripeWebhookTRPCError = (error: unknown) => {
+	if (error instanceof StripeWebhookError) {
+		return new TRPCError({
+			code: error.status === 404 ? "NOT_FOUND" : "CONFLICT",
+			message: error.message,
+			cause: error,
+		});
+	}
+
+	return error;
+};
+
+// Received Stripe webhook events, for the admin screen
+const serializeStripeEvent = (event: StripeEvent) => ({
+	id: event.id,
+	type: event.type,
+	status: event.status as StripeEventStatus,
+	attempts: event.attempts,
+	lastError: event.lastError,
+	livemode: event.livemode,
+	payload: JSON.stringify(event.payload, null, 2),
+	createdAt: event.createdAt.toISOString(),
+	receivedAt: event.receivedAt.toISOString(),
+	processedAt: event.processedAt?.toISOString() ?? null,
+});
+
+const requireStripe = () => {
+	if (!isStripeEnabled) {
+		throw new TRPCError({
+			code: "PRECONDITION_FAILED",
+			message: "Stripe not configured",
+		});
+	}
+};
 
 export const billingRouter = createTRPCRouter({
-	// Return configured plans enriched with Stripe price information when available
+	// Return the offered plans enriched with Stripe price information when available
 	getPlans: baseProcedure.query(async () => {
-		// If Stripe is not configured, just return the static plans
+		const plans = await getOfferedPlans();
+
+		// If Stripe is not configured, just return the catalog plans
 		if (!isStripeEnabled || !stripeClient) {
 			return plans;
 		}
 
 		const result = await Promise.all(
-			plans.map(async (plan) => {
-				try {
-					// Retrieve both monthly and yearly prices if available
-					const monthlyPriceId = plan.priceId;
-					const yearlyPriceId = plan.annualDiscountPriceId;
+			plans.map(async (plan): Promise<Plan | null> => {
+				if (isFreePlan(plan)) {
+					return plan;
+				}
 
+				try {
 					const [monthly, yearly] = await Promise.all([
-						monthlyPriceId
-							? stripeClient?.prices.retrieve(monthlyPriceId)
-							: Promise.resolve(undefined as unknown as Stripe.Price),
-						yearlyPriceId
-							? stripeClient?.prices.retrieve(yearlyPriceId)
-							: Promise.resolve(undefined as unknown as Stripe.Price),
+						stripeClient?.prices.retrieve(plan.priceId),
+						stripeClient?.prices.retrieve(plan.annualDiscountPriceId),
 					]);
 
+					// Plans without a monthly and a yearly price can't be subscribed to
+					if (
+						!monthly?.active ||
+						!yearly?.active ||
+						monthly.recurring?.interval !== "month" ||
+						yearly.recurring?.interval !== "year"
+					) {
+						console.warn(
+							`⚠️ The ${plan.name} plan has no active monthly and yearly Stripe prices`,
+						);
+						return null;
+					}
+
 					return {
 						...plan,
-						// Provide both monthly and yearly enriched prices when available
 						prices: {
-							monthly: monthly
-								? {
-										unitAmount: monthly.unit_amount ?? undefined,
-										currency: monthly.currency ?? undefined,
-										interval: monthly.recurring?.interval ?? undefined,
-									}
-								: undefined,
-							yearly: yearly
-								? {
-										unitAmount: yearly.unit_amount ?? undefined,
-										currency: yearly.currency ?? undefined,
-										interval: yearly.recurring?.interval ?? undefined,
-									}
-								: undefined,
+							monthly: {
+								unitAmount: monthly.unit_amount ?? 0,
+								currency: monthly.currency,
+								interval: monthly.recurring.interval,
+							},
+							yearly: {
+								unitAmount: yearly.unit_amount ?? 0,
+								currency: yearly.currency,
+								interval: yearly.recurring.interval,
+							},
 						},
-					} as Plan;
-				} catch {
-					return plan;
+					};
+				} catch (error) {
+					console.warn(
+						`⚠️ Failed to retrieve the Stripe prices of the ${plan.name} plan`,
+						error,
+					);
+					return null;
 				}
 			}),
 		);
 
-		return result;
+		return result.filter((plan) => plan !== null);
 	}),
 
 	getActiveSubscription: protectedProcedure.query(async ({ ctx }) => {
@@ -107,7 +274,7 @@ export const billingRouter = createTRPCRouter({
 			const activeSubscription = mapStripeToAppSubscription(
 				stripeActiveSubscription,
 				ctx.auth.session.activeOrganizationId ?? undefined,
-				plans,
+				await getPlanCatalog(),
 			);
 
 			return activeSubscription;
@@ -179,4 +346,365 @@ export const billingRouter = createTRPCRouter({
 			});
 		}
 	}),
+
+	// Plan features and limits of the active organization
+	getEntitlements: protectedProcedure.query(
+		async ({ ctx }): Promise<Entitlements | null> => {
+			const organizationId = ctx.auth.session.activeOrganizationId;
+
+			if (!organizationId) {
+				return null;
+			}
+
+			return getEntitlements(organizationId);
+		},
+	),
+
+	// Members and pending invitations against the seats of the active organization's plan
+	getSeatUsage: protectedProcedure.query(
+		async ({ ctx }): Promise<SeatUsage | null> => {
+			const organizationId = ctx.auth.session.activeOrganizationId;
+
+			if (!organizationId) {
+				return null;
+			}
+
+			return getSeatUsage(organizationId);
+		},
+	),
+
+	// Credits of the active organization in the current period
+	getCredits: protectedProcedure.query(async ({ ctx }) => {
+		const organizationId = ctx.auth.session.activeOrganizationId;
+
+		if (!organizationId) {
+			return null;
+		}
+
+		return serializeCreditBalance(await getCreditBalance(organizationId));
+	}),
+
+	// Record credits consumed by a feature, also callable with an API key
+	// (`x-api-key` header), which has no active organization
+	recordUsage: protectedProcedure
+		.input(
+			z.object({
+				amount: z.number().int().min(1).max(1_000_000),
+				feature: z.string().trim().min(1).max(100),
+				description: z.string().trim().max(500).optional(),
+				idempotencyKey: z.string().trim().min(1).max(200).optional(),
+				organizationId: z.string().optional(),
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			const { organizationId: inputOrganizationId, ...usage } = input;
+			const organizationId =
+				inputOrganizationId ?? ctx.auth.session.activeOrganizationId;
+
+			if (
+				!organizationId ||
+				!(await getMemberRole(ctx.auth.user.id, organizationId))
+			) {
+				throw new TRPCError({
+					code: "FORBIDDEN",
+					message: "Not a member of the organization",
+				});
+			}
+
+			try {
+				const { entry, balance } = await recordCreditUsage({
+					...usage,
+					organizationId,
+					userId: ctx.auth.user.id,
+				});
+
+				return {
+					id: entry.id,
+					overage: entry.overage,
+					balance: serializeCreditBalance(balance),
+				};
+			} catch (error) {
+				if (error instanceof CreditLimitError) {
+					throw new TRPCError({
+						code: "PAYMENT_REQUIRED",
+						message: error.message,
+						cause: error,
+					});
+				}
+
+				throw error;
+			}
+		}),
+
+	// Extra credits for the current period of an organization
+	grantCredits: adminProcedure
+		.input(
+			z.object({
+				organizationId: z.string().min(1),
+				amount: z.number().int().min(1).max(1_000_000),
+				description: z.string().trim().max(500).optional(),
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			const entry = await grantCredits({
+				...input,
+				userId: ctx.auth.user.id,
+			});
+
+			return { id: entry.id };
+		}),
+
+	// Trial and discounts of the active organization's subscription
+	getTrialAndDiscounts: protectedProcedure.query(async ({ ctx }) => {
+		const organizationId = ctx.auth.session.activeOrganizationId;
+
+		if (!organizationId || !isStripeEnabled) {
+			return null;
+		}
+
+		return getTrialAndDiscounts(organizationId);
+	}),
+
+	// Discount of a promotion code, checked before it is sent to checkout
+	checkPromotionCode: organizationOwnerProcedure
+		.input(z.object({ code: promotionCodeSchema }))
+		.mutation(async ({ input }): Promise<Discount> => {
+			requireStripe();
+
+			const promotionCode = await findPromotionCode(input.code);
+
+			if (!promotionCode) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Promotion code not found or expired",
+				});
+			}
+
+			return toDiscount(promotionCode.coupon, promotionCode.code);
+		}),
+
+	// Failed payment of the active organization's subscription, for the banner
+	getDunningStatus: protectedProcedure.query(
+		async ({ ctx }): Promise<DunningStatus | null> => {
+			const organizationId = ctx.auth.session.activeOrganizationId;
+
+			if (!organizationId || !isStripeEnabled) {
+				return null;
+			}
+
+			return getDunningStatus(await getCurrentSubscription(organizationId));
+		},
+	),
+
+	// Cards and billing contact of the active organization's Stripe customer
+	getPaymentMethods: organizationAdminProcedure.query(async ({ ctx }) => {
+		if (!isStripeEnabled) {
+			return null;
+		}
+
+		const customerId = await getBillingCustomerId(
+			ctx.organizationId,
+			ctx.auth.user.id,
+		);
+
+		return {
+			paymentMethods: customerId ? await listPaymentMethods(customerId) : [],
+			contact: customerId
+				? await getBillingContact(customerId)
+				: { name: "", email: "", phone: "" },
+			// Cards can only be added with Stripe.js
+			publishableKey: env.STRIPE_PUBLISHABLE_KEY ?? null,
+		};
+	}),
+
+	// SetupIntent the card form confirms with Stripe.js
+	createSetupIntent: organizationAdminProcedure.mutation(async ({ ctx }) => {
+		requireStripe();
+
+		try {
+			const customerId = await ensureBillingCustomerId(
+				ctx.organizationId,
+				ctx.auth.user.id,
+			);
+
+			return await createSetupIntent(customerId);
+		} catch (error) {
+			throw toPaymentMethodTRPCError(error);
+		}
+	}),
+
+	setDefaultPaymentMethod: organizationAdminProcedure
+		.input(z.object({ paymentMethodId: z.string().min(1) }))
+		.mutation(async ({ ctx, input }) => {
+			requireStripe();
+
+			try {
+				const customerId = await getBillingCustomerId(
+					ctx.organizationId,
+					ctx.auth.user.id,
+				);
+
+				if (!customerId) {
+					throw new PaymentMethodError("Payment method not found");
+				}
+
+				await setDefaultPaymentMethod(
+					ctx.organizationId,
+					customerId,
+					input.paymentMethodId,
+				);
+
+				return { id: input.paymentMethodId };
+			} catch (error) {
+				throw toPaymentMethodTRPCError(error);
+			}
+		}),
+
+	removePaymentMethod: organizationAdminProcedure
+		.input(z.object({ paymentMethodId: z.string().min(1) }))
+		.mutation(async ({ ctx, input }) => {
+			requireStripe();
+
+			try {
+				const customerId = await getBillingCustomerId(
+					ctx.organizationId,
+					ctx.auth.user.id,
+				);
+
+				if (!customerId) {
+					throw new PaymentMethodError("Payment method not found");
+				}
+
+				await removePaymentMethod(
+					ctx.organizationId,
+					customerId,
+					input.paymentMethodId,
+				);
+
+				return { id: input.paymentMethodId };
+			} catch (error) {
+				throw toPaymentMethodTRPCError(error);
+			}
+		}),
+
+	updateBillingContact: organizationAdminProcedure
+		.input(createBillingContactSchema())
+		.mutation(async ({ ctx, input }) => {
+			requireStripe();
+
+			try {
+				const customerId = await ensureBillingCustomerId(
+					ctx.organizationId,
+					ctx.auth.user.id,
+				);
+
+				return await updateBillingContact(customerId, input);
+			} catch (error) {
+				throw toPaymentMethodTRPCError(error);
+			}
+		}),
+
+	// Cost of switching the active organization to a plan and billing period
+	previewChange: organizationOwnerProcedure
+		.input(planChangeSchema)
+		.query(async ({ ctx, input }) => {
+			requireStripe();
+
+			try {
+				return await previewPlanChange(
+					ctx.organizationId,
+					await findPaidPlan(input.plan),
+					input.period,
+				);
+			} catch (error) {
+				throw toPlanChangeTRPCError(error);
+			}
+		}),
+
+	// Switch the current subscription as previewed, new subscriptions use checkout
+	changePlan: organizationOwnerProcedure
+		.input(
+			planChangeSchema.extend({
+				prorationDate: z.number().int().positive().optional(),
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			requireStripe();
+
+			try {
+				await changePlan(
+					ctx.organizationId,
+					await findPaidPlan(input.plan),
+					input.period,
+					input.prorationDate,
+				);
+
+				return { plan: input.plan, period: input.period };
+			} catch (error) {
+				throw toPlanChangeTRPCError(error);
+			}
+		}),
+
+	// Paid plans of the catalog with what keeps them from being offered
+	listCatalog: adminProcedure.query(async () => listCatalogPlans()),
+
+	saveCatalogPlan: adminProcedure
+		.input(createCatalogPlanSchema())
+		.mutation(async ({ input }) => {
+			try {
+				return await saveCatalogPlan(input);
+			} catch (error) {
+				throw toPlanCatalogTRPCError(error);
+			}
+		}),
+
+	deleteCatalogPlan: adminProcedure
+		.input(z.object({ id: z.number().int().positive() }))
+		.mutation(async ({ input }) => {
+			try {
+				await deleteCatalogPlan(input.id);
+
+				return { id: input.id };
+			} catch (error) {
+				throw toPlanCatalogTRPCError(error);
+			}
+		}),
+
+	// Import the plans from the Stripe products and prices
+	syncCatalog: adminProcedure.mutation(async () => {
+		requireStripe();
+
+		try {
+			return await syncPlansFromStripe();
+		} catch (error) {
+			throw toPlanCatalogTRPCError(error);
+		}
+	}),
+
+	// Stripe webhook events newest first, with how processing them went
+	listWebhookEvents: adminProcedure
+		.input(
+			z.object({
+				status: z.nativeEnum(StripeEventStatus).optional(),
+				search: z.string().trim().max(200).optional(),
+				page: z.number().int().min(1).default(1),
+				pageSize: z.number().int().min(1).max(100).default(25),
+			}),
+		)
+		.query(async ({ input }) => {
+			const { events, total } = await listStripeEvents(input);
+
+			return { total, events: events.map(serializeStripeEvent) };
+		}),
+
+	// Run the handlers of a stored event again, emails aren't sent twice
+	replayWebhookEvent: adminProcedure
+		.input(z.object({ id: z.string().min(1) }))
+		.mutation(async ({ input }) => {
+			try {
+				return serializeStripeEvent(await replayStripeEvent(input.id));
+			} catch (error) {
+				throw toStripeWebhookTRPCError(error);
+			}
+		}),
 });
@@ -0,0 +1,215 @@
+import type { Adapter, BetterAuthOptions } from "better-auth";
+import { APIError } from "better-auth/api";
+import { and, count, eq, sql } from "drizzle-orm";
+import { db, dbPg } from "@/lib/db";
+import * as schema from "@/lib/db/schema";
+import { isStripeEnabled, stripeClient } from "@/lib/stripe";
+import {
+	getAvailableSeats,
+	getSeatLimit,
+	hasSeatForMember,
+	type SeatUsage,
+} from "../seats";
+import { getPlanCatalog } from "./catalog";
+import { getCurrentSubscription, getSubscriptionPlan } from "./entitlements";
+
+/**
+ * Seat Limits
+ *
+ * Seats are enforced while billing is enabled, see `getSeatLimit`. Prices
+ * marked `per_seat` in their Stripe metadata bill each member, the
+ * subscription quantity follows the number of members.
+ */
+
+const SEAT_LIMIT_REACHED =
+	"All seats of your plan are in use, upgrade your plan to add more members";
+
+async function countMembers(organizationId: string): Promise<number> {
+	const [{ total }] = await db
+		.select({ total: count() })
+		.from(schema.member)
+		.where(eq(schema.member.organizationId, organizationId));
+
+	return total;
+}
+
+export async function getSeatUsage(organizationId: string): Promise<SeatUsage> {
+	const [plans, subscription, used, [{ pending }]] = await Promise.all([
+		getPlanCatalog(),
+		getCurrentSubscription(organizationId),
+		countMembers(organizationId),
+		db
+			.select({ pending: count() })
+			.from(schema.invitation)
+			.where(
+				and(
+					eq(schema.invitation.organizationId, organizationId),
+					eq(schema.invitation.status, "pending"),
+				),
+			),
+	]);
+
+	const plan = await getSubscriptionPlan(plans, subscription);
+
+	return {
+		used,
+		pending,
+		limit: getSeatLimit(plan, isStripeEnabled),
+		plan: plan.name,
+	};
+}
+
+/**
+ * Whether the organization has a seat left to invite `email`
+ *
+ * Re-sending a pending invitation doesn't take another seat.
+ */
+export async function canInviteMember(
+	organizationId: string,
+	email: string,
+): Promise<boolean> {
+	const usage = await getSeatUsage(organizationId);
+
+	if (getAvailableSeats(usage) > 0) {
+		return true;
+	}
+
+	const [pendingInvitation] = await db
+		.select({ id: schema.invitation.id })
+		.from(schema.invitation)
+		.where(
+			and(
+				eq(schema.invitation.organizationId, organizationId),
+				eq(schema.invitation.email, email.toLowerCase()),
+				eq(schema.invitation.status, "pending"),
+			),
+		)
+		.limit(1);
+
+	return Boolean(pendingInvitation);
+}
+
+/**
+ * Whether the organization has a seat left for a new member
+ */
+export async function canAddMember(organizationId: string): Promise<boolean> {
+	return hasSeatForMember(await getSeatUsage(organizationId));
+}
+
+/**
+ * Hold the seat lock of an organization while `fn` runs
+ *
+ * The lock's transaction only lasts as long as `fn`, keep it to counting
+ * the seats and creating the row that takes one.
+ */
+async function withSeatLock<T>(
+	organizationId: string,
+	fn: () => Promise<T>,
+): Promise<T> {
+	return dbPg.transaction(async (tx) => {
+		await tx.execute(
+			sql`select pg_advisory_xact_lock(hashtext(${`seats:${organizationId}`}))`,
+		);
+
+		return fn();
+	});
+}
+
+/**
+ * Database adapter that creates invitations and members only when the
+ * organization has a seat left
+ *
+ * Better Auth creates them from the organization plugin's endpoints. The
+ * seats are counted and the row inserted under the organization's seat lock,
+ * so concurrent invitations and members can't take the same seat.
+ */
+export function withSeatLimits(
+	createAdapter: (options: BetterAuthOptions) => Adapter,
+): (options: BetterAuthOptions) => Adapter {
+	return (options) => {
+		const adapter = createAdapter(options);
+
+		return {
+			...adapter,
+			create: async (params) => {
+				const { model, data } = params;
+
+				// Seats are not limited without billing
+				if (
+					(model !== "invitation" && model !== "member") ||
+					!isStripeEnabled
+				) {
+					return adapter.create(params);
+				}
+
+				const organizationId = String(data.organizationId);
+
+				return withSeatLock(organizationId, async () => {
+					const hasSeat =
+						model === "invitation"
+							? await canInviteMember(organizationId, String(data.email))
+							: await canAddMember(organizationId);
+
+					if (!hasSeat) {
+						throw new APIError("FORBIDDEN", { message: SEAT_LIMIT_REACHED });
+					}
+
+					return adapter.create(params);
+				});
+			},
+		};
+	};
+}
+
+/**
+ * Set the Stripe subscription quantity to the number of members, for
+ * subscriptions to a per-seat price
+ *
+ * Flat prices include their seats, their quantity stays 1. Failures are
+ * logged, a membership change is never rolled back because Stripe is
+ * unavailable.
+ */
+export async function syncSubscriptionSeats(
+	organizationId: string,
+): Promise<void> {
+	try {
+		const subscription = await getCurrentSubscription(organizationId);
+
+		if (!subscription?.stripeSubscriptionId || !stripeClient) {
+			return;
+		}
+
+		const seats = Math.max(1, await countMembers(organizationId));
+
+		if (subscription.seats === seats) {
+			return;
+		}
+
+		const stripeSubscription = await stripeClient.subscriptions.retrieve(
+			subscription.stripeSubscriptionId,
+		);
+		const item = stripeSubscription.items.data[0];
+
+		if (item?.price.metadata.per_seat !== "true") {
+			return;
+		}
+
+		if (item.quantity !== seats) {
+			await stripeClient.subscriptions.update(stripeSubscription.id, {
+				items: [{ id: item.id, quantity: seats }],
+				proration_behavior: "create_prorations",
+			});
+		}
+
+		await db
+			.update(schema.subscription)
+			.set({ seats, updatedAt: new Date() })
+			.where(eq(schema.subscription.id, subscription.id));
+
+		console.log(
+			`✅ Subscription ${subscription.stripeSubscriptionId} synced to ${seats} seats`,
+		);
+	} catch (error) {
+		console.error("❌ Failed to sync subscription seats:", error);
+	}
+}
@@ -1,14 +1,25 @@
-import type { StripePlan, Subscription } from "@better-auth/stripe";
 import type { User } from "better-auth";
-import { and, eq } from "drizzle-orm";
+import { and, desc, eq, isNull } from "drizzle-orm";
 import type Stripe from "stripe";
 import { db } from "@/lib/db";
 import * as schema from "@/lib/db/schema";
 import { env } from "@/lib/env";
+import { stripeClient } from "@/lib/stripe";
 import {
+	type EmailAttachment,
+	getScheduledEmailKey,
+	sendEmailOnce,
 	sendSubscriptionCancellationEmail,
 	sendSubscriptionUpgradeEmail,
 } from "@/modules/emails";
+import {
+	findPlanByPriceId,
+	isFreePlan,
+	type Plan,
+	SubscriptionStatus,
+} from "../plans";
+import type { StripeEventContext } from "../webhooks";
+import { getPlanCatalog } from "./catalog";
 
 export async function authorizeSubscription({
 	user,
@@ -59,147 +70,320 @@ export const getNextBillingDate = (
 	return new Date(nextBillingTimestamp * 1000).toLocaleDateString();
 };
 
-export async function onSubscriptionComplete({
-	subscription,
-	plan,
-	stripeSubscription,
-}: {
-	event: Stripe.Event;
-	stripeSubscription: Stripe.Subscription;
-	subscription: Subscription;
-	plan: StripePlan;
-}) {
-	// Called when a subscription is successfully created
-	try {
-		const [membership] = await db
-			.select()
-			.from(schema.member)
-			.where(
-				and(
-					eq(schema.member.organizationId, subscription.referenceId),
-					eq(schema.member.role, "owner"),
-				),
-			);
+// Give up on the invoice PDF rather than hold up the webhook event
+const INVOICE_PDF_TIMEOUT_MS = 10_000;
 
-		const [user] = await db
-			.select()
-			.from(schema.user)
-			.where(eq(schema.user.id, membership?.userId));
+// Download the PDF of the subscription's latest invoice so it can be attached to emails
+const getLatestInvoiceAttachment = async (
+	stripeSubscription: Stripe.Subscription,
+): Promise<EmailAttachment | undefined> => {
+	const latestInvoice = stripeSubscription.latest_invoice;
+
+	if (!stripeClient || !latestInvoice) {
+		return undefined;
+	}
+
+	try {
+		const invoice =
+			typeof latestInvoice === "string"
+				? await stripeClient.invoices.retrieve(latestInvoice)
+				: latestInvoice;
 
-		if (!user) {
-			throw new Error("User not found");
+		if (!invoice.invoice_pdf) {
+			return undefined;
 		}
 
-		const userEmail = user.email;
-		const userName = user.name;
-		const price = stripeSubscription.items.data[0]?.price;
-
-		// Format billing cycle and next billing date
-		const billingCycle = price?.recurring?.interval || "month";
-		const nextBillingDate = getNextBillingDate(stripeSubscription);
-
-		// Format plan price (convert from cents if needed)
-		const planPrice = price?.unit_amount
-			? `$${(price.unit_amount / 100).toFixed(2)}`
-			: plan.name;
-
-		// Send subscription notification email
-		await sendSubscriptionUpgradeEmail({
-			to: userEmail,
-			userName,
-			dashboardUrl: `${env.NEXT_PUBLIC_APP_URL}/dashboard`,
-			planName: plan.name,
-			planPrice,
-			billingCycle,
-			nextBillingDate,
-			locale: user.language ?? "en",
+		const response = await fetch(invoice.invoice_pdf, {
+			signal: AbortSignal.timeout(INVOICE_PDF_TIMEOUT_MS),
 		});
+		if (!response.ok) {
+			throw new Error(`Invoice PDF download failed with ${response.status}`);
+		}
 
-		console.log(
-			`✅ Subscription notification email sent to ${userEmail} for plan ${plan.name}`,
-		);
+		return {
+			filename: `invoice-${invoice.number ?? invoice.id}.pdf`,
+			content: Buffer.from(await response.arrayBuffer()).toString("base64"),
+			contentType: "application/pdf",
+		};
 	} catch (error) {
-		console.error("❌ Failed to send subscription notification email:", error);
-		// Don't throw error to avoid breaking the subscription process
+		// The email is still useful without the invoice
+		console.warn("⚠️  Failed to attach the latest invoice:", error);
+		return undefined;
+	}
+};
+
+const toDate = (timestamp: number | null | undefined) =>
+	timestamp ? new Date(timestamp * 1000) : null;
+
+/**
+ * Subscription record of a Stripe subscription
+ *
+ * Checkout stores the record id in the session metadata, subscriptions
+ * created by a checkout of this app carry it in their own metadata. The
+ * record of a checkout that isn't completed yet is found by its customer.
+ */
+async function findSubscriptionRecord(
+	stripeSubscription: Stripe.Subscription,
+	subscriptionId = stripeSubscription.metadata?.subscriptionId,
+) {
+	const [subscription] = await db
+		.select()
+		.from(schema.subscription)
+		.where(
+			subscriptionId
+				? eq(schema.subscription.id, subscriptionId)
+				: eq(schema.subscription.stripeSubscriptionId, stripeSubscription.id),
+		)
+		.limit(1);
+
+	if (subscription) {
+		return subscription;
 	}
+
+	const customerId =
+		typeof stripeSubscription.customer === "string"
+			? stripeSubscription.customer
+			: stripeSubscription.customer.id;
+
+	const [pending] = await db
+		.select()
+		.from(schema.subscription)
+		.where(
+			and(
+				eq(schema.subscription.stripeCustomerId, customerId),
+				isNull(schema.subscription.stripeSubscriptionId),
+			),
+		)
+		.orderBy(desc(schema.subscription.createdAt))
+		.limit(1);
+
+	return pending;
 }
-export async function onSubscriptionUpdate({
-	subscription,
-}: {
-	event: Stripe.Event;
-	subscription: Subscription;
-}) {
-	// Called when a subscription is updated
-	console.log(`Subscription ${subscription.id} updated`);
+
+/**
+ * Copy the plan, status, seats, period and trial of a Stripe subscription
+ * to its record
+ *
+ * Events can arrive out of order or be replayed, so the subscription is
+ * read from Stripe as it is now rather than taken from the event.
+ */
+export async function syncSubscription(
+	stripeSubscriptionId: string,
+	subscriptionId?: string,
+) {
+	if (!stripeClient) {
+		return null;
+	}
+
+	const stripeSubscription =
+		await stripeClient.subscriptions.retrieve(stripeSubscriptionId);
+	const previous = await findSubscriptionRecord(
+		stripeSubscription,
+		subscriptionId,
+	);
+
+	if (!previous) {
+		console.warn(
+			`⚠️ No subscription record for Stripe subscription ${stripeSubscriptionId}`,
+		);
+		return null;
+	}
+
+	const item = stripeSubscription.items.data[0];
+	const plan = findPlanByPriceId(await getPlanCatalog(), item?.price.id);
+
+	const [subscription] = await db
+		.update(schema.subscription)
+		.set({
+			// Prices of no plan in the catalog keep the current plan name
+			...(plan && !isFreePlan(plan) && { plan: plan.name.toLowerCase() }),
+			status: stripeSubscription.status,
+			stripeSubscriptionId: stripeSubscription.id,
+			periodStart: toDate(item?.current_period_start),
+			periodEnd: toDate(item?.current_period_end),
+			cancelAtPeriodEnd: stripeSubscription.cancel_at_period_end,
+			seats: item?.quantity ?? previous.seats,
+			trialStart: toDate(stripeSubscription.trial_start),
+			trialEnd: toDate(stripeSubscription.trial_end),
+			updatedAt: new Date(),
+		})
+		.where(eq(schema.subscription.id, previous.id))
+		.returning();
+
+	return { previous, subscription, stripeSubscription, plan };
 }
 
-export async function onSubscriptionCancel({
-	subscription,
-	cancellationDetails,
-}: {
-	event?: Stripe.Event;
-	subscription: Subscription;
-	stripeSubscription: Stripe.Subscription;
-	cancellationDetails?: Stripe.Subscription.CancellationDetails | null;
-}) {
-	// Called when a subscription is canceled
-	try {
-		const [membership] = await db
-			.select()
-			.from(schema.member)
-			.where(
-				and(
-					eq(schema.member.organizationId, subscription.referenceId),
-					eq(schema.member.role, "owner"),
-				),
-			);
+/**
+ * Billing emails go to the owner of the subscribed organization
+ */
+async function getOrganizationOwner(organizationId: string) {
+	const [owner] = await db
+		.select({
+			email: schema.user.email,
+			name: schema.user.name,
+			language: schema.user.language,
+		})
+		.from(schema.member)
+		.innerJoin(schema.user, eq(schema.user.id, schema.member.userId))
+		.where(
+			and(
+				eq(schema.member.organizationId, organizationId),
+				eq(schema.member.role, "owner"),
+			),
+		)
+		.limit(1);
 
-		const [user] = await db
-			.select()
-			.from(schema.user)
-			.where(eq(schema.user.id, membership?.userId));
+	if (!owner) {
+		throw new Error("Organization owner not found");
+	}
 
-		if (!user) {
-			throw new Error("User not found");
-		}
+	return owner;
+}
 
-		const userEmail = user.email;
-		const userName = user.name;
-
-		const effectiveDate =
-			subscription.cancelAtPeriodEnd && subscription.periodEnd
-				? new Date(subscription.periodEnd).toLocaleDateString()
-				: new Date().toLocaleDateString();
-
-		const reason =
-			cancellationDetails?.comment ??
-			cancellationDetails?.feedback ??
-			cancellationDetails?.reason ??
-			undefined;
-
-		await sendSubscriptionCancellationEmail({
-			to: userEmail,
-			userName,
-			dashboardUrl: `${env.NEXT_PUBLIC_APP_URL}/dashboard`,
-			planName: subscription.plan,
-			effectiveDate,
-			cancellationReason: reason,
-			locale: user.language ?? "en",
-		});
+async function sendUpgradeEmail(
+	subscription: schema.Subscription,
+	stripeSubscription: Stripe.Subscription,
+	plan: Plan | undefined,
+) {
+	const owner = await getOrganizationOwner(subscription.referenceId);
+	const price = stripeSubscription.items.data[0]?.price;
+	const planName = plan?.name ?? subscription.plan;
 
-		console.log(`✅ Subscription cancellation email sent to ${userEmail}`);
-	} catch (error) {
-		console.error("❌ Failed to send subscription cancellation email:", error);
+	// Format billing cycle and next billing date
+	const billingCycle = price?.recurring?.interval || "month";
+	const nextBillingDate = getNextBillingDate(stripeSubscription);
+
+	// Format plan price (convert from cents if needed)
+	const planPrice = price?.unit_amount
+		? `$${(price.unit_amount / 100).toFixed(2)}`
+		: planName;
+
+	const invoiceAttachment =
+		await getLatestInvoiceAttachment(stripeSubscription);
+
+	await sendSubscriptionUpgradeEmail({
+		to: owner.email,
+		userName: owner.name,
+		dashboardUrl: `${env.NEXT_PUBLIC_APP_URL}/dashboard`,
+		planName,
+		planPrice,
+		billingCycle,
+		nextBillingDate,
+		locale: owner.language ?? "en",
+		organizationId: subscription.referenceId,
+		replyTo: env.APP_SUPPORT_EMAIL,
+		attachments: invoiceAttachment ? [invoiceAttachment] : undefined,
+	});
+
+	console.log(
+		`✅ Subscription notification email sent to ${owner.email} for plan ${planName}`,
+	);
+}
+
+async function sendCancellationEmail(
+	subscription: schema.Subscription,
+	stripeSubscription: Stripe.Subscription,
+) {
+	const owner = await getOrganizationOwner(subscription.referenceId);
+	const details = stripeSubscription.cancellation_details;
+
+	const effectiveDate =
+		subscription.cancelAtPeriodEnd && subscription.periodEnd
+			? new Date(subscription.periodEnd).toLocaleDateString()
+			: new Date().toLocaleDateString();
+
+	await sendSubscriptionCancellationEmail({
+		to: owner.email,
+		userName: owner.name,
+		dashboardUrl: `${env.NEXT_PUBLIC_APP_URL}/dashboard`,
+		planName: subscription.plan,
+		effectiveDate,
+		cancellationReason:
+			details?.comment ?? details?.feedback ?? details?.reason ?? undefined,
+		locale: owner.language ?? "en",
+		organizationId: subscription.referenceId,
+	});
+
+	console.log(`✅ Subscription cancellation email sent to ${owner.email}`);
+}
+
+/**
+ * A checkout created the Stripe subscription of a pending record
+ */
+export async function onCheckoutSessionCompleted(
+	event: Stripe.CheckoutSessionCompletedEvent,
+	{ notify }: StripeEventContext,
+) {
+	const session = event.data.object;
+
+	if (session.mode !== "subscription" || !session.subscription) {
+		return;
+	}
+
+	const synced = await syncSubscription(
+		typeof session.subscription === "string"
+			? session.subscription
+			: session.subscription.id,
+		session.metadata?.subscriptionId,
+	);
+
+	if (synced && notify) {
+		await sendEmailOnce(
+			getScheduledEmailKey("subscriptionUpgrade", event.id),
+			"subscriptionUpgrade",
+			() =>
+				sendUpgradeEmail(
+					synced.subscription,
+					synced.stripeSubscription,
+					synced.plan,
+				),
+		);
 	}
 }
 
-export async function onSubscriptionDeleted({
-	subscription,
-}: {
-	event: Stripe.Event;
-	subscription: Subscription;
-	stripeSubscription: Stripe.Subscription;
-}) {
-	// Called when a subscription is deleted
-	console.log(`Subscription ${subscription.id} deleted`);
+/**
+ * Plan, seats, period or status changed, or a cancellation was scheduled
+ */
+export async function onSubscriptionUpdate(
+	event: Stripe.CustomerSubscriptionUpdatedEvent,
+	{ notify }: StripeEventContext,
+) {
+	const synced = await syncSubscription(event.data.object.id);
+
+	const cancellationScheduled =
+		synced?.subscription.cancelAtPeriodEnd &&
+		!synced.previous.cancelAtPeriodEnd;
+
+	if (synced && cancellationScheduled && notify) {
+		await sendEmailOnce(
+			getScheduledEmailKey("subscriptionCancellation", event.id),
+			"subscriptionCancellation",
+			() =>
+				sendCancellationEmail(synced.subscription, synced.stripeSubscription),
+		);
+	}
+}
+
+/**
+ * The subscription ended, at the end of its period or right away
+ */
+export async function onSubscriptionDeleted(
+	event: Stripe.CustomerSubscriptionDeletedEvent,
+	{ notify }: StripeEventContext,
+) {
+	const synced = await syncSubscription(event.data.object.id);
+
+	// Scheduled cancellations were notified when they were scheduled
+	const canceledRightAway =
+		synced?.previous.status !== SubscriptionStatus.CANCELED &&
+		!synced?.previous.cancelAtPeriodEnd;
+
+	if (synced && canceledRightAway && notify) {
+		await sendEmailOnce(
+			getScheduledEmailKey("subscriptionCancellation", event.id),
+			"subscriptionCancellation",
+			() =>
+				sendCancellationEmail(synced.subscription, synced.stripeSubscription),
+		);
+	}
 }
@@ -0,0 +1,288 @@
+import {
+	and,
+	count,
+	desc,
+	eq,
+	ilike,
+	inArray,
+	lt,
+	or,
+	type SQL,
+	sql,
+} from "drizzle-orm";
+import type Stripe from "stripe";
+import { db } from "@/lib/db";
+import * as schema from "@/lib/db/schema";
+import { env } from "@/lib/env";
+import { stripeClient } from "@/lib/stripe";
+import {
+	STRIPE_EVENT_PROCESSING_TIMEOUT_MS,
+	type StripeEventContext,
+	StripeEventStatus,
+	StripeWebhookError,
+} from "../webhooks";
+import { onDunningEvent } from "./dunning";
+import {
+	onCheckoutSessionCompleted,
+	onSubscriptionDeleted,
+	onSubscriptionUpdate,
+} from "./subscriptions";
+
+/**
+ * Stripe Webhooks
+ *
+ * Stripe delivers events at least once and retries those that didn't get a
+ * 2xx response. Every verified event is stored in stripe_event under its id
+ * and claimed before its handlers run:
+ * - Deliveries of an event that was processed, or is being processed, are
+ *   acknowledged without running the handlers again
+ * - Failed events answer with a 500 so Stripe retries them, admins can also
+ *   replay them from the admin screen
+ */
+
+export interface ListStripeEventsOptions {
+	status?: StripeEventStatus;
+	/**
+	 * Event id or part of the event type
+	 */
+	search?: string;
+	page?: number;
+	pageSize?: number;
+}
+
+async function handleStripeEvent(
+	event: Stripe.Event,
+	context: StripeEventContext,
+) {
+	switch (event.type) {
+		case "checkout.session.completed":
+			await onCheckoutSessionCompleted(event, context);
+			break;
+		case "customer.subscription.updated":
+			await onSubscriptionUpdate(event, context);
+			break;
+		case "customer.subscription.deleted":
+			await onSubscriptionDeleted(event, context);
+			break;
+	}
+
+	// Failed payments of past due and unpaid subscriptions
+	await onDunningEvent(event);
+}
+
+/**
+ * Store a verified event, deliveries of a stored event are ignored
+ */
+export async function storeStripeEvent(event: Stripe.Event): Promise<void> {
+	await db
+		.insert(schema.stripeEvent)
+		.values({
+			id: event.id,
+			type: event.type,
+			status: StripeEventStatus.PENDING,
+			payload: event,
+			livemode: event.livemode,
+			createdAt: new Date(event.created * 1000),
+		})
+		.onConflictDoNothing();
+}
+
+/**
+ * Mark an event as processing, unless it was processed or another delivery
+ * is processing it
+ *
+ * Replays also claim processed events. Events left processing longer than
+ * the timeout were abandoned and can be claimed again.
+ */
+async function claimStripeEvent(id: string, replay: boolean) {
+	const claimable = [StripeEventStatus.PENDING, StripeEventStatus.FAILED];
+
+	if (replay) {
+		claimable.push(StripeEventStatus.PROCESSED);
+	}
+
+	const [claimed] = await db
+		.update(schema.stripeEvent)
+		.set({
+			status: StripeEventStatus.PROCESSING,
+			attempts: sql`${schema.stripeEvent.attempts} + 1`,
+			updatedAt: new Date(),
+		})
+		.where(
+			and(
+				eq(schema.stripeEvent.id, id),
+				or(
+					inArray(schema.stripeEvent.status, claimable),
+					and(
+						eq(schema.stripeEvent.status, StripeEventStatus.PROCESSING),
+						lt(
+							schema.stripeEvent.updatedAt,
+							new Date(Date.now() - STRIPE_EVENT_PROCESSING_TIMEOUT_MS),
+						),
+					),
+				),
+			),
+		)
+		.returning();
+
+	return claimed;
+}
+
+async function findStripeEvent(id: string) {
+	const [event] = await db
+		.select()
+		.from(schema.stripeEvent)
+		.where(eq(schema.stripeEvent.id, id))
+		.limit(1);
+
+	return event;
+}
+
+/**
+ * Run the handlers of a stored event once
+ *
+ * Returns the event with its new status, or as it is when it was not
+ * claimed. Emails are only sent until the event was first processed, and
+ * once per event when a failed event is retried.
+ */
+export async function processStripeEvent(
+	id: string,
+	{ replay = false }: { replay?: boolean } = {},
+): Promise<schema.StripeEvent | undefined> {
+	const claimed = await claimStripeEvent(id, replay);
+
+	if (!claimed) {
+		return findStripeEvent(id);
+	}
+
+	try {
+		await handleStripeEvent(claimed.payload, {
+			notify: !claimed.processedAt,
+		});
+
+		const [processed] = await db
+			.update(schema.stripeEvent)
+			.set({
+				status: StripeEventStatus.PROCESSED,
+				lastError: null,
+				processedAt: claimed.processedAt ?? new Date(),
+				updatedAt: new Date(),
+			})
+			.where(eq(schema.stripeEvent.id, id))
+			.returning();
+
+		return processed;
+	} catch (error) {
+		console.error(`❌ Failed to process Stripe event ${id}:`, error);
+
+		const [failed] = await db
+			.update(schema.stripeEvent)
+			.set({
+				status: StripeEventStatus.FAILED,
+				lastError: error instanceof Error ? error.message : String(error),
+				updatedAt: new Date(),
+			})
+			.where(eq(schema.stripeEvent.id, id))
+			.returning();
+
+		return failed;
+	}
+}
+
+/**
+ * Verify, store and process a webhook delivery
+ */
+export async function handleStripeWebhook(request: Request) {
+	const webhookSecret = env.STRIPE_WEBHOOK_SECRET;
+
+	if (!stripeClient || !webhookSecret) {
+		throw new StripeWebhookError("Stripe webhooks are not configured", 503);
+	}
+
+	const signature = request.headers.get("stripe-signature");
+
+	if (!signature) {
+		throw new StripeWebhookError("Missing Stripe signature", 400);
+	}
+
+	let event: Stripe.Event;
+	try {
+		event = await stripeClient.webhooks.constructEventAsync(
+			await request.text(),
+			signature,
+			webhookSecret,
+		);
+	} catch (error) {
+		throw new StripeWebhookError(
+			`Invalid Stripe webhook: ${error instanceof Error ? error.message : error}`,
+			400,
+		);
+	}
+
+	await storeStripeEvent(event);
+	const stored = await processStripeEvent(event.id);
+
+	// Stripe retries the delivery
+	if (stored?.status === StripeEventStatus.FAILED) {
+		throw new StripeWebhookError(`Processing ${event.id} failed`, 500);
+	}
+
+	return { received: true, status: stored?.status };
+}
+
+/**
+ * Process a stored event again, for admins
+ */
+export async function replayStripeEvent(id: string) {
+	const event = await processStripeEvent(id, { replay: true });
+
+	if (!event) {
+		throw new StripeWebhookError("Event not found", 404);
+	}
+
+	if (event.status === StripeEventStatus.PROCESSING) {
+		throw new StripeWebhookError("Event is being processed", 409);
+	}
+
+	return event;
+}
+
+/**
+ * List received events, newest first
+ */
+export async function listStripeEvents({
+	status,
+	search,
+	page = 1,
+	pageSize = 25,
+}: ListStripeEventsOptions = {}) {
+	const filters: SQL[] = [];
+
+	if (status) {
+		filters.push(eq(schema.stripeEvent.status, status));
+	}
+
+	if (search) {
+		const term = search.trim();
+		filters.push(
+			term.startsWith("evt_")
+				? eq(schema.stripeEvent.id, term)
+				: ilike(schema.stripeEvent.type, `%${term}%`),
+		);
+	}
+
+	const where = filters.length ? and(...filters) : undefined;
+
+	const [events, [{ total }]] = await Promise.all([
+		db
+			.select()
+			.from(schema.stripeEvent)
+			.where(where)
+			.orderBy(desc(schema.stripeEvent.receivedAt))
+			.limit(pageSize)
+			.offset((page - 1) * pageSize),
+		db.select({ total: count() }).from(schema.stripeEvent).where(where),
+	]);
+
+	return { events, total };
+}
@@ -0,0 +1,139 @@
+"use client";
+
+import {
+	Elements,
+	PaymentElement,
+	useElements,
+	useStripe,
+} from "@stripe/react-stripe-js";
+import { loadStripe, type Stripe } from "@stripe/stripe-js";
+import { Loader2 } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { type FormEvent, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+
+// Stripe.js is loaded once per publishable key
+const stripePromises = new Map<string, Promise<Stripe | null>>();
+
+const getStripe = (publishableKey: string) => {
+	let stripePromise = stripePromises.get(publishableKey);
+
+	if (!stripePromise) {
+		stripePromise = loadStripe(publishableKey);
+		stripePromises.set(publishableKey, stripePromise);
+	}
+
+	return stripePromise;
+};
+
+interface SetupFormProps {
+	onCancel: () => void;
+	onConfirmed: (paymentMethodId: string) => Promise<void>;
+}
+
+const SetupForm = ({ onCancel, onConfirmed }: SetupFormProps) => {
+	const t = useTranslations("billing.paymentMethods");
+	const stripe = useStripe();
+	const elements = useElements();
+	const [isSubmitting, setIsSubmitting] = useState(false);
+
+	const handleSubmit = async (event: FormEvent) => {
+		event.preventDefault();
+
+		if (!stripe || !elements) {
+			return;
+		}
+
+		setIsSubmitting(true);
+		try {
+			// Cards that need 3D Secure redirect back to the billing page
+			const { error, setupIntent } = await stripe.confirmSetup({
+				elements,
+				redirect: "if_required",
+				confirmParams: { return_url: window.location.href },
+			});
+
+			if (error) {
+				toast.error(error.message ?? t("error"));
+				return;
+			}
+
+			const paymentMethod = setupIntent?.payment_method;
+			await onConfirmed(
+				typeof paymentMethod === "string"
+					? paymentMethod
+					: (paymentMethod?.id ?? ""),
+			);
+		} finally {
+			setIsSubmitting(false);
+		}
+	};
+
+	return (
+		<form onSubmit={handleSubmit} className="flex flex-col gap-4">
+			<PaymentElement />
+			<DialogFooter>
+				<Button
+					type="button"
+					variant="outline"
+					onClick={onCancel}
+					disabled={isSubmitting}
+				>
+					{t("cancel")}
+				</Button>
+				<Button type="submit" disabled={!stripe || isSubmitting}>
+					{isSubmitting && <Loader2 className="animate-spin" />}
+					{t("save")}
+				</Button>
+			</DialogFooter>
+		</form>
+	);
+};
+
+interface Props extends SetupFormProps {
+	publishableKey: string;
+	/**
+	 * Client secret of the SetupIntent, the dialog is open while set
+	 */
+	clientSecret: string | null;
+}
+
+export const AddPaymentMethodDialog = ({
+	publishableKey,
+	clientSecret,
+	onCancel,
+	onConfirmed,
+}: Props) => {
+	const t = useTranslations("billing.paymentMethods");
+
+	return (
+		<Dialog
+			open={Boolean(clientSecret)}
+			onOpenChange={(open) => !open && onCancel()}
+		>
+			<DialogContent>
+				<DialogHeader>
+					<DialogTitle>{t("addTitle")}</DialogTitle>
+					<DialogDescription>{t("addDescription")}</DialogDescription>
+				</DialogHeader>
+				{clientSecret ? (
+					<Elements
+						stripe={getStripe(publishableKey)}
+						options={{ clientSecret }}
+					>
+						<SetupForm onCancel={onCancel} onConfirmed={onConfirmed} />
+					</Elements>
+				) : null}
+			</DialogContent>
+		</Dialog>
+	);
+};
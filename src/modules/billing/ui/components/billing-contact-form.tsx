@@ -0,0 +1,122 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { useForm } from "react-hook-form";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+	Form,
+	FormControl,
+	FormDescription,
+	FormField,
+	FormItem,
+	FormLabel,
+	FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { useTRPC } from "@/trpc/client";
+import {
+	type BillingContact,
+	type BillingContactInput,
+	createBillingContactSchema,
+} from "../../payment-methods";
+
+export const BillingContactForm = ({
+	contact,
+}: {
+	contact: BillingContact;
+}) => {
+	const t = useTranslations("billing.contact");
+	const trpc = useTRPC();
+	const queryClient = useQueryClient();
+
+	const form = useForm<BillingContactInput>({
+		resolver: zodResolver(
+			createBillingContactSchema({
+				name: t("validation.name"),
+				email: t("validation.email"),
+				phone: t("validation.phone"),
+			}),
+		),
+		defaultValues: contact,
+	});
+
+	const updateContact = useMutation(
+		trpc.billing.updateBillingContact.mutationOptions({
+			onSuccess: async (values) => {
+				form.reset(values);
+				await queryClient.invalidateQueries(
+					trpc.billing.getPaymentMethods.queryFilter(),
+				);
+				toast.success(t("saved"));
+			},
+			onError: () => {
+				toast.error(t("error"));
+			},
+		}),
+	);
+
+	return (
+		<Form {...form}>
+			<form
+				onSubmit={form.handleSubmit((values) => updateContact.mutate(values))}
+				className="space-y-4"
+			>
+				<FormField
+					control={form.control}
+					name="email"
+					render={({ field }) => (
+						<FormItem>
+							<FormLabel>{t("fields.email.label")}</FormLabel>
+							<FormControl>
+								<Input {...field} type="email" />
+							</FormControl>
+							<FormDescription>{t("fields.email.description")}</FormDescription>
+							<FormMessage />
+						</FormItem>
+					)}
+				/>
+				<div className="grid gap-4 md:grid-cols-2">
+					<FormField
+						control={form.control}
+						name="name"
+						render={({ field }) => (
+							<FormItem>
+								<FormLabel>{t("fields.name.label")}</FormLabel>
+								<FormControl>
+									<Input {...field} />
+								</FormControl>
+								<FormMessage />
+							</FormItem>
+						)}
+					/>
+					<FormField
+						control={form.control}
+						name="phone"
+						render={({ field }) => (
+							<FormItem>
+								<FormLabel>{t("fields.phone.label")}</FormLabel>
+								<FormControl>
+									<Input {...field} type="tel" />
+								</FormControl>
+								<FormMessage />
+							</FormItem>
+						)}
+					/>
+				</div>
+				<div className="flex justify-end">
+					<Button
+						type="submit"
+						disabled={updateContact.isPending || !form.formState.isDirty}
+					>
+						{updateContact.isPending && <Loader2 className="animate-spin" />}
+						{t("save")}
+					</Button>
+				</div>
+			</form>
+		</Form>
+	);
+};
@@ -0,0 +1,300 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import {
+	Form,
+	FormControl,
+	FormDescription,
+	FormField,
+	FormItem,
+	FormLabel,
+	FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { useTRPC } from "@/trpc/client";
+import {
+	type CatalogPlan,
+	type CatalogPlanInput,
+	createCatalogPlanSchema,
+} from "../../catalog";
+import { PlanFeature } from "../../plans";
+
+const emptyPlan: CatalogPlanInput = {
+	name: "",
+	priceId: "",
+	annualDiscountPriceId: "",
+	seats: 1,
+	monthlyCredits: 0,
+	trialDays: 0,
+	features: [],
+	recommended: false,
+	active: true,
+};
+
+const toFormValues = (plan: CatalogPlan | null): CatalogPlanInput =>
+	plan
+		? {
+				id: plan.id,
+				name: plan.name,
+				priceId: plan.priceId,
+				annualDiscountPriceId: plan.annualDiscountPriceId,
+				seats: plan.seats,
+				monthlyCredits: plan.monthlyCredits,
+				trialDays: plan.trialDays,
+				features: plan.features,
+				recommended: plan.recommended,
+				active: plan.active,
+			}
+		: emptyPlan;
+
+interface Props {
+	/**
+	 * Plan to edit, `null` to create one
+	 */
+	plan: CatalogPlan | null;
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+}
+
+export const CatalogPlanDialog = ({ plan, open, onOpenChange }: Props) => {
+	const t = useTranslations("admin.plans");
+	const trpc = useTRPC();
+	const queryClient = useQueryClient();
+
+	const form = useForm<CatalogPlanInput>({
+		resolver: zodResolver(
+			createCatalogPlanSchema({
+				name: t("validation.name"),
+				priceId: t("validation.priceId"),
+				seats: t("validation.seats"),
+				monthlyCredits: t("validation.monthlyCredits"),
+				trialDays: t("validation.trialDays"),
+			}),
+		),
+		defaultValues: toFormValues(plan),
+	});
+
+	// The dialog is reused for every plan
+	useEffect(() => {
+		if (open) {
+			form.reset(toFormValues(plan));
+		}
+	}, [form, open, plan]);
+
+	const savePlan = useMutation(
+		trpc.billing.saveCatalogPlan.mutationOptions({
+			onSuccess: async (saved) => {
+				await queryClient.invalidateQueries(trpc.billing.pathFilter());
+				onOpenChange(false);
+				toast.success(t("saved", { plan: saved.name }));
+			},
+			onError: (error) => {
+				toast.error(error.message || t("error"));
+			},
+		}),
+	);
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="sm:max-w-lg">
+				<DialogHeader>
+					<DialogTitle>
+						{plan ? t("edit.title", { plan: plan.name }) : t("create.title")}
+					</DialogTitle>
+					<DialogDescription>{t("edit.description")}</DialogDescription>
+				</DialogHeader>
+				<Form {...form}>
+					<form
+						onSubmit={form.handleSubmit((values) => savePlan.mutate(values))}
+						className="space-y-4"
+					>
+						<FormField
+							control={form.control}
+							name="name"
+							render={({ field }) => (
+								<FormItem>
+									<FormLabel>{t("fields.name.label")}</FormLabel>
+									<FormControl>
+										<Input {...field} />
+									</FormControl>
+									<FormDescription>
+										{t("fields.name.description")}
+									</FormDescription>
+									<FormMessage />
+								</FormItem>
+							)}
+						/>
+						<div className="grid gap-4 md:grid-cols-2">
+							<FormField
+								control={form.control}
+								name="priceId"
+								render={({ field }) => (
+									<FormItem>
+										<FormLabel>{t("fields.priceId.label")}</FormLabel>
+										<FormControl>
+											<Input {...field} placeholder="price_..." />
+										</FormControl>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+							<FormField
+								control={form.control}
+								name="annualDiscountPriceId"
+								render={({ field }) => (
+									<FormItem>
+										<FormLabel>
+											{t("fields.annualDiscountPriceId.label")}
+										</FormLabel>
+										<FormControl>
+											<Input {...field} placeholder="price_..." />
+										</FormControl>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+							<FormField
+								control={form.control}
+								name="seats"
+								render={({ field }) => (
+									<FormItem>
+										<FormLabel>{t("fields.seats.label")}</FormLabel>
+										<FormControl>
+											<Input {...field} type="number" min={1} />
+										</FormControl>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+							<FormField
+								control={form.control}
+								name="monthlyCredits"
+								render={({ field }) => (
+									<FormItem>
+										<FormLabel>{t("fields.monthlyCredits.label")}</FormLabel>
+										<FormControl>
+											<Input {...field} type="number" min={0} />
+										</FormControl>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+						</div>
+						<FormField
+							control={form.control}
+							name="trialDays"
+							render={({ field }) => (
+								<FormItem>
+									<FormLabel>{t("fields.trialDays.label")}</FormLabel>
+									<FormControl>
+										<Input {...field} type="number" min={0} max={730} />
+									</FormControl>
+									<FormDescription>
+										{t("fields.trialDays.description")}
+									</FormDescription>
+									<FormMessage />
+								</FormItem>
+							)}
+						/>
+						<FormField
+							control={form.control}
+							name="features"
+							render={({ field }) => (
+								<FormItem>
+									<FormLabel>{t("fields.features.label")}</FormLabel>
+									<div className="flex flex-col gap-2">
+										{Object.values(PlanFeature).map((feature) => (
+											<div
+												key={feature}
+												className="flex items-center justify-between gap-4"
+											>
+												<span className="text-sm">
+													{t(`features.${feature}`)}
+												</span>
+												<Switch
+													checked={field.value.includes(feature)}
+													onCheckedChange={(checked) =>
+														field.onChange(
+															checked
+																? [...field.value, feature]
+																: field.value.filter(
+																		(value) => value !== feature,
+																	),
+														)
+													}
+													aria-label={t(`features.${feature}`)}
+												/>
+											</div>
+										))}
+									</div>
+								</FormItem>
+							)}
+						/>
+						<div className="grid gap-4 md:grid-cols-2">
+							<FormField
+								control={form.control}
+								name="recommended"
+								render={({ field }) => (
+									<FormItem className="flex items-center justify-between gap-4">
+										<FormLabel>{t("fields.recommended.label")}</FormLabel>
+										<FormControl>
+											<Switch
+												checked={field.value}
+												onCheckedChange={field.onChange}
+											/>
+										</FormControl>
+									</FormItem>
+								)}
+							/>
+							<FormField
+								control={form.control}
+								name="active"
+								render={({ field }) => (
+									<FormItem className="flex items-center justify-between gap-4">
+										<FormLabel>{t("fields.active.label")}</FormLabel>
+										<FormControl>
+											<Switch
+												checked={field.value}
+												onCheckedChange={field.onChange}
+											/>
+										</FormControl>
+									</FormItem>
+								)}
+							/>
+						</div>
+						<DialogFooter>
+							<Button
+								type="button"
+								variant="outline"
+								disabled={savePlan.isPending}
+								onClick={() => onOpenChange(false)}
+							>
+								{t("cancel")}
+							</Button>
+							<Button type="submit" disabled={savePlan.isPending}>
+								{savePlan.isPending && <Loader2 className="animate-spin" />}
+								{t("save")}
+							</Button>
+						</DialogFooter>
+					</form>
+				</Form>
+			</DialogContent>
+		</Dialog>
+	);
+};
@@ -0,0 +1,207 @@
+"use client";
+
+import {
+	useMutation,
+	useQueryClient,
+	useSuspenseQuery,
+} from "@tanstack/react-query";
+import type { ColumnDef } from "@tanstack/react-table";
+import {
+	flexRender,
+	getCoreRowModel,
+	useReactTable,
+} from "@tanstack/react-table";
+import { useTranslations } from "next-intl";
+import { useMemo } from "react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import { useTRPC } from "@/trpc/client";
+import type { CatalogPlan } from "../../catalog";
+
+interface Props {
+	onEdit: (plan: CatalogPlan) => void;
+}
+
+export const CatalogPlansTable = ({ onEdit }: Props) => {
+	const trpc = useTRPC();
+	const queryClient = useQueryClient();
+	const t = useTranslations("admin.plans");
+
+	const { data: plans } = useSuspenseQuery(
+		trpc.billing.listCatalog.queryOptions(),
+	);
+
+	const deletePlan = useMutation(
+		trpc.billing.deleteCatalogPlan.mutationOptions({
+			onSuccess: async () => {
+				await queryClient.invalidateQueries(trpc.billing.pathFilter());
+				toast.success(t("deleted"));
+			},
+			onError: (error) => {
+				toast.error(error.message || t("error"));
+			},
+		}),
+	);
+
+	const columns = useMemo<ColumnDef<CatalogPlan>[]>(
+		() => [
+			{
+				accessorKey: "name",
+				header: t("columns.name"),
+				cell: ({ row }) => (
+					<div className="flex items-center gap-2">
+						<span className="font-medium">{row.original.name}</span>
+						{row.original.recommended ? (
+							<Badge variant="outline">{t("recommended")}</Badge>
+						) : null}
+					</div>
+				),
+			},
+			{
+				id: "prices",
+				header: t("columns.prices"),
+				cell: ({ row }) => (
+					<div className="flex flex-col font-mono text-xs">
+						<span>{row.original.priceId || "—"}</span>
+						<span className="text-muted-foreground">
+							{row.original.annualDiscountPriceId || "—"}
+						</span>
+					</div>
+				),
+			},
+			{
+				accessorKey: "seats",
+				header: t("columns.seats"),
+			},
+			{
+				accessorKey: "monthlyCredits",
+				header: t("columns.monthlyCredits"),
+			},
+			{
+				accessorKey: "trialDays",
+				header: t("columns.trialDays"),
+				cell: ({ row }) =>
+					row.original.trialDays
+						? t("trialDays", { days: row.original.trialDays })
+						: "—",
+			},
+			{
+				id: "features",
+				header: t("columns.features"),
+				cell: ({ row }) =>
+					row.original.features.length
+						? row.original.features
+								.map((feature) => t(`features.${feature}`))
+								.join(", ")
+						: "—",
+			},
+			{
+				id: "status",
+				header: t("columns.status"),
+				cell: ({ row }) => {
+					const { active, issues } = row.original;
+
+					if (issues.length) {
+						return (
+							<div className="flex flex-col items-start gap-1">
+								<Badge variant="destructive">{t("statuses.invalid")}</Badge>
+								{issues.map((issue) => (
+									<span key={issue} className="text-xs text-destructive">
+										{t(`issues.${issue}`)}
+									</span>
+								))}
+							</div>
+						);
+					}
+
+					return (
+						<Badge variant={active ? "default" : "secondary"}>
+							{active ? t("statuses.active") : t("statuses.inactive")}
+						</Badge>
+					);
+				},
+			},
+			{
+				id: "actions",
+				cell: ({ row }) => (
+					<div className="flex justify-end gap-2">
+						<Button
+							variant="outline"
+							size="sm"
+							onClick={() => onEdit(row.original)}
+						>
+							{t("edit.action")}
+						</Button>
+						<Button
+							variant="ghost"
+							size="sm"
+							disabled={deletePlan.isPending}
+							onClick={() => deletePlan.mutate({ id: row.original.id })}
+						>
+							{t("delete")}
+						</Button>
+					</div>
+				),
+			},
+		],
+		[t, deletePlan, onEdit],
+	);
+
+	const table = useReactTable({
+		data: plans,
+		columns,
+		getCoreRowModel: getCoreRowModel(),
+	});
+
+	return (
+		<Table>
+			<TableHeader>
+				{table.getHeaderGroups().map((headerGroup) => (
+					<TableRow key={headerGroup.id}>
+						{headerGroup.headers.map((header) => (
+							<TableHead key={header.id}>
+								{header.isPlaceholder
+									? null
+									: flexRender(
+											header.column.columnDef.header,
+											header.getContext(),
+										)}
+							</TableHead>
+						))}
+					</TableRow>
+				))}
+			</TableHeader>
+			<TableBody>
+				{table.getRowModel().rows?.length ? (
+					table.getRowModel().rows.map((row) => (
+						<TableRow key={row.id}>
+							{row.getVisibleCells().map((cell) => (
+								<TableCell key={cell.id}>
+									{flexRender(cell.column.columnDef.cell, cell.getContext())}
+								</TableCell>
+							))}
+						</TableRow>
+					))
+				) : (
+					<TableRow>
+						<TableCell colSpan={columns.length} className="h-32 text-center">
+							<div className="flex flex-col items-center justify-center gap-1 py-6 text-muted-foreground">
+								<div className="text-sm font-medium">{t("empty.title")}</div>
+								<div className="text-xs">{t("empty.description")}</div>
+							</div>
+						</TableCell>
+					</TableRow>
+				)}
+			</TableBody>
+		</Table>
+	);
+};
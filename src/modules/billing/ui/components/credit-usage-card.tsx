@@ -0,0 +1,89 @@
+"use client";
+
+import { useSuspenseQuery } from "@tanstack/react-query";
+import { Coins } from "lucide-react";
+import { useFormatter, useTranslations } from "next-intl";
+import { Suspense } from "react";
+import { ErrorBoundary } from "react-error-boundary";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { useTRPC } from "@/trpc/client";
+import { CreditLimitMode } from "../../credits";
+
+const CreditUsage = () => {
+	const trpc = useTRPC();
+	const t = useTranslations("billing.credits");
+	const format = useFormatter();
+
+	const { data: balance } = useSuspenseQuery(
+		trpc.billing.getCredits.queryOptions(),
+	);
+
+	if (!balance) {
+		return null;
+	}
+
+	const total = balance.allowance + balance.granted;
+	const overage = Math.max(0, -balance.remaining);
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle className="flex items-center gap-2">
+					<Coins className="size-4" />
+					{t("title")}
+				</CardTitle>
+				<CardDescription>
+					{t("resets", {
+						date: format.dateTime(new Date(balance.period.end), {
+							dateStyle: "medium",
+						}),
+					})}
+				</CardDescription>
+			</CardHeader>
+			<CardContent className="flex flex-col gap-3">
+				<div className="flex items-center justify-between text-sm">
+					<span className="font-medium">
+						{t("usage", {
+							used: format.number(balance.used),
+							total: format.number(total),
+						})}
+					</span>
+					<span className="text-muted-foreground">
+						{t("remaining", {
+							remaining: format.number(Math.max(0, balance.remaining)),
+						})}
+					</span>
+				</div>
+				<Progress
+					value={total > 0 ? Math.min(100, (balance.used / total) * 100) : 100}
+				/>
+				{overage > 0 ? (
+					<p className="text-sm text-muted-foreground">
+						{t("overage", { overage: format.number(overage) })}
+					</p>
+				) : balance.remaining <= 0 && balance.mode === CreditLimitMode.HARD ? (
+					<p className="text-sm text-muted-foreground">{t("exhausted")}</p>
+				) : null}
+			</CardContent>
+		</Card>
+	);
+};
+
+export const CreditUsageCard = () => {
+	return (
+		<Suspense
+			fallback={<div className="h-32 w-full animate-pulse rounded-xl" />}
+		>
+			<ErrorBoundary fallback={null}>
+				<CreditUsage />
+			</ErrorBoundary>
+		</Suspense>
+	);
+};
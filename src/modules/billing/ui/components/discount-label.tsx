@@ -0,0 +1,31 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import { formatAmountCents } from "@/lib/utils";
+import type { Discount } from "../../discounts";
+
+/**
+ * What a discount takes off and for how long, e.g. "20% off for 3 months"
+ */
+export const DiscountLabel = ({ discount }: { discount: Discount }) => {
+	const t = useTranslations("billing.discounts");
+
+	const value =
+		discount.percentOff !== null
+			? `${discount.percentOff}%`
+			: formatAmountCents(
+					discount.amountOff ?? 0,
+					(discount.currency ?? "USD").toUpperCase(),
+				);
+
+	return (
+		<>
+			{t("value", {
+				value,
+				duration: t(`durations.${discount.duration}`, {
+					months: discount.durationInMonths ?? 0,
+				}),
+			})}
+		</>
+	);
+};
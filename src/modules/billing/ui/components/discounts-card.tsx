@@ -0,0 +1,107 @@
+"use client";
+
+import { useSuspenseQuery } from "@tanstack/react-query";
+import { BadgePercent, Clock } from "lucide-react";
+import { useFormatter, useTranslations } from "next-intl";
+import { Suspense } from "react";
+import { ErrorBoundary } from "react-error-boundary";
+import { Badge } from "@/components/ui/badge";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { useTRPC } from "@/trpc/client";
+import { DiscountLabel } from "./discount-label";
+
+const Discounts = () => {
+	const trpc = useTRPC();
+	const t = useTranslations("billing");
+	const format = useFormatter();
+
+	const { data } = useSuspenseQuery(
+		trpc.billing.getTrialAndDiscounts.queryOptions(),
+	);
+
+	// Stripe is not configured, or nothing to show
+	if (!data || (!data.trial && !data.discounts.length)) {
+		return null;
+	}
+
+	const { trial, discounts } = data;
+	const formatDate = (date: string) =>
+		format.dateTime(new Date(date), { dateStyle: "medium" });
+
+	return (
+		<div className="grid gap-4 md:grid-cols-2">
+			{trial ? (
+				<Card>
+					<CardHeader>
+						<CardTitle className="flex items-center gap-2">
+							<Clock className="size-4" />
+							{t("trial.title")}
+						</CardTitle>
+						<CardDescription>
+							{t("trial.endsOn", { date: formatDate(trial.end) })}
+						</CardDescription>
+					</CardHeader>
+					{trial.hasPaymentMethod ? null : (
+						<CardContent>
+							<p className="text-sm text-muted-foreground">
+								{t("trial.addPaymentMethod")}
+							</p>
+						</CardContent>
+					)}
+				</Card>
+			) : null}
+			{discounts.length ? (
+				<Card>
+					<CardHeader>
+						<CardTitle className="flex items-center gap-2">
+							<BadgePercent className="size-4" />
+							{t("discounts.title")}
+						</CardTitle>
+						<CardDescription>{t("discounts.description")}</CardDescription>
+					</CardHeader>
+					<CardContent>
+						<ul className="flex flex-col gap-2">
+							{discounts.map((discount) => (
+								<li
+									key={discount.id}
+									className="flex flex-wrap items-center justify-between gap-2 text-sm"
+								>
+									<span className="flex items-center gap-2">
+										<span className="font-medium">{discount.name}</span>
+										{discount.code ? (
+											<Badge variant="secondary">{discount.code}</Badge>
+										) : null}
+									</span>
+									<span className="text-muted-foreground">
+										<DiscountLabel discount={discount} />
+										{discount.end
+											? ` · ${t("discounts.endsOn", { date: formatDate(discount.end) })}`
+											: null}
+									</span>
+								</li>
+							))}
+						</ul>
+					</CardContent>
+				</Card>
+			) : null}
+		</div>
+	);
+};
+
+export const DiscountsCard = () => {
+	return (
+		<Suspense
+			fallback={<div className="h-32 w-full animate-pulse rounded-xl" />}
+		>
+			<ErrorBoundary fallback={null}>
+				<Discounts />
+			</ErrorBoundary>
+		</Suspense>
+	);
+};
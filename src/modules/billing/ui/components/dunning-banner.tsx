@@ -0,0 +1,78 @@
+"use client";
+
+import { useSuspenseQuery } from "@tanstack/react-query";
+import { AlertTriangle, ExternalLink } from "lucide-react";
+import { useFormatter, useTranslations } from "next-intl";
+import { Suspense } from "react";
+import { ErrorBoundary } from "react-error-boundary";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Link } from "@/modules/i18n/navigation";
+import { useTRPC } from "@/trpc/client";
+
+const Banner = () => {
+	const trpc = useTRPC();
+	const t = useTranslations("billing.dunning");
+	const format = useFormatter();
+
+	const { data: dunning } = useSuspenseQuery(
+		trpc.billing.getDunningStatus.queryOptions(),
+	);
+
+	// Paid up, or Stripe is not configured
+	if (!dunning) {
+		return null;
+	}
+
+	const formatDate = (date: string) =>
+		format.dateTime(new Date(date), { dateStyle: "medium" });
+
+	return (
+		<Alert variant="destructive" className="mb-2">
+			<AlertTriangle />
+			<AlertTitle>
+				{dunning.downgraded ? t("downgradedTitle") : t("title")}
+			</AlertTitle>
+			<AlertDescription>
+				<p>
+					{dunning.downgraded
+						? t("downgraded", { plan: dunning.plan })
+						: t("description", {
+								plan: dunning.plan,
+								date: formatDate(dunning.graceEndsAt),
+							})}
+					{dunning.nextPaymentAttempt
+						? ` ${t("nextAttempt", { date: formatDate(dunning.nextPaymentAttempt) })}`
+						: null}
+				</p>
+				<div className="mt-2 flex flex-wrap gap-2">
+					<Button asChild size="sm" variant="destructive">
+						<Link href="/account/billing">{t("fixPayment")}</Link>
+					</Button>
+					{dunning.invoiceUrl ? (
+						<Button asChild size="sm" variant="outline">
+							<a href={dunning.invoiceUrl} target="_blank" rel="noreferrer">
+								{t("payInvoice")}
+								<ExternalLink />
+							</a>
+						</Button>
+					) : null}
+				</div>
+			</AlertDescription>
+		</Alert>
+	);
+};
+
+/**
+ * Persistent notice of a failed payment, shown on every private page until
+ * the invoice is paid
+ */
+export const DunningBanner = () => {
+	return (
+		<Suspense fallback={null}>
+			<ErrorBoundary fallback={null}>
+				<Banner />
+			</ErrorBoundary>
+		</Suspense>
+	);
+};
@@ -0,0 +1,61 @@
+"use client";
+
+import { Sparkles } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { type ReactNode, Suspense } from "react";
+import { ErrorBoundary } from "react-error-boundary";
+import { Button } from "@/components/ui/button";
+import { Link } from "@/modules/i18n/navigation";
+import { useEntitlements } from "../../hooks/use-entitlements";
+import type { PlanFeature } from "../../plans";
+
+interface Props {
+	feature: PlanFeature;
+	children: ReactNode;
+	/**
+	 * Rendered when the plan doesn't include the feature, an upgrade notice by default
+	 */
+	fallback?: ReactNode;
+}
+
+const UpgradeNotice = () => {
+	const t = useTranslations("billing.entitlements");
+	const { entitlements } = useEntitlements();
+
+	return (
+		<div className="flex flex-col gap-3 p-4 md:flex-row md:items-center md:justify-between">
+			<div className="flex items-center gap-2 text-sm text-muted-foreground">
+				<Sparkles className="size-4 text-primary" />
+				{t("unavailable", { plan: entitlements?.plan ?? "" })}
+			</div>
+			<Button asChild size="sm">
+				<Link href="/account/billing">{t("upgrade")}</Link>
+			</Button>
+		</div>
+	);
+};
+
+const Gate = ({ feature, children, fallback }: Props) => {
+	const { hasFeature } = useEntitlements();
+
+	if (!hasFeature(feature)) {
+		return fallback === undefined ? <UpgradeNotice /> : fallback;
+	}
+
+	return children;
+};
+
+/**
+ * Render children only when the active organization's plan includes `feature`
+ *
+ * Procedures behind the feature must check it too, see `hasFeature`.
+ */
+export const FeatureGate = (props: Props) => {
+	return (
+		<Suspense fallback={null}>
+			<ErrorBoundary fallback={null}>
+				<Gate {...props} />
+			</ErrorBoundary>
+		</Suspense>
+	);
+};
@@ -0,0 +1,221 @@
+"use client";
+
+import {
+	useMutation,
+	useQueryClient,
+	useSuspenseQuery,
+} from "@tanstack/react-query";
+import { CreditCard, Loader2, Plus } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { Suspense, useState } from "react";
+import { ErrorBoundary } from "react-error-boundary";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import { useTRPC } from "@/trpc/client";
+import { AddPaymentMethodDialog } from "./add-payment-method-dialog";
+import { BillingContactForm } from "./billing-contact-form";
+
+const PaymentMethods = () => {
+	const trpc = useTRPC();
+	const queryClient = useQueryClient();
+	const t = useTranslations("billing.paymentMethods");
+	const [clientSecret, setClientSecret] = useState<string | null>(null);
+
+	// Owners and admins only, the error boundary hides it for other members
+	const { data } = useSuspenseQuery(
+		trpc.billing.getPaymentMethods.queryOptions(),
+	);
+
+	const invalidate = () =>
+		queryClient.invalidateQueries(trpc.billing.getPaymentMethods.queryFilter());
+
+	const createSetupIntent = useMutation(
+		trpc.billing.createSetupIntent.mutationOptions({
+			onSuccess: ({ clientSecret }) => setClientSecret(clientSecret),
+			onError: () => {
+				toast.error(t("error"));
+			},
+		}),
+	);
+
+	const setDefault = useMutation(
+		trpc.billing.setDefaultPaymentMethod.mutationOptions({
+			onSuccess: async () => {
+				// A failed invoice is charged again with the new default card
+				await Promise.all([
+					invalidate(),
+					queryClient.invalidateQueries(
+						trpc.billing.getDunningStatus.queryFilter(),
+					),
+				]);
+				toast.success(t("defaultUpdated"));
+			},
+			onError: (error) => {
+				toast.error(error.message || t("error"));
+			},
+		}),
+	);
+
+	const remove = useMutation(
+		trpc.billing.removePaymentMethod.mutationOptions({
+			onSuccess: async () => {
+				await invalidate();
+				toast.success(t("removed"));
+			},
+			onError: (error) => {
+				toast.error(error.message || t("error"));
+			},
+		}),
+	);
+
+	// Stripe is not configured
+	if (!data) {
+		return null;
+	}
+
+	const { paymentMethods, contact, publishableKey } = data;
+	const hasDefault = paymentMethods.some(
+		(paymentMethod) => paymentMethod.isDefault,
+	);
+	const isUpdating = setDefault.isPending || remove.isPending;
+
+	const handleConfirmed = async (paymentMethodId: string) => {
+		setClientSecret(null);
+
+		// The first card pays the invoices
+		if (!hasDefault && paymentMethodId) {
+			await setDefault.mutateAsync({ paymentMethodId });
+		} else {
+			await invalidate();
+		}
+
+		toast.success(t("added"));
+	};
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle className="flex items-center justify-between gap-2">
+					<span className="flex items-center gap-2">
+						<CreditCard className="size-4" />
+						{t("title")}
+					</span>
+					{publishableKey ? (
+						<Button
+							size="sm"
+							variant="outline"
+							disabled={createSetupIntent.isPending}
+							onClick={() => createSetupIntent.mutate()}
+						>
+							{createSetupIntent.isPending ? (
+								<Loader2 className="animate-spin" />
+							) : (
+								<Plus />
+							)}
+							{t("add")}
+						</Button>
+					) : null}
+				</CardTitle>
+				<CardDescription>{t("description")}</CardDescription>
+			</CardHeader>
+			<CardContent className="flex flex-col gap-6">
+				{paymentMethods.length ? (
+					<ul className="divide-y rounded-md border">
+						{paymentMethods.map((paymentMethod) => (
+							<li
+								key={paymentMethod.id}
+								className="flex flex-col gap-2 p-3 md:flex-row md:items-center md:justify-between"
+							>
+								<div className="flex items-center gap-3">
+									<span className="text-sm font-medium capitalize">
+										{paymentMethod.brand}
+									</span>
+									<span className="font-mono text-sm">
+										•••• {paymentMethod.last4}
+									</span>
+									<span className="text-xs text-muted-foreground">
+										{t("expires", {
+											month: String(paymentMethod.expMonth).padStart(2, "0"),
+											year: paymentMethod.expYear,
+										})}
+									</span>
+									{paymentMethod.isDefault ? (
+										<Badge variant="secondary">{t("default")}</Badge>
+									) : null}
+								</div>
+								<div className="flex gap-2">
+									{paymentMethod.isDefault ? null : (
+										<Button
+											size="sm"
+											variant="outline"
+											disabled={isUpdating}
+											onClick={() =>
+												setDefault.mutate({ paymentMethodId: paymentMethod.id })
+											}
+										>
+											{t("makeDefault")}
+										</Button>
+									)}
+									<Button
+										size="sm"
+										variant="ghost"
+										disabled={isUpdating}
+										onClick={() =>
+											remove.mutate({ paymentMethodId: paymentMethod.id })
+										}
+									>
+										{t("remove")}
+									</Button>
+								</div>
+							</li>
+						))}
+					</ul>
+				) : (
+					<p className="text-sm text-muted-foreground">{t("empty")}</p>
+				)}
+
+				<Separator />
+
+				<div className="flex flex-col gap-4">
+					<div className="flex flex-col gap-1">
+						<div className="text-sm font-medium">{t("contactTitle")}</div>
+						<p className="text-sm text-muted-foreground">
+							{t("contactDescription")}
+						</p>
+					</div>
+					<BillingContactForm contact={contact} />
+				</div>
+			</CardContent>
+
+			{publishableKey ? (
+				<AddPaymentMethodDialog
+					publishableKey={publishableKey}
+					clientSecret={clientSecret}
+					onCancel={() => setClientSecret(null)}
+					onConfirmed={handleConfirmed}
+				/>
+			) : null}
+		</Card>
+	);
+};
+
+export const PaymentMethodsCard = () => {
+	return (
+		<Suspense
+			fallback={<div className="h-64 w-full animate-pulse rounded-xl" />}
+		>
+			<ErrorBoundary fallback={null}>
+				<PaymentMethods />
+			</ErrorBoundary>
+		</Suspense>
+	);
+};
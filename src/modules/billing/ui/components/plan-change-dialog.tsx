@@ -0,0 +1,196 @@
+"use client";
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { useFormatter, useTranslations } from "next-intl";
+import { toast } from "sonner";
+import {
+	AlertDialog,
+	AlertDialogCancel,
+	AlertDialogContent,
+	AlertDialogDescription,
+	AlertDialogFooter,
+	AlertDialogHeader,
+	AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { formatAmountCents } from "@/lib/utils";
+import { useTRPC } from "@/trpc/client";
+import type { Discount } from "../../discounts";
+import type { BillingPeriod, Plan } from "../../plans";
+import { DiscountLabel } from "./discount-label";
+
+interface Props {
+	plan: Plan;
+	period: BillingPeriod;
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	/**
+	 * Continue to Stripe Checkout, for organizations without a subscription
+	 */
+	onCheckout: () => Promise<void>;
+	/**
+	 * Discount of the promotion code sent to checkout
+	 */
+	promotion: Discount | null;
+}
+
+export const PlanChangeDialog = ({
+	plan,
+	period,
+	open,
+	onOpenChange,
+	onCheckout,
+	promotion,
+}: Props) => {
+	const t = useTranslations("billing.planChange");
+	const tBilling = useTranslations("billing");
+	const format = useFormatter();
+	const trpc = useTRPC();
+	const queryClient = useQueryClient();
+
+	const {
+		data: preview,
+		isPending,
+		error,
+	} = useQuery(
+		trpc.billing.previewChange.queryOptions(
+			{ plan: plan.name, period },
+			{
+				enabled: open,
+				// Prorations change by the second
+				gcTime: 0,
+				retry: false,
+			},
+		),
+	);
+
+	const changePlan = useMutation(
+		trpc.billing.changePlan.mutationOptions({
+			onSuccess: async () => {
+				// Plan, seats, credits and invoices all follow the subscription
+				await queryClient.invalidateQueries(trpc.billing.pathFilter());
+				onOpenChange(false);
+				toast.success(t("changed", { plan: plan.name }));
+			},
+			onError: (error) => {
+				toast.error(error.message || t("error"));
+			},
+		}),
+	);
+
+	const handleConfirm = async () => {
+		if (!preview) {
+			return;
+		}
+
+		if (preview.isNewSubscription) {
+			await onCheckout();
+			return;
+		}
+
+		changePlan.mutate({
+			plan: plan.name,
+			period,
+			prorationDate: preview.prorationDate ?? undefined,
+		});
+	};
+
+	const amount = (value: number) =>
+		formatAmountCents(value, preview?.currency.toUpperCase() ?? "USD");
+
+	return (
+		<AlertDialog open={open} onOpenChange={onOpenChange}>
+			<AlertDialogContent>
+				<AlertDialogHeader>
+					<AlertDialogTitle>
+						{t("title", {
+							plan: plan.name,
+							period: tBilling(period),
+						})}
+					</AlertDialogTitle>
+					<AlertDialogDescription>
+						{preview?.isNewSubscription
+							? t("checkoutDescription")
+							: t("description")}
+					</AlertDialogDescription>
+				</AlertDialogHeader>
+
+				{isPending ? (
+					<div className="h-32 w-full animate-pulse rounded-md bg-muted" />
+				) : error || !preview ? (
+					<p className="text-sm text-destructive">
+						{error?.message || t("error")}
+					</p>
+				) : (
+					<dl className="grid grid-cols-[1fr_auto] gap-x-4 gap-y-2 text-sm">
+						<dt className="text-muted-foreground">{t("recurring")}</dt>
+						<dd className="text-right font-medium">
+							{t("recurringAmount", {
+								amount: amount(preview.recurringAmount),
+								period: tBilling(`${preview.period}Period`),
+								seats: preview.seats,
+							})}
+						</dd>
+						{preview.trialDays > 0 ? (
+							<>
+								<dt className="text-muted-foreground">{t("trial")}</dt>
+								<dd className="text-right font-medium">
+									{t("trialDays", { days: preview.trialDays })}
+								</dd>
+							</>
+						) : null}
+						{preview.isNewSubscription && promotion?.code ? (
+							<>
+								<dt className="text-muted-foreground">
+									{t("promotionCode", { code: promotion.code })}
+								</dt>
+								<dd className="text-right font-medium">
+									<DiscountLabel discount={promotion} />
+								</dd>
+							</>
+						) : null}
+						{preview.isNewSubscription ? null : (
+							<>
+								<dt className="text-muted-foreground">{t("proration")}</dt>
+								<dd className="text-right font-medium">
+									{amount(preview.prorationAmount)}
+								</dd>
+							</>
+						)}
+						<dt className="text-muted-foreground">
+							{preview.chargedNow
+								? t("dueToday")
+								: t("nextInvoice", {
+										date: format.dateTime(new Date(preview.invoiceDate), {
+											dateStyle: "medium",
+										}),
+									})}
+						</dt>
+						<dd className="text-right font-semibold">
+							{amount(preview.amountDue)}
+						</dd>
+					</dl>
+				)}
+				{preview?.isNewSubscription && promotion ? (
+					<p className="text-xs text-muted-foreground">
+						{t("promotionCodeApplied")}
+					</p>
+				) : null}
+
+				<AlertDialogFooter>
+					<AlertDialogCancel disabled={changePlan.isPending}>
+						{t("cancel")}
+					</AlertDialogCancel>
+					<Button
+						onClick={handleConfirm}
+						disabled={!preview || changePlan.isPending}
+					>
+						{changePlan.isPending && <Loader2 className="animate-spin" />}
+						{preview?.isNewSubscription ? t("checkout") : t("confirm")}
+					</Button>
+				</AlertDialogFooter>
+			</AlertDialogContent>
+		</AlertDialog>
+	);
+};
@@ -16,7 +16,16 @@ import {
 import { Separator } from "@/components/ui/separator";
 import { cn, formatAmountCents } from "@/lib/utils";
 import { useTRPC } from "@/trpc/client";
-import { BillingPeriod, type Plan } from "../../plans";
+import type { Discount } from "../../discounts";
+import { usePlanCopy } from "../../hooks/use-plan-copy";
+import {
+	BillingPeriod,
+	getPlanForSubscription,
+	isFreePlan,
+	isSubscribedTo,
+	type Plan,
+} from "../../plans";
+import { PromotionCodeForm } from "../components/promotion-code-form";
 import { UpgradeSubscriptionButton } from "../components/upgrade-subscription-button";
 
 export const PlansCards = ({
@@ -26,7 +35,9 @@ export const PlansCards = ({
 }) => {
 	const trpc = useTRPC();
 	const t = useTranslations("billing");
+	const getPlanCopy = usePlanCopy();
 	const [upgradingPlan, setUpgradingPlan] = useState<Plan | null>(null);
+	const [promotion, setPromotion] = useState<Discount | null>(null);
 
 	const { data: plans } = useSuspenseQuery(
 		trpc.billing.getPlans.queryOptions(),
@@ -36,19 +47,26 @@ export const PlansCards = ({
 		trpc.billing.getActiveSubscription.queryOptions(),
 	);
 
-	const currentPlan = plans?.find(
-		(plan) =>
-			plan.name.toLowerCase() === activeSubscription?.plan?.toLowerCase(),
+	// Null when Stripe is not configured
+	const { data: trialAndDiscounts } = useSuspenseQuery(
+		trpc.billing.getTrialAndDiscounts.queryOptions(),
 	);
 
+	// Organizations without a subscription are on the free plan
+	const currentPlan = getPlanForSubscription(plans, activeSubscription);
+	// Promotion codes and trials are for new subscriptions, through checkout
+	const isSubscribing = isFreePlan(currentPlan) && trialAndDiscounts !== null;
+
 	const isCurrentPlan = (plan: Plan) => {
-		return activeSubscription?.plan?.toLowerCase() === plan.name.toLowerCase();
+		return isSubscribedTo(plans, activeSubscription, plan, period);
 	};
 
 	const getButtonText = (plan: Plan) => {
 		if (isCurrentPlan(plan)) {
-			return t("buttons.manage");
-		} else if ((currentPlan?.id ?? 0) > plan.id) {
+			return isFreePlan(plan) ? t("buttons.current") : t("buttons.manage");
+		} else if (currentPlan.id === plan.id) {
+			return t(`buttons.switch.${period}`);
+		} else if (currentPlan.id > plan.id) {
 			return t("buttons.downgrade");
 		}
 		return t("buttons.upgrade");
@@ -58,69 +76,70 @@ export const PlansCards = ({
 		setUpgradingPlan(plan);
 	};
 
-	const planKeyMap: Record<string, string> = {
-		free: "plans.free",
-		basic: "plans.basic",
-		plus: "plans.plus",
-		pro: "plans.pro",
-	};
-
 	return (
-		<div className="grid grid-cols-1 gap-4 md:grid-cols-3">
-			{plans.map((plan) => {
-				const key = (plan.name || "").toLowerCase();
-				const planKey =
-					planKeyMap[key as keyof typeof planKeyMap] ?? "plans.basic";
-				const planT = (sub: string) => t(`${planKey}.${sub}`);
-				const rawFeatures = t.raw(`${planKey}.features`);
-				const features: string[] = rawFeatures
-					? Object.values(rawFeatures)
-					: [];
-				const isCurrent = isCurrentPlan(plan);
-				const unitAmount = plan.prices?.[period]?.unitAmount ?? 0;
-				const currency = plan.prices?.[period]?.currency ?? "USD";
-				return (
-					<Card
-						key={plan.name}
-						className={cn("!pb-0", isCurrent ? "border-primary" : undefined)}
-					>
-						<CardHeader>
-							<CardTitle className="flex items-center justify-between">
-								<span>{planT("name")}</span>
-								{isCurrent ? (
-									<Badge variant="secondary">{t("buttons.current")}</Badge>
+		<div className="flex flex-col gap-4">
+			{isSubscribing ? (
+				<PromotionCodeForm value={promotion} onChange={setPromotion} />
+			) : null}
+			<div className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-4">
+				{plans.map((plan) => {
+					const { name, features } = getPlanCopy(plan);
+					const isCurrent = isCurrentPlan(plan);
+					const unitAmount = plan.prices?.[period]?.unitAmount ?? 0;
+					const currency = plan.prices?.[period]?.currency ?? "USD";
+					const trialDays =
+						isSubscribing && trialAndDiscounts?.trialEligible
+							? (plan.freeTrial?.days ?? 0)
+							: 0;
+					return (
+						<Card
+							key={plan.name}
+							className={cn("!pb-0", isCurrent ? "border-primary" : undefined)}
+						>
+							<CardHeader>
+								<CardTitle className="flex items-center justify-between">
+									<span>{name}</span>
+									{isCurrent ? (
+										<Badge variant="secondary">{t("buttons.current")}</Badge>
+									) : null}
+								</CardTitle>
+								<CardDescription className="text-2xl font-semibold flex items-baseline gap-1">
+									{formatAmountCents(unitAmount, currency)}
+									<span className="text-sm">{t(`${period}Period`)}</span>
+								</CardDescription>
+								{trialDays > 0 ? (
+									<Badge variant="outline" className="w-fit">
+										{t("trial.badge", { days: trialDays })}
+									</Badge>
 								) : null}
-							</CardTitle>
-							<CardDescription className="text-2xl font-semibold flex items-baseline gap-1">
-								{formatAmountCents(unitAmount, currency)}
-								<span className="text-sm">{t(`${period}Period`)}</span>
-							</CardDescription>
-						</CardHeader>
-						<Separator />
-						<CardContent className="space-y-3 pt-4 grow">
-							{features?.map((f) => (
-								<div
-									key={`${plan.name}-${f}`}
-									className="flex items-center gap-2"
-								>
-									<Radio className="h-4 w-4 text-primary" />
-									<span className="text-sm text-muted-foreground">{f}</span>
-								</div>
-							))}
-						</CardContent>
-						<CardFooter className="p-4">
-							<UpgradeSubscriptionButton
-								plan={plan}
-								period={period}
-								buttonText={getButtonText(plan)}
-								onUpgrade={handleUpgrade}
-								disabled={!!upgradingPlan}
-								loading={upgradingPlan?.id === plan.id}
-							/>
-						</CardFooter>
-					</Card>
-				);
-			})}
+							</CardHeader>
+							<Separator />
+							<CardContent className="space-y-3 pt-4 grow">
+								{features.map((f) => (
+									<div
+										key={`${plan.name}-${f}`}
+										className="flex items-center gap-2"
+									>
+										<Radio className="h-4 w-4 text-primary" />
+										<span className="text-sm text-muted-foreground">{f}</span>
+									</div>
+								))}
+							</CardContent>
+							<CardFooter className="p-4">
+								<UpgradeSubscriptionButton
+									plan={plan}
+									period={period}
+									buttonText={getButtonText(plan)}
+									onUpgrade={handleUpgrade}
+									disabled={!!upgradingPlan}
+									loading={upgradingPlan?.id === plan.id}
+									promotion={isSubscribing ? promotion : null}
+								/>
+							</CardFooter>
+						</Card>
+					);
+				})}
+			</div>
 		</div>
 	);
 };
@@ -0,0 +1,93 @@
+"use client";
+
+import { useMutation } from "@tanstack/react-query";
+import { Loader2, Tag, X } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { type FormEvent, useState } from "react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useTRPC } from "@/trpc/client";
+import type { Discount } from "../../discounts";
+import { DiscountLabel } from "./discount-label";
+
+interface Props {
+	/**
+	 * Discount of the applied code, sent to checkout with it
+	 */
+	value: Discount | null;
+	onChange: (discount: Discount | null) => void;
+}
+
+export const PromotionCodeForm = ({ value, onChange }: Props) => {
+	const t = useTranslations("billing.promotionCode");
+	const trpc = useTRPC();
+	const [code, setCode] = useState("");
+
+	const checkCode = useMutation(
+		trpc.billing.checkPromotionCode.mutationOptions({
+			onSuccess: (discount) => {
+				onChange(discount);
+				setCode("");
+				toast.success(t("applied", { code: discount.code ?? "" }));
+			},
+			onError: () => {
+				toast.error(t("invalid"));
+			},
+		}),
+	);
+
+	const handleSubmit = (event: FormEvent) => {
+		event.preventDefault();
+
+		if (code.trim()) {
+			checkCode.mutate({ code: code.trim() });
+		}
+	};
+
+	if (value) {
+		return (
+			<div className="flex flex-wrap items-center justify-center gap-2 text-sm">
+				<Badge variant="secondary" className="gap-1">
+					<Tag className="size-3" />
+					{value.code}
+				</Badge>
+				<span className="text-muted-foreground">
+					<DiscountLabel discount={value} />
+				</span>
+				<Button
+					size="sm"
+					variant="ghost"
+					onClick={() => onChange(null)}
+					aria-label={t("remove")}
+				>
+					<X />
+				</Button>
+			</div>
+		);
+	}
+
+	return (
+		<form
+			onSubmit={handleSubmit}
+			className="mx-auto flex w-full max-w-sm items-center gap-2"
+		>
+			<Input
+				value={code}
+				onChange={(event) => setCode(event.target.value)}
+				placeholder={t("placeholder")}
+				aria-label={t("label")}
+				maxLength={50}
+			/>
+			<Button
+				type="submit"
+				variant="outline"
+				disabled={!code.trim() || checkCode.isPending}
+			>
+				{checkCode.isPending && <Loader2 className="animate-spin" />}
+				{t("apply")}
+			</Button>
+		</form>
+	);
+};
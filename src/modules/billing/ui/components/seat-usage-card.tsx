@@ -0,0 +1,80 @@
+"use client";
+
+import { useSuspenseQuery } from "@tanstack/react-query";
+import { Users } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { Suspense } from "react";
+import { ErrorBoundary } from "react-error-boundary";
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Link } from "@/modules/i18n/navigation";
+import { useTRPC } from "@/trpc/client";
+
+const SeatUsage = () => {
+	const trpc = useTRPC();
+	const t = useTranslations("billing.seats");
+
+	const { data: usage } = useSuspenseQuery(
+		trpc.billing.getSeatUsage.queryOptions(),
+	);
+
+	// Seats are not limited without billing
+	if (!usage || usage.limit === null) {
+		return null;
+	}
+
+	const taken = usage.used + usage.pending;
+	const isFull = taken >= usage.limit;
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle className="flex items-center gap-2">
+					<Users className="size-4" />
+					{t("title")}
+				</CardTitle>
+				<CardDescription>{t("plan", { plan: usage.plan })}</CardDescription>
+			</CardHeader>
+			<CardContent className="flex flex-col gap-3">
+				<div className="flex items-center justify-between text-sm">
+					<span className="font-medium">
+						{t("usage", { used: usage.used, limit: usage.limit })}
+					</span>
+					{usage.pending > 0 ? (
+						<span className="text-muted-foreground">
+							{t("pending", { pending: usage.pending })}
+						</span>
+					) : null}
+				</div>
+				<Progress value={Math.min(100, (taken / usage.limit) * 100)} />
+				{isFull ? (
+					<div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+						<p className="text-sm text-muted-foreground">{t("full")}</p>
+						<Button asChild size="sm">
+							<Link href="/account/billing">{t("upgrade")}</Link>
+						</Button>
+					</div>
+				) : null}
+			</CardContent>
+		</Card>
+	);
+};
+
+export const SeatUsageCard = () => {
+	return (
+		<Suspense
+			fallback={<div className="h-32 w-full animate-pulse rounded-xl" />}
+		>
+			<ErrorBoundary fallback={null}>
+				<SeatUsage />
+			</ErrorBoundary>
+		</Suspense>
+	);
+};
@@ -3,10 +3,18 @@
 import { useSuspenseQuery } from "@tanstack/react-query";
 import { Loader2 } from "lucide-react";
 import { useTranslations } from "next-intl";
+import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { authClient } from "@/lib/auth-client";
 import { useTRPC } from "@/trpc/client";
-import { BillingPeriod, type Plan } from "../../plans";
+import type { Discount } from "../../discounts";
+import {
+	BillingPeriod,
+	isFreePlan,
+	isSubscribedTo,
+	type Plan,
+} from "../../plans";
+import { PlanChangeDialog } from "./plan-change-dialog";
 
 interface Props {
 	buttonText: string;
@@ -15,6 +23,10 @@ interface Props {
 	loading?: boolean;
 	period: BillingPeriod;
 	onUpgrade: (plan: Plan | null) => void;
+	/**
+	 * Discount of the promotion code applied at checkout
+	 */
+	promotion?: Discount | null;
 }
 
 export const UpgradeSubscriptionButton = ({
@@ -24,36 +36,46 @@ export const UpgradeSubscriptionButton = ({
 	loading,
 	period,
 	onUpgrade,
+	promotion,
 }: Props) => {
 	const t = useTranslations("billing");
 	const trpc = useTRPC();
 	const { data: organization, isPending } = authClient.useActiveOrganization();
+	const { data: plans } = useSuspenseQuery(
+		trpc.billing.getPlans.queryOptions(),
+	);
 	const { data: activeSubscription } = useSuspenseQuery(
 		trpc.billing.getActiveSubscription.queryOptions(),
 	);
 
-	const isCurrentPlan =
-		activeSubscription?.plan?.toLowerCase() === plan.name.toLowerCase();
+	const [isPreviewOpen, setIsPreviewOpen] = useState(false);
 
-	const handleSubscribe = async () => {
+	const isCurrentPlan = isSubscribedTo(plans, activeSubscription, plan, period);
+
+	const openBillingPortal = async () => {
 		onUpgrade?.(plan);
 		try {
-			if (isCurrentPlan) {
-				const { data, error } = await authClient.subscription.billingPortal({
-					referenceId: organization?.id,
-					returnUrl: "/account/billing",
-				});
-				if (error) {
-					onUpgrade?.(null);
-					console.log(error);
-				}
-				if (data?.url) {
-					window.location.href = data.url as string;
-				}
-				return;
+			const { data, error } = await authClient.subscription.billingPortal({
+				referenceId: organization?.id,
+				returnUrl: "/account/billing",
+			});
+			if (error) {
+				onUpgrade?.(null);
+				console.log(error);
+			}
+			if (data?.url) {
+				window.location.href = data.url as string;
 			}
+		} catch (err) {
+			onUpgrade?.(null);
+			console.log(err);
+		}
+	};
 
-			// Not current plan → proceed with upgrade/switch flow
+	// Organizations without a subscription subscribe through Stripe Checkout
+	const startCheckout = async () => {
+		onUpgrade?.(plan);
+		try {
 			const { data, error } = await authClient.subscription.upgrade({
 				plan: plan.name.toLowerCase(),
 				successUrl: "/account/billing",
@@ -62,6 +84,9 @@ export const UpgradeSubscriptionButton = ({
 				referenceId: organization?.id,
 				subscriptionId: activeSubscription?.stripeSubscriptionId,
 				annual: period === BillingPeriod.YEARLY,
+				metadata: promotion?.code
+					? { promotionCode: promotion.code }
+					: undefined,
 			});
 			if (error) {
 				onUpgrade?.(null);
@@ -75,18 +100,48 @@ export const UpgradeSubscriptionButton = ({
 			console.log(err);
 		}
 	};
+
+	const handleSubscribe = async () => {
+		// Moving to the free plan cancels the subscription in the portal
+		if (isCurrentPlan || isFreePlan(plan)) {
+			await openBillingPortal();
+			return;
+		}
+
+		// Other changes are confirmed after previewing what they cost
+		setIsPreviewOpen(true);
+	};
+
 	return (
-		<Button
-			onClick={handleSubscribe}
-			className="w-full"
-			disabled={isPending || disabled || loading || !organization?.id}
-			variant={isCurrentPlan ? "outline" : "default"}
-		>
-			{isPending || loading ? (
-				<Loader2 className="mr-2 size-4 animate-spin" />
-			) : (
-				(buttonText ?? t("buttons.upgrade"))
+		<>
+			<Button
+				onClick={handleSubscribe}
+				className="w-full"
+				disabled={
+					isPending ||
+					disabled ||
+					loading ||
+					!organization?.id ||
+					(isCurrentPlan && isFreePlan(plan))
+				}
+				variant={isCurrentPlan ? "outline" : "default"}
+			>
+				{isPending || loading ? (
+					<Loader2 className="mr-2 size-4 animate-spin" />
+				) : (
+					(buttonText ?? t("buttons.upgrade"))
+				)}
+			</Button>
+			{isFreePlan(plan) ? null : (
+				<PlanChangeDialog
+					plan={plan}
+					period={period}
+					open={isPreviewOpen}
+					onOpenChange={setIsPreviewOpen}
+					onCheckout={startCheckout}
+					promotion={promotion ?? null}
+				/>
 			)}
-		</Button>
+		</>
 	);
 };
@@ -0,0 +1,260 @@
+"use client";
+
+import {
+	useMutation,
+	useQueryClient,
+	useSuspenseQuery,
+} from "@tanstack/react-query";
+import type { ColumnDef } from "@tanstack/react-table";
+import {
+	flexRender,
+	getCoreRowModel,
+	useReactTable,
+} from "@tanstack/react-table";
+import { useTranslations } from "next-intl";
+import { useQueryStates } from "nuqs";
+import { Fragment, useMemo, useState } from "react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import { useTRPC } from "@/trpc/client";
+import { StripeEventStatus } from "../../webhooks";
+import {
+	WEBHOOK_EVENTS_PAGE_SIZE,
+	webhookEventsSearchParams,
+} from "../search-params";
+
+type WebhookEventRow = {
+	id: string;
+	type: string;
+	status: StripeEventStatus;
+	attempts: number;
+	lastError: string | null;
+	livemode: boolean;
+	payload: string; // Pretty printed JSON
+	createdAt: string; // ISO string
+	receivedAt: string; // ISO string
+	processedAt: string | null; // ISO string
+};
+
+const statusVariants = {
+	[StripeEventStatus.PENDING]: "outline",
+	[StripeEventStatus.PROCESSING]: "secondary",
+	[StripeEventStatus.PROCESSED]: "default",
+	[StripeEventStatus.FAILED]: "destructive",
+} as const;
+
+export const WebhookEventsTable = () => {
+	const trpc = useTRPC();
+	const queryClient = useQueryClient();
+	const t = useTranslations("admin.webhookEvents");
+	const [{ status, search, page }, setFilters] = useQueryStates(
+		webhookEventsSearchParams,
+	);
+	const [openId, setOpenId] = useState<string | null>(null);
+
+	const { data } = useSuspenseQuery(
+		trpc.billing.listWebhookEvents.queryOptions({
+			status: status ?? undefined,
+			search: search || undefined,
+			page,
+			pageSize: WEBHOOK_EVENTS_PAGE_SIZE,
+		}),
+	);
+
+	const replay = useMutation(
+		trpc.billing.replayWebhookEvent.mutationOptions({
+			onSuccess: async (event) => {
+				if (event.status === StripeEventStatus.FAILED) {
+					toast.error(t("replayFailed", { error: event.lastError ?? "" }));
+				} else {
+					toast.success(t("replayed"));
+				}
+				await queryClient.invalidateQueries(
+					trpc.billing.listWebhookEvents.queryFilter(),
+				);
+			},
+			onError: (error) => {
+				toast.error(t("replayFailed", { error: error.message }));
+			},
+		}),
+	);
+
+	const pageCount = Math.max(
+		1,
+		Math.ceil(data.total / WEBHOOK_EVENTS_PAGE_SIZE),
+	);
+
+	const columns = useMemo<ColumnDef<WebhookEventRow>[]>(
+		() => [
+			{
+				accessorKey: "receivedAt",
+				header: t("columns.received"),
+				cell: ({ getValue }) => new Date(String(getValue())).toLocaleString(),
+			},
+			{
+				accessorKey: "type",
+				header: t("columns.type"),
+				cell: ({ row }) => (
+					<button
+						type="button"
+						className="flex flex-col text-left hover:underline"
+						onClick={() =>
+							setOpenId((id) =>
+								id === row.original.id ? null : row.original.id,
+							)
+						}
+					>
+						<span className="font-mono text-sm">{row.original.type}</span>
+						<span className="text-xs text-muted-foreground">
+							{row.original.id}
+							{row.original.livemode ? null : ` · ${t("testMode")}`}
+						</span>
+					</button>
+				),
+			},
+			{
+				accessorKey: "status",
+				header: t("columns.status"),
+				cell: ({ row }) => (
+					<Badge variant={statusVariants[row.original.status]}>
+						{t(`statuses.${row.original.status}`)}
+					</Badge>
+				),
+			},
+			{
+				accessorKey: "attempts",
+				header: t("columns.attempts"),
+			},
+			{
+				accessorKey: "processedAt",
+				header: t("columns.processed"),
+				cell: ({ getValue }) => {
+					const processedAt = getValue() as string | null;
+
+					return processedAt ? new Date(processedAt).toLocaleString() : "—";
+				},
+			},
+			{
+				id: "actions",
+				cell: ({ row }) => (
+					<Button
+						variant="outline"
+						size="sm"
+						disabled={
+							replay.isPending ||
+							row.original.status === StripeEventStatus.PROCESSING
+						}
+						onClick={() => replay.mutate({ id: row.original.id })}
+					>
+						{t("replay")}
+					</Button>
+				),
+			},
+		],
+		[t, replay],
+	);
+
+	const table = useReactTable({
+		data: data.events,
+		columns,
+		getCoreRowModel: getCoreRowModel(),
+	});
+
+	return (
+		<div className="flex flex-col">
+			<Table>
+				<TableHeader>
+					{table.getHeaderGroups().map((headerGroup) => (
+						<TableRow key={headerGroup.id}>
+							{headerGroup.headers.map((header) => (
+								<TableHead key={header.id}>
+									{header.isPlaceholder
+										? null
+										: flexRender(
+												header.column.columnDef.header,
+												header.getContext(),
+											)}
+								</TableHead>
+							))}
+						</TableRow>
+					))}
+				</TableHeader>
+				<TableBody>
+					{table.getRowModel().rows?.length ? (
+						table.getRowModel().rows.map((row) => (
+							<Fragment key={row.id}>
+								<TableRow>
+									{row.getVisibleCells().map((cell) => (
+										<TableCell key={cell.id}>
+											{flexRender(
+												cell.column.columnDef.cell,
+												cell.getContext(),
+											)}
+										</TableCell>
+									))}
+								</TableRow>
+								{openId === row.original.id ? (
+									<TableRow>
+										<TableCell colSpan={columns.length}>
+											<div className="flex flex-col gap-2">
+												{row.original.lastError ? (
+													<span className="text-sm text-destructive">
+														{t("lastError", { error: row.original.lastError })}
+													</span>
+												) : null}
+												<pre className="max-h-[400px] overflow-auto rounded-md border p-4 font-mono text-xs">
+													{row.original.payload}
+												</pre>
+											</div>
+										</TableCell>
+									</TableRow>
+								) : null}
+							</Fragment>
+						))
+					) : (
+						<TableRow>
+							<TableCell colSpan={columns.length} className="h-32 text-center">
+								<div className="flex flex-col items-center justify-center gap-1 py-6 text-muted-foreground">
+									<div className="text-sm font-medium">{t("empty.title")}</div>
+									<div className="text-xs">{t("empty.description")}</div>
+								</div>
+							</TableCell>
+						</TableRow>
+					)}
+				</TableBody>
+			</Table>
+
+			<div className="flex items-center justify-between border-t px-4 py-3 text-sm text-muted-foreground">
+				<span>{t("pagination.total", { total: data.total })}</span>
+				<div className="flex items-center gap-2">
+					<span>{t("pagination.page", { page, pageCount })}</span>
+					<Button
+						variant="outline"
+						size="sm"
+						disabled={page <= 1}
+						onClick={() => setFilters({ page: page - 1 })}
+					>
+						{t("pagination.previous")}
+					</Button>
+					<Button
+						variant="outline"
+						size="sm"
+						disabled={page >= pageCount}
+						onClick={() => setFilters({ page: page + 1 })}
+					>
+						{t("pagination.next")}
+					</Button>
+				</div>
+			</div>
+		</div>
+	);
+};
@@ -0,0 +1,22 @@
+import {
+	createLoader,
+	parseAsInteger,
+	parseAsString,
+	parseAsStringEnum,
+} from "nuqs/server";
+import { StripeEventStatus } from "../webhooks";
+
+export const WEBHOOK_EVENTS_PAGE_SIZE = 25;
+
+/**
+ * Webhook event filters, kept in the URL so a filtered view can be shared
+ */
+export const webhookEventsSearchParams = {
+	status: parseAsStringEnum(Object.values(StripeEventStatus)),
+	search: parseAsString.withDefault(""),
+	page: parseAsInteger.withDefault(1),
+};
+
+export const loadWebhookEventsSearchParams = createLoader(
+	webhookEventsSearchParams,
+);
@@ -4,7 +4,10 @@ import { useTranslations } from "next-intl";
 import { useState } from "react";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { BillingPeriod } from "../../plans";
+import { CreditUsageCard } from "../components/credit-usage-card";
+import { DiscountsCard } from "../components/discounts-card";
 import { InvoicesTable } from "../components/invoices-table";
+import { PaymentMethodsCard } from "../components/payment-methods-card";
 import { PlansCards } from "../components/plans-cards";
 
 export const BillingView = () => {
@@ -32,6 +35,12 @@ export const BillingView = () => {
 				<PlansCards period={period} />
 			</div>
 
+			<DiscountsCard />
+
+			<CreditUsageCard />
+
+			<PaymentMethodsCard />
+
 			<div className="space-y-4">
 				<div className="text-base font-medium">{t("history.title")}</div>
 				<div className="rounded-xl border">
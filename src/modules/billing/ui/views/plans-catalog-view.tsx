@@ -0,0 +1,97 @@
+"use client";
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Loader2, Plus, RefreshCw } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { Suspense, useState } from "react";
+import { ErrorBoundary } from "react-error-boundary";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { useTRPC } from "@/trpc/client";
+import type { CatalogPlan } from "../../catalog";
+import { CatalogPlanDialog } from "../components/catalog-plan-dialog";
+import { CatalogPlansTable } from "../components/catalog-plans-table";
+
+export const PlansCatalogView = () => {
+	const t = useTranslations("admin.plans");
+	const trpc = useTRPC();
+	const queryClient = useQueryClient();
+	const [editing, setEditing] = useState<{ plan: CatalogPlan | null } | null>(
+		null,
+	);
+
+	const syncCatalog = useMutation(
+		trpc.billing.syncCatalog.mutationOptions({
+			onSuccess: async ({ created, updated, skipped }) => {
+				await queryClient.invalidateQueries(trpc.billing.pathFilter());
+				toast.success(
+					t("sync.success", {
+						created: created.length,
+						updated: updated.length,
+					}),
+				);
+				if (skipped.length) {
+					toast.warning(t("sync.skipped", { products: skipped.join(", ") }));
+				}
+			},
+			onError: (error) => {
+				toast.error(error.message || t("error"));
+			},
+		}),
+	);
+
+	return (
+		<div className="mx-auto flex w-full max-w-6xl flex-col gap-6">
+			<div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+				<div className="flex flex-col gap-1">
+					<h1 className="text-xl font-semibold">{t("title")}</h1>
+					<p className="text-sm text-muted-foreground">{t("description")}</p>
+				</div>
+				<div className="flex gap-2">
+					<Button
+						variant="outline"
+						disabled={syncCatalog.isPending}
+						onClick={() => syncCatalog.mutate()}
+					>
+						{syncCatalog.isPending ? (
+							<Loader2 className="animate-spin" />
+						) : (
+							<RefreshCw />
+						)}
+						{t("sync.action")}
+					</Button>
+					<Button onClick={() => setEditing({ plan: null })}>
+						<Plus />
+						{t("create.action")}
+					</Button>
+				</div>
+			</div>
+
+			<div className="rounded-xl border">
+				<Suspense fallback={<PlansCatalogViewLoading />}>
+					<ErrorBoundary fallback={<PlansCatalogViewError />}>
+						<CatalogPlansTable onEdit={(plan) => setEditing({ plan })} />
+					</ErrorBoundary>
+				</Suspense>
+			</div>
+
+			<CatalogPlanDialog
+				plan={editing?.plan ?? null}
+				open={editing !== null}
+				onOpenChange={(open) => {
+					if (!open) {
+						setEditing(null);
+					}
+				}}
+			/>
+		</div>
+	);
+};
+
+export const PlansCatalogViewLoading = () => {
+	return <div className="h-[300px] w-full animate-pulse rounded-xl" />;
+};
+
+export const PlansCatalogViewError = () => {
+	return <div className="p-4 text-destructive">Error loading the plans</div>;
+};
@@ -0,0 +1,38 @@
+/**
+ * Stripe Webhook Types
+ *
+ * Every verified event is stored before it is processed, so retried
+ * deliveries are recognized by their event id and failed events can be
+ * replayed from the admin screen.
+ */
+
+export enum StripeEventStatus {
+	PENDING = "pending",
+	PROCESSING = "processing",
+	PROCESSED = "processed",
+	FAILED = "failed",
+}
+
+/**
+ * An event left processing this long is considered abandoned (e.g. the
+ * server restarted) and can be processed again
+ */
+export const STRIPE_EVENT_PROCESSING_TIMEOUT_MS = 5 * 60 * 1000;
+
+export interface StripeEventContext {
+	/**
+	 * False when an already processed event is replayed, its emails went out
+	 * the first time
+	 */
+	notify: boolean;
+}
+
+export class StripeWebhookError extends Error {
+	readonly status: number;
+
+	constructor(message: string, status: number) {
+		super(message);
+		this.name = "StripeWebhookError";
+		this.status = status;
+	}
+}
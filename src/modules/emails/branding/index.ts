@@ -0,0 +1,118 @@
+import { eq } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { db } from "@/lib/db";
+import * as schema from "@/lib/db/schema";
+import { env } from "@/lib/env";
+import { PlanFeature } from "@/modules/billing/plans";
+import { hasFeature } from "@/modules/billing/server/entitlements";
+import { EMAIL_PRIMARY_COLOR } from "../config";
+import type { EmailBranding, EmailBrandingInput } from "./types";
+
+/**
+ * Organization Email Branding
+ *
+ * Emails sent in an organization's context (invitations, billing) use its
+ * logo, primary color, sender name and footer. Anything the organization
+ * didn't configure falls back to the app defaults.
+ */
+
+const defaultBranding: EmailBranding = {
+	logoUrl: env.APP_LOGO_URL,
+	primaryColor: EMAIL_PRIMARY_COLOR,
+};
+
+/**
+ * Get the branding to apply to an email, the app defaults without organization
+ */
+export async function getEmailBranding(
+	organizationId?: string | null,
+): Promise<EmailBranding> {
+	if (!organizationId) {
+		return defaultBranding;
+	}
+
+	const [row] = await db
+		.select({
+			logo: schema.organization.logo,
+			branding: schema.organizationEmailBranding,
+		})
+		.from(schema.organization)
+		.leftJoin(
+			schema.organizationEmailBranding,
+			eq(
+				schema.organizationEmailBranding.organizationId,
+				schema.organization.id,
+			),
+		)
+		.where(eq(schema.organization.id, organizationId))
+		.limit(1);
+
+	if (!row) {
+		return defaultBranding;
+	}
+
+	// Branding saved on a plan the organization downgraded from isn't applied
+	const branding = (await hasFeature(
+		organizationId,
+		PlanFeature.EMAIL_BRANDING,
+	))
+		? row.branding
+		: null;
+
+	return {
+		// The organization avatar is a good default logo
+		logoUrl: branding?.logoUrl ?? row.logo ?? defaultBranding.logoUrl,
+		primaryColor: branding?.primaryColor ?? defaultBranding.primaryColor,
+		senderName: branding?.senderName ?? undefined,
+		footerText: branding?.footerText ?? undefined,
+	};
+}
+
+/**
+ * Get the branding form values of an organization (empty when not configured)
+ */
+export async function getEmailBrandingSettings(
+	organizationId: string,
+): Promise<EmailBrandingInput> {
+	const [branding] = await db
+		.select()
+		.from(schema.organizationEmailBranding)
+		.where(eq(schema.organizationEmailBranding.organizationId, organizationId))
+		.limit(1);
+
+	return {
+		logoUrl: branding?.logoUrl ?? "",
+		primaryColor: branding?.primaryColor ?? "",
+		senderName: branding?.senderName ?? "",
+		footerText: branding?.footerText ?? "",
+	};
+}
+
+/**
+ * Save the branding of an organization, empty values reset to the default
+ */
+export async function updateEmailBranding(
+	organizationId: string,
+	input: EmailBrandingInput,
+): Promise<void> {
+	const values = {
+		logoUrl: input.logoUrl || null,
+		primaryColor: input.primaryColor || null,
+		senderName: input.senderName || null,
+		footerText: input.footerText || null,
+	};
+
+	await db
+		.insert(schema.organizationEmailBranding)
+		.values({ id: nanoid(), organizationId, ...values })
+		.onConflictDoUpdate({
+			target: schema.organizationEmailBranding.organizationId,
+			set: { ...values, updatedAt: new Date() },
+		});
+}
+
+export {
+	createEmailBrandingSchema,
+	type EmailBranding,
+	type EmailBrandingInput,
+} from "./types";
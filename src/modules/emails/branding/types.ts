@@ -0,0 +1,57 @@
+import { z } from "zod";
+
+/**
+ * Email Branding Types
+ *
+ * Shared by the branding form and the tRPC procedure validating it.
+ * Empty fields reset the value to the app default.
+ */
+export interface EmailBranding {
+	logoUrl?: string;
+	primaryColor: string;
+	senderName?: string;
+	footerText?: string;
+}
+
+type EmailBrandingField =
+	| "logoUrl"
+	| "primaryColor"
+	| "senderName"
+	| "footerText";
+
+const defaultMessages: Record<EmailBrandingField, string> = {
+	logoUrl: "Logo URL must be an https URL",
+	primaryColor: "Primary color must be a hex color like #F46811",
+	senderName: 'Sender name must be at most 64 characters, without <, > or "',
+	footerText: "Footer text must be at most 500 characters",
+};
+
+/**
+ * Build the branding schema, with translated messages on the client
+ */
+export const createEmailBrandingSchema = (
+	messages: Record<EmailBrandingField, string> = defaultMessages,
+) =>
+	z.object({
+		logoUrl: z
+			.string()
+			.trim()
+			.url(messages.logoUrl)
+			.startsWith("https://", messages.logoUrl)
+			.or(z.literal("")),
+		primaryColor: z
+			.string()
+			.trim()
+			.regex(/^#[0-9a-fA-F]{6}$/, messages.primaryColor)
+			.or(z.literal("")),
+		senderName: z
+			.string()
+			.trim()
+			.max(64, messages.senderName)
+			.regex(/^[^<>"\r\n]*$/, messages.senderName),
+		footerText: z.string().trim().max(500, messages.footerText),
+	});
+
+export type EmailBrandingInput = z.infer<
+	ReturnType<typeof createEmailBrandingSchema>
+>;
@@ -16,6 +16,11 @@ export const EMAIL_CONFIG = {
 	settings: {
 		maxRetries: 3,
 		retryDelay: 1000, // milliseconds
+		// Skip a provider after consecutive transport failures (multi-provider setups)
+		circuitBreaker: {
+			failureThreshold: 3,
+			cooldownMs: 60_000, // milliseconds before the provider is tried again
+		},
 	},
 
 	// Template-specific configurations
@@ -32,23 +37,71 @@ export const EMAIL_CONFIG = {
 		welcome: {
 			// Welcome emails don't expire
 		},
+		// Reply to an invitation forwarded to the inviter by the inbound endpoint
+		invitationReply: {},
+		subscriptionUpgrade: {},
+		subscriptionCancellation: {},
+		// Scheduled emails
+		trialEnding: {
+			daysBefore: 3,
+		},
+		renewalReminder: {
+			daysBefore: 7,
+		},
+		// Failed payment sequence, sent over DUNNING_GRACE_DAYS
+		paymentFailed: {},
+		subscriptionDowngraded: {},
+		invitationExpiring: {
+			hoursBefore: 24,
+		},
+		weeklyDigest: {
+			periodDays: 7,
+		},
 	},
 } as const;
 
+/**
+ * Sender addresses templates send from
+ *
+ * NO_REPLY uses EMAIL_FROM (or SMTP_FROM), the others fall back to it when
+ * their own address is not configured.
+ */
+export enum EmailSender {
+	NO_REPLY = "noReply",
+	BILLING = "billing",
+}
+
 /**
  * Email template types
  */
 export type EmailTemplateType = keyof typeof EMAIL_CONFIG.templates;
 
-// Custom Tailwind configuration for email compatibility
-export const TAILWIND_CONFIG = {
-	theme: {
-		extend: {
-			colors: {
-				primary: {
-					DEFAULT: "#F46811", // Using orange as primary for better email client compatibility
+export const EMAIL_TEMPLATE_TYPES = Object.keys(EMAIL_CONFIG.templates) as [
+	EmailTemplateType,
+	...EmailTemplateType[],
+];
+
+// Using orange as primary for better email client compatibility
+export const EMAIL_PRIMARY_COLOR = "#F46811";
+
+/**
+ * Tailwind configuration for email compatibility
+ *
+ * Organizations can override the primary color with their email branding.
+ */
+export function createTailwindConfig(primaryColor = EMAIL_PRIMARY_COLOR) {
+	return {
+		theme: {
+			extend: {
+				colors: {
+					primary: {
+						DEFAULT: primaryColor,
+					},
 				},
 			},
 		},
-	},
-};
+	};
+}
+
+// Custom Tailwind configuration for email compatibility
+export const TAILWIND_CONFIG = createTailwindConfig();
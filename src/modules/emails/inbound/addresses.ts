@@ -0,0 +1,66 @@
+import { InboundEmailKind } from "./types";
+
+/**
+ * Inbound Addresses
+ *
+ * Routing information travels in the local part of the reply address:
+ * - invitation+<invitation id>@domain: reply to an invitation
+ * - support+<organization id>@domain: reply to an email sent for an organization
+ * - support@domain (or any other address): support message
+ */
+
+export type InboundRoute =
+	| { kind: InboundEmailKind.INVITATION_REPLY; invitationId: string }
+	| { kind: InboundEmailKind.SUPPORT; organizationId?: string };
+
+const localParts = {
+	[InboundEmailKind.INVITATION_REPLY]: "invitation",
+	[InboundEmailKind.SUPPORT]: "support",
+} as const;
+
+/**
+ * Build the address replies for a route are received on
+ */
+export function getInboundAddress(domain: string, route: InboundRoute): string {
+	const id =
+		route.kind === InboundEmailKind.INVITATION_REPLY
+			? route.invitationId
+			: route.organizationId;
+
+	return `${localParts[route.kind]}${id ? `+${id}` : ""}@${domain}`;
+}
+
+/**
+ * Read the route of an address at the inbound domain, null for other domains
+ */
+export function parseInboundAddress(
+	address: string,
+	domain: string,
+): InboundRoute | null {
+	const at = address.lastIndexOf("@");
+
+	if (
+		at === -1 ||
+		address.slice(at + 1).toLowerCase() !== domain.toLowerCase()
+	) {
+		return null;
+	}
+
+	// Ids are case-sensitive, only the mailbox name is not
+	const [mailbox, tag] = address.slice(0, at).split("+", 2);
+
+	if (
+		mailbox.toLowerCase() === localParts[InboundEmailKind.INVITATION_REPLY] &&
+		tag
+	) {
+		return { kind: InboundEmailKind.INVITATION_REPLY, invitationId: tag };
+	}
+
+	return {
+		kind: InboundEmailKind.SUPPORT,
+		organizationId:
+			mailbox.toLowerCase() === localParts[InboundEmailKind.SUPPORT] && tag
+				? tag
+				: undefined,
+	};
+}
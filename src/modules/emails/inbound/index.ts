@@ -0,0 +1,440 @@
+import {
+	and,
+	asc,
+	count,
+	desc,
+	eq,
+	ilike,
+	isNotNull,
+	isNull,
+	or,
+	type SQL,
+} from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { db } from "@/lib/db";
+import * as schema from "@/lib/db/schema";
+import { env } from "@/lib/env";
+import { hasBearerToken } from "@/lib/server-utils";
+import { defaultLocale } from "@/modules/i18n/routing";
+import { sendTemplatedEmail } from "../registry";
+import { maskEmail } from "../utils/address";
+import { type InboundRoute, parseInboundAddress } from "./addresses";
+import { htmlToPlainText, parseMimeEmail } from "./mime";
+import { parseInboundEmailPayload } from "./payload";
+import { startInboundSmtpServer } from "./smtp";
+import {
+	InboundEmailError,
+	InboundEmailKind,
+	InboundEmailStatus,
+	type ParsedInboundEmail,
+} from "./types";
+
+/**
+ * Inbound Email
+ *
+ * Replies to emails sent by the app are received on INBOUND_EMAIL_DOMAIN,
+ * either posted to /api/emails/inbound by an inbound email provider or
+ * delivered to the local SMTP listener:
+ * - Replies to invitations are forwarded to the inviter
+ * - Everything else is stored as a support message for the admin inbox
+ */
+
+export {
+	getInboundAddress,
+	type InboundRoute,
+	parseInboundAddress,
+} from "./addresses";
+export { htmlToPlainText, isAutoReply, parseMimeEmail } from "./mime";
+export {
+	type InboundEmailPayload,
+	inboundEmailPayloadSchema,
+	parseInboundEmailPayload,
+} from "./payload";
+export { getInvitationReplyAddress, getSupportAddress } from "./reply-to";
+export {
+	type InboundSmtpEnvelope,
+	type InboundSmtpServer,
+	type InboundSmtpServerOptions,
+	startInboundSmtpServer,
+} from "./smtp";
+export {
+	InboundEmailError,
+	InboundEmailKind,
+	InboundEmailStatus,
+	type ParsedInboundEmail,
+} from "./types";
+
+export function isInboundEmailEnabled(): boolean {
+	return Boolean(env.INBOUND_EMAIL_DOMAIN);
+}
+
+/**
+ * The first recipient at the inbound domain and its route
+ */
+function findRoute(
+	email: ParsedInboundEmail,
+	domain: string,
+): { address: string; route: InboundRoute } | null {
+	for (const address of email.to) {
+		const route = parseInboundAddress(address, domain);
+		if (route) {
+			return { address, route };
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Organization a support message is about: the one the replied email was
+ * sent for, otherwise the sender's first organization
+ */
+async function findSupportOrganizationId(
+	organizationId: string | undefined,
+	userId: string | undefined,
+): Promise<string | undefined> {
+	if (organizationId) {
+		const [organization] = await db
+			.select({ id: schema.organization.id })
+			.from(schema.organization)
+			.where(eq(schema.organization.id, organizationId))
+			.limit(1);
+
+		if (organization) {
+			return organization.id;
+		}
+	}
+
+	if (!userId) {
+		return undefined;
+	}
+
+	const [membership] = await db
+		.select({ organizationId: schema.member.organizationId })
+		.from(schema.member)
+		.where(eq(schema.member.userId, userId))
+		.orderBy(asc(schema.member.createdAt))
+		.limit(1);
+
+	return membership?.organizationId;
+}
+
+/**
+ * Forward a reply to an invitation to the member who sent it
+ */
+async function forwardInvitationReply(
+	email: ParsedInboundEmail,
+	message: string,
+	invitation: {
+		organizationId: string;
+		organizationName: string;
+		inviterName: string;
+		inviterEmail: string;
+		inviterLanguage: string | null;
+	},
+): Promise<void> {
+	await sendTemplatedEmail(
+		"invitationReply",
+		{
+			inviterName: invitation.inviterName,
+			organizationName: invitation.organizationName,
+			senderName: email.from.name ?? email.from.address,
+			senderEmail: email.from.address,
+			message,
+		},
+		{
+			to: invitation.inviterEmail,
+			locale: invitation.inviterLanguage ?? defaultLocale,
+			organizationId: invitation.organizationId,
+		},
+	);
+}
+
+/**
+ * Store an inbound email and route it
+ *
+ * Emails redelivered with the same Message-ID are stored and forwarded once.
+ * Returns null when the email isn't addressed to the inbound domain.
+ */
+export async function receiveInboundEmail(
+	email: ParsedInboundEmail,
+): Promise<schema.InboundEmail | null> {
+	if (!env.INBOUND_EMAIL_DOMAIN) {
+		return null;
+	}
+
+	const recipient = findRoute(email, env.INBOUND_EMAIL_DOMAIN);
+
+	if (!recipient) {
+		console.log(
+			`⏭️ Ignoring inbound email from ${maskEmail(email.from.address)}, no recipient at ${env.INBOUND_EMAIL_DOMAIN}`,
+		);
+		return null;
+	}
+
+	const { route } = recipient;
+
+	const [sender] = await db
+		.select({ id: schema.user.id })
+		.from(schema.user)
+		.where(eq(schema.user.email, email.from.address.toLowerCase()))
+		.limit(1);
+
+	const invitation =
+		route.kind === InboundEmailKind.INVITATION_REPLY
+			? (
+					await db
+						.select({
+							id: schema.invitation.id,
+							organizationId: schema.invitation.organizationId,
+							organizationName: schema.organization.name,
+							inviterName: schema.user.name,
+							inviterEmail: schema.user.email,
+							inviterLanguage: schema.user.language,
+						})
+						.from(schema.invitation)
+						.innerJoin(
+							schema.organization,
+							eq(schema.organization.id, schema.invitation.organizationId),
+						)
+						.innerJoin(
+							schema.user,
+							eq(schema.user.id, schema.invitation.inviterId),
+						)
+						.where(eq(schema.invitation.id, route.invitationId))
+						.limit(1)
+				)[0]
+			: undefined;
+
+	// Replies to deleted invitations end up in the support inbox
+	const kind = invitation
+		? InboundEmailKind.INVITATION_REPLY
+		: InboundEmailKind.SUPPORT;
+
+	const organizationId =
+		invitation?.organizationId ??
+		(await findSupportOrganizationId(
+			route.kind === InboundEmailKind.SUPPORT
+				? route.organizationId
+				: undefined,
+			sender?.id,
+		));
+
+	const [stored] = await db
+		.insert(schema.inboundEmail)
+		.values({
+			id: nanoid(),
+			messageId: email.messageId,
+			kind,
+			fromAddress: email.from.address,
+			fromName: email.from.name,
+			toAddress: recipient.address,
+			subject: email.subject,
+			text: email.text,
+			html: email.html,
+			userId: sender?.id,
+			organizationId,
+			invitationId: invitation?.id,
+		})
+		.onConflictDoNothing({ target: schema.inboundEmail.messageId })
+		.returning();
+
+	if (!stored) {
+		console.log(`⏭️ Inbound email ${email.messageId} was already received`);
+		const [existing] = await db
+			.select()
+			.from(schema.inboundEmail)
+			.where(eq(schema.inboundEmail.messageId, email.messageId ?? ""))
+			.limit(1);
+		return existing ?? null;
+	}
+
+	console.log(
+		`📥 Inbound ${kind} email received from ${maskEmail(email.from.address)}`,
+	);
+
+	// Out of office replies would otherwise bounce back and forth
+	if (invitation && !email.autoReply) {
+		await forwardInvitationReply(
+			email,
+			email.text ?? htmlToPlainText(email.html ?? ""),
+			invitation,
+		);
+	}
+
+	return stored;
+}
+
+/**
+ * Handle a request to the inbound endpoint
+ *
+ * Accepts a raw MIME email (`message/rfc822`) or a JSON payload, see
+ * `inboundEmailPayloadSchema`. Throws `InboundEmailError` when inbound email
+ * isn't configured, the bearer token is wrong or the email is malformed.
+ */
+export async function handleInboundEmailRequest(request: Request) {
+	if (!isInboundEmailEnabled() || !env.INBOUND_EMAIL_SECRET) {
+		throw new InboundEmailError("Inbound email is not configured", 404);
+	}
+
+	if (!hasBearerToken(request, env.INBOUND_EMAIL_SECRET)) {
+		throw new InboundEmailError("Unauthorized", 401);
+	}
+
+	const contentType = request.headers.get("content-type") ?? "";
+	let email: ParsedInboundEmail;
+
+	if (
+		contentType.startsWith("message/rfc822") ||
+		contentType.startsWith("text/plain")
+	) {
+		email = parseMimeEmail(Buffer.from(await request.arrayBuffer()));
+	} else {
+		let payload: unknown;
+		try {
+			payload = await request.json();
+		} catch {
+			throw new InboundEmailError("Invalid JSON body", 400);
+		}
+		email = parseInboundEmailPayload(payload);
+	}
+
+	if (!email.from.address) {
+		throw new InboundEmailError("Invalid inbound email: missing from", 400);
+	}
+
+	const stored = await receiveInboundEmail(email);
+
+	return { received: Boolean(stored), id: stored?.id ?? null };
+}
+
+// Survives hot reloads in development, which re-run instrumentation
+const globalForInbound = globalThis as unknown as {
+	inboundSmtpServer?: Promise<unknown>;
+};
+
+/**
+ * Start the local SMTP listener when INBOUND_SMTP_PORT is set
+ */
+export function startInboundSmtpListener(): void {
+	const domain = env.INBOUND_EMAIL_DOMAIN;
+
+	if (!domain || !env.INBOUND_SMTP_PORT || globalForInbound.inboundSmtpServer) {
+		return;
+	}
+
+	globalForInbound.inboundSmtpServer = startInboundSmtpServer({
+		host: env.INBOUND_SMTP_HOST,
+		port: Number(env.INBOUND_SMTP_PORT),
+		domain,
+		onMessage: async (raw, envelope) => {
+			const email = parseMimeEmail(raw);
+
+			await receiveInboundEmail({
+				...email,
+				// The envelope is what the sending server delivered to, e.g. for Bcc
+				to: [...envelope.to, ...email.to],
+				from: email.from.address ? email.from : { address: envelope.from },
+			});
+		},
+	}).then(
+		(server) => {
+			console.log(
+				`📬 Inbound SMTP listener on ${env.INBOUND_SMTP_HOST}:${server.port} for @${domain}`,
+			);
+			return server;
+		},
+		(error) => {
+			console.error("❌ Failed to start the inbound SMTP listener:", error);
+			globalForInbound.inboundSmtpServer = undefined;
+		},
+	);
+}
+
+export interface ListInboundEmailsOptions {
+	kind?: InboundEmailKind;
+	status?: InboundEmailStatus;
+	/**
+	 * Matches the sender address or name, or the subject
+	 */
+	search?: string;
+	page?: number;
+	pageSize?: number;
+}
+
+/**
+ * List inbound emails for the admin inbox, newest first
+ */
+export async function listInboundEmails({
+	kind,
+	status,
+	search,
+	page = 1,
+	pageSize = 25,
+}: ListInboundEmailsOptions = {}) {
+	const filters: SQL[] = [];
+
+	if (kind) {
+		filters.push(eq(schema.inboundEmail.kind, kind));
+	}
+
+	if (status) {
+		filters.push(
+			status === InboundEmailStatus.RESOLVED
+				? isNotNull(schema.inboundEmail.resolvedAt)
+				: isNull(schema.inboundEmail.resolvedAt),
+		);
+	}
+
+	if (search) {
+		const term = `%${search.trim()}%`;
+		const match = or(
+			ilike(schema.inboundEmail.fromAddress, term),
+			ilike(schema.inboundEmail.fromName, term),
+			ilike(schema.inboundEmail.subject, term),
+		);
+		if (match) {
+			filters.push(match);
+		}
+	}
+
+	const where = filters.length ? and(...filters) : undefined;
+
+	const [emails, [{ total }]] = await Promise.all([
+		db
+			.select({
+				email: schema.inboundEmail,
+				userName: schema.user.name,
+				organizationName: schema.organization.name,
+			})
+			.from(schema.inboundEmail)
+			.leftJoin(schema.user, eq(schema.user.id, schema.inboundEmail.userId))
+			.leftJoin(
+				schema.organization,
+				eq(schema.organization.id, schema.inboundEmail.organizationId),
+			)
+			.where(where)
+			.orderBy(desc(schema.inboundEmail.createdAt))
+			.limit(pageSize)
+			.offset((page - 1) * pageSize),
+		db.select({ total: count() }).from(schema.inboundEmail).where(where),
+	]);
+
+	return { emails, total };
+}
+
+/**
+ * Mark a support message as resolved, or open it again
+ */
+export async function setInboundEmailResolved(
+	id: string,
+	resolved: boolean,
+): Promise<boolean> {
+	const updated = await db
+		.update(schema.inboundEmail)
+		.set({ resolvedAt: resolved ? new Date() : null })
+		.where(eq(schema.inboundEmail.id, id))
+		.returning({ id: schema.inboundEmail.id });
+
+	return updated.length > 0;
+}
@@ -0,0 +1,198 @@
+import addressparser from "nodemailer/lib/addressparser";
+import { parseHeaderValue } from "nodemailer/lib/mime-funcs";
+import type { ParsedInboundEmail } from "./types";
+
+/**
+ * Minimal MIME Parser
+ *
+ * Reads what the inbound handler needs from a raw email (RFC 5322 / 2045):
+ * sender, recipients, subject and the text and HTML bodies. Attachments are
+ * skipped. Works on the raw bytes so 8-bit bodies decode with their charset.
+ */
+
+type MimePart = {
+	headers: Map<string, string>;
+	body: string; // Raw bytes as a latin1 string
+};
+
+function splitPart(raw: string): MimePart {
+	const match = /\r?\n\r?\n/.exec(raw);
+	const head = match ? raw.slice(0, match.index) : raw;
+	const body = match ? raw.slice(match.index + match[0].length) : "";
+
+	const headers = new Map<string, string>();
+	// Folded header lines continue with whitespace
+	for (const line of head.replace(/\r?\n[ \t]+/g, " ").split(/\r?\n/)) {
+		const colon = line.indexOf(":");
+		const name = line.slice(0, colon).trim().toLowerCase();
+
+		// Keep the first occurrence, e.g. the newest Received header
+		if (colon > 0 && !headers.has(name)) {
+			headers.set(name, line.slice(colon + 1).trim());
+		}
+	}
+
+	return { headers, body };
+}
+
+function decodeBytes(bytes: Buffer, charset = "utf-8"): string {
+	try {
+		return new TextDecoder(charset).decode(bytes);
+	} catch {
+		// Unknown charset
+		return bytes.toString("utf8");
+	}
+}
+
+function decodeQuotedPrintable(value: string): Buffer {
+	return Buffer.from(
+		value
+			.replace(/=\r?\n/g, "")
+			.replace(/=([0-9A-Fa-f]{2})/g, (_, hex: string) =>
+				String.fromCharCode(Number.parseInt(hex, 16)),
+			),
+		"latin1",
+	);
+}
+
+/**
+ * Decode RFC 2047 encoded words, e.g. =?UTF-8?B?SG9sYQ==?=
+ */
+function decodeHeader(value: string): string {
+	// Raw 8-bit headers are UTF-8 (RFC 6532)
+	const header = Buffer.from(value, "latin1").toString("utf8");
+
+	return header
+		.replace(/(\?=)\s+(=\?)/g, "$1$2")
+		.replace(
+			/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g,
+			(_, charset: string, encoding: string, text: string) =>
+				decodeBytes(
+					encoding.toUpperCase() === "B"
+						? Buffer.from(text, "base64")
+						: decodeQuotedPrintable(text.replace(/_/g, " ")),
+					charset.split("*")[0],
+				),
+		);
+}
+
+function decodeBody(part: MimePart, charset?: string): string {
+	const encoding = part.headers.get("content-transfer-encoding")?.toLowerCase();
+
+	const bytes =
+		encoding === "base64"
+			? Buffer.from(part.body.replace(/\s+/g, ""), "base64")
+			: encoding === "quoted-printable"
+				? decodeQuotedPrintable(part.body)
+				: Buffer.from(part.body, "latin1");
+
+	// Lines end with CRLF on the wire
+	return decodeBytes(bytes, charset).replace(/\r\n/g, "\n");
+}
+
+/**
+ * Collect the first text and HTML bodies, walking nested multiparts
+ */
+function collectBodies(
+	part: MimePart,
+	bodies: { text?: string; html?: string },
+): void {
+	const contentType = parseHeaderValue(
+		part.headers.get("content-type") ?? "text/plain",
+	);
+	const type = String(contentType.value).toLowerCase();
+
+	if (type.startsWith("multipart/")) {
+		const boundary = contentType.params.boundary;
+		if (!boundary) {
+			return;
+		}
+
+		const sections = part.body.split(`--${boundary}`);
+		// Skip the preamble and everything after the closing boundary
+		for (const section of sections.slice(1)) {
+			if (section.startsWith("--")) {
+				break;
+			}
+			collectBodies(splitPart(section.replace(/^\r?\n/, "")), bodies);
+		}
+		return;
+	}
+
+	if (part.headers.get("content-disposition")?.startsWith("attachment")) {
+		return;
+	}
+
+	if (type === "text/plain" && bodies.text === undefined) {
+		bodies.text = decodeBody(part, contentType.params.charset).trimEnd();
+	} else if (type === "text/html" && bodies.html === undefined) {
+		bodies.html = decodeBody(part, contentType.params.charset).trimEnd();
+	}
+}
+
+/**
+ * Plain text of an HTML body, for emails without a text part
+ */
+export function htmlToPlainText(html: string): string {
+	return html
+		.replace(/<(style|script|head)[^>]*>[\s\S]*?<\/\1>/gi, "")
+		.replace(/<br\s*\/?>/gi, "\n")
+		.replace(/<\/(p|div|li|tr|h[1-6]|blockquote)>/gi, "\n")
+		.replace(/<[^>]+>/g, "")
+		.replace(/&nbsp;/g, " ")
+		.replace(/&lt;/g, "<")
+		.replace(/&gt;/g, ">")
+		.replace(/&quot;/g, '"')
+		.replace(/&#39;/g, "'")
+		.replace(/&amp;/g, "&")
+		.replace(/\n{3,}/g, "\n\n")
+		.trim();
+}
+
+/**
+ * Whether the headers mark an auto-responder email (RFC 3834)
+ */
+export function isAutoReply(
+	header: (name: string) => string | undefined,
+): boolean {
+	const autoSubmitted = header("auto-submitted")?.toLowerCase();
+	const precedence = header("precedence")?.toLowerCase();
+
+	return (
+		(autoSubmitted !== undefined && autoSubmitted !== "no") ||
+		precedence === "bulk" ||
+		precedence === "auto_reply" ||
+		precedence === "junk"
+	);
+}
+
+/**
+ * Parse a raw email into the fields the inbound handler routes on
+ */
+export function parseMimeEmail(raw: Buffer): ParsedInboundEmail {
+	const root = splitPart(raw.toString("latin1"));
+	const header = (name: string) => {
+		const value = root.headers.get(name);
+		return value === undefined ? undefined : decodeHeader(value);
+	};
+
+	const [from] = addressparser(header("from") ?? "", { flatten: true });
+	const to = [header("to"), header("cc")]
+		.filter((value): value is string => Boolean(value))
+		.flatMap((value) => addressparser(value, { flatten: true }))
+		.map((address) => address.address)
+		.filter(Boolean);
+
+	const bodies: { text?: string; html?: string } = {};
+	collectBodies(root, bodies);
+
+	return {
+		messageId: header("message-id"),
+		from: { address: from?.address ?? "", name: from?.name || undefined },
+		to,
+		subject: header("subject") ?? "",
+		text: bodies.text,
+		html: bodies.html,
+		autoReply: isAutoReply(header),
+	};
+}
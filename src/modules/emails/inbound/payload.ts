@@ -0,0 +1,69 @@
+import addressparser from "nodemailer/lib/addressparser";
+import { z } from "zod";
+import { isAutoReply } from "./mime";
+import { InboundEmailError, type ParsedInboundEmail } from "./types";
+
+/**
+ * Generic JSON payload of a parsed inbound email
+ *
+ * Addresses may include a display name, e.g. "Jane <jane@example.com>".
+ */
+export const inboundEmailPayloadSchema = z.object({
+	messageId: z.string().optional(),
+	from: z.string().min(1, "from is required"),
+	to: z
+		.union([z.string(), z.array(z.string())])
+		.transform((to) => (Array.isArray(to) ? to : [to])),
+	subject: z.string().default(""),
+	text: z.string().optional(),
+	html: z.string().optional(),
+	headers: z.record(z.string()).optional(),
+});
+
+export type InboundEmailPayload = z.input<typeof inboundEmailPayloadSchema>;
+
+/**
+ * Validate a JSON payload and normalize it like a parsed MIME email
+ */
+export function parseInboundEmailPayload(payload: unknown): ParsedInboundEmail {
+	const result = inboundEmailPayloadSchema.safeParse(payload);
+
+	if (!result.success) {
+		throw new InboundEmailError(
+			`Invalid inbound email: ${result.error.issues.map((issue) => issue.message).join(", ")}`,
+			400,
+		);
+	}
+
+	const {
+		messageId,
+		from,
+		to,
+		subject,
+		text,
+		html,
+		headers = {},
+	} = result.data;
+	const [sender] = addressparser(from, { flatten: true });
+
+	if (!sender?.address) {
+		throw new InboundEmailError("Invalid inbound email: invalid from", 400);
+	}
+
+	const headerNames = new Map(
+		Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]),
+	);
+
+	return {
+		messageId,
+		from: { address: sender.address, name: sender.name || undefined },
+		to: to
+			.flatMap((value) => addressparser(value, { flatten: true }))
+			.map((address) => address.address)
+			.filter(Boolean),
+		subject,
+		text,
+		html,
+		autoReply: isAutoReply((name) => headerNames.get(name)),
+	};
+}
@@ -0,0 +1,28 @@
+import { env } from "@/lib/env";
+import { getInboundAddress } from "./addresses";
+import { InboundEmailKind } from "./types";
+
+/**
+ * Reply-To addresses of outgoing emails, undefined when inbound email is
+ * not configured so replies go to the sender address as before
+ */
+
+export function getInvitationReplyAddress(
+	invitationId: string,
+): string | undefined {
+	return env.INBOUND_EMAIL_DOMAIN
+		? getInboundAddress(env.INBOUND_EMAIL_DOMAIN, {
+				kind: InboundEmailKind.INVITATION_REPLY,
+				invitationId,
+			})
+		: undefined;
+}
+
+export function getSupportAddress(organizationId?: string): string | undefined {
+	return env.INBOUND_EMAIL_DOMAIN
+		? getInboundAddress(env.INBOUND_EMAIL_DOMAIN, {
+				kind: InboundEmailKind.SUPPORT,
+				organizationId,
+			})
+		: undefined;
+}
@@ -0,0 +1,239 @@
+import type { AddressInfo } from "node:net";
+import { createServer, type Socket } from "node:net";
+
+export interface InboundSmtpEnvelope {
+	from: string;
+	/**
+	 * Accepted recipients, all at the inbound domain
+	 */
+	to: string[];
+}
+
+export interface InboundSmtpServerOptions {
+	host: string;
+	port: number;
+	/**
+	 * Only recipients at this domain are accepted, the listener never relays
+	 */
+	domain: string;
+	maxMessageBytes?: number;
+	onMessage: (raw: Buffer, envelope: InboundSmtpEnvelope) => Promise<void>;
+}
+
+export interface InboundSmtpServer {
+	port: number;
+	close(): Promise<void>;
+}
+
+const DEFAULT_MAX_MESSAGE_BYTES = 10 * 1024 * 1024;
+const MAX_RECIPIENTS = 50;
+// RFC 5321 4.5.3.1, line lengths include the CRLF
+const MAX_COMMAND_LINE_BYTES = 512;
+const MAX_TEXT_LINE_BYTES = 1000;
+
+const addressOf = (argument: string) =>
+	argument.match(/<([^>]*)>/)?.[1] ?? argument.split(":")[1]?.trim() ?? "";
+
+/**
+ * Local Inbound SMTP Listener
+ *
+ * A minimal SMTP server (RFC 5321) for receiving replies without an inbound
+ * email provider, e.g. behind the MX server of the reply domain. It has no
+ * TLS or authentication: listen on localhost or a private network only.
+ */
+export async function startInboundSmtpServer({
+	host,
+	port,
+	domain,
+	maxMessageBytes = DEFAULT_MAX_MESSAGE_BYTES,
+	onMessage,
+}: InboundSmtpServerOptions): Promise<InboundSmtpServer> {
+	const sockets = new Set<Socket>();
+
+	const server = createServer((socket) => {
+		sockets.add(socket);
+		socket.on("close", () => sockets.delete(socket));
+		socket.on("error", () => socket.destroy());
+
+		// Bytes are kept as latin1 strings so the MIME parser sees them unchanged
+		let buffer = "";
+		let envelope: InboundSmtpEnvelope | null = null;
+		let data: string[] | null = null;
+		let dataBytes = 0;
+		let pendingBytes = 0;
+		let closed = false;
+		let processing = Promise.resolve();
+
+		const reply = (line: string) => {
+			if (!socket.destroyed) {
+				socket.write(`${line}\r\n`);
+			}
+		};
+
+		// Reply, then hang up and ignore whatever the client still sends
+		const close = (line: string) => {
+			if (closed) {
+				return;
+			}
+			closed = true;
+			buffer = "";
+			reply(line);
+			socket.end(() => socket.destroy());
+		};
+
+		const finishData = async (lines: string[]) => {
+			const current = envelope;
+			envelope = null;
+
+			if (!current || dataBytes > maxMessageBytes) {
+				reply("552 5.3.4 Message too big");
+				return;
+			}
+
+			try {
+				await onMessage(
+					Buffer.from(`${lines.join("\r\n")}\r\n`, "latin1"),
+					current,
+				);
+				reply("250 2.0.0 OK");
+			} catch (error) {
+				console.error("❌ Failed to process inbound email:", error);
+				reply("451 4.3.0 Message could not be processed, try again later");
+			}
+		};
+
+		const handleLine = async (line: string) => {
+			if (closed) {
+				return;
+			}
+
+			if (data) {
+				if (line === ".") {
+					const lines = data;
+					data = null;
+					await finishData(lines);
+				} else if (line.length + 2 > MAX_TEXT_LINE_BYTES) {
+					close("500 5.5.6 Line too long");
+				} else {
+					dataBytes += line.length + 2;
+					if (dataBytes > maxMessageBytes) {
+						close("552 5.3.4 Message too big");
+						return;
+					}
+					// Undo dot-stuffing
+					data.push(line.startsWith(".") ? line.slice(1) : line);
+				}
+				return;
+			}
+
+			if (line.length + 2 > MAX_COMMAND_LINE_BYTES) {
+				close("500 5.5.2 Line too long");
+				return;
+			}
+
+			const [command, ...rest] = line.split(" ");
+			const argument = rest.join(" ");
+
+			switch (command.toUpperCase()) {
+				case "EHLO":
+					reply(`250-${domain}`);
+					reply(`250-SIZE ${maxMessageBytes}`);
+					reply("250 8BITMIME");
+					break;
+				case "HELO":
+					reply(`250 ${domain}`);
+					break;
+				case "MAIL":
+					envelope = { from: addressOf(argument), to: [] };
+					reply("250 2.1.0 OK");
+					break;
+				case "RCPT": {
+					const recipient = addressOf(argument);
+					if (!envelope) {
+						reply("503 5.5.1 MAIL first");
+					} else if (
+						!recipient.toLowerCase().endsWith(`@${domain.toLowerCase()}`)
+					) {
+						reply("550 5.7.1 Relaying denied");
+					} else if (envelope.to.length >= MAX_RECIPIENTS) {
+						reply("452 4.5.3 Too many recipients");
+					} else {
+						envelope.to.push(recipient);
+						reply("250 2.1.5 OK");
+					}
+					break;
+				}
+				case "DATA":
+					if (!envelope?.to.length) {
+						reply("503 5.5.1 RCPT first");
+					} else {
+						data = [];
+						dataBytes = 0;
+						reply("354 End data with <CR><LF>.<CR><LF>");
+					}
+					break;
+				case "RSET":
+					envelope = null;
+					reply("250 2.0.0 OK");
+					break;
+				case "NOOP":
+					reply("250 2.0.0 OK");
+					break;
+				case "QUIT":
+					reply("221 2.0.0 Bye");
+					socket.end();
+					break;
+				default:
+					reply("502 5.5.2 Command not implemented");
+			}
+		};
+
+		socket.on("data", (chunk) => {
+			if (closed) {
+				return;
+			}
+			buffer += chunk.toString("latin1");
+
+			let index = buffer.indexOf("\r\n");
+			while (index !== -1) {
+				const line = buffer.slice(0, index);
+				buffer = buffer.slice(index + 2);
+				pendingBytes += line.length + 2;
+				// Keep replies in order while a message is being processed
+				processing = processing.then(async () => {
+					await handleLine(line);
+					pendingBytes -= line.length + 2;
+				});
+				index = buffer.indexOf("\r\n");
+			}
+
+			// Whether commands or message text, no line may grow past the text
+			// limit, nor lines queued behind a message being processed past
+			// the message limit
+			if (buffer.length + 2 > MAX_TEXT_LINE_BYTES) {
+				close("500 5.5.6 Line too long");
+			} else if (pendingBytes > maxMessageBytes + MAX_TEXT_LINE_BYTES) {
+				close("552 5.3.4 Message too big");
+			}
+		});
+
+		reply(`220 ${domain} ESMTP`);
+	});
+
+	await new Promise<void>((resolve, reject) => {
+		server.once("error", reject);
+		server.listen(port, host, resolve);
+	});
+
+	return {
+		port: (server.address() as AddressInfo).port,
+		close: () => {
+			for (const socket of sockets) {
+				socket.destroy();
+			}
+			return new Promise<void>((resolve, reject) =>
+				server.close((error) => (error ? reject(error) : resolve())),
+			);
+		},
+	};
+}
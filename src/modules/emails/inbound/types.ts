@@ -0,0 +1,46 @@
+/**
+ * What an inbound email is about, decided by the address it was sent to
+ */
+export enum InboundEmailKind {
+	INVITATION_REPLY = "invitation_reply",
+	SUPPORT = "support",
+}
+
+export enum InboundEmailStatus {
+	OPEN = "open",
+	RESOLVED = "resolved",
+}
+
+/**
+ * Inbound email normalized from a JSON payload or a raw MIME message
+ */
+export interface ParsedInboundEmail {
+	messageId?: string;
+	from: { address: string; name?: string };
+	/**
+	 * Recipients, the first one at INBOUND_EMAIL_DOMAIN decides the routing
+	 */
+	to: string[];
+	subject: string;
+	text?: string;
+	html?: string;
+	/**
+	 * Sent by an auto-responder (out of office, bounce), never forwarded
+	 */
+	autoReply?: boolean;
+}
+
+/**
+ * Error thrown when an inbound email request can't be trusted or understood
+ *
+ * `status` is the HTTP status the route answers with.
+ */
+export class InboundEmailError extends Error {
+	readonly status: number;
+
+	constructor(message: string, status: number) {
+		super(message);
+		this.name = "InboundEmailError";
+		this.status = status;
+	}
+}
@@ -0,0 +1,41 @@
+import { env } from "@/lib/env";
+import { FileEmailInbox, MemoryEmailInbox } from "./stores";
+import type { EmailInboxStore } from "./types";
+
+/**
+ * Local Email Inbox
+ *
+ * Emails sent with EMAIL_PROVIDER=inbox are captured here instead of being
+ * delivered, so developers and E2E tests can read them without a mail server:
+ * - In memory by default, lost when the server restarts
+ * - As JSON files in EMAIL_INBOX_DIR, shared between processes
+ * - Browsable at /dev/inbox and readable through /api/dev/inbox outside production
+ */
+
+/**
+ * Whether the inbox can be read through /dev/inbox and /api/dev/inbox
+ */
+export function isEmailInboxEnabled(): boolean {
+	return env.NODE_ENV !== "production";
+}
+
+// Route handlers and pages are bundled separately in development, keep a
+// single in-memory inbox per process
+const globalForInbox = globalThis as unknown as {
+	emailInbox?: EmailInboxStore;
+};
+
+/**
+ * Get the inbox emails are captured in
+ */
+export function getEmailInbox(): EmailInboxStore {
+	if (!globalForInbox.emailInbox) {
+		globalForInbox.emailInbox = env.EMAIL_INBOX_DIR
+			? new FileEmailInbox(env.EMAIL_INBOX_DIR)
+			: new MemoryEmailInbox();
+	}
+	return globalForInbox.emailInbox;
+}
+
+export { FileEmailInbox, MemoryEmailInbox } from "./stores";
+export type { EmailInboxStore, InboxFilter, InboxMessage } from "./types";
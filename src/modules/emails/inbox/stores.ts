@@ -0,0 +1,78 @@
+import { mkdir, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { EmailInboxStore, InboxFilter, InboxMessage } from "./types";
+
+const matches = (message: InboxMessage, { to }: InboxFilter) =>
+	!to || message.to.toLowerCase() === to.toLowerCase();
+
+const newestFirst = (a: InboxMessage, b: InboxMessage) =>
+	b.createdAt.localeCompare(a.createdAt);
+
+/**
+ * Keeps captured emails in the memory of the server process
+ */
+export class MemoryEmailInbox implements EmailInboxStore {
+	private messages: InboxMessage[] = [];
+
+	async add(message: InboxMessage): Promise<void> {
+		this.messages.push(message);
+	}
+
+	async list(filter: InboxFilter = {}): Promise<InboxMessage[]> {
+		return this.messages
+			.filter((message) => matches(message, filter))
+			.sort(newestFirst);
+	}
+
+	async get(id: string): Promise<InboxMessage | null> {
+		return this.messages.find((message) => message.id === id) ?? null;
+	}
+
+	async clear(): Promise<void> {
+		this.messages = [];
+	}
+}
+
+/**
+ * Stores each captured email as a JSON file in a directory
+ */
+export class FileEmailInbox implements EmailInboxStore {
+	constructor(private readonly directory: string) {}
+
+	private filePath(id: string) {
+		// Ids are generated by the provider, never trust them as paths
+		return path.join(this.directory, `${path.basename(id)}.json`);
+	}
+
+	async add(message: InboxMessage): Promise<void> {
+		await mkdir(this.directory, { recursive: true });
+		await writeFile(this.filePath(message.id), JSON.stringify(message));
+	}
+
+	async list(filter: InboxFilter = {}): Promise<InboxMessage[]> {
+		const files = await readdir(this.directory).catch(() => []);
+		const messages = await Promise.all(
+			files
+				.filter((file) => file.endsWith(".json"))
+				.map(async (file) =>
+					JSON.parse(await readFile(path.join(this.directory, file), "utf8")),
+				),
+		);
+
+		return (messages as InboxMessage[])
+			.filter((message) => matches(message, filter))
+			.sort(newestFirst);
+	}
+
+	async get(id: string): Promise<InboxMessage | null> {
+		try {
+			return JSON.parse(await readFile(this.filePath(id), "utf8"));
+		} catch {
+			return null;
+		}
+	}
+
+	async clear(): Promise<void> {
+		await rm(this.directory, { recursive: true, force: true });
+	}
+}
@@ -0,0 +1,37 @@
+/**
+ * Email captured by the inbox provider instead of being delivered
+ */
+export interface InboxMessage {
+	id: string;
+	to: string;
+	cc?: string[];
+	bcc?: string[];
+	replyTo?: string;
+	from?: string;
+	fromName?: string;
+	subject: string;
+	html: string;
+	text?: string;
+	headers?: Record<string, string>;
+	/**
+	 * ISO date the email was captured at
+	 */
+	createdAt: string;
+}
+
+export interface InboxFilter {
+	/**
+	 * Only return emails sent to this address (case insensitive)
+	 */
+	to?: string;
+}
+
+/**
+ * Storage of captured emails, newest first
+ */
+export interface EmailInboxStore {
+	add(message: InboxMessage): Promise<void>;
+	list(filter?: InboxFilter): Promise<InboxMessage[]>;
+	get(id: string): Promise<InboxMessage | null>;
+	clear(): Promise<void>;
+}
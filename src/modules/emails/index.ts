@@ -2,25 +2,162 @@
  * Email Module
  *
  * A well-organized email system with separated concerns:
- * - Providers: Handle email delivery (Console, SMTP, etc.)
+ * - Providers: Handle email delivery (Console, Inbox, SMTP, Resend, Postmark, SES, SendGrid)
+ * - Registry: Template component, messages, category and subject of each email type
  * - Services: Handle specific email types (verification, welcome, etc.)
+ * - Outbox: Persists every email and retries failed deliveries
+ * - Scheduler: Trial, renewal, failed payment and invitation reminders and weekly digests
+ * - Messages: Delivery log with masked recipients, provider and status
+ * - Webhooks: Provider delivery, bounce and complaint notifications
+ * - Inbound: Invitation replies forwarded to the inviter and a support inbox
+ * - Suppression: Addresses that hard bounced or complained are never emailed
+ * - Preferences: Per-category opt-outs with signed one-click unsubscribe links
+ * - Branding: Per-organization logo, color, sender name and footer
  * - Config: Centralized email configuration
  * - Utils: Utility functions for email operations
  * - Templates: React Email templates (in templates/ directory)
  */
 
+// Export organization email branding
+export {
+	createEmailBrandingSchema,
+	type EmailBranding,
+	type EmailBrandingInput,
+	getEmailBranding,
+	getEmailBrandingSettings,
+	updateEmailBranding,
+} from "./branding";
 export type { EmailTemplateType } from "./config";
 // Export configuration
-export { EMAIL_CONFIG } from "./config";
+export {
+	createTailwindConfig,
+	EMAIL_CONFIG,
+	EMAIL_PRIMARY_COLOR,
+	EmailSender,
+} from "./config";
+// Export inbound email
+export {
+	getInboundAddress,
+	getInvitationReplyAddress,
+	getSupportAddress,
+	handleInboundEmailRequest,
+	InboundEmailError,
+	InboundEmailKind,
+	type InboundEmailPayload,
+	InboundEmailStatus,
+	type InboundRoute,
+	isInboundEmailEnabled,
+	type ListInboundEmailsOptions,
+	listInboundEmails,
+	type ParsedInboundEmail,
+	parseInboundAddress,
+	parseInboundEmailPayload,
+	parseMimeEmail,
+	receiveInboundEmail,
+	setInboundEmailResolved,
+	startInboundSmtpListener,
+} from "./inbound";
+// Export the local inbox
+export {
+	type EmailInboxStore,
+	FileEmailInbox,
+	getEmailInbox,
+	type InboxFilter,
+	type InboxMessage,
+	isEmailInboxEnabled,
+	MemoryEmailInbox,
+} from "./inbox";
+// Export delivery log
+export {
+	type EmailMessageMetadata,
+	EmailMessageStatus,
+	type ListEmailMessagesOptions,
+	listEmailMessages,
+} from "./messages";
+// Export outbox (durable delivery with retries)
+export {
+	deliverOutboxEmail,
+	EmailOutboxStatus,
+	enqueueEmail,
+	processEmailOutbox,
+	requeueDeadEmail,
+} from "./outbox";
+// Export email preferences
+export {
+	checkEmailPreference,
+	createUnsubscribeToken,
+	EMAIL_PREFERENCE_CATEGORIES,
+	EmailCategory,
+	type EmailPreferenceCategory,
+	type EmailPreferenceCheck,
+	type EmailPreferences,
+	getEmailPreferences,
+	getUnsubscribeOptions,
+	setEmailPreference,
+	unsubscribeWithToken,
+	verifyUnsubscribeToken,
+} from "./preferences";
+// Export template previews
+export {
+	EMAIL_PREVIEW_TEMPLATES,
+	type EmailPreviewResult,
+	type EmailPreviewTemplate,
+	renderEmailPreview,
+	sendEmailPreview,
+} from "./preview";
 // Export provider types
-export type { EmailProvider, SendEmailOptions } from "./providers";
+export type {
+	CompositeProviderEntry,
+	EmailAttachment,
+	EmailDeliveryOptions,
+	EmailProvider,
+	EmailProviderName,
+	ProviderHealth,
+	SendEmailOptions,
+	SendEmailResult,
+	SmtpConfig,
+} from "./providers";
 // Export email providers for advanced usage
 export {
+	CompositeEmailProvider,
 	ConsoleEmailProvider,
 	createEmailProvider,
+	EmailProviderError,
 	getEmailProvider,
+	getSenderAddress,
+	InboxEmailProvider,
+	PostmarkEmailProvider,
+	ResendEmailProvider,
+	SendgridEmailProvider,
+	SesEmailProvider,
 	SmtpEmailProvider,
+	SuppressionListEmailProvider,
+	verifyEmailProvider,
 } from "./providers";
+// Export the template registry
+export {
+	type EmailTemplateContext,
+	type EmailTemplateDefinition,
+	type EmailTemplateVariables,
+	emailTemplates,
+	type RenderedTemplatedEmail,
+	renderTemplatedEmail,
+	type SendTemplatedEmailOptions,
+	sendTemplatedEmail,
+} from "./registry";
+// Export scheduled emails
+export {
+	getIsoWeek,
+	getScheduledEmailKey,
+	processScheduledEmails,
+	type ScheduledEmailsResult,
+	sendEmailOnce,
+	sendInvitationExpiringReminders,
+	sendPaymentFailedReminders,
+	sendRenewalReminders,
+	sendTrialEndingReminders,
+	sendWeeklyDigests,
+} from "./scheduler";
 // Export service types
 export type {
 	SendInvitationEmailOptions,
@@ -39,17 +176,45 @@ export {
 	sendVerificationEmail,
 	sendWelcomeEmail,
 } from "./services";
+// Export suppression list
+export {
+	EmailSuppressionReason,
+	getSuppressedEmails,
+	suppressEmail,
+	unsuppressEmail,
+} from "./suppression";
 // Re-export templates for direct access if needed
 export { default as EmailVerificationTemplate } from "./templates/email-verification";
 export { default as InvitationEmailTemplate } from "./templates/invitation";
+export { default as InvitationExpiringEmailTemplate } from "./templates/invitation-expiring";
+export { default as InvitationReplyEmailTemplate } from "./templates/invitation-reply";
+export { default as PasswordResetEmailTemplate } from "./templates/password-reset";
+export { default as RenewalReminderEmailTemplate } from "./templates/renewal-reminder";
 export { default as SubscriptionCancellationEmailTemplate } from "./templates/subscription-cancellation";
 export { default as SubscriptionUpgradeEmailTemplate } from "./templates/subscription-upgrade";
+export { default as TrialEndingEmailTemplate } from "./templates/trial-ending";
+export { default as WeeklyDigestEmailTemplate } from "./templates/weekly-digest";
 export { default as WelcomeEmailTemplate } from "./templates/welcome";
 // Export utilities
 export {
+	formatEmailAddress,
 	getEmailDomain,
 	isValidEmail,
 	maskEmail,
+	type RenderedEmail,
+	renderEmail,
 	renderEmailTemplate,
 	sendTestEmail,
 } from "./utils";
+// Export provider webhooks
+export {
+	applyEmailWebhookEvents,
+	EmailWebhookError,
+	type EmailWebhookEvent,
+	EmailWebhookEventType,
+	handleEmailWebhook,
+	parsePostmarkWebhook,
+	parseResendWebhook,
+	parseSendgridWebhook,
+	parseSesWebhook,
+} from "./webhooks";
@@ -0,0 +1,187 @@
+import { and, count, desc, eq, ilike, notInArray, type SQL } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { db } from "@/lib/db";
+import type { EmailMessage, EmailOutbox } from "@/lib/db/schema";
+import * as schema from "@/lib/db/schema";
+import type { EmailTemplateType } from "../config";
+import type { SendEmailResult } from "../providers";
+import { isValidEmail, maskEmail } from "../utils/address";
+import { type EmailMessageMetadata, EmailMessageStatus } from "./types";
+
+export { type EmailMessageMetadata, EmailMessageStatus } from "./types";
+
+/**
+ * Email Delivery Log
+ *
+ * Keeps a record of every email sent by the app so support can check
+ * whether (and through which provider) a given email went out:
+ * - Recipients are stored masked, the full address only lives in the outbox
+ * - The status follows the outbox delivery state of the email
+ */
+
+export interface ListEmailMessagesOptions {
+	status?: EmailMessageStatus;
+	template?: EmailTemplateType;
+	/**
+	 * Recipient email address or part of the subject
+	 */
+	search?: string;
+	page?: number;
+	pageSize?: number;
+}
+
+/**
+ * Record a newly queued email
+ */
+export async function logQueuedEmail(
+	entry: EmailOutbox,
+	{ template, locale }: EmailMessageMetadata,
+): Promise<EmailMessage> {
+	const [message] = await db
+		.insert(schema.emailMessage)
+		.values({
+			id: nanoid(),
+			outboxId: entry.id,
+			recipient: maskEmail(entry.to.toLowerCase()),
+			template,
+			locale,
+			subject: entry.subject,
+			status: EmailMessageStatus.QUEUED,
+		})
+		.returning();
+
+	return message;
+}
+
+/**
+ * Record a successful delivery with the provider that accepted the email
+ */
+export async function logSentEmail(
+	outboxId: string,
+	{ provider, messageId }: SendEmailResult,
+): Promise<void> {
+	await db
+		.update(schema.emailMessage)
+		.set({
+			status: EmailMessageStatus.SENT,
+			provider,
+			providerMessageId: messageId,
+			error: null,
+			sentAt: new Date(),
+			updatedAt: new Date(),
+		})
+		.where(eq(schema.emailMessage.outboxId, outboxId));
+}
+
+/**
+ * Record a failed delivery attempt, `isDead` once no retry is left
+ */
+export async function logFailedEmail(
+	outboxId: string,
+	{ error, isDead }: { error: string; isDead: boolean },
+): Promise<void> {
+	await db
+		.update(schema.emailMessage)
+		.set({
+			status: isDead ? EmailMessageStatus.DEAD : EmailMessageStatus.FAILED,
+			error,
+			updatedAt: new Date(),
+		})
+		.where(eq(schema.emailMessage.outboxId, outboxId));
+}
+
+/**
+ * Record that a dead-lettered email was queued again
+ */
+export async function logRequeuedEmail(outboxId: string): Promise<void> {
+	await db
+		.update(schema.emailMessage)
+		.set({ status: EmailMessageStatus.QUEUED, updatedAt: new Date() })
+		.where(eq(schema.emailMessage.outboxId, outboxId));
+}
+
+/**
+ * Record a delivery, bounce or complaint reported by the provider
+ *
+ * A late "delivered" event never hides an earlier bounce or complaint.
+ */
+export async function logProviderEvent(
+	providerMessageId: string,
+	{
+		status,
+		details,
+	}: {
+		status:
+			| EmailMessageStatus.DELIVERED
+			| EmailMessageStatus.BOUNCED
+			| EmailMessageStatus.COMPLAINED;
+		details?: string;
+	},
+): Promise<void> {
+	await db
+		.update(schema.emailMessage)
+		.set({
+			status,
+			...(details && { error: details }),
+			updatedAt: new Date(),
+		})
+		.where(
+			and(
+				eq(schema.emailMessage.providerMessageId, providerMessageId),
+				status === EmailMessageStatus.DELIVERED
+					? notInArray(schema.emailMessage.status, [
+							EmailMessageStatus.BOUNCED,
+							EmailMessageStatus.COMPLAINED,
+						])
+					: undefined,
+			),
+		);
+}
+
+/**
+ * List logged emails, newest first
+ *
+ * Searching by email address matches its masked form, any other
+ * search term matches the subject.
+ */
+export async function listEmailMessages({
+	status,
+	template,
+	search,
+	page = 1,
+	pageSize = 25,
+}: ListEmailMessagesOptions = {}) {
+	const filters: SQL[] = [];
+
+	if (status) {
+		filters.push(eq(schema.emailMessage.status, status));
+	}
+
+	if (template) {
+		filters.push(eq(schema.emailMessage.template, template));
+	}
+
+	if (search) {
+		const term = search.trim();
+		filters.push(
+			isValidEmail(term)
+				? eq(schema.emailMessage.recipient, maskEmail(term.toLowerCase()))
+				: ilike(schema.emailMessage.subject, `%${term}%`),
+		);
+	}
+
+	const where = filters.length ? and(...filters) : undefined;
+
+	const [messages, [{ total }]] = await Promise.all([
+		db
+			.select()
+			.from(schema.emailMessage)
+			.where(where)
+			.orderBy(desc(schema.emailMessage.createdAt))
+			.limit(pageSize)
+			.offset((page - 1) * pageSize),
+		db.select({ total: count() }).from(schema.emailMessage).where(where),
+	]);
+
+	return { messages, total };
+}
@@ -0,0 +1,23 @@
+import type { EmailTemplateType } from "../config";
+
+/**
+ * Delivery status of a logged email, mirrors the outbox state
+ */
+export enum EmailMessageStatus {
+	QUEUED = "queued",
+	SENT = "sent",
+	FAILED = "failed",
+	DEAD = "dead",
+	// Reported back by the provider through webhooks
+	DELIVERED = "delivered",
+	BOUNCED = "bounced",
+	COMPLAINED = "complained",
+}
+
+/**
+ * Details about an email that the rendered message doesn't carry
+ */
+export interface EmailMessageMetadata {
+	template?: EmailTemplateType;
+	locale?: string;
+}
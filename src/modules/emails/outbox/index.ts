@@ -0,0 +1,258 @@
+import { and, asc, eq, lt, lte, or } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { db } from "@/lib/db";
+import type { EmailOutbox } from "@/lib/db/schema";
+import * as schema from "@/lib/db/schema";
+import { EMAIL_CONFIG } from "../config";
+import {
+	type EmailMessageMetadata,
+	logFailedEmail,
+	logQueuedEmail,
+	logRequeuedEmail,
+	logSentEmail,
+} from "../messages";
+import {
+	EmailProviderError,
+	getEmailProvider,
+	type SendEmailOptions,
+} from "../providers";
+
+/**
+ * Email Outbox
+ *
+ * Every rendered email is persisted before delivery so a failed send is never lost:
+ * - The first delivery attempt happens right away, inside the request that enqueued it
+ * - Failed attempts are retried by the worker with exponential backoff
+ * - After `EMAIL_CONFIG.settings.maxRetries` retries, or right away when the provider
+ *   rejects the email itself, it is dead-lettered and keeps the last error for inspection
+ */
+export enum EmailOutboxStatus {
+	PENDING = "pending",
+	SENDING = "sending",
+	SENT = "sent",
+	DEAD = "dead",
+}
+
+// Emails stuck in "sending" longer than this are assumed to belong to a crashed worker
+const STALE_SENDING_MS = 5 * 60 * 1000;
+
+// Maximum number of emails processed per worker run
+const DEFAULT_BATCH_SIZE = 25;
+
+/**
+ * Condition matching emails the worker may deliver now:
+ * pending with an elapsed backoff, or stuck in sending
+ */
+function isDue(now: Date) {
+	return or(
+		and(
+			eq(schema.emailOutbox.status, EmailOutboxStatus.PENDING),
+			lte(schema.emailOutbox.nextAttemptAt, now),
+		),
+		and(
+			eq(schema.emailOutbox.status, EmailOutboxStatus.SENDING),
+			lt(
+				schema.emailOutbox.updatedAt,
+				new Date(now.getTime() - STALE_SENDING_MS),
+			),
+		),
+	);
+}
+
+/**
+ * Get the delay before the next attempt
+ *
+ * Doubles `EMAIL_CONFIG.settings.retryDelay` for every failed attempt:
+ * 1s, 2s, 4s, ... with the default configuration
+ */
+export function getRetryDelay(attempts: number): number {
+	return EMAIL_CONFIG.settings.retryDelay * 2 ** Math.max(attempts - 1, 0);
+}
+
+/**
+ * Persist an email in the outbox and try to deliver it immediately
+ *
+ * Delivery errors are not thrown: the email stays in the outbox and
+ * the worker keeps retrying it until it is sent or dead-lettered.
+ * The metadata (template type, locale) is kept in the delivery log.
+ */
+export async function enqueueEmail(
+	options: SendEmailOptions,
+	metadata: EmailMessageMetadata = {},
+): Promise<EmailOutbox> {
+	const { to, subject, html, text, ...deliveryOptions } = options;
+
+	const [entry] = await db
+		.insert(schema.emailOutbox)
+		.values({
+			id: nanoid(),
+			to,
+			subject,
+			html,
+			text,
+			options: deliveryOptions,
+			status: EmailOutboxStatus.PENDING,
+			nextAttemptAt: new Date(),
+		})
+		.returning();
+
+	await logQueuedEmail(entry, metadata);
+
+	return deliverOutboxEmail(entry);
+}
+
+/**
+ * Deliver a single outbox entry
+ *
+ * The entry is claimed first so concurrent workers never send it twice,
+ * and only if it is due (fresh entries are due immediately).
+ * Returns the entry with its updated delivery state.
+ */
+export async function deliverOutboxEmail(
+	entry: EmailOutbox,
+): Promise<EmailOutbox> {
+	const [claimed] = await db
+		.update(schema.emailOutbox)
+		.set({ status: EmailOutboxStatus.SENDING, updatedAt: new Date() })
+		.where(
+			and(
+				eq(schema.emailOutbox.id, entry.id),
+				eq(schema.emailOutbox.attempts, entry.attempts),
+				isDue(new Date()),
+			),
+		)
+		.returning();
+
+	// Another worker already picked it up
+	if (!claimed) {
+		return entry;
+	}
+
+	const attempts = claimed.attempts + 1;
+
+	try {
+		const result = await getEmailProvider().sendEmail({
+			...claimed.options,
+			to: claimed.to,
+			subject: claimed.subject,
+			html: claimed.html,
+			text: claimed.text ?? undefined,
+		});
+
+		const [sent] = await db
+			.update(schema.emailOutbox)
+			.set({
+				status: EmailOutboxStatus.SENT,
+				attempts,
+				lastError: null,
+				sentAt: new Date(),
+				updatedAt: new Date(),
+			})
+			.where(eq(schema.emailOutbox.id, claimed.id))
+			.returning();
+
+		await logSentEmail(claimed.id, result);
+
+		return sent;
+	} catch (error) {
+		const lastError = error instanceof Error ? error.message : String(error);
+		// Errors caused by the email itself (or a suppressed recipient) won't go away on retry
+		const isRetryable =
+			!(error instanceof EmailProviderError) || error.retryable;
+		const isDead = !isRetryable || attempts > EMAIL_CONFIG.settings.maxRetries;
+
+		const [failed] = await db
+			.update(schema.emailOutbox)
+			.set({
+				status: isDead ? EmailOutboxStatus.DEAD : EmailOutboxStatus.PENDING,
+				attempts,
+				lastError,
+				nextAttemptAt: new Date(Date.now() + getRetryDelay(attempts)),
+				updatedAt: new Date(),
+			})
+			.where(eq(schema.emailOutbox.id, claimed.id))
+			.returning();
+
+		await logFailedEmail(claimed.id, { error: lastError, isDead });
+
+		if (isDead) {
+			console.error(
+				`❌ Email ${claimed.id} dead-lettered after ${attempts} attempts:`,
+				lastError,
+			);
+		} else {
+			console.warn(
+				`⚠️  Email ${claimed.id} failed (attempt ${attempts}), retrying later:`,
+				lastError,
+			);
+		}
+
+		return failed;
+	}
+}
+
+/**
+ * Outbox worker
+ *
+ * Delivers every due email and reports how many were sent, rescheduled or dead-lettered.
+ */
+export async function processEmailOutbox({
+	limit = DEFAULT_BATCH_SIZE,
+}: {
+	limit?: number;
+} = {}) {
+	const dueEmails = await db
+		.select()
+		.from(schema.emailOutbox)
+		.where(isDue(new Date()))
+		.orderBy(asc(schema.emailOutbox.nextAttemptAt))
+		.limit(limit);
+
+	const result = { processed: dueEmails.length, sent: 0, retrying: 0, dead: 0 };
+
+	// Deliver sequentially to avoid flooding the provider
+	for (const email of dueEmails) {
+		const { status } = await deliverOutboxEmail(email);
+
+		if (status === EmailOutboxStatus.SENT) {
+			result.sent++;
+		} else if (status === EmailOutboxStatus.DEAD) {
+			result.dead++;
+		} else {
+			result.retrying++;
+		}
+	}
+
+	return result;
+}
+
+/**
+ * Move a dead-lettered email back to the queue
+ *
+ * Resets the attempt counter so it gets a full new round of retries.
+ */
+export async function requeueDeadEmail(id: string): Promise<EmailOutbox> {
+	const [entry] = await db
+		.update(schema.emailOutbox)
+		.set({
+			status: EmailOutboxStatus.PENDING,
+			attempts: 0,
+			nextAttemptAt: new Date(),
+			updatedAt: new Date(),
+		})
+		.where(
+			and(
+				eq(schema.emailOutbox.id, id),
+				eq(schema.emailOutbox.status, EmailOutboxStatus.DEAD),
+			),
+		)
+		.returning();
+
+	if (!entry) {
+		throw new Error(`Dead-lettered email ${id} not found`);
+	}
+
+	await logRequeuedEmail(id);
+
+	return entry;
+}
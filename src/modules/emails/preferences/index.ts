@@ -0,0 +1,173 @@
+import { and, eq } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { db } from "@/lib/db";
+import * as schema from "@/lib/db/schema";
+import { env } from "@/lib/env";
+import { createUnsubscribeToken, verifyUnsubscribeToken } from "./tokens";
+import {
+	EMAIL_PREFERENCE_CATEGORIES,
+	EmailCategory,
+	type EmailPreferenceCategory,
+	type EmailPreferences,
+} from "./types";
+
+/**
+ * Email Preferences
+ *
+ * Users can turn off every non-transactional category of email:
+ * - Preferences are stored per user, a missing row means subscribed unless
+ *   the user turned off the legacy `emailNotifications` preference
+ * - Services check the recipient's preference before rendering
+ * - Emails carry signed one-click unsubscribe links (RFC 8058)
+ */
+
+export interface EmailPreferenceCheck {
+	/**
+	 * False when the recipient turned the category off
+	 */
+	enabled: boolean;
+	/**
+	 * Landing page confirming the unsubscribe, linked from the email footer
+	 */
+	unsubscribeUrl?: string;
+	/**
+	 * List-Unsubscribe headers to add to the email
+	 */
+	headers?: Record<string, string>;
+}
+
+/**
+ * Get the preferences of a user for every category they can opt out of
+ */
+export async function getEmailPreferences(
+	userId: string,
+): Promise<EmailPreferences> {
+	const rows = await db
+		.select()
+		.from(schema.emailPreference)
+		.where(eq(schema.emailPreference.userId, userId));
+
+	// Users who turned email notifications off in any organization before
+	// categories existed stay unsubscribed until they choose otherwise
+	const [legacyOptOut] = await db
+		.select({ id: schema.userPreference.id })
+		.from(schema.userPreference)
+		.where(
+			and(
+				eq(schema.userPreference.userId, userId),
+				eq(schema.userPreference.emailNotifications, false),
+			),
+		)
+		.limit(1);
+
+	return Object.fromEntries(
+		EMAIL_PREFERENCE_CATEGORIES.map((category) => [
+			category,
+			rows.find((row) => row.category === category)?.enabled ?? !legacyOptOut,
+		]),
+	) as EmailPreferences;
+}
+
+/**
+ * Turn a category of emails on or off for a user
+ */
+export async function setEmailPreference(
+	userId: string,
+	category: EmailPreferenceCategory,
+	enabled: boolean,
+): Promise<void> {
+	await db
+		.insert(schema.emailPreference)
+		.values({ id: nanoid(), userId, category, enabled })
+		.onConflictDoUpdate({
+			target: [schema.emailPreference.userId, schema.emailPreference.category],
+			set: { enabled, updatedAt: new Date() },
+		});
+}
+
+/**
+ * Build the unsubscribe page URL and the RFC 8058 one-click headers
+ */
+export function getUnsubscribeOptions(
+	userId: string,
+	category: EmailPreferenceCategory,
+	locale = "en",
+): Required<Omit<EmailPreferenceCheck, "enabled">> {
+	const token = createUnsubscribeToken(
+		{ userId, category },
+		env.BETTER_AUTH_SECRET,
+	);
+	const query = `token=${encodeURIComponent(token)}`;
+
+	return {
+		unsubscribeUrl: `${env.NEXT_PUBLIC_APP_URL}/${locale}/unsubscribe?${query}`,
+		headers: {
+			"List-Unsubscribe": `<${env.NEXT_PUBLIC_APP_URL}/api/emails/unsubscribe?${query}>`,
+			"List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+		},
+	};
+}
+
+/**
+ * Check whether an email of a category may be sent to a recipient
+ *
+ * Recipients without an account (e.g. invitees) have no preferences and
+ * always receive the email, without unsubscribe links.
+ */
+export async function checkEmailPreference(
+	to: string,
+	category: EmailCategory,
+	locale?: string,
+): Promise<EmailPreferenceCheck> {
+	if (category === EmailCategory.TRANSACTIONAL) {
+		return { enabled: true };
+	}
+
+	const [recipient] = await db
+		.select({ id: schema.user.id })
+		.from(schema.user)
+		.where(eq(schema.user.email, to.toLowerCase()))
+		.limit(1);
+
+	if (!recipient) {
+		return { enabled: true };
+	}
+
+	const preferences = await getEmailPreferences(recipient.id);
+
+	return {
+		enabled: preferences[category],
+		...getUnsubscribeOptions(recipient.id, category, locale),
+	};
+}
+
+/**
+ * Turn off the category identified by a signed unsubscribe token
+ *
+ * Returns the category, or null when the token is invalid.
+ */
+export async function unsubscribeWithToken(
+	token: string,
+): Promise<EmailPreferenceCategory | null> {
+	const payload = verifyUnsubscribeToken(token, env.BETTER_AUTH_SECRET);
+
+	if (!payload) {
+		return null;
+	}
+
+	await setEmailPreference(payload.userId, payload.category, false);
+
+	return payload.category;
+}
+
+export {
+	createUnsubscribeToken,
+	type UnsubscribeTokenPayload,
+	verifyUnsubscribeToken,
+} from "./tokens";
+export {
+	EMAIL_PREFERENCE_CATEGORIES,
+	EmailCategory,
+	type EmailPreferenceCategory,
+	type EmailPreferences,
+} from "./types";
@@ -0,0 +1,68 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import {
+	EMAIL_PREFERENCE_CATEGORIES,
+	type EmailPreferenceCategory,
+} from "./types";
+
+/**
+ * Unsubscribe Tokens
+ *
+ * `<base64url payload>.<base64url HMAC-SHA256>` tokens identifying a user and
+ * an email category, so unsubscribe links work without signing in.
+ * They don't expire: an unsubscribe link must keep working in old emails.
+ */
+export interface UnsubscribeTokenPayload {
+	userId: string;
+	category: EmailPreferenceCategory;
+}
+
+const sign = (payload: string, secret: string) =>
+	createHmac("sha256", secret)
+		.update(`unsubscribe:${payload}`)
+		.digest("base64url");
+
+export function createUnsubscribeToken(
+	{ userId, category }: UnsubscribeTokenPayload,
+	secret: string,
+): string {
+	const payload = Buffer.from(
+		JSON.stringify({ u: userId, c: category }),
+	).toString("base64url");
+
+	return `${payload}.${sign(payload, secret)}`;
+}
+
+/**
+ * Return the payload of a valid token, or null when it was tampered with
+ */
+export function verifyUnsubscribeToken(
+	token: string,
+	secret: string,
+): UnsubscribeTokenPayload | null {
+	const [payload, signature] = token.split(".");
+
+	if (!payload || !signature) {
+		return null;
+	}
+
+	const expected = Buffer.from(sign(payload, secret));
+	const received = Buffer.from(signature);
+
+	if (
+		expected.length !== received.length ||
+		!timingSafeEqual(expected, received)
+	) {
+		return null;
+	}
+
+	try {
+		const { u, c } = JSON.parse(Buffer.from(payload, "base64url").toString());
+		const isCategory = EMAIL_PREFERENCE_CATEGORIES.includes(c);
+
+		return typeof u === "string" && isCategory
+			? { userId: u, category: c }
+			: null;
+	} catch {
+		return null;
+	}
+}
@@ -0,0 +1,24 @@
+/**
+ * Email categories
+ *
+ * Transactional emails (verification, password reset, welcome) are always
+ * sent, every other category can be turned off by the recipient.
+ */
+export enum EmailCategory {
+	TRANSACTIONAL = "transactional",
+	BILLING = "billing",
+	TEAM = "team",
+	PRODUCT = "product",
+}
+
+// Categories users can opt out of, in the order they are listed in settings
+export const EMAIL_PREFERENCE_CATEGORIES = [
+	EmailCategory.BILLING,
+	EmailCategory.TEAM,
+	EmailCategory.PRODUCT,
+] as const;
+
+export type EmailPreferenceCategory =
+	(typeof EMAIL_PREFERENCE_CATEGORIES)[number];
+
+export type EmailPreferences = Record<EmailPreferenceCategory, boolean>;
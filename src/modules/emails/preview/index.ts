@@ -0,0 +1,168 @@
+import { env } from "@/lib/env";
+import { DunningStep } from "@/modules/billing/dunning";
+import type { EmailTemplateType } from "../config";
+import { getEmailProvider, type SendEmailResult } from "../providers";
+import {
+	type EmailTemplateVariables,
+	type RenderedTemplatedEmail,
+	renderTemplatedEmail,
+} from "../registry";
+import type { EmailPreviewTemplate } from "./types";
+
+/**
+ * Email Template Previews
+ *
+ * Renders every template with sample data so admins can review it in each
+ * locale and send it to themselves through the configured provider.
+ */
+
+const sample = {
+	userName: "Jane Doe",
+	userEmail: "jane@example.com",
+	organizationName: "Acme Inc.",
+	dashboardUrl: `${env.NEXT_PUBLIC_APP_URL}/dashboard`,
+};
+
+/**
+ * Render a registered template with sample variables in a locale
+ */
+const preview =
+	<T extends EmailTemplateType>(
+		type: T,
+		variables: (locale: string) => EmailTemplateVariables<T>,
+	) =>
+	(locale: string) =>
+		renderTemplatedEmail(type, variables(locale), {
+			locale,
+			unsubscribeUrl: `${env.NEXT_PUBLIC_APP_URL}/unsubscribe?token=preview`,
+		});
+
+const previews: Record<
+	EmailPreviewTemplate,
+	(locale: string) => Promise<RenderedTemplatedEmail>
+> = {
+	"email-verification": preview("verification", () => ({
+		...sample,
+		verificationUrl: `${env.NEXT_PUBLIC_APP_URL}/verify-email?token=preview`,
+	})),
+	invitation: preview("invitation", () => ({
+		organizationName: sample.organizationName,
+		inviterName: "John Smith",
+		inviterEmail: "john@example.com",
+		role: "member",
+		inviteLink: `${env.NEXT_PUBLIC_APP_URL}/auth/accept-invitation?invitationId=preview`,
+	})),
+	"invitation-expiring": preview("invitationExpiring", (locale) => ({
+		organizationName: sample.organizationName,
+		inviterName: "John Smith",
+		inviteLink: `${env.NEXT_PUBLIC_APP_URL}/auth/accept-invitation?invitationId=preview`,
+		expirationDate: new Date().toLocaleDateString(locale),
+	})),
+	"invitation-reply": preview("invitationReply", () => ({
+		inviterName: "John Smith",
+		organizationName: sample.organizationName,
+		senderName: sample.userName,
+		senderEmail: sample.userEmail,
+		message:
+			"Thanks for the invitation! Could you add me to the design team too?",
+	})),
+	"password-reset": preview("passwordReset", () => ({
+		userName: sample.userName,
+		resetUrl: `${env.NEXT_PUBLIC_APP_URL}/auth/reset-password?token=preview`,
+	})),
+	"payment-failed": preview("paymentFailed", (locale) => ({
+		userName: sample.userName,
+		planName: "Pro",
+		step: DunningStep.FAILED,
+		graceEndDate: new Date().toLocaleDateString(locale),
+		billingUrl: `${env.NEXT_PUBLIC_APP_URL}/account/billing`,
+		invoiceUrl: "https://invoice.stripe.com/i/preview",
+	})),
+	"renewal-reminder": preview("renewalReminder", (locale) => ({
+		userName: sample.userName,
+		planName: "Pro",
+		renewalDate: new Date().toLocaleDateString(locale),
+		billingUrl: `${env.NEXT_PUBLIC_APP_URL}/account/billing`,
+	})),
+	"subscription-cancellation": preview(
+		"subscriptionCancellation",
+		(locale) => ({
+			...sample,
+			planName: "Pro",
+			effectiveDate: new Date().toLocaleDateString(locale),
+			cancellationReason: "Too expensive",
+		}),
+	),
+	"subscription-downgraded": preview("subscriptionDowngraded", () => ({
+		userName: sample.userName,
+		planName: "Pro",
+		billingUrl: `${env.NEXT_PUBLIC_APP_URL}/account/billing`,
+		invoiceUrl: "https://invoice.stripe.com/i/preview",
+	})),
+	"subscription-upgrade": preview("subscriptionUpgrade", (locale) => ({
+		...sample,
+		planName: "Pro",
+		planPrice: "$20.00",
+		billingCycle: "month",
+		nextBillingDate: new Date().toLocaleDateString(locale),
+	})),
+	"trial-ending": preview("trialEnding", (locale) => ({
+		userName: sample.userName,
+		planName: "Pro",
+		trialEndDate: new Date().toLocaleDateString(locale),
+		daysLeft: 3,
+		billingUrl: `${env.NEXT_PUBLIC_APP_URL}/account/billing`,
+	})),
+	"weekly-digest": preview("weeklyDigest", () => ({
+		userName: sample.userName,
+		organizationName: sample.organizationName,
+		newMembers: ["John Smith", "Maria Garcia"],
+		pendingInvitations: 2,
+		dashboardUrl: sample.dashboardUrl,
+	})),
+	welcome: preview("welcome", () => sample),
+};
+
+export type EmailPreviewResult = RenderedTemplatedEmail;
+
+/**
+ * Render a template with sample data in the given locale
+ */
+export async function renderEmailPreview(
+	template: EmailPreviewTemplate,
+	locale: string,
+): Promise<EmailPreviewResult> {
+	return previews[template](locale);
+}
+
+/**
+ * Send a template rendered with sample data to any address
+ *
+ * Goes straight to the configured provider (not the outbox) so the result
+ * or the provider error is reported right away.
+ */
+export async function sendEmailPreview({
+	to,
+	template,
+	locale,
+}: {
+	to: string;
+	template: EmailPreviewTemplate;
+	locale: string;
+}): Promise<SendEmailResult> {
+	const { subject, html, text } = await renderEmailPreview(template, locale);
+
+	return getEmailProvider().sendEmail({
+		to,
+		subject: `[Test] ${subject}`,
+		html,
+		text,
+	});
+}
+
+export {
+	EMAIL_PREVIEW_TEMPLATES,
+	EMAIL_PREVIEW_THEMES,
+	type EmailPreviewTemplate,
+	type EmailPreviewTheme,
+} from "./types";
@@ -0,0 +1,24 @@
+/**
+ * Templates of src/modules/emails/templates available in the preview console
+ */
+export const EMAIL_PREVIEW_TEMPLATES = [
+	"email-verification",
+	"invitation",
+	"invitation-expiring",
+	"invitation-reply",
+	"password-reset",
+	"payment-failed",
+	"renewal-reminder",
+	"subscription-cancellation",
+	"subscription-downgraded",
+	"subscription-upgrade",
+	"trial-ending",
+	"weekly-digest",
+	"welcome",
+] as const;
+
+export type EmailPreviewTemplate = (typeof EMAIL_PREVIEW_TEMPLATES)[number];
+
+export const EMAIL_PREVIEW_THEMES = ["light", "dark"] as const;
+
+export type EmailPreviewTheme = (typeof EMAIL_PREVIEW_THEMES)[number];
@@ -5,6 +5,21 @@
  * allowing for easy switching between different email services
  */
 
+/**
+ * Email attachment
+ */
+export interface EmailAttachment {
+	filename: string;
+	/**
+	 * Base64 encoded file content
+	 */
+	content: string;
+	/**
+	 * MIME type, e.g. "application/pdf"
+	 */
+	contentType?: string;
+}
+
 /**
  * Email sending options
  */
@@ -13,6 +28,48 @@ export interface SendEmailOptions {
 	subject: string;
 	html: string;
 	text?: string;
+	cc?: string[];
+	bcc?: string[];
+	replyTo?: string;
+	/**
+	 * Sender address, overrides the configured EMAIL_FROM (e.g. billing@ for billing emails)
+	 */
+	from?: string;
+	/**
+	 * Sender display name
+	 */
+	fromName?: string;
+	/**
+	 * Custom headers, e.g. List-Unsubscribe or tracking headers
+	 */
+	headers?: Record<string, string>;
+	attachments?: EmailAttachment[];
+	/**
+	 * Key/value tags for provider analytics and webhooks
+	 */
+	tags?: Record<string, string>;
+}
+
+/**
+ * Delivery options a service can forward on top of the rendered email
+ */
+export type EmailDeliveryOptions = Omit<
+	SendEmailOptions,
+	"to" | "subject" | "html" | "text"
+>;
+
+/**
+ * Result of a successful delivery
+ */
+export interface SendEmailResult {
+	/**
+	 * Name of the provider that accepted the email
+	 */
+	provider: string;
+	/**
+	 * Message id assigned by the provider, used to match webhooks and support requests
+	 */
+	messageId?: string;
 }
 
 /**
@@ -22,7 +79,40 @@ export interface SendEmailOptions {
  * This allows easy switching between different email services
  */
 export interface EmailProvider {
-	sendEmail(options: SendEmailOptions): Promise<void>;
+	sendEmail(options: SendEmailOptions): Promise<SendEmailResult>;
+	/**
+	 * Check the configuration and connection without sending, e.g. at startup
+	 *
+	 * Throws an EmailProviderError describing what is wrong.
+	 */
+	verify?(): Promise<void>;
+}
+
+/**
+ * Error thrown by providers when a delivery attempt fails
+ *
+ * `retryable` tells callers whether trying again (or with another provider)
+ * may succeed, e.g. network errors, rate limits or 5xx responses.
+ */
+export class EmailProviderError extends Error {
+	readonly provider: string;
+	readonly status?: number;
+	readonly retryable: boolean;
+
+	constructor(
+		message: string,
+		{
+			provider,
+			status,
+			retryable,
+		}: { provider: string; status?: number; retryable: boolean },
+	) {
+		super(message);
+		this.name = "EmailProviderError";
+		this.provider = provider;
+		this.status = status;
+		this.retryable = retryable;
+	}
 }
 
 /**
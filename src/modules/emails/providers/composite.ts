@@ -0,0 +1,205 @@
+import {
+	type EmailProvider,
+	EmailProviderError,
+	type SendEmailOptions,
+	type SendEmailResult,
+} from "./base";
+
+export interface CompositeProviderEntry {
+	name: string;
+	provider: EmailProvider;
+	/**
+	 * Share of traffic this provider receives as first choice (e.g. 90 / 10 during warmup).
+	 * When no entry has a weight, the first healthy provider in the list is always used.
+	 */
+	weight?: number;
+}
+
+export interface CircuitBreakerOptions {
+	failureThreshold: number;
+	cooldownMs: number;
+}
+
+export type ProviderHealth = {
+	name: string;
+	state: "closed" | "open" | "half-open";
+	consecutiveFailures: number;
+	lastError?: string;
+	openUntil?: Date;
+};
+
+type ProviderState = {
+	consecutiveFailures: number;
+	openUntil: number | null;
+	lastError?: string;
+};
+
+/**
+ * Composite Email Provider
+ *
+ * Delivers through an ordered list of providers:
+ * - Picks the first provider by weight (or list order) and fails over to the
+ *   next ones on transport errors
+ * - Errors caused by the message itself are thrown right away, another
+ *   provider would reject it too
+ * - A circuit breaker per provider skips it for `cooldownMs` after
+ *   `failureThreshold` consecutive failures, then lets one attempt through
+ */
+export class CompositeEmailProvider implements EmailProvider {
+	private readonly states = new Map<string, ProviderState>();
+
+	constructor(
+		private readonly entries: CompositeProviderEntry[],
+		private readonly options: CircuitBreakerOptions,
+	) {
+		if (entries.length === 0) {
+			throw new Error("CompositeEmailProvider requires at least one provider");
+		}
+
+		for (const entry of entries) {
+			this.states.set(entry.name, { consecutiveFailures: 0, openUntil: null });
+		}
+	}
+
+	async sendEmail(options: SendEmailOptions): Promise<SendEmailResult> {
+		const errors: string[] = [];
+
+		for (const entry of this.getAttemptOrder()) {
+			try {
+				const result = await entry.provider.sendEmail(options);
+				this.recordSuccess(entry.name);
+				return result;
+			} catch (error) {
+				if (error instanceof EmailProviderError && !error.retryable) {
+					throw error;
+				}
+
+				const message = error instanceof Error ? error.message : String(error);
+				this.recordFailure(entry.name, message);
+				errors.push(`${entry.name}: ${message}`);
+
+				console.warn(`⚠️  Email provider ${entry.name} failed, failing over`);
+			}
+		}
+
+		throw new EmailProviderError(
+			`All email providers failed (${errors.join("; ")})`,
+			{ provider: "composite", retryable: true },
+		);
+	}
+
+	/**
+	 * Verify every provider, reporting all misconfigured ones at once
+	 */
+	async verify(): Promise<void> {
+		const errors: string[] = [];
+
+		for (const entry of this.entries) {
+			try {
+				await entry.provider.verify?.();
+			} catch (error) {
+				const message = error instanceof Error ? error.message : String(error);
+				errors.push(`${entry.name}: ${message}`);
+			}
+		}
+
+		if (errors.length > 0) {
+			throw new EmailProviderError(
+				`Email provider verification failed (${errors.join("; ")})`,
+				{ provider: "composite", retryable: true },
+			);
+		}
+	}
+
+	/**
+	 * Snapshot of the circuit breaker state of every provider
+	 */
+	getHealth(): ProviderHealth[] {
+		const now = Date.now();
+
+		return this.entries.map(({ name }) => {
+			const state = this.getState(name);
+			return {
+				name,
+				state:
+					state.openUntil === null
+						? "closed"
+						: state.openUntil > now
+							? "open"
+							: "half-open",
+				consecutiveFailures: state.consecutiveFailures,
+				lastError: state.lastError,
+				openUntil: state.openUntil ? new Date(state.openUntil) : undefined,
+			};
+		});
+	}
+
+	/**
+	 * Healthy providers first (weighted pick, then list order), followed by
+	 * providers with an open circuit as a last resort
+	 */
+	private getAttemptOrder(): CompositeProviderEntry[] {
+		const now = Date.now();
+		const available = this.entries.filter((entry) => {
+			const { openUntil } = this.getState(entry.name);
+			return openUntil === null || openUntil <= now;
+		});
+		const unavailable = this.entries.filter(
+			(entry) => !available.includes(entry),
+		);
+
+		const first = this.pickWeighted(available);
+		const rest = available.filter((entry) => entry !== first);
+
+		return [...(first ? [first] : []), ...rest, ...unavailable];
+	}
+
+	private pickWeighted(
+		entries: CompositeProviderEntry[],
+	): CompositeProviderEntry | undefined {
+		const weighted = entries.filter((entry) => (entry.weight ?? 0) > 0);
+		if (weighted.length === 0) {
+			return entries[0];
+		}
+
+		const total = weighted.reduce((sum, entry) => sum + (entry.weight ?? 0), 0);
+		let roll = Math.random() * total;
+
+		for (const entry of weighted) {
+			roll -= entry.weight ?? 0;
+			if (roll < 0) {
+				return entry;
+			}
+		}
+
+		return weighted[weighted.length - 1];
+	}
+
+	private getState(name: string): ProviderState {
+		return this.states.get(name) as ProviderState;
+	}
+
+	private recordSuccess(name: string) {
+		this.states.set(name, { consecutiveFailures: 0, openUntil: null });
+	}
+
+	private recordFailure(name: string, lastError: string) {
+		const state = this.getState(name);
+		const consecutiveFailures = state.consecutiveFailures + 1;
+		const shouldOpen = consecutiveFailures >= this.options.failureThreshold;
+
+		this.states.set(name, {
+			consecutiveFailures,
+			lastError,
+			openUntil: shouldOpen
+				? Date.now() + this.options.cooldownMs
+				: state.openUntil,
+		});
+
+		if (shouldOpen) {
+			console.warn(
+				`⚠️  Circuit opened for email provider ${name} after ${consecutiveFailures} failures`,
+			);
+		}
+	}
+}
@@ -1,4 +1,4 @@
-import type { EmailProvider, SendEmailOptions } from "./base";
+import type { EmailProvider, SendEmailOptions, SendEmailResult } from "./base";
 
 /**
  * Console Email Provider (Development)
@@ -7,11 +7,36 @@ import type { EmailProvider, SendEmailOptions } from "./base";
  * Perfect for local development where you don't want to send real emails
  */
 export class ConsoleEmailProvider implements EmailProvider {
-	async sendEmail(options: SendEmailOptions): Promise<void> {
+	async sendEmail(options: SendEmailOptions): Promise<SendEmailResult> {
 		console.log("\n📧 EMAIL SENT (Console Provider)");
 		console.log("=====================================");
+		if (options.from || options.fromName) {
+			console.log(
+				`From: ${[options.fromName, options.from].filter(Boolean).join(" ")}`,
+			);
+		}
 		console.log(`To: ${options.to}`);
+		if (options.cc?.length) {
+			console.log(`Cc: ${options.cc.join(", ")}`);
+		}
+		if (options.bcc?.length) {
+			console.log(`Bcc: ${options.bcc.join(", ")}`);
+		}
+		if (options.replyTo) {
+			console.log(`Reply-To: ${options.replyTo}`);
+		}
 		console.log(`Subject: ${options.subject}`);
+		if (options.headers) {
+			console.log("Headers:", options.headers);
+		}
+		if (options.tags) {
+			console.log("Tags:", options.tags);
+		}
+		if (options.attachments?.length) {
+			console.log(
+				`Attachments: ${options.attachments.map((a) => a.filename).join(", ")}`,
+			);
+		}
 		console.log("HTML Content:");
 		console.log(`${options.html.substring(0, 200)}...`);
 		if (options.text) {
@@ -19,5 +44,7 @@ export class ConsoleEmailProvider implements EmailProvider {
 			console.log(`${options.text.substring(0, 200)}...`);
 		}
 		console.log("=====================================\n");
+
+		return { provider: "console" };
 	}
 }
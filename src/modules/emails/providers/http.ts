@@ -0,0 +1,69 @@
+import { EmailProviderError } from "./base";
+
+// Abort HTTP provider requests that take longer than this
+const REQUEST_TIMEOUT_MS = 10_000;
+
+/**
+ * Shared HTTP transport for API-based email providers
+ *
+ * Sends a JSON request and normalizes failures into `EmailProviderError`:
+ * network errors, timeouts, 429 and 5xx responses are retryable,
+ * any other non-2xx response is not.
+ */
+export async function sendJsonRequest({
+	provider,
+	url,
+	headers,
+	body,
+}: {
+	provider: string;
+	url: string;
+	headers: Record<string, string>;
+	body: string;
+}): Promise<Response> {
+	let response: Response;
+
+	try {
+		response = await fetch(url, {
+			method: "POST",
+			headers: {
+				"Content-Type": "application/json",
+				Accept: "application/json",
+				...headers,
+			},
+			body,
+			signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+		});
+	} catch (error) {
+		throw new EmailProviderError(
+			`Failed to reach ${provider}: ${error instanceof Error ? error.message : "Unknown error"}`,
+			{ provider, retryable: true },
+		);
+	}
+
+	if (!response.ok) {
+		const details = await response.text().catch(() => "");
+		throw new EmailProviderError(
+			`${provider} responded with ${response.status}: ${details.substring(0, 500)}`,
+			{
+				provider,
+				status: response.status,
+				retryable: response.status === 429 || response.status >= 500,
+			},
+		);
+	}
+
+	return response;
+}
+
+/**
+ * Read the JSON body of a successful provider response
+ *
+ * The email is already accepted at this point, so an unexpected body
+ * must not turn into a failed (and retried) delivery.
+ */
+export async function readJsonResponse<T>(
+	response: Response,
+): Promise<Partial<T>> {
+	return response.json().catch(() => ({}));
+}
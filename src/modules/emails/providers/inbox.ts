@@ -0,0 +1,37 @@
+import { nanoid } from "nanoid";
+import type { EmailInboxStore } from "../inbox/types";
+import type { EmailProvider, SendEmailOptions, SendEmailResult } from "./base";
+
+/**
+ * Inbox Email Provider (Development & E2E tests)
+ *
+ * Captures emails in a local inbox instead of delivering them, so their
+ * links can be read at /dev/inbox or through /api/dev/inbox without a mail server.
+ * Attachments and tags are not kept.
+ */
+export class InboxEmailProvider implements EmailProvider {
+	constructor(private readonly inbox: EmailInboxStore) {}
+
+	async sendEmail(options: SendEmailOptions): Promise<SendEmailResult> {
+		const messageId = nanoid();
+
+		await this.inbox.add({
+			id: messageId,
+			to: options.to,
+			cc: options.cc,
+			bcc: options.bcc,
+			replyTo: options.replyTo,
+			from: options.from,
+			fromName: options.fromName,
+			subject: options.subject,
+			html: options.html,
+			text: options.text,
+			headers: options.headers,
+			createdAt: new Date().toISOString(),
+		});
+
+		console.log(`📥 Email captured in the inbox: ${options.subject}`);
+
+		return { provider: "inbox", messageId };
+	}
+}
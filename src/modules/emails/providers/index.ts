@@ -1,34 +1,212 @@
+import type { z } from "zod";
 import { env } from "@/lib/env";
+import { EMAIL_CONFIG, EmailSender } from "../config";
+import { getEmailInbox } from "../inbox";
+import { getSuppressedEmails } from "../suppression";
 import type { EmailProvider } from "./base";
+import {
+	CompositeEmailProvider,
+	type CompositeProviderEntry,
+} from "./composite";
 import { ConsoleEmailProvider } from "./console";
-import { SmtpEmailProvider } from "./smtp";
+import { InboxEmailProvider } from "./inbox";
+import { PostmarkEmailProvider, postmarkConfigSchema } from "./postmark";
+import { ResendEmailProvider, resendConfigSchema } from "./resend";
+import { SendgridEmailProvider, sendgridConfigSchema } from "./sendgrid";
+import { SesEmailProvider, sesConfigSchema } from "./ses";
+import { SmtpEmailProvider, smtpConfigSchema } from "./smtp";
+import { SuppressionListEmailProvider } from "./suppression";
+
+export type EmailProviderName = NonNullable<typeof env.EMAIL_PROVIDER>;
+
+/**
+ * Validate a provider-specific config and build the provider
+ *
+ * Returns null (and logs why) when the config is incomplete so the
+ * factory can fall back to another provider.
+ */
+function createFromConfig<T extends z.ZodTypeAny>(
+	name: EmailProviderName,
+	schema: T,
+	rawConfig: Record<string, unknown>,
+	create: (config: z.infer<T>) => EmailProvider,
+): EmailProvider | null {
+	const result = schema.safeParse(rawConfig);
+
+	if (!result.success) {
+		console.warn(
+			`⚠️  ${name} email provider is misconfigured:`,
+			result.error.issues.map((issue) => issue.message).join(", "),
+		);
+		return null;
+	}
+
+	return create(result.data);
+}
+
+/**
+ * Create the provider explicitly selected with EMAIL_PROVIDER
+ */
+function createSelectedProvider(name: EmailProviderName): EmailProvider | null {
+	const from = env.EMAIL_FROM ?? env.SMTP_FROM;
+
+	switch (name) {
+		case "console":
+			return new ConsoleEmailProvider();
+		case "inbox":
+			return new InboxEmailProvider(getEmailInbox());
+		case "smtp":
+			return createSmtpProvider();
+		case "resend":
+			return createFromConfig(
+				name,
+				resendConfigSchema,
+				{ apiKey: env.RESEND_API_KEY, from, baseUrl: env.RESEND_API_URL },
+				(config) => new ResendEmailProvider(config),
+			);
+		case "postmark":
+			return createFromConfig(
+				name,
+				postmarkConfigSchema,
+				{
+					serverToken: env.POSTMARK_SERVER_TOKEN,
+					from,
+					messageStream: env.POSTMARK_MESSAGE_STREAM,
+					baseUrl: env.POSTMARK_API_URL,
+				},
+				(config) => new PostmarkEmailProvider(config),
+			);
+		case "sendgrid":
+			return createFromConfig(
+				name,
+				sendgridConfigSchema,
+				{ apiKey: env.SENDGRID_API_KEY, from, baseUrl: env.SENDGRID_API_URL },
+				(config) => new SendgridEmailProvider(config),
+			);
+		case "ses":
+			return createFromConfig(
+				name,
+				sesConfigSchema,
+				{
+					region: env.AWS_SES_REGION,
+					accessKeyId: env.AWS_SES_ACCESS_KEY_ID,
+					secretAccessKey: env.AWS_SES_SECRET_ACCESS_KEY,
+					from,
+					baseUrl: env.AWS_SES_API_URL,
+				},
+				(config) => new SesEmailProvider(config),
+			);
+	}
+}
+
+/**
+ * Create the SMTP provider, reporting the missing or invalid SMTP_* variables
+ */
+function createSmtpProvider(): EmailProvider | null {
+	return createFromConfig(
+		"smtp",
+		smtpConfigSchema,
+		{
+			host: env.SMTP_HOST,
+			port: env.SMTP_PORT,
+			user: env.SMTP_USER,
+			pass: env.SMTP_PASS,
+			from: env.SMTP_FROM,
+			dkim:
+				env.SMTP_DKIM_SELECTOR && env.SMTP_DKIM_PRIVATE_KEY
+					? {
+							selector: env.SMTP_DKIM_SELECTOR,
+							privateKey: env.SMTP_DKIM_PRIVATE_KEY,
+							domain: env.SMTP_DKIM_DOMAIN,
+						}
+					: undefined,
+		},
+		(config) => new SmtpEmailProvider(config),
+	);
+}
+
+/**
+ * Report a provider configuration that can't be used
+ *
+ * Production refuses to fall back to the console provider, which would
+ * silently drop every email, development falls back with a warning.
+ */
+function reportMisconfiguration(message: string): void {
+	if (env.NODE_ENV === "production") {
+		throw new Error(`${message} Fix the configuration to send emails.`);
+	}
+
+	console.warn(`⚠️  ${message} Falling back to auto-detection.`);
+}
+
+/**
+ * Create the failover provider from EMAIL_PROVIDERS (e.g. "smtp:90,resend:10")
+ *
+ * Misconfigured entries are skipped; a single remaining provider is used directly.
+ */
+function createFailoverProvider(list: string): EmailProvider | null {
+	const entries: CompositeProviderEntry[] = [];
+
+	for (const item of list.split(",")) {
+		const [name, weight] = item.split(":") as [EmailProviderName, string?];
+		const provider = createSelectedProvider(name);
+
+		if (provider && !entries.some((entry) => entry.name === name)) {
+			entries.push({
+				name,
+				provider,
+				weight: weight ? Number(weight) : undefined,
+			});
+		}
+	}
+
+	if (entries.length <= 1) {
+		return entries[0]?.provider ?? null;
+	}
+
+	return new CompositeEmailProvider(
+		entries,
+		EMAIL_CONFIG.settings.circuitBreaker,
+	);
+}
 
 /**
  * Email Provider Factory
  *
- * Automatically selects the appropriate email provider based on environment
+ * Uses the failover list from EMAIL_PROVIDERS or the provider selected with
+ * EMAIL_PROVIDER when it is properly configured.
+ * Otherwise selects the appropriate email provider based on environment:
  * In development: Uses console logging
  * In production: Uses SMTP if configured, otherwise falls back to console
+ * A selected provider that is misconfigured fails in production instead of
+ * falling back.
  */
 export function createEmailProvider(): EmailProvider {
-	// Check if SMTP is fully configured
-	const hasSmtpConfig =
-		env.SMTP_HOST &&
-		env.SMTP_PORT &&
-		env.SMTP_USER &&
-		env.SMTP_PASS &&
-		env.SMTP_FROM;
-
-	// Use SMTP provider if all credentials are present
-	if (hasSmtpConfig) {
-		try {
-			return new SmtpEmailProvider();
-		} catch (error) {
-			console.warn(
-				"⚠️  SMTP provider failed to initialize, falling back to console provider:",
-				error,
-			);
-			return new ConsoleEmailProvider();
+	if (env.EMAIL_PROVIDERS) {
+		const failoverProvider = createFailoverProvider(env.EMAIL_PROVIDERS);
+
+		if (failoverProvider) {
+			return failoverProvider;
+		}
+
+		reportMisconfiguration("No provider in EMAIL_PROVIDERS is configured.");
+	} else if (env.EMAIL_PROVIDER) {
+		const selectedProvider = createSelectedProvider(env.EMAIL_PROVIDER);
+
+		if (selectedProvider) {
+			return selectedProvider;
+		}
+
+		reportMisconfiguration(
+			`The ${env.EMAIL_PROVIDER} email provider is misconfigured.`,
+		);
+	}
+
+	// Use SMTP provider when configured, a partial config is reported
+	if (env.SMTP_HOST) {
+		const smtpProvider = createSmtpProvider();
+		if (smtpProvider) {
+			return smtpProvider;
 		}
 	}
 
@@ -48,17 +226,75 @@ export function createEmailProvider(): EmailProvider {
  * Get the configured email provider instance
  *
  * This is a singleton pattern - the provider is created once and reused
+ * Addresses on the suppression list are skipped before reaching the provider
  */
 let emailProviderInstance: EmailProvider | null = null;
 
 export function getEmailProvider(): EmailProvider {
 	if (!emailProviderInstance) {
-		emailProviderInstance = createEmailProvider();
+		emailProviderInstance = new SuppressionListEmailProvider(
+			createEmailProvider(),
+			getSuppressedEmails,
+		);
 	}
 	return emailProviderInstance;
 }
 
-export type { EmailProvider, SendEmailOptions } from "./base";
+/**
+ * Address a sender sends from, undefined uses the provider's EMAIL_FROM
+ */
+export function getSenderAddress(
+	sender: EmailSender = EmailSender.NO_REPLY,
+): string | undefined {
+	switch (sender) {
+		case EmailSender.NO_REPLY:
+			return undefined;
+		case EmailSender.BILLING:
+			return env.EMAIL_FROM_BILLING;
+	}
+}
+
+/**
+ * Check the email provider configuration and connection at startup
+ *
+ * Logs what is wrong (e.g. rejected SMTP credentials or an unreachable host)
+ * instead of failing on the first email. Never throws, a mail outage must
+ * not keep the app from starting.
+ */
+export async function verifyEmailProvider(): Promise<boolean> {
+	try {
+		await getEmailProvider().verify?.();
+		console.log("✅ Email provider verified");
+		return true;
+	} catch (error) {
+		console.error(
+			"❌ Email provider verification failed:",
+			error instanceof Error ? error.message : error,
+		);
+		return false;
+	}
+}
+
+export type {
+	EmailAttachment,
+	EmailDeliveryOptions,
+	EmailProvider,
+	SendEmailOptions,
+	SendEmailResult,
+} from "./base";
+export { EmailProviderError } from "./base";
+export type {
+	CircuitBreakerOptions,
+	CompositeProviderEntry,
+	ProviderHealth,
+} from "./composite";
 // Export provider classes for direct use if needed
+export { CompositeEmailProvider } from "./composite";
 export { ConsoleEmailProvider } from "./console";
-export { SmtpEmailProvider } from "./smtp";
+export { InboxEmailProvider } from "./inbox";
+export { PostmarkEmailProvider } from "./postmark";
+export { ResendEmailProvider } from "./resend";
+export { SendgridEmailProvider } from "./sendgrid";
+export { SesEmailProvider } from "./ses";
+export { type SmtpConfig, SmtpEmailProvider } from "./smtp";
+export { SuppressionListEmailProvider } from "./suppression";
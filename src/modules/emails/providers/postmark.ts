@@ -0,0 +1,64 @@
+import { z } from "zod";
+import { formatEmailAddress } from "../utils/address";
+import type { EmailProvider, SendEmailOptions, SendEmailResult } from "./base";
+import { readJsonResponse, sendJsonRequest } from "./http";
+
+export const postmarkConfigSchema = z.object({
+	serverToken: z.string().min(1, "POSTMARK_SERVER_TOKEN is required"),
+	from: z.string().email("EMAIL_FROM must be a valid email address"),
+	messageStream: z.string().default("outbound"),
+	baseUrl: z.string().url().default("https://api.postmarkapp.com"),
+});
+
+export type PostmarkConfig = z.infer<typeof postmarkConfigSchema>;
+
+/**
+ * Postmark Email Provider
+ *
+ * Sends emails through the Postmark REST API.
+ * Required env vars: POSTMARK_SERVER_TOKEN, EMAIL_FROM (or SMTP_FROM)
+ */
+export class PostmarkEmailProvider implements EmailProvider {
+	constructor(private readonly config: PostmarkConfig) {}
+
+	async sendEmail(options: SendEmailOptions): Promise<SendEmailResult> {
+		const response = await sendJsonRequest({
+			provider: "postmark",
+			url: `${this.config.baseUrl}/email`,
+			headers: { "X-Postmark-Server-Token": this.config.serverToken },
+			body: JSON.stringify({
+				From: formatEmailAddress(
+					options.from ?? this.config.from,
+					options.fromName,
+				),
+				To: options.to,
+				Cc: options.cc?.join(","),
+				Bcc: options.bcc?.join(","),
+				ReplyTo: options.replyTo,
+				Subject: options.subject,
+				HtmlBody: options.html,
+				TextBody: options.text,
+				Headers: options.headers
+					? Object.entries(options.headers).map(([Name, Value]) => ({
+							Name,
+							Value,
+						}))
+					: undefined,
+				Attachments: options.attachments?.map((attachment) => ({
+					Name: attachment.filename,
+					Content: attachment.content,
+					ContentType: attachment.contentType ?? "application/octet-stream",
+				})),
+				Metadata: options.tags,
+				MessageStream: this.config.messageStream,
+			}),
+		});
+
+		const { MessageID } = await readJsonResponse<{ MessageID: string }>(
+			response,
+		);
+
+		console.log(`✅ Postmark email sent successfully to ${options.to}`);
+		return { provider: "postmark", messageId: MessageID };
+	}
+}
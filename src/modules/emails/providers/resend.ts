@@ -0,0 +1,60 @@
+import { z } from "zod";
+import { formatEmailAddress } from "../utils/address";
+import type { EmailProvider, SendEmailOptions, SendEmailResult } from "./base";
+import { readJsonResponse, sendJsonRequest } from "./http";
+
+export const resendConfigSchema = z.object({
+	apiKey: z.string().min(1, "RESEND_API_KEY is required"),
+	from: z.string().email("EMAIL_FROM must be a valid email address"),
+	baseUrl: z.string().url().default("https://api.resend.com"),
+});
+
+export type ResendConfig = z.infer<typeof resendConfigSchema>;
+
+/**
+ * Resend Email Provider
+ *
+ * Sends emails through the Resend REST API.
+ * Required env vars: RESEND_API_KEY, EMAIL_FROM (or SMTP_FROM)
+ */
+export class ResendEmailProvider implements EmailProvider {
+	constructor(private readonly config: ResendConfig) {}
+
+	async sendEmail(options: SendEmailOptions): Promise<SendEmailResult> {
+		const response = await sendJsonRequest({
+			provider: "resend",
+			url: `${this.config.baseUrl}/emails`,
+			headers: { Authorization: `Bearer ${this.config.apiKey}` },
+			body: JSON.stringify({
+				from: formatEmailAddress(
+					options.from ?? this.config.from,
+					options.fromName,
+				),
+				to: [options.to],
+				cc: options.cc,
+				bcc: options.bcc,
+				reply_to: options.replyTo,
+				subject: options.subject,
+				html: options.html,
+				text: options.text,
+				headers: options.headers,
+				attachments: options.attachments?.map((attachment) => ({
+					filename: attachment.filename,
+					content: attachment.content,
+					content_type: attachment.contentType,
+				})),
+				tags: options.tags
+					? Object.entries(options.tags).map(([name, value]) => ({
+							name,
+							value,
+						}))
+					: undefined,
+			}),
+		});
+
+		const { id } = await readJsonResponse<{ id: string }>(response);
+
+		console.log(`✅ Resend email sent successfully to ${options.to}`);
+		return { provider: "resend", messageId: id };
+	}
+}
@@ -0,0 +1,66 @@
+import { z } from "zod";
+import type { EmailProvider, SendEmailOptions, SendEmailResult } from "./base";
+import { sendJsonRequest } from "./http";
+
+export const sendgridConfigSchema = z.object({
+	apiKey: z.string().min(1, "SENDGRID_API_KEY is required"),
+	from: z.string().email("EMAIL_FROM must be a valid email address"),
+	baseUrl: z.string().url().default("https://api.sendgrid.com"),
+});
+
+export type SendgridConfig = z.infer<typeof sendgridConfigSchema>;
+
+/**
+ * SendGrid Email Provider
+ *
+ * Sends emails through the SendGrid v3 Mail Send API.
+ * Required env vars: SENDGRID_API_KEY, EMAIL_FROM (or SMTP_FROM)
+ */
+export class SendgridEmailProvider implements EmailProvider {
+	constructor(private readonly config: SendgridConfig) {}
+
+	async sendEmail(options: SendEmailOptions): Promise<SendEmailResult> {
+		// SendGrid requires text/plain to come before text/html
+		const content = [
+			...(options.text ? [{ type: "text/plain", value: options.text }] : []),
+			{ type: "text/html", value: options.html },
+		];
+
+		const response = await sendJsonRequest({
+			provider: "sendgrid",
+			url: `${this.config.baseUrl}/v3/mail/send`,
+			headers: { Authorization: `Bearer ${this.config.apiKey}` },
+			body: JSON.stringify({
+				personalizations: [
+					{
+						to: [{ email: options.to }],
+						cc: options.cc?.map((email) => ({ email })),
+						bcc: options.bcc?.map((email) => ({ email })),
+					},
+				],
+				from: {
+					email: options.from ?? this.config.from,
+					name: options.fromName,
+				},
+				reply_to: options.replyTo ? { email: options.replyTo } : undefined,
+				subject: options.subject,
+				content,
+				headers: options.headers,
+				attachments: options.attachments?.map((attachment) => ({
+					content: attachment.content,
+					filename: attachment.filename,
+					type: attachment.contentType,
+					disposition: "attachment",
+				})),
+				custom_args: options.tags,
+			}),
+		});
+
+		console.log(`✅ SendGrid email sent successfully to ${options.to}`);
+		// SendGrid answers 202 with an empty body, the id is in a header
+		return {
+			provider: "sendgrid",
+			messageId: response.headers.get("x-message-id") ?? undefined,
+		};
+	}
+}
@@ -0,0 +1,142 @@
+import { createHash, createHmac } from "node:crypto";
+import { z } from "zod";
+import { formatEmailAddress } from "../utils/address";
+import type { EmailProvider, SendEmailOptions, SendEmailResult } from "./base";
+import { readJsonResponse, sendJsonRequest } from "./http";
+
+export const sesConfigSchema = z.object({
+	region: z.string().min(1, "AWS_SES_REGION is required"),
+	accessKeyId: z.string().min(1, "AWS_SES_ACCESS_KEY_ID is required"),
+	secretAccessKey: z.string().min(1, "AWS_SES_SECRET_ACCESS_KEY is required"),
+	from: z.string().email("EMAIL_FROM must be a valid email address"),
+	// Defaults to the regional endpoint, e.g. https://email.us-east-1.amazonaws.com
+	baseUrl: z.string().url().optional(),
+});
+
+export type SesConfig = z.infer<typeof sesConfigSchema>;
+
+const sha256 = (value: string) =>
+	createHash("sha256").update(value).digest("hex");
+
+const hmac = (key: string | Buffer, value: string) =>
+	createHmac("sha256", key).update(value).digest();
+
+/**
+ * Amazon SES Email Provider
+ *
+ * Sends emails through the SES v2 HTTP API, signing requests with AWS Signature V4
+ * so no AWS SDK is needed.
+ * Required env vars: AWS_SES_REGION, AWS_SES_ACCESS_KEY_ID, AWS_SES_SECRET_ACCESS_KEY,
+ * EMAIL_FROM (or SMTP_FROM)
+ */
+export class SesEmailProvider implements EmailProvider {
+	constructor(private readonly config: SesConfig) {}
+
+	async sendEmail(options: SendEmailOptions): Promise<SendEmailResult> {
+		const url = new URL(
+			"/v2/email/outbound-emails",
+			this.config.baseUrl ??
+				`https://email.${this.config.region}.amazonaws.com`,
+		);
+
+		const body = JSON.stringify({
+			FromEmailAddress: formatEmailAddress(
+				options.from ?? this.config.from,
+				options.fromName,
+			),
+			Destination: {
+				ToAddresses: [options.to],
+				CcAddresses: options.cc,
+				BccAddresses: options.bcc,
+			},
+			ReplyToAddresses: options.replyTo ? [options.replyTo] : undefined,
+			Content: {
+				Simple: {
+					Subject: { Data: options.subject, Charset: "UTF-8" },
+					Body: {
+						Html: { Data: options.html, Charset: "UTF-8" },
+						...(options.text
+							? { Text: { Data: options.text, Charset: "UTF-8" } }
+							: {}),
+					},
+					Headers: options.headers
+						? Object.entries(options.headers).map(([Name, Value]) => ({
+								Name,
+								Value,
+							}))
+						: undefined,
+					Attachments: options.attachments?.map((attachment) => ({
+						FileName: attachment.filename,
+						RawContent: attachment.content,
+						ContentType: attachment.contentType,
+						ContentDisposition: "ATTACHMENT",
+					})),
+				},
+			},
+			EmailTags: options.tags
+				? Object.entries(options.tags).map(([Name, Value]) => ({ Name, Value }))
+				: undefined,
+		});
+
+		const response = await sendJsonRequest({
+			provider: "ses",
+			url: url.toString(),
+			headers: this.signRequest(url, body),
+			body,
+		});
+
+		const { MessageId } = await readJsonResponse<{ MessageId: string }>(
+			response,
+		);
+
+		console.log(`✅ SES email sent successfully to ${options.to}`);
+		return { provider: "ses", messageId: MessageId };
+	}
+
+	/**
+	 * Build the AWS Signature V4 headers for a POST request
+	 *
+	 * @see https://docs.aws.amazon.com/IAM/latest/UserGuide/create-signed-request.html
+	 */
+	private signRequest(url: URL, body: string): Record<string, string> {
+		const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, "");
+		const dateStamp = amzDate.substring(0, 8);
+		const scope = `${dateStamp}/${this.config.region}/ses/aws4_request`;
+
+		const signedHeaders = "content-type;host;x-amz-date";
+		const canonicalRequest = [
+			"POST",
+			url.pathname,
+			"",
+			`content-type:application/json\nhost:${url.host}\nx-amz-date:${amzDate}\n`,
+			signedHeaders,
+			sha256(body),
+		].join("\n");
+
+		const stringToSign = [
+			"AWS4-HMAC-SHA256",
+			amzDate,
+			scope,
+			sha256(canonicalRequest),
+		].join("\n");
+
+		const signingKey = hmac(
+			hmac(
+				hmac(
+					hmac(`AWS4${this.config.secretAccessKey}`, dateStamp),
+					this.config.region,
+				),
+				"ses",
+			),
+			"aws4_request",
+		);
+		const signature = createHmac("sha256", signingKey)
+			.update(stringToSign)
+			.digest("hex");
+
+		return {
+			"X-Amz-Date": amzDate,
+			Authorization: `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+		};
+	}
+}
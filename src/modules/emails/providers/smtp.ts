@@ -1,62 +1,162 @@
+import { createPrivateKey } from "node:crypto";
 import nodemailer from "nodemailer";
-import { env } from "@/lib/env";
-import type { EmailProvider, SendEmailOptions } from "./base";
+import { z } from "zod";
+import { formatEmailAddress, getEmailDomain } from "../utils/address";
+import {
+	type EmailProvider,
+	EmailProviderError,
+	type SendEmailOptions,
+	type SendEmailResult,
+} from "./base";
+
+const requiredString = (message: string) =>
+	z.string({ required_error: message }).min(1, message);
+
+export const smtpConfigSchema = z.object({
+	host: requiredString("SMTP_HOST is required"),
+	port: requiredString("SMTP_PORT is required")
+		.regex(/^\d+$/, "SMTP_PORT must be a port number")
+		.transform(Number),
+	user: requiredString("SMTP_USER is required"),
+	pass: requiredString("SMTP_PASS is required"),
+	from: z
+		.string({ required_error: "SMTP_FROM is required" })
+		.email("SMTP_FROM must be a valid email address"),
+	dkim: z
+		.object({
+			selector: z.string().min(1),
+			privateKey: z.string().min(1),
+			// Defaults to the domain of each email's sender address
+			domain: z.string().optional(),
+		})
+		.optional(),
+});
+
+export type SmtpConfig = z.infer<typeof smtpConfigSchema>;
+
+// nodemailer error codes caused by the message itself, not by the transport
+const MESSAGE_ERROR_CODES = ["EENVELOPE", "EMESSAGE"];
+
+// What to check for nodemailer connection error codes
+const VERIFY_ERROR_HINTS: Record<string, string> = {
+	EAUTH: "check SMTP_USER and SMTP_PASS",
+	ECONNECTION: "check SMTP_HOST and SMTP_PORT",
+	EDNS: "check SMTP_HOST",
+	ESOCKET: "check SMTP_HOST and SMTP_PORT, port 465 uses TLS",
+	ETIMEDOUT: "check SMTP_HOST and SMTP_PORT",
+	ETLS: "check SMTP_PORT, port 465 uses TLS and 587 uses STARTTLS",
+};
 
 /**
  * SMTP Email Provider (Production)
  *
- * Uses nodemailer to send emails via SMTP. Reads credentials from environment variables.
+ * Uses nodemailer to send emails via SMTP.
  * Required env vars: SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS, SMTP_FROM
+ * Emails are DKIM-signed when SMTP_DKIM_SELECTOR and SMTP_DKIM_PRIVATE_KEY are set.
  */
 export class SmtpEmailProvider implements EmailProvider {
 	private transporter: nodemailer.Transporter;
-	private from: string;
-
-	constructor() {
-		// Validate required SMTP configuration
-		if (
-			!env.SMTP_HOST ||
-			!env.SMTP_PORT ||
-			!env.SMTP_USER ||
-			!env.SMTP_PASS ||
-			!env.SMTP_FROM
-		) {
-			throw new Error(
-				"Missing required SMTP configuration. Please check your environment variables.",
-			);
-		}
-
-		// Read SMTP config from environment variables
-		const host = env.SMTP_HOST;
-		const port = Number(env.SMTP_PORT);
-		const user = env.SMTP_USER;
-		const pass = env.SMTP_PASS;
-		this.from = env.SMTP_FROM;
 
-		// Create the nodemailer transporter
+	constructor(private readonly config: SmtpConfig) {
 		this.transporter = nodemailer.createTransport({
-			host,
-			port,
-			secure: port === 465, // true for 465, false for other ports
-			auth: { user, pass },
+			host: config.host,
+			port: config.port,
+			secure: config.port === 465, // true for 465, false for other ports
+			auth: { user: config.user, pass: config.pass },
 		});
 	}
 
-	async sendEmail(options: SendEmailOptions): Promise<void> {
+	/**
+	 * DKIM options for a sender, signed with the sender's domain by default
+	 */
+	private getDkimOptions(from: string) {
+		const { dkim } = this.config;
+
+		if (!dkim) {
+			return undefined;
+		}
+
+		return {
+			domainName: dkim.domain ?? getEmailDomain(from),
+			keySelector: dkim.selector,
+			privateKey: dkim.privateKey,
+		};
+	}
+
+	async sendEmail(options: SendEmailOptions): Promise<SendEmailResult> {
+		const from = options.from ?? this.config.from;
+
 		try {
-			await this.transporter.sendMail({
-				from: this.from,
+			const info = await this.transporter.sendMail({
+				from: formatEmailAddress(from, options.fromName),
 				to: options.to,
+				cc: options.cc,
+				bcc: options.bcc,
+				replyTo: options.replyTo,
 				subject: options.subject,
 				html: options.html,
 				text: options.text,
+				headers: {
+					...options.headers,
+					// SMTP has no native tags, expose them as a header instead
+					...(options.tags && {
+						"X-Email-Tags": Object.entries(options.tags)
+							.map(([name, value]) => `${name}=${value}`)
+							.join("; "),
+					}),
+				},
+				attachments: options.attachments?.map((attachment) => ({
+					filename: attachment.filename,
+					content: attachment.content,
+					encoding: "base64",
+					contentType: attachment.contentType,
+				})),
+				dkim: this.getDkimOptions(from),
 			});
 
 			console.log(`✅ SMTP email sent successfully to ${options.to}`);
+			return { provider: "smtp", messageId: info.messageId };
 		} catch (error) {
 			console.error("❌ SMTP email failed:", error);
-			throw new Error(
+			const { code, responseCode } = error as {
+				code?: string;
+				responseCode?: number;
+			};
+			throw new EmailProviderError(
 				`Failed to send email via SMTP: ${error instanceof Error ? error.message : "Unknown error"}`,
+				{
+					provider: "smtp",
+					status: responseCode,
+					retryable: !code || !MESSAGE_ERROR_CODES.includes(code),
+				},
+			);
+		}
+	}
+
+	/**
+	 * Check the DKIM key and that the server accepts the credentials
+	 */
+	async verify(): Promise<void> {
+		if (this.config.dkim) {
+			try {
+				createPrivateKey(this.config.dkim.privateKey);
+			} catch {
+				throw new EmailProviderError(
+					"SMTP_DKIM_PRIVATE_KEY is not a valid private key",
+					{ provider: "smtp", retryable: false },
+				);
+			}
+		}
+
+		try {
+			await this.transporter.verify();
+		} catch (error) {
+			const { code } = error as { code?: string };
+			const hint = code ? VERIFY_ERROR_HINTS[code] : undefined;
+
+			throw new EmailProviderError(
+				`SMTP server ${this.config.host}:${this.config.port} rejected the connection: ${error instanceof Error ? error.message : "Unknown error"}${hint ? ` (${hint})` : ""}`,
+				{ provider: "smtp", retryable: code !== "EAUTH" },
 			);
 		}
 	}
@@ -0,0 +1,54 @@
+import {
+	type EmailProvider,
+	EmailProviderError,
+	type SendEmailOptions,
+	type SendEmailResult,
+} from "./base";
+
+/**
+ * Suppression List Email Provider
+ *
+ * Wraps the configured provider and skips suppressed addresses:
+ * - A suppressed `to` fails with a non-retryable error, the email is never sent
+ * - Suppressed cc/bcc addresses are dropped from the email
+ */
+export class SuppressionListEmailProvider implements EmailProvider {
+	constructor(
+		private readonly provider: EmailProvider,
+		private readonly getSuppressedEmails: (
+			emails: string[],
+		) => Promise<string[]>,
+	) {}
+
+	async verify(): Promise<void> {
+		await this.provider.verify?.();
+	}
+
+	async sendEmail(options: SendEmailOptions): Promise<SendEmailResult> {
+		const recipients = [
+			options.to,
+			...(options.cc ?? []),
+			...(options.bcc ?? []),
+		];
+		const suppressed = new Set(await this.getSuppressedEmails(recipients));
+
+		if (suppressed.size === 0) {
+			return this.provider.sendEmail(options);
+		}
+
+		const isSuppressed = (email: string) => suppressed.has(email.toLowerCase());
+
+		if (isSuppressed(options.to)) {
+			throw new EmailProviderError("Recipient is on the suppression list", {
+				provider: "suppression",
+				retryable: false,
+			});
+		}
+
+		return this.provider.sendEmail({
+			...options,
+			cc: options.cc?.filter((email) => !isSuppressed(email)),
+			bcc: options.bcc?.filter((email) => !isSuppressed(email)),
+		});
+	}
+}
@@ -0,0 +1,478 @@
+import type { ReactElement } from "react";
+import { env } from "@/lib/env";
+import enMessages from "@/messages/en.json";
+import esMessages from "@/messages/es.json";
+import type { SupportedLocale } from "@/modules/i18n/routing";
+import { isLocaleSupported } from "@/modules/i18n/utils";
+import { type EmailBranding, getEmailBranding } from "../branding";
+import { EMAIL_CONFIG, EmailSender, type EmailTemplateType } from "../config";
+import { getSupportAddress } from "../inbound/reply-to";
+import { enqueueEmail } from "../outbox";
+import { checkEmailPreference, EmailCategory } from "../preferences";
+import { type EmailDeliveryOptions, getSenderAddress } from "../providers";
+import EmailVerification from "../templates/email-verification";
+import InvitationEmail from "../templates/invitation";
+import InvitationExpiringEmail from "../templates/invitation-expiring";
+import InvitationReplyEmail from "../templates/invitation-reply";
+import PasswordResetEmail from "../templates/password-reset";
+import PaymentFailedEmail from "../templates/payment-failed";
+import RenewalReminderEmail from "../templates/renewal-reminder";
+import SubscriptionCancellationEmail from "../templates/subscription-cancellation";
+import SubscriptionDowngradedEmail from "../templates/subscription-downgraded";
+import SubscriptionUpgradeEmail from "../templates/subscription-upgrade";
+import TrialEndingEmail from "../templates/trial-ending";
+import WeeklyDigestEmail from "../templates/weekly-digest";
+import WelcomeEmail from "../templates/welcome";
+import { type RenderedEmail, renderEmail } from "../utils/render";
+import { replaceVariables } from "../utils/variables";
+
+/**
+ * Email Template Registry
+ *
+ * Declares, for every email template type, the React Email component,
+ * the messages namespace, the category recipients can opt out of and the
+ * variables the subject needs. `sendTemplatedEmail` does the rest:
+ * - Picks the messages of the recipient's locale
+ * - Checks the recipient's preferences and applies the organization branding
+ * - Renders the template and queues it in the outbox
+ */
+
+type EmailMessages = typeof enMessages.email;
+
+export type EmailMessagesNamespace = keyof EmailMessages;
+
+/**
+ * Email messages of every supported locale
+ *
+ * Typed against the English messages, so a key missing in another locale
+ * fails the type-check.
+ */
+const emailMessages = {
+	en: enMessages.email,
+	es: esMessages.email,
+} satisfies Record<SupportedLocale, EmailMessages>;
+
+/**
+ * Props the registry provides to every template
+ */
+type EmailTemplateContextProps =
+	| "appName"
+	| "logoUrl"
+	| "primaryColor"
+	| "footerText"
+	| "unsubscribeUrl"
+	| "locale"
+	| "translations";
+
+/**
+ * Variables a caller has to provide to render a template component
+ */
+type TemplateVariables<C extends (props: never) => ReactElement> = Omit<
+	Parameters<C>[0],
+	EmailTemplateContextProps
+>;
+
+export interface EmailTemplateContext<N extends EmailMessagesNamespace> {
+	appName: string;
+	locale: SupportedLocale;
+	translations: EmailMessages[N];
+	branding: EmailBranding;
+	unsubscribeUrl?: string;
+}
+
+export interface EmailTemplateDefinition<
+	N extends EmailMessagesNamespace,
+	V extends object,
+> {
+	/**
+	 * Messages namespace under `email`, passed to the template as translations
+	 */
+	namespace: N;
+	/**
+	 * Category recipients can opt out of, transactional emails are always sent
+	 */
+	category: EmailCategory;
+	/**
+	 * Address the email is sent from, no-reply by default
+	 */
+	sender?: EmailSender;
+	/**
+	 * Variables interpolated in the subject besides `appName`
+	 */
+	subjectVariables?: (keyof V & string)[];
+	render: (variables: V, context: EmailTemplateContext<N>) => ReactElement;
+	/**
+	 * Delivery options derived from the variables (e.g. reply-to)
+	 */
+	deliveryOptions?: (variables: V) => EmailDeliveryOptions;
+}
+
+function defineEmailTemplate<
+	N extends EmailMessagesNamespace,
+	V extends object,
+>(definition: EmailTemplateDefinition<N, V>) {
+	return definition;
+}
+
+const brandingProps = ({
+	branding,
+	unsubscribeUrl,
+}: EmailTemplateContext<EmailMessagesNamespace>) => ({
+	logoUrl: branding.logoUrl,
+	primaryColor: branding.primaryColor,
+	footerText: branding.footerText,
+	unsubscribeUrl,
+});
+
+export const emailTemplates = {
+	verification: defineEmailTemplate({
+		namespace: "verification",
+		category: EmailCategory.TRANSACTIONAL,
+		render: (variables: TemplateVariables<typeof EmailVerification>, context) =>
+			EmailVerification({
+				expirationHours: EMAIL_CONFIG.templates.verification.expirationHours,
+				...variables,
+				appName: context.appName,
+				logoUrl: context.branding.logoUrl,
+				locale: context.locale,
+				translations: context.translations,
+			}),
+	}),
+	passwordReset: defineEmailTemplate({
+		namespace: "passwordReset",
+		category: EmailCategory.TRANSACTIONAL,
+		render: (
+			variables: TemplateVariables<typeof PasswordResetEmail>,
+			context,
+		) =>
+			PasswordResetEmail({
+				expirationHours: EMAIL_CONFIG.templates.passwordReset.expirationHours,
+				...variables,
+				appName: context.appName,
+				logoUrl: context.branding.logoUrl,
+				locale: context.locale,
+				translations: context.translations,
+			}),
+	}),
+	invitation: defineEmailTemplate({
+		namespace: "invitation",
+		category: EmailCategory.TEAM,
+		subjectVariables: ["organizationName"],
+		render: (variables: TemplateVariables<typeof InvitationEmail>, context) =>
+			InvitationEmail({
+				...variables,
+				...brandingProps(context),
+				appName: context.appName,
+				locale: context.locale,
+				translations: context.translations,
+			}),
+		// Replies go straight to the person who sent the invitation
+		deliveryOptions: ({ inviterEmail }) => ({ replyTo: inviterEmail }),
+	}),
+	invitationReply: defineEmailTemplate({
+		namespace: "invitationReply",
+		// The inviter is answering a person they invited, never opted out
+		category: EmailCategory.TRANSACTIONAL,
+		subjectVariables: ["senderName", "organizationName"],
+		render: (
+			variables: TemplateVariables<typeof InvitationReplyEmail>,
+			context,
+		) =>
+			InvitationReplyEmail({
+				...variables,
+				appName: context.appName,
+				logoUrl: context.branding.logoUrl,
+				primaryColor: context.branding.primaryColor,
+				footerText: context.branding.footerText,
+				locale: context.locale,
+				translations: context.translations,
+			}),
+		// Replies go straight to the invitee
+		deliveryOptions: ({ senderEmail }) => ({ replyTo: senderEmail }),
+	}),
+	welcome: defineEmailTemplate({
+		namespace: "welcome",
+		category: EmailCategory.TRANSACTIONAL,
+		render: (variables: TemplateVariables<typeof WelcomeEmail>, context) =>
+			WelcomeEmail({
+				...variables,
+				appName: context.appName,
+				logoUrl: context.branding.logoUrl,
+				locale: context.locale,
+				translations: context.translations,
+			}),
+	}),
+	subscriptionUpgrade: defineEmailTemplate({
+		namespace: "subscription",
+		category: EmailCategory.BILLING,
+		sender: EmailSender.BILLING,
+		render: (
+			variables: TemplateVariables<typeof SubscriptionUpgradeEmail>,
+			context,
+		) =>
+			SubscriptionUpgradeEmail({
+				...variables,
+				...brandingProps(context),
+				appName: context.appName,
+				locale: context.locale,
+				translations: context.translations,
+			}),
+	}),
+	subscriptionCancellation: defineEmailTemplate({
+		namespace: "subscriptionCancellation",
+		category: EmailCategory.BILLING,
+		sender: EmailSender.BILLING,
+		render: (
+			variables: TemplateVariables<typeof SubscriptionCancellationEmail>,
+			context,
+		) =>
+			SubscriptionCancellationEmail({
+				...variables,
+				...brandingProps(context),
+				appName: context.appName,
+				locale: context.locale,
+				translations: context.translations,
+			}),
+	}),
+	trialEnding: defineEmailTemplate({
+		namespace: "trialEnding",
+		category: EmailCategory.BILLING,
+		sender: EmailSender.BILLING,
+		subjectVariables: ["daysLeft"],
+		render: (variables: TemplateVariables<typeof TrialEndingEmail>, context) =>
+			TrialEndingEmail({
+				...variables,
+				...brandingProps(context),
+				appName: context.appName,
+				locale: context.locale,
+				translations: context.translations,
+			}),
+	}),
+	renewalReminder: defineEmailTemplate({
+		namespace: "renewalReminder",
+		category: EmailCategory.BILLING,
+		sender: EmailSender.BILLING,
+		subjectVariables: ["renewalDate"],
+		render: (
+			variables: TemplateVariables<typeof RenewalReminderEmail>,
+			context,
+		) =>
+			RenewalReminderEmail({
+				...variables,
+				...brandingProps(context),
+				appName: context.appName,
+				locale: context.locale,
+				translations: context.translations,
+			}),
+	}),
+	paymentFailed: defineEmailTemplate({
+		namespace: "paymentFailed",
+		// The plan depends on it, recipients can't opt out
+		category: EmailCategory.TRANSACTIONAL,
+		sender: EmailSender.BILLING,
+		render: (
+			variables: TemplateVariables<typeof PaymentFailedEmail>,
+			context,
+		) =>
+			PaymentFailedEmail({
+				...variables,
+				appName: context.appName,
+				logoUrl: context.branding.logoUrl,
+				primaryColor: context.branding.primaryColor,
+				footerText: context.branding.footerText,
+				locale: context.locale,
+				translations: context.translations,
+			}),
+	}),
+	subscriptionDowngraded: defineEmailTemplate({
+		namespace: "subscriptionDowngraded",
+		category: EmailCategory.TRANSACTIONAL,
+		sender: EmailSender.BILLING,
+		render: (
+			variables: TemplateVariables<typeof SubscriptionDowngradedEmail>,
+			context,
+		) =>
+			SubscriptionDowngradedEmail({
+				...variables,
+				appName: context.appName,
+				logoUrl: context.branding.logoUrl,
+				primaryColor: context.branding.primaryColor,
+				footerText: context.branding.footerText,
+				locale: context.locale,
+				translations: context.translations,
+			}),
+	}),
+	invitationExpiring: defineEmailTemplate({
+		namespace: "invitationExpiring",
+		category: EmailCategory.TEAM,
+		subjectVariables: ["organizationName"],
+		render: (
+			variables: TemplateVariables<typeof InvitationExpiringEmail>,
+			context,
+		) =>
+			InvitationExpiringEmail({
+				...variables,
+				...brandingProps(context),
+				appName: context.appName,
+				locale: context.locale,
+				translations: context.translations,
+			}),
+	}),
+	weeklyDigest: defineEmailTemplate({
+		namespace: "weeklyDigest",
+		category: EmailCategory.TEAM,
+		subjectVariables: ["organizationName"],
+		render: (variables: TemplateVariables<typeof WeeklyDigestEmail>, context) =>
+			WeeklyDigestEmail({
+				...variables,
+				...brandingProps(context),
+				appName: context.appName,
+				locale: context.locale,
+				translations: context.translations,
+			}),
+	}),
+} satisfies Record<EmailTemplateType, unknown>;
+
+/**
+ * Variables required to send an email template
+ */
+export type EmailTemplateVariables<T extends EmailTemplateType> = Parameters<
+	(typeof emailTemplates)[T]["render"]
+>[0];
+
+const getTemplate = <T extends EmailTemplateType>(type: T) =>
+	emailTemplates[type] as unknown as EmailTemplateDefinition<
+		EmailMessagesNamespace,
+		EmailTemplateVariables<T>
+	>;
+
+export interface RenderTemplatedEmailOptions {
+	locale?: string;
+	branding?: EmailBranding;
+	unsubscribeUrl?: string;
+}
+
+export interface RenderedTemplatedEmail extends RenderedEmail {
+	subject: string;
+}
+
+/**
+ * Render an email template with the messages of a locale
+ *
+ * Unsupported locales fall back to English.
+ */
+export async function renderTemplatedEmail<T extends EmailTemplateType>(
+	type: T,
+	variables: EmailTemplateVariables<T>,
+	{ locale = "en", branding, unsubscribeUrl }: RenderTemplatedEmailOptions = {},
+): Promise<RenderedTemplatedEmail> {
+	const template = getTemplate(type);
+	const validLocale = isLocaleSupported(locale) ? locale : "en";
+	const translations: EmailMessages[EmailMessagesNamespace] =
+		emailMessages[validLocale][template.namespace];
+
+	const subject = replaceVariables(translations.subject, {
+		appName: env.NEXT_PUBLIC_APP_NAME,
+		...Object.fromEntries(
+			(template.subjectVariables ?? []).map((key) => [
+				key,
+				String(variables[key]),
+			]),
+		),
+	});
+
+	const { html, text } = await renderEmail(
+		template.render(variables, {
+			appName: env.NEXT_PUBLIC_APP_NAME,
+			locale: validLocale,
+			translations,
+			branding: branding ?? (await getEmailBranding()),
+			unsubscribeUrl,
+		}),
+	);
+
+	return { subject, html, text };
+}
+
+export interface SendTemplatedEmailOptions extends EmailDeliveryOptions {
+	to: string;
+	locale?: string;
+	/**
+	 * Organization the email is sent for, its email branding is applied
+	 */
+	organizationId?: string | null;
+}
+
+/**
+ * Render an email template and queue it in the outbox
+ *
+ * Skips the email when the recipient turned its category off.
+ */
+export async function sendTemplatedEmail<T extends EmailTemplateType>(
+	type: T,
+	variables: EmailTemplateVariables<T>,
+	{
+		to,
+		locale = "en",
+		organizationId,
+		...deliveryOptions
+	}: SendTemplatedEmailOptions,
+): Promise<void> {
+	const template = getTemplate(type);
+	const validLocale = isLocaleSupported(locale) ? locale : "en";
+
+	try {
+		// Non-transactional emails can be turned off by the recipient
+		const preference = await checkEmailPreference(
+			to,
+			template.category,
+			validLocale,
+		);
+		if (!preference.enabled) {
+			console.log(
+				`⏭️ Skipping ${type} email for ${to}, ${template.category} emails are turned off`,
+			);
+			return;
+		}
+
+		// Logo, color, sender name and footer of the organization, if any
+		const branding = await getEmailBranding(organizationId);
+
+		const { subject, html, text } = await renderTemplatedEmail(
+			type,
+			variables,
+			{
+				locale: validLocale,
+				branding,
+				unsubscribeUrl: preference.unsubscribeUrl,
+			},
+		);
+
+		const headers = preference.headers
+			? { ...deliveryOptions.headers, ...preference.headers }
+			: deliveryOptions.headers;
+
+		// Queue the email in the outbox, which delivers it and retries on failure
+		await enqueueEmail(
+			{
+				from: getSenderAddress(template.sender),
+				fromName: branding.senderName,
+				// Replies reach the support inbox when inbound email is configured
+				replyTo: getSupportAddress(organizationId ?? undefined),
+				...template.deliveryOptions?.(variables),
+				...deliveryOptions,
+				headers,
+				to,
+				subject,
+				html,
+				text,
+			},
+			{ template: type, locale: validLocale },
+		);
+
+		console.log(`✅ ${type} email queued for ${to} in ${validLocale}`);
+	} catch (error) {
+		console.error(`❌ Failed to send ${type} email:`, error);
+		throw new Error(`Failed to send ${type} email`);
+	}
+}
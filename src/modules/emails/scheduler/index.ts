@@ -0,0 +1,502 @@
+import { and, count, eq, gt, gte, inArray, isNull, lte, or } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { db } from "@/lib/db";
+import * as schema from "@/lib/db/schema";
+import { env } from "@/lib/env";
+import {
+	DunningStep,
+	getDueDunningStep,
+	getGraceEnd,
+} from "@/modules/billing/dunning";
+import { EMAIL_CONFIG, type EmailTemplateType } from "../config";
+import { sendTemplatedEmail } from "../registry";
+import { getIsoWeek, getScheduledEmailKey } from "./keys";
+
+/**
+ * Scheduled Emails
+ *
+ * Time-based emails that no auth or Stripe event triggers:
+ * - Trial ending and upcoming renewal reminders to the organization owner
+ * - The failed payment sequence of past due subscriptions, up to the
+ *   downgrade notice when their grace period ends
+ * - Reminders for pending invitations about to expire
+ * - A weekly activity digest for organization owners and admins
+ *
+ * Every email is claimed in the scheduled_email table under an idempotency
+ * key before it is sent, so overlapping or repeated runs never send it twice.
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export interface ScheduledEmailsResult {
+	trialEnding: number;
+	renewalReminder: number;
+	paymentFailed: number;
+	invitationExpiring: number;
+	weeklyDigest: number;
+}
+
+/**
+ * Send an email unless its key was already claimed
+ *
+ * Returns true when the email was sent by this call. A failed send releases
+ * the claim and throws, so a retry sends it.
+ */
+export async function sendEmailOnce(
+	key: string,
+	type: EmailTemplateType,
+	send: () => Promise<void>,
+): Promise<boolean> {
+	const [claimed] = await db
+		.insert(schema.scheduledEmail)
+		.values({ id: nanoid(), key, template: type })
+		.onConflictDoNothing()
+		.returning({ id: schema.scheduledEmail.id });
+
+	if (!claimed) {
+		return false;
+	}
+
+	try {
+		await send();
+		return true;
+	} catch (error) {
+		await db
+			.delete(schema.scheduledEmail)
+			.where(eq(schema.scheduledEmail.id, claimed.id));
+		throw error;
+	}
+}
+
+/**
+ * Send a scheduled email once, a failed send is tried again on the next run
+ */
+async function sendOnce(
+	key: string,
+	type: EmailTemplateType,
+	send: () => Promise<void>,
+): Promise<boolean> {
+	try {
+		return await sendEmailOnce(key, type, send);
+	} catch (error) {
+		console.error(`❌ Failed to send scheduled email ${key}:`, error);
+		return false;
+	}
+}
+
+/**
+ * Billing emails go to the owner of the subscribed organization
+ */
+async function getOrganizationOwner(organizationId: string) {
+	const [owner] = await db
+		.select({
+			email: schema.user.email,
+			name: schema.user.name,
+			language: schema.user.language,
+		})
+		.from(schema.member)
+		.innerJoin(schema.user, eq(schema.user.id, schema.member.userId))
+		.where(
+			and(
+				eq(schema.member.organizationId, organizationId),
+				eq(schema.member.role, "owner"),
+			),
+		)
+		.limit(1);
+
+	return owner;
+}
+
+/**
+ * Remind owners of trialing subscriptions that their trial ends soon
+ */
+export async function sendTrialEndingReminders(now = new Date()) {
+	const { daysBefore } = EMAIL_CONFIG.templates.trialEnding;
+
+	const subscriptions = await db
+		.select()
+		.from(schema.subscription)
+		.where(
+			and(
+				eq(schema.subscription.status, "trialing"),
+				gt(schema.subscription.trialEnd, now),
+				lte(
+					schema.subscription.trialEnd,
+					new Date(now.getTime() + daysBefore * DAY_MS),
+				),
+			),
+		);
+
+	let sent = 0;
+
+	for (const subscription of subscriptions) {
+		const { trialEnd, referenceId } = subscription;
+		const owner = await getOrganizationOwner(referenceId);
+
+		if (!trialEnd || !owner) {
+			continue;
+		}
+
+		const locale = owner.language ?? "en";
+		const key = getScheduledEmailKey("trialEnding", subscription.id, trialEnd);
+
+		const wasSent = await sendOnce(key, "trialEnding", () =>
+			sendTemplatedEmail(
+				"trialEnding",
+				{
+					userName: owner.name,
+					planName: subscription.plan,
+					trialEndDate: trialEnd.toLocaleDateString(locale),
+					daysLeft: Math.ceil((trialEnd.getTime() - now.getTime()) / DAY_MS),
+					billingUrl: `${env.NEXT_PUBLIC_APP_URL}/${locale}/account/billing`,
+				},
+				{ to: owner.email, locale, organizationId: referenceId },
+			),
+		);
+
+		if (wasSent) {
+			sent++;
+		}
+	}
+
+	return sent;
+}
+
+/**
+ * Remind owners of active subscriptions that they renew soon
+ */
+export async function sendRenewalReminders(now = new Date()) {
+	const { daysBefore } = EMAIL_CONFIG.templates.renewalReminder;
+
+	const subscriptions = await db
+		.select()
+		.from(schema.subscription)
+		.where(
+			and(
+				eq(schema.subscription.status, "active"),
+				// Subscriptions cancelled at period end won't renew
+				or(
+					isNull(schema.subscription.cancelAtPeriodEnd),
+					eq(schema.subscription.cancelAtPeriodEnd, false),
+				),
+				gt(schema.subscription.periodEnd, now),
+				lte(
+					schema.subscription.periodEnd,
+					new Date(now.getTime() + daysBefore * DAY_MS),
+				),
+			),
+		);
+
+	let sent = 0;
+
+	for (const subscription of subscriptions) {
+		const { periodEnd, referenceId } = subscription;
+		const owner = await getOrganizationOwner(referenceId);
+
+		if (!periodEnd || !owner) {
+			continue;
+		}
+
+		const locale = owner.language ?? "en";
+		const key = getScheduledEmailKey(
+			"renewalReminder",
+			subscription.id,
+			periodEnd,
+		);
+
+		const wasSent = await sendOnce(key, "renewalReminder", () =>
+			sendTemplatedEmail(
+				"renewalReminder",
+				{
+					userName: owner.name,
+					planName: subscription.plan,
+					renewalDate: periodEnd.toLocaleDateString(locale),
+					billingUrl: `${env.NEXT_PUBLIC_APP_URL}/${locale}/account/billing`,
+				},
+				{ to: owner.email, locale, organizationId: referenceId },
+			),
+		);
+
+		if (wasSent) {
+			sent++;
+		}
+	}
+
+	return sent;
+}
+
+/**
+ * Send the due email of the failed payment sequence to the owners of
+ * subscriptions with an open dunning episode
+ *
+ * Pass a subscription id to only send its email, e.g. right after Stripe
+ * reported the failure.
+ */
+export async function sendPaymentFailedReminders(
+	now = new Date(),
+	subscriptionId?: string,
+) {
+	const graceDays = env.DUNNING_GRACE_DAYS;
+
+	const episodes = await db
+		.select({
+			id: schema.subscriptionDunning.id,
+			failedAt: schema.subscriptionDunning.failedAt,
+			invoiceUrl: schema.subscriptionDunning.invoiceUrl,
+			referenceId: schema.subscription.referenceId,
+			plan: schema.subscription.plan,
+		})
+		.from(schema.subscriptionDunning)
+		.innerJoin(
+			schema.subscription,
+			eq(schema.subscription.id, schema.subscriptionDunning.subscriptionId),
+		)
+		.where(
+			and(
+				isNull(schema.subscriptionDunning.resolvedAt),
+				subscriptionId
+					? eq(schema.subscriptionDunning.subscriptionId, subscriptionId)
+					: undefined,
+			),
+		);
+
+	let sent = 0;
+
+	for (const episode of episodes) {
+		const owner = await getOrganizationOwner(episode.referenceId);
+
+		if (!owner) {
+			continue;
+		}
+
+		const locale = owner.language ?? "en";
+		const step = getDueDunningStep(episode.failedAt, graceDays, now);
+		const graceEndDate = getGraceEnd(
+			episode.failedAt,
+			graceDays,
+		).toLocaleDateString(locale);
+		const billingUrl = `${env.NEXT_PUBLIC_APP_URL}/${locale}/account/billing`;
+		const options = {
+			to: owner.email,
+			locale,
+			organizationId: episode.referenceId,
+		};
+
+		const wasSent =
+			step === DunningStep.DOWNGRADED
+				? await sendOnce(
+						getScheduledEmailKey("subscriptionDowngraded", episode.id),
+						"subscriptionDowngraded",
+						() =>
+							sendTemplatedEmail(
+								"subscriptionDowngraded",
+								{
+									userName: owner.name,
+									planName: episode.plan,
+									billingUrl,
+									invoiceUrl: episode.invoiceUrl ?? undefined,
+								},
+								options,
+							),
+					)
+				: await sendOnce(
+						getScheduledEmailKey("paymentFailed", episode.id, step),
+						"paymentFailed",
+						() =>
+							sendTemplatedEmail(
+								"paymentFailed",
+								{
+									userName: owner.name,
+									planName: episode.plan,
+									step,
+									graceEndDate,
+									billingUrl,
+									invoiceUrl: episode.invoiceUrl ?? undefined,
+								},
+								options,
+							),
+					);
+
+		if (wasSent) {
+			sent++;
+		}
+	}
+
+	return sent;
+}
+
+/**
+ * Remind invitees of pending invitations that are about to expire
+ */
+export async function sendInvitationExpiringReminders(now = new Date()) {
+	const { hoursBefore } = EMAIL_CONFIG.templates.invitationExpiring;
+
+	const invitations = await db
+		.select({
+			id: schema.invitation.id,
+			email: schema.invitation.email,
+			expiresAt: schema.invitation.expiresAt,
+			organizationId: schema.invitation.organizationId,
+			organizationName: schema.organization.name,
+			inviterName: schema.user.name,
+			inviterLanguage: schema.user.language,
+		})
+		.from(schema.invitation)
+		.innerJoin(
+			schema.organization,
+			eq(schema.organization.id, schema.invitation.organizationId),
+		)
+		.innerJoin(schema.user, eq(schema.user.id, schema.invitation.inviterId))
+		.where(
+			and(
+				eq(schema.invitation.status, "pending"),
+				gt(schema.invitation.expiresAt, now),
+				lte(
+					schema.invitation.expiresAt,
+					new Date(now.getTime() + hoursBefore * HOUR_MS),
+				),
+			),
+		);
+
+	let sent = 0;
+
+	for (const invitation of invitations) {
+		// Invitees may not have an account yet, use the inviter's language
+		const locale = invitation.inviterLanguage ?? "en";
+		const key = getScheduledEmailKey("invitationExpiring", invitation.id);
+
+		const wasSent = await sendOnce(key, "invitationExpiring", () =>
+			sendTemplatedEmail(
+				"invitationExpiring",
+				{
+					organizationName: invitation.organizationName,
+					inviterName: invitation.inviterName,
+					inviteLink: `${env.NEXT_PUBLIC_APP_URL}/auth/accept-invitation?invitationId=${invitation.id}`,
+					expirationDate: invitation.expiresAt.toLocaleDateString(locale),
+				},
+				{
+					to: invitation.email,
+					locale,
+					organizationId: invitation.organizationId,
+				},
+			),
+		);
+
+		if (wasSent) {
+			sent++;
+		}
+	}
+
+	return sent;
+}
+
+/**
+ * Send the weekly activity digest to the owners and admins of every
+ * organization that had activity, once per ISO week
+ */
+export async function sendWeeklyDigests(now = new Date()) {
+	const { periodDays } = EMAIL_CONFIG.templates.weeklyDigest;
+	const periodStart = new Date(now.getTime() - periodDays * DAY_MS);
+	const week = getIsoWeek(now);
+
+	const organizations = await db
+		.select({ id: schema.organization.id, name: schema.organization.name })
+		.from(schema.organization);
+
+	let sent = 0;
+
+	for (const organization of organizations) {
+		const newMembers = await db
+			.select({ name: schema.user.name })
+			.from(schema.member)
+			.innerJoin(schema.user, eq(schema.user.id, schema.member.userId))
+			.where(
+				and(
+					eq(schema.member.organizationId, organization.id),
+					gte(schema.member.createdAt, periodStart),
+				),
+			);
+
+		const [{ pendingInvitations }] = await db
+			.select({ pendingInvitations: count() })
+			.from(schema.invitation)
+			.where(
+				and(
+					eq(schema.invitation.organizationId, organization.id),
+					eq(schema.invitation.status, "pending"),
+					gt(schema.invitation.expiresAt, now),
+				),
+			);
+
+		// Nothing to report
+		if (newMembers.length === 0 && pendingInvitations === 0) {
+			continue;
+		}
+
+		const managers = await db
+			.select({
+				id: schema.user.id,
+				email: schema.user.email,
+				name: schema.user.name,
+				language: schema.user.language,
+			})
+			.from(schema.member)
+			.innerJoin(schema.user, eq(schema.user.id, schema.member.userId))
+			.where(
+				and(
+					eq(schema.member.organizationId, organization.id),
+					inArray(schema.member.role, ["owner", "admin"]),
+				),
+			);
+
+		for (const manager of managers) {
+			const locale = manager.language ?? "en";
+			const key = getScheduledEmailKey(
+				"weeklyDigest",
+				organization.id,
+				manager.id,
+				week,
+			);
+
+			const wasSent = await sendOnce(key, "weeklyDigest", () =>
+				sendTemplatedEmail(
+					"weeklyDigest",
+					{
+						userName: manager.name,
+						organizationName: organization.name,
+						newMembers: newMembers.map((member) => member.name),
+						pendingInvitations,
+						dashboardUrl: `${env.NEXT_PUBLIC_APP_URL}/${locale}/dashboard`,
+					},
+					{ to: manager.email, locale, organizationId: organization.id },
+				),
+			);
+
+			if (wasSent) {
+				sent++;
+			}
+		}
+	}
+
+	return sent;
+}
+
+/**
+ * Scheduler worker
+ *
+ * Sends every scheduled email that is due and reports how many of each were sent.
+ */
+export async function processScheduledEmails(
+	now = new Date(),
+): Promise<ScheduledEmailsResult> {
+	return {
+		trialEnding: await sendTrialEndingReminders(now),
+		renewalReminder: await sendRenewalReminders(now),
+		paymentFailed: await sendPaymentFailedReminders(now),
+		invitationExpiring: await sendInvitationExpiringReminders(now),
+		weeklyDigest: await sendWeeklyDigests(now),
+	};
+}
+
+export { getIsoWeek, getScheduledEmailKey } from "./keys";
@@ -0,0 +1,38 @@
+import type { EmailTemplateType } from "../config";
+
+/**
+ * Get the ISO 8601 week of a date, e.g. "2026-W03"
+ *
+ * Weeks start on Monday and the first week of the year contains its first
+ * Thursday, so the last days of December may belong to week 1 of next year.
+ */
+export function getIsoWeek(date: Date): string {
+	const day = new Date(
+		Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+	);
+	// Move to the Thursday of the same week, which decides the year
+	day.setUTCDate(day.getUTCDate() + 4 - (day.getUTCDay() || 7));
+
+	const yearStart = Date.UTC(day.getUTCFullYear(), 0, 1);
+	const week = Math.ceil(
+		((day.getTime() - yearStart) / (24 * 60 * 60 * 1000) + 1) / 7,
+	);
+
+	return `${day.getUTCFullYear()}-W${String(week).padStart(2, "0")}`;
+}
+
+/**
+ * Build the idempotency key of a scheduled email
+ *
+ * The parts identify the occurrence (e.g. subscription id and trial end), so
+ * a moved trial end or a new billing period gets a new reminder.
+ */
+export function getScheduledEmailKey(
+	type: EmailTemplateType,
+	...parts: (string | Date)[]
+): string {
+	return [
+		type,
+		...parts.map((part) => (part instanceof Date ? part.toISOString() : part)),
+	].join(":");
+}
@@ -0,0 +1,224 @@
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { PlanFeature } from "@/modules/billing/plans";
+import { hasFeature } from "@/modules/billing/server/entitlements";
+import { supportedLocales } from "@/modules/i18n/routing";
+import {
+	adminProcedure,
+	baseProcedure,
+	createTRPCRouter,
+	organizationAdminProcedure,
+	protectedProcedure,
+} from "@/trpc/init";
+import {
+	createEmailBrandingSchema,
+	getEmailBrandingSettings,
+	updateEmailBranding,
+} from "../branding";
+import { EMAIL_TEMPLATE_TYPES } from "../config";
+import {
+	InboundEmailKind,
+	InboundEmailStatus,
+	listInboundEmails,
+	setInboundEmailResolved,
+} from "../inbound";
+import { getEmailInbox, isEmailInboxEnabled } from "../inbox";
+import { EmailMessageStatus, listEmailMessages } from "../messages";
+import {
+	EMAIL_PREFERENCE_CATEGORIES,
+	getEmailPreferences,
+	setEmailPreference,
+	unsubscribeWithToken,
+} from "../preferences";
+import {
+	EMAIL_PREVIEW_TEMPLATES,
+	renderEmailPreview,
+	sendEmailPreview,
+} from "../preview";
+import { EmailProviderError } from "../providers";
+
+const emailPreviewInput = z.object({
+	template: z.enum(EMAIL_PREVIEW_TEMPLATES),
+	locale: z.enum(supportedLocales),
+});
+
+// The local inbox is readable without signing in, but never in production
+const devInboxProcedure = baseProcedure.use(({ next }) => {
+	if (!isEmailInboxEnabled()) {
+		throw new TRPCError({ code: "NOT_FOUND" });
+	}
+
+	return next();
+});
+
+export const emailsRouter = createTRPCRouter({
+	// Delivery log for support, filtered by status, template or recipient/subject
+	listMessages: adminProcedure
+		.input(
+			z.object({
+				status: z.nativeEnum(EmailMessageStatus).optional(),
+				template: z.enum(EMAIL_TEMPLATE_TYPES).optional(),
+				search: z.string().trim().max(200).optional(),
+				page: z.number().int().min(1).default(1),
+				pageSize: z.number().int().min(1).max(100).default(25),
+			}),
+		)
+		.query(async ({ input }) => {
+			const { messages, total } = await listEmailMessages(input);
+
+			return {
+				total,
+				messages: messages.map((message) => ({
+					id: message.id,
+					recipient: message.recipient,
+					template: message.template,
+					locale: message.locale,
+					subject: message.subject,
+					provider: message.provider,
+					providerMessageId: message.providerMessageId,
+					status: message.status as EmailMessageStatus,
+					error: message.error,
+					createdAt: message.createdAt.toISOString(),
+					sentAt: message.sentAt?.toISOString() ?? null,
+				})),
+			};
+		}),
+
+	// Support messages and invitation replies received on the inbound domain
+	listInbound: adminProcedure
+		.input(
+			z.object({
+				kind: z.nativeEnum(InboundEmailKind).optional(),
+				status: z.nativeEnum(InboundEmailStatus).optional(),
+				search: z.string().trim().max(200).optional(),
+				page: z.number().int().min(1).default(1),
+				pageSize: z.number().int().min(1).max(100).default(25),
+			}),
+		)
+		.query(async ({ input }) => {
+			const { emails, total } = await listInboundEmails(input);
+
+			return {
+				total,
+				emails: emails.map(({ email, userName, organizationName }) => ({
+					id: email.id,
+					kind: email.kind as InboundEmailKind,
+					fromAddress: email.fromAddress,
+					fromName: email.fromName,
+					toAddress: email.toAddress,
+					subject: email.subject,
+					text: email.text,
+					html: email.html,
+					userName,
+					organizationName,
+					status: email.resolvedAt
+						? InboundEmailStatus.RESOLVED
+						: InboundEmailStatus.OPEN,
+					createdAt: email.createdAt.toISOString(),
+				})),
+			};
+		}),
+
+	resolveInbound: adminProcedure
+		.input(z.object({ id: z.string().min(1), resolved: z.boolean() }))
+		.mutation(async ({ input }) => {
+			const updated = await setInboundEmailResolved(input.id, input.resolved);
+
+			if (!updated) {
+				throw new TRPCError({ code: "NOT_FOUND" });
+			}
+
+			return input;
+		}),
+
+	// Template rendered with sample data, for the admin preview console
+	previewTemplate: adminProcedure
+		.input(emailPreviewInput)
+		.query(async ({ input }) => {
+			return renderEmailPreview(input.template, input.locale);
+		}),
+
+	sendTestEmail: adminProcedure
+		.input(emailPreviewInput.extend({ to: z.string().trim().email() }))
+		.mutation(async ({ input }) => {
+			try {
+				return await sendEmailPreview(input);
+			} catch (error) {
+				// Surface the provider's reason (bad credentials, rejected address...)
+				if (error instanceof EmailProviderError) {
+					throw new TRPCError({
+						code: "BAD_REQUEST",
+						message: error.message,
+						cause: error,
+					});
+				}
+
+				throw error;
+			}
+		}),
+
+	// Email categories the signed in user receives
+	getPreferences: protectedProcedure.query(async ({ ctx }) => {
+		return getEmailPreferences(ctx.auth.user.id);
+	}),
+
+	updatePreference: protectedProcedure
+		.input(
+			z.object({
+				category: z.enum(EMAIL_PREFERENCE_CATEGORIES),
+				enabled: z.boolean(),
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			await setEmailPreference(ctx.auth.user.id, input.category, input.enabled);
+
+			return input;
+		}),
+
+	// Public: unsubscribe links are opened without signing in
+	unsubscribe: baseProcedure
+		.input(z.object({ token: z.string().min(1) }))
+		.mutation(async ({ input }) => {
+			const category = await unsubscribeWithToken(input.token);
+
+			if (!category) {
+				throw new TRPCError({
+					code: "BAD_REQUEST",
+					message: "Invalid unsubscribe link",
+				});
+			}
+
+			return { category };
+		}),
+
+	// Email branding of the active organization, managed by its owners and admins
+	getBranding: organizationAdminProcedure.query(async ({ ctx }) => {
+		return getEmailBrandingSettings(ctx.organizationId);
+	}),
+
+	updateBranding: organizationAdminProcedure
+		.input(createEmailBrandingSchema())
+		.mutation(async ({ ctx, input }) => {
+			if (!(await hasFeature(ctx.organizationId, PlanFeature.EMAIL_BRANDING))) {
+				throw new TRPCError({
+					code: "FORBIDDEN",
+					message: "Email branding is not included in your plan",
+				});
+			}
+
+			await updateEmailBranding(ctx.organizationId, input);
+
+			return input;
+		}),
+
+	// Emails captured by the inbox provider (development and E2E tests)
+	listInbox: devInboxProcedure
+		.input(z.object({ to: z.string().optional() }))
+		.query(async ({ input }) => {
+			return getEmailInbox().list({ to: input.to || undefined });
+		}),
+
+	clearInbox: devInboxProcedure.mutation(async () => {
+		await getEmailInbox().clear();
+	}),
+});
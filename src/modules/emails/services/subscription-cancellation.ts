@@ -1,7 +1,4 @@
-import { render } from "@react-email/render";
-import { env } from "@/lib/env";
-import { getEmailProvider } from "../providers";
-import SubscriptionCancellationEmail from "../templates/subscription-cancellation";
+import { sendTemplatedEmail } from "../registry";
 
 /**
  * Subscription Cancellation Email Service
@@ -17,84 +14,26 @@ export interface SendSubscriptionCancellationEmailOptions {
 	effectiveDate: string;
 	cancellationReason?: string | null;
 	locale?: string;
+	/**
+	 * Organization the email is sent for, its email branding is applied
+	 */
+	organizationId?: string;
 }
 
 export async function sendSubscriptionCancellationEmail({
 	to,
-	userName,
-	dashboardUrl,
-	planName,
-	effectiveDate,
 	cancellationReason,
-	locale = "en",
+	locale,
+	organizationId,
+	...variables
 }: SendSubscriptionCancellationEmailOptions): Promise<void> {
-	try {
-		// Import the translation utilities here to avoid client-side issues
-		const { getLocaleTranslations, isLocaleSupported } = await import(
-			"@/modules/i18n/utils"
-		);
-
-		const validLocale = isLocaleSupported(locale) ? locale : "en";
-
-		// Load translations for the email
-		const t = await getLocaleTranslations(
-			validLocale,
-			"Email.subscriptionCancellation",
-		);
-
-		const translations = {
-			subject: t("subject", { appName: env.NEXT_PUBLIC_APP_NAME }),
-			title: t("title"),
-			greeting: t("greeting", { userName }),
-			cancellationMessage: t("cancellationMessage", {
-				planName,
-				appName: env.NEXT_PUBLIC_APP_NAME,
-				effectiveDate,
-			}),
-			details: t("details"),
-			plan: t("plan"),
-			effectiveDateLabel: t("effectiveDateLabel"),
-			cancellationReasonLabel: t("cancellationReasonLabel"),
-			accessDashboard: t("accessDashboard"),
-			accountDetails: t("accountDetails"),
-			email: t("email"),
-			cancellationRequested: t("cancellationRequested"),
-			footer: t("footer", { appName: env.NEXT_PUBLIC_APP_NAME }),
-			copyright: t("copyright", {
-				year: new Date().getFullYear(),
-				appName: env.NEXT_PUBLIC_APP_NAME,
-			}),
-		};
-
-		// Render the email template to HTML
-		const emailHtml = await render(
-			SubscriptionCancellationEmail({
-				userEmail: to,
-				userName,
-				dashboardUrl,
-				planName,
-				effectiveDate,
-				cancellationReason: cancellationReason || undefined,
-				locale: validLocale,
-				appName: env.NEXT_PUBLIC_APP_NAME,
-				logoUrl: env.APP_LOGO_URL,
-				translations,
-			}),
-		);
-
-		// Get the email provider and send the email
-		const emailProvider = getEmailProvider();
-		await emailProvider.sendEmail({
-			to,
-			subject: translations.subject,
-			html: emailHtml,
-		});
-
-		console.log(
-			`✅ Subscription cancellation email sent successfully to ${to} for plan ${planName} in ${validLocale}`,
-		);
-	} catch (error) {
-		console.error("❌ Failed to send subscription cancellation email:", error);
-		throw new Error("Failed to send subscription cancellation email");
-	}
+	await sendTemplatedEmail(
+		"subscriptionCancellation",
+		{
+			...variables,
+			userEmail: to,
+			cancellationReason: cancellationReason || undefined,
+		},
+		{ to, locale, organizationId },
+	);
 }
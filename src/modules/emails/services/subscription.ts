@@ -1,15 +1,15 @@
-import { render } from "@react-email/render";
-import { env } from "@/lib/env";
-import { getEmailProvider } from "../providers";
-import SubscriptionUpgradeEmail from "../templates/subscription-upgrade";
+import type { EmailDeliveryOptions } from "../providers";
+import { sendTemplatedEmail } from "../registry";
 
 /**
  * Subscription Notification Email Service
  *
  * Handles rendering and sending internationalized subscription notification emails
- * Loads translations server-side and passes them to the template
+ * Renders the subscription template from the registry
+ * Accepts delivery options such as invoice attachments, reply-to and custom headers
  */
-export interface SendSubscriptionUpgradeEmailOptions {
+export interface SendSubscriptionUpgradeEmailOptions
+	extends EmailDeliveryOptions {
 	to: string;
 	userName: string;
 	dashboardUrl: string;
@@ -18,6 +18,10 @@ export interface SendSubscriptionUpgradeEmailOptions {
 	billingCycle: string;
 	nextBillingDate: string;
 	locale?: string;
+	/**
+	 * Organization the email is sent for, its email branding is applied
+	 */
+	organizationId?: string;
 }
 
 export async function sendSubscriptionUpgradeEmail({
@@ -28,90 +32,19 @@ export async function sendSubscriptionUpgradeEmail({
 	planPrice,
 	billingCycle,
 	nextBillingDate,
-	locale = "en",
+	...options
 }: SendSubscriptionUpgradeEmailOptions): Promise<void> {
-	try {
-		// Import the translation utilities here to avoid client-side issues
-		const { getLocaleTranslations, isLocaleSupported } = await import(
-			"@/modules/i18n/utils"
-		);
-
-		// Determine the locale to use
-		const validLocale = isLocaleSupported(locale) ? locale : "en";
-
-		// Load translations for the email
-		const t = await getLocaleTranslations(validLocale, "Email.subscription");
-
-		// Prepare translations object
-		const translations = {
-			subject: t("subject", { appName: env.NEXT_PUBLIC_APP_NAME }),
-			title: t("title"),
-			greeting: t("greeting", { userName }),
-			confirmation: t("confirmation", {
-				planName,
-				appName: env.NEXT_PUBLIC_APP_NAME,
-			}),
-			subscriptionDetails: t("subscriptionDetails"),
-			plan: t("plan"),
-			price: t("price"),
-			perMonth: t("perMonth"),
-			nextBilling: t("nextBilling"),
-			accessDashboard: t("accessDashboard"),
-			whatsNext: t("whatsNext"),
-			step1: t("step1"),
-			step2: t("step2"),
-			step3: t("step3"),
-			step4: t("step4"),
-			premiumFeatures: t("premiumFeatures"),
-			feature1Title: t("feature1Title"),
-			feature1Description: t("feature1Description"),
-			feature2Title: t("feature2Title"),
-			feature2Description: t("feature2Description"),
-			feature3Title: t("feature3Title"),
-			feature3Description: t("feature3Description"),
-			feature4Title: t("feature4Title"),
-			feature4Description: t("feature4Description"),
-			billingInfo: t("billingInfo"),
-			accountDetails: t("accountDetails"),
-			email: t("email"),
-			subscriptionDate: t("subscriptionDate"),
-			footer: t("footer", { appName: env.NEXT_PUBLIC_APP_NAME }),
-			copyright: t("copyright", {
-				year: new Date().getFullYear(),
-				appName: env.NEXT_PUBLIC_APP_NAME,
-			}),
-		};
-
-		// Render the email template to HTML
-		const emailHtml = await render(
-			SubscriptionUpgradeEmail({
-				userEmail: to,
-				userName,
-				dashboardUrl,
-				planName,
-				planPrice,
-				billingCycle,
-				nextBillingDate,
-				locale: validLocale,
-				appName: env.NEXT_PUBLIC_APP_NAME,
-				logoUrl: env.APP_LOGO_URL,
-				translations,
-			}),
-		);
-
-		// Get the email provider and send the email
-		const emailProvider = getEmailProvider();
-		await emailProvider.sendEmail({
-			to,
-			subject: translations.subject,
-			html: emailHtml,
-		});
-
-		console.log(
-			`✅ Subscription notification email sent successfully to ${to} for plan ${planName} in ${validLocale}`,
-		);
-	} catch (error) {
-		console.error("❌ Failed to send subscription notification email:", error);
-		throw new Error("Failed to send subscription notification email");
-	}
+	await sendTemplatedEmail(
+		"subscriptionUpgrade",
+		{
+			userEmail: to,
+			userName,
+			dashboardUrl,
+			planName,
+			planPrice,
+			billingCycle,
+			nextBillingDate,
+		},
+		{ to, ...options },
+	);
 }
@@ -1,14 +1,9 @@
-import { render } from "@react-email/render";
-import { env } from "@/lib/env";
-import { getLocaleTranslations, isLocaleSupported } from "@/modules/i18n/utils";
-import { EMAIL_CONFIG } from "../config";
-import { getEmailProvider } from "../providers";
-import EmailVerification from "../templates/email-verification";
+import { sendTemplatedEmail } from "../registry";
 
 /**
  * Email Verification Service
  *
- * Handles rendering and sending email verification emails
+ * Sends email verification emails through the template registry
  * Used by Better Auth for email verification workflow
  */
 export interface SendVerificationEmailOptions {
@@ -22,43 +17,11 @@ export async function sendVerificationEmail({
 	to,
 	userName,
 	verificationUrl,
-	locale = "en",
+	locale,
 }: SendVerificationEmailOptions): Promise<void> {
-	try {
-		// Determine the locale to use
-		const validLocale = isLocaleSupported(locale) ? locale : "en";
-
-		// Load translations for the email
-		const t = await getLocaleTranslations(validLocale, "Email.verification");
-
-		// Get the translated subject
-		const subject = t("subject", { appName: env.NEXT_PUBLIC_APP_NAME });
-
-		// Render the email template to HTML
-		const emailHtml = await render(
-			EmailVerification({
-				userEmail: to,
-				userName: userName || "there",
-				verificationUrl,
-				appName: env.NEXT_PUBLIC_APP_NAME,
-				logoUrl: env.APP_LOGO_URL,
-				expirationHours: EMAIL_CONFIG.templates.verification.expirationHours,
-			}),
-		);
-
-		// Get the email provider and send the email
-		const emailProvider = getEmailProvider();
-		await emailProvider.sendEmail({
-			to,
-			subject,
-			html: emailHtml,
-		});
-
-		console.log(
-			`✅ Email verification sent successfully to ${to} in ${validLocale}`,
-		);
-	} catch (error) {
-		console.error("❌ Failed to send verification email:", error);
-		throw new Error("Failed to send verification email");
-	}
+	await sendTemplatedEmail(
+		"verification",
+		{ userEmail: to, userName: userName || "there", verificationUrl },
+		{ to, locale },
+	);
 }
@@ -0,0 +1,75 @@
+import { eq, inArray } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { db } from "@/lib/db";
+import * as schema from "@/lib/db/schema";
+
+/**
+ * Email Suppression List
+ *
+ * Addresses that hard bounced or complained are never emailed again:
+ * sending to them hurts the sender reputation of every other email.
+ * The list is fed by provider webhooks and consulted before each send.
+ */
+export enum EmailSuppressionReason {
+	BOUNCE = "bounce",
+	COMPLAINT = "complaint",
+	MANUAL = "manual",
+}
+
+/**
+ * Return the addresses of the list that are suppressed (lowercased)
+ */
+export async function getSuppressedEmails(emails: string[]): Promise<string[]> {
+	if (emails.length === 0) {
+		return [];
+	}
+
+	const rows = await db
+		.select({ email: schema.emailSuppression.email })
+		.from(schema.emailSuppression)
+		.where(
+			inArray(
+				schema.emailSuppression.email,
+				emails.map((email) => email.toLowerCase()),
+			),
+		);
+
+	return rows.map((row) => row.email);
+}
+
+/**
+ * Add an address to the suppression list
+ *
+ * Already suppressed addresses keep their original reason.
+ */
+export async function suppressEmail({
+	email,
+	reason,
+	provider,
+	details,
+}: {
+	email: string;
+	reason: EmailSuppressionReason;
+	provider?: string;
+	details?: string;
+}): Promise<void> {
+	await db
+		.insert(schema.emailSuppression)
+		.values({
+			id: nanoid(),
+			email: email.toLowerCase(),
+			reason,
+			provider,
+			details,
+		})
+		.onConflictDoNothing({ target: schema.emailSuppression.email });
+}
+
+/**
+ * Remove an address from the suppression list, e.g. after the user fixed their mailbox
+ */
+export async function unsuppressEmail(email: string): Promise<void> {
+	await db
+		.delete(schema.emailSuppression)
+		.where(eq(schema.emailSuppression.email, email.toLowerCase()));
+}
@@ -0,0 +1,153 @@
+import {
+	Body,
+	Column,
+	Container,
+	Head,
+	Hr,
+	Html,
+	Img,
+	Preview,
+	Row,
+	Section,
+	Tailwind,
+	Text,
+} from "@react-email/components";
+// biome-ignore lint/correctness/noUnusedImports: This import is required for the email template to work
+import * as React from "react";
+
+import enMessages from "@/messages/en.json";
+import esMessages from "@/messages/es.json";
+import { createTailwindConfig } from "../config";
+import { createEmailVariables, replaceVariables } from "../utils/variables";
+
+interface InvitationReplyEmailProps {
+	inviterName: string;
+	organizationName: string;
+	senderName: string;
+	senderEmail: string;
+	/**
+	 * Plain text of the reply
+	 */
+	message: string;
+	locale?: string;
+	appName?: string;
+	logoUrl?: string;
+	primaryColor?: string;
+	footerText?: string;
+	translations?: typeof enMessages.email.invitationReply;
+}
+
+// Translation mapping - now sourced from message files
+const availableTranslations = {
+	en: enMessages.email.invitationReply,
+	es: esMessages.email.invitationReply,
+};
+
+/**
+ * Invitation Reply Template
+ *
+ * Forwards a reply to an invitation email to the person who sent the
+ * invitation, replying to it answers the invitee directly
+ */
+export default function InvitationReplyEmail({
+	inviterName,
+	organizationName,
+	senderName,
+	senderEmail,
+	message,
+	locale = "en",
+	appName = "My App",
+	logoUrl,
+	primaryColor,
+	footerText,
+	translations: overrideTranslations,
+}: InvitationReplyEmailProps) {
+	const translations =
+		overrideTranslations ||
+		availableTranslations[locale as keyof typeof availableTranslations];
+
+	const variables = createEmailVariables({
+		appName,
+		inviterName,
+		organizationName,
+		senderName,
+		senderEmail,
+	});
+
+	return (
+		<Tailwind config={createTailwindConfig(primaryColor)}>
+			<Html>
+				<Head />
+				<Preview>{replaceVariables(translations.subject, variables)}</Preview>
+
+				<Body className="bg-white font-sans">
+					<Container className="mx-auto py-5 max-w-xl">
+						{/* Header with Logo */}
+						<Section className="py-8">
+							<Row>
+								<Column>
+									{logoUrl ? (
+										<Img
+											src={logoUrl}
+											width="48"
+											height="48"
+											alt={`${appName} Logo`}
+											className="mx-auto rounded-lg"
+										/>
+									) : (
+										<Text className="text-2xl font-bold text-center text-gray-800 m-0">
+											{appName}
+										</Text>
+									)}
+								</Column>
+							</Row>
+						</Section>
+
+						{/* Main Content */}
+						<Section className="px-5">
+							<Text className="text-3xl leading-tight font-bold text-gray-800 text-center m-0 mb-6">
+								{translations.title}
+							</Text>
+
+							<Text className="text-base leading-relaxed text-gray-600 m-0 mb-4">
+								{replaceVariables(translations.greeting, variables)}
+							</Text>
+
+							<Text className="text-base leading-relaxed text-gray-600 m-0 mb-4">
+								{replaceVariables(translations.message, variables)}
+							</Text>
+
+							<Section className="border-l-4 border-solid border-gray-200 pl-4 my-6">
+								<Text className="text-base leading-relaxed text-gray-800 m-0 whitespace-pre-wrap">
+									{message}
+								</Text>
+							</Section>
+
+							<Text className="text-sm leading-relaxed text-gray-500 m-0 mb-6">
+								{replaceVariables(translations.replyHint, variables)}
+							</Text>
+						</Section>
+
+						{/* Footer */}
+						<Section className="py-8 px-5 text-center">
+							<Hr className="border-gray-200 my-8" />
+
+							<Text className="text-xs leading-normal text-gray-400 text-center m-0 mb-2">
+								{replaceVariables(translations.footer, variables)}
+							</Text>
+
+							<Text className="text-xs leading-normal text-gray-400 text-center m-0 mb-2">
+								{replaceVariables(translations.copyright, variables)}
+							</Text>
+							{footerText && (
+								<Text className="text-xs leading-normal text-gray-400 text-center m-0 mb-2">
+									{footerText}
+								</Text>
+							)}
+						</Section>
+					</Container>
+				</Body>
+			</Html>
+		</Tailwind>
+	);
+}
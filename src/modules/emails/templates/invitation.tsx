@@ -19,7 +19,7 @@ import * as React from "react";
 
 import enMessages from "@/messages/en.json";
 import esMessages from "@/messages/es.json";
-import { TAILWIND_CONFIG } from "../config";
+import { createTailwindConfig } from "../config";
 import { createEmailVariables, replaceVariables } from "../utils/variables";
 
 interface InvitationEmailProps {
@@ -30,6 +30,15 @@ interface InvitationEmailProps {
 	inviteLink: string;
 	appName?: string;
 	logoUrl?: string;
+	/**
+	 * Organization branding: button/link color and custom footer line
+	 */
+	primaryColor?: string;
+	footerText?: string;
+	/**
+	 * One-click unsubscribe page for team activity emails
+	 */
+	unsubscribeUrl?: string;
 	/**
 	 * User's preferred locale
 	 */
@@ -63,6 +72,9 @@ export function InvitationEmail({
 	inviteLink,
 	appName = "My App",
 	logoUrl,
+	primaryColor,
+	footerText,
+	unsubscribeUrl,
 	locale = "en",
 	translations: overrideTranslations,
 }: InvitationEmailProps) {
@@ -84,7 +96,7 @@ export function InvitationEmail({
 	const previewText = replaceVariables(translations.subject, variables);
 
 	return (
-		<Tailwind config={TAILWIND_CONFIG}>
+		<Tailwind config={createTailwindConfig(primaryColor)}>
 			<Html>
 				<Head />
 				<Preview>{previewText}</Preview>
@@ -142,6 +154,21 @@ export function InvitationEmail({
 							<Text className="text-xs leading-normal text-gray-400 text-center m-0 mb-2">
 								{translations.footer}
 							</Text>
+							{footerText && (
+								<Text className="text-xs leading-normal text-gray-400 text-center m-0 mb-2">
+									{footerText}
+								</Text>
+							)}
+							{unsubscribeUrl && (
+								<Text className="text-xs leading-normal text-gray-400 text-center m-0 mb-2">
+									<Link
+										href={unsubscribeUrl}
+										className="text-gray-400 underline"
+									>
+										{translations.unsubscribe}
+									</Link>
+								</Text>
+							)}
 						</Section>
 					</Container>
 				</Body>
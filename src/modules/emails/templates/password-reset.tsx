@@ -0,0 +1,193 @@
+import {
+	Body,
+	Button,
+	Column,
+	Container,
+	Head,
+	Hr,
+	Html,
+	Img,
+	Link,
+	Preview,
+	Row,
+	Section,
+	Tailwind,
+	Text,
+} from "@react-email/components";
+// biome-ignore lint/correctness/noUnusedImports: This import is required for the email template to work
+import * as React from "react";
+
+import enMessages from "@/messages/en.json";
+import esMessages from "@/messages/es.json";
+import { TAILWIND_CONFIG } from "../config";
+import { createEmailVariables, replaceVariables } from "../utils/variables";
+
+interface PasswordResetEmailProps {
+	/**
+	 * User's name to personalize the email
+	 */
+	userName?: string;
+	/**
+	 * Password reset URL with token
+	 */
+	resetUrl: string;
+	/**
+	 * Application name
+	 */
+	appName?: string;
+	/**
+	 * Company/app logo URL
+	 */
+	logoUrl?: string;
+	/**
+	 * Expiration time in hours
+	 */
+	expirationHours?: number;
+	/**
+	 * User's preferred locale
+	 */
+	locale?: string;
+	/**
+	 * Pre-translated text content
+	 * This object contains all the translated strings for the email
+	 */
+	translations?: typeof enMessages.email.passwordReset;
+}
+
+// Translation mapping - now sourced from message files
+const availableTranslations = {
+	en: enMessages.email.passwordReset,
+	es: esMessages.email.passwordReset,
+};
+
+/**
+ * Internationalized Password Reset Template (Props-based)
+ *
+ * Email template with the link to choose a new password
+ * Supports multiple languages through pre-translated props
+ * This approach allows the email to work with react-email dev server
+ * since all translations are passed as props from the server-side code
+ */
+export function PasswordResetEmail({
+	userName = "there",
+	resetUrl,
+	appName = "My App",
+	logoUrl,
+	expirationHours = 1,
+	locale = "en",
+	translations: overrideTranslations,
+}: PasswordResetEmailProps) {
+	const currentYear = new Date().getFullYear();
+	const translations =
+		overrideTranslations ||
+		availableTranslations[locale as keyof typeof availableTranslations];
+
+	// Variables for string interpolation
+	const variables = createEmailVariables({
+		appName,
+		userName,
+		expirationHours,
+		year: currentYear,
+	});
+
+	const previewText = replaceVariables(translations.subject, variables);
+
+	return (
+		<Tailwind config={TAILWIND_CONFIG}>
+			<Html>
+				<Head />
+				<Preview>{previewText}</Preview>
+
+				<Body className="bg-gray-50 font-sans">
+					<Container className="bg-white mx-auto py-5 mb-16 max-w-xl">
+						{/* Header with Logo */}
+						<Section className="px-6 py-8 text-center">
+							<Row>
+								<Column>
+									{logoUrl ? (
+										<Img
+											src={logoUrl}
+											width="48"
+											height="48"
+											alt={`${appName} Logo`}
+											className="mx-auto rounded-lg"
+										/>
+									) : (
+										<Text className="text-2xl font-bold text-gray-800 m-0 text-center">
+											{appName}
+										</Text>
+									)}
+								</Column>
+							</Row>
+						</Section>
+
+						{/* Main Content */}
+						<Section className="px-6">
+							{/* Reset Message */}
+							<Text className="text-3xl font-bold text-gray-800 text-center m-0 mb-8 leading-tight">
+								{translations.title}
+							</Text>
+
+							<Text className="text-base leading-relaxed text-gray-600 m-0 mb-4">
+								{replaceVariables(translations.greeting, variables)}
+							</Text>
+
+							<Text className="text-base leading-relaxed text-gray-600 m-0 mb-4">
+								{replaceVariables(translations.description, variables)}
+							</Text>
+
+							{/* Reset Button */}
+							<Section className="text-center my-8">
+								<Button
+									href={resetUrl}
+									className="bg-primary hover:bg-primary-600 text-white font-semibold py-4 px-8 rounded-lg shadow-lg inline-block no-underline transition-all duration-200"
+								>
+									{translations.resetButton}
+								</Button>
+							</Section>
+
+							{/* Alternative Link */}
+							<Text className="text-base leading-relaxed text-gray-600 m-0 mb-4">
+								{translations.alternativeLink}
+							</Text>
+
+							<Text className="text-sm leading-relaxed text-gray-500 m-0 mb-6 break-all">
+								<Link href={resetUrl} className="text-primary underline">
+									{resetUrl}
+								</Link>
+							</Text>
+
+							{/* Security Notice */}
+							<Hr className="border-gray-200 my-6" />
+
+							<Text className="text-sm leading-relaxed text-amber-600 bg-amber-50 p-4 rounded-lg border border-amber-200 my-6">
+								<strong>
+									{replaceVariables(translations.linkExpiry, variables)}
+								</strong>
+							</Text>
+
+							<Text className="text-base leading-relaxed text-gray-600 m-0 mb-4">
+								{replaceVariables(translations.noRequest, variables)}
+							</Text>
+						</Section>
+
+						{/* Footer */}
+						<Section className="px-6">
+							<Hr className="border-gray-200 my-6" />
+
+							<Text className="text-xs leading-normal text-gray-400 text-center m-0 mb-2">
+								{replaceVariables(translations.footer, variables)}
+							</Text>
+
+							<Text className="text-xs leading-normal text-gray-400 text-center m-0 mb-2">
+								{replaceVariables(translations.copyright, variables)}
+							</Text>
+						</Section>
+					</Container>
+				</Body>
+			</Html>
+		</Tailwind>
+	);
+}
+
+export default PasswordResetEmail;
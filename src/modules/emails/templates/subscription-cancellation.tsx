@@ -7,6 +7,7 @@ import {
 	Hr,
 	Html,
 	Img,
+	Link,
 	Preview,
 	Row,
 	Section,
@@ -18,7 +19,7 @@ import * as React from "react";
 
 import enMessages from "@/messages/en.json";
 import esMessages from "@/messages/es.json";
-import { TAILWIND_CONFIG } from "../config";
+import { createTailwindConfig } from "../config";
 import { createEmailVariables, replaceVariables } from "../utils/variables";
 
 interface SubscriptionCancellationEmailProps {
@@ -31,6 +32,9 @@ interface SubscriptionCancellationEmailProps {
 	locale?: string;
 	appName?: string;
 	logoUrl?: string;
+	primaryColor?: string;
+	footerText?: string;
+	unsubscribeUrl?: string;
 	translations?: typeof enMessages.email.subscriptionCancellation;
 }
 
@@ -49,6 +53,9 @@ export default function SubscriptionCancellationEmail({
 	locale = "en",
 	appName = "My App",
 	logoUrl,
+	primaryColor,
+	footerText,
+	unsubscribeUrl,
 	translations: overrideTranslations,
 }: SubscriptionCancellationEmailProps) {
 	const currentYear = new Date().getFullYear();
@@ -66,7 +73,7 @@ export default function SubscriptionCancellationEmail({
 	});
 
 	return (
-		<Tailwind config={TAILWIND_CONFIG}>
+		<Tailwind config={createTailwindConfig(primaryColor)}>
 			<Html>
 				<Head />
 				<Preview>{replaceVariables(translations.subject, variables)}</Preview>
@@ -195,6 +202,21 @@ export default function SubscriptionCancellationEmail({
 							<Text className="text-xs leading-normal text-gray-400 text-center m-0 mb-2">
 								{replaceVariables(translations.copyright, variables)}
 							</Text>
+							{footerText && (
+								<Text className="text-xs leading-normal text-gray-400 text-center m-0 mb-2">
+									{footerText}
+								</Text>
+							)}
+							{unsubscribeUrl && (
+								<Text className="text-xs leading-normal text-gray-400 text-center m-0 mb-2">
+									<Link
+										href={unsubscribeUrl}
+										className="text-gray-400 underline"
+									>
+										{translations.unsubscribe}
+									</Link>
+								</Text>
+							)}
 						</Section>
 					</Container>
 				</Body>
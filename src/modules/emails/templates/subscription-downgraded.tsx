@@ -0,0 +1,158 @@
+import {
+	Body,
+	Button,
+	Column,
+	Container,
+	Head,
+	Hr,
+	Html,
+	Img,
+	Link,
+	Preview,
+	Row,
+	Section,
+	Tailwind,
+	Text,
+} from "@react-email/components";
+// biome-ignore lint/correctness/noUnusedImports: This import is required for the email template to work
+import * as React from "react";
+
+import enMessages from "@/messages/en.json";
+import esMessages from "@/messages/es.json";
+import { createTailwindConfig } from "../config";
+import { createEmailVariables, replaceVariables } from "../utils/variables";
+
+interface SubscriptionDowngradedEmailProps {
+	userName: string;
+	planName: string;
+	billingUrl: string;
+	/**
+	 * Stripe hosted page to pay the failed invoice
+	 */
+	invoiceUrl?: string;
+	locale?: string;
+	appName?: string;
+	logoUrl?: string;
+	primaryColor?: string;
+	footerText?: string;
+	translations?: typeof enMessages.email.subscriptionDowngraded;
+}
+
+// Translation mapping - now sourced from message files
+const availableTranslations = {
+	en: enMessages.email.subscriptionDowngraded,
+	es: esMessages.email.subscriptionDowngraded,
+};
+
+/**
+ * Subscription Downgraded Template
+ *
+ * Sent by the email scheduler when the grace period of a failed payment ends
+ * and the organization moves to the free plan
+ */
+export default function SubscriptionDowngradedEmail({
+	userName,
+	planName,
+	billingUrl,
+	invoiceUrl,
+	locale = "en",
+	appName = "My App",
+	logoUrl,
+	primaryColor,
+	footerText,
+	translations: overrideTranslations,
+}: SubscriptionDowngradedEmailProps) {
+	const translations =
+		overrideTranslations ||
+		availableTranslations[locale as keyof typeof availableTranslations];
+
+	const variables = createEmailVariables({
+		appName,
+		userName,
+		planName,
+	});
+
+	return (
+		<Tailwind config={createTailwindConfig(primaryColor)}>
+			<Html>
+				<Head />
+				<Preview>{replaceVariables(translations.subject, variables)}</Preview>
+
+				<Body className="bg-white font-sans">
+					<Container className="mx-auto py-5 max-w-xl">
+						{/* Header with Logo */}
+						<Section className="py-8">
+							<Row>
+								<Column>
+									{logoUrl ? (
+										<Img
+											src={logoUrl}
+											width="48"
+											height="48"
+											alt={`${appName} Logo`}
+											className="mx-auto rounded-lg"
+										/>
+									) : (
+										<Text className="text-2xl font-bold text-center text-gray-800 m-0">
+											{appName}
+										</Text>
+									)}
+								</Column>
+							</Row>
+						</Section>
+
+						{/* Main Content */}
+						<Section className="px-5">
+							<Text className="text-3xl leading-tight font-bold text-gray-800 text-center m-0 mb-6">
+								{translations.title}
+							</Text>
+
+							<Text className="text-base leading-relaxed text-gray-600 m-0 mb-4">
+								{replaceVariables(translations.greeting, variables)}
+							</Text>
+
+							<Text className="text-base leading-relaxed text-gray-600 m-0 mb-6">
+								{replaceVariables(translations.message, variables)}
+							</Text>
+
+							<Section className="text-center my-8">
+								<Button
+									href={billingUrl}
+									className="bg-primary text-white font-bold py-3 px-6 rounded-md inline-block no-underline text-center mx-auto"
+								>
+									{translations.fixPayment}
+								</Button>
+							</Section>
+
+							{invoiceUrl && (
+								<Text className="text-sm leading-relaxed text-gray-500 text-center m-0 mb-6">
+									<Link href={invoiceUrl} className="text-gray-500 underline">
+										{translations.payInvoice}
+									</Link>
+								</Text>
+							)}
+						</Section>
+
+						{/* Footer */}
+						<Section className="py-8 px-5 text-center">
+							<Hr className="border-gray-200 my-8" />
+
+							<Text className="text-xs leading-normal text-gray-400 text-center m-0 mb-2">
+								{replaceVariables(translations.footer, variables)}
+							</Text>
+
+							<Text className="text-xs leading-normal text-gray-400 text-center m-0 mb-2">
+								{replaceVariables(translations.copyright, variables)}
+							</Text>
+							{footerText && (
+								<Text className="text-xs leading-normal text-gray-400 text-center m-0 mb-2">
+									{footerText}
+								</Text>
+							)}
+						</Section>
+					</Container>
+				</Body>
+			</Html>
+		</Tailwind>
+	);
+}
@@ -7,6 +7,7 @@ import {
 	Hr,
 	Html,
 	Img,
+	Link,
 	Preview,
 	Row,
 	Section,
@@ -18,7 +19,7 @@ import * as React from "react";
 
 import enMessages from "@/messages/en.json";
 import esMessages from "@/messages/es.json";
-import { TAILWIND_CONFIG } from "../config";
+import { createTailwindConfig } from "../config";
 import { createEmailVariables, replaceVariables } from "../utils/variables";
 
 interface SubscriptionUpgradeEmailProps {
@@ -62,6 +63,15 @@ interface SubscriptionUpgradeEmailProps {
 	 * Company/app logo URL
 	 */
 	logoUrl?: string;
+	/**
+	 * Organization branding: button/link color and custom footer line
+	 */
+	primaryColor?: string;
+	footerText?: string;
+	/**
+	 * One-click unsubscribe page for billing emails
+	 */
+	unsubscribeUrl?: string;
 	/**
 	 * Pre-translated text content
 	 * This object contains all the translated strings for the email
@@ -94,6 +104,9 @@ export default function SubscriptionUpgradeEmail({
 	locale = "en",
 	appName = "My App",
 	logoUrl,
+	primaryColor,
+	footerText,
+	unsubscribeUrl,
 	translations: overrideTranslations,
 }: SubscriptionUpgradeEmailProps) {
 	const currentYear = new Date().getFullYear();
@@ -114,7 +127,7 @@ export default function SubscriptionUpgradeEmail({
 	});
 
 	return (
-		<Tailwind config={TAILWIND_CONFIG}>
+		<Tailwind config={createTailwindConfig(primaryColor)}>
 			<Html>
 				<Head />
 				<Preview>{replaceVariables(translations.subject, variables)}</Preview>
@@ -317,6 +330,21 @@ export default function SubscriptionUpgradeEmail({
 							<Text className="text-xs leading-normal text-gray-400 text-center m-0 mb-2">
 								{replaceVariables(translations.copyright, variables)}
 							</Text>
+							{footerText && (
+								<Text className="text-xs leading-normal text-gray-400 text-center m-0 mb-2">
+									{footerText}
+								</Text>
+							)}
+							{unsubscribeUrl && (
+								<Text className="text-xs leading-normal text-gray-400 text-center m-0 mb-2">
+									<Link
+										href={unsubscribeUrl}
+										className="text-gray-400 underline"
+									>
+										{translations.unsubscribe}
+									</Link>
+								</Text>
+							)}
 						</Section>
 					</Container>
 				</Body>
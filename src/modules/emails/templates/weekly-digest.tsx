@@ -0,0 +1,196 @@
+import {
+	Body,
+	Button,
+	Column,
+	Container,
+	Head,
+	Hr,
+	Html,
+	Img,
+	Link,
+	Preview,
+	Row,
+	Section,
+	Tailwind,
+	Text,
+} from "@react-email/components";
+// biome-ignore lint/correctness/noUnusedImports: This import is required for the email template to work
+import * as React from "react";
+
+import enMessages from "@/messages/en.json";
+import esMessages from "@/messages/es.json";
+import { createTailwindConfig } from "../config";
+import { createEmailVariables, replaceVariables } from "../utils/variables";
+
+interface WeeklyDigestEmailProps {
+	userName: string;
+	organizationName: string;
+	/**
+	 * Names of the members who joined during the week
+	 */
+	newMembers: string[];
+	pendingInvitations: number;
+	dashboardUrl: string;
+	locale?: string;
+	appName?: string;
+	logoUrl?: string;
+	primaryColor?: string;
+	footerText?: string;
+	unsubscribeUrl?: string;
+	translations?: typeof enMessages.email.weeklyDigest;
+}
+
+// Translation mapping - now sourced from message files
+const availableTranslations = {
+	en: enMessages.email.weeklyDigest,
+	es: esMessages.email.weeklyDigest,
+};
+
+/**
+ * Weekly Digest Template
+ *
+ * Weekly summary of an organization's activity, sent to its owners and admins
+ */
+export default function WeeklyDigestEmail({
+	userName,
+	organizationName,
+	newMembers,
+	pendingInvitations,
+	dashboardUrl,
+	locale = "en",
+	appName = "My App",
+	logoUrl,
+	primaryColor,
+	footerText,
+	unsubscribeUrl,
+	translations: overrideTranslations,
+}: WeeklyDigestEmailProps) {
+	const translations =
+		overrideTranslations ||
+		availableTranslations[locale as keyof typeof availableTranslations];
+
+	const variables = createEmailVariables({
+		appName,
+		userName,
+		organizationName,
+	});
+
+	return (
+		<Tailwind config={createTailwindConfig(primaryColor)}>
+			<Html>
+				<Head />
+				<Preview>{replaceVariables(translations.subject, variables)}</Preview>
+
+				<Body className="bg-white font-sans">
+					<Container className="mx-auto py-5 max-w-xl">
+						{/* Header with Logo */}
+						<Section className="py-8">
+							<Row>
+								<Column>
+									{logoUrl ? (
+										<Img
+											src={logoUrl}
+											width="48"
+											height="48"
+											alt={`${appName} Logo`}
+											className="mx-auto rounded-lg"
+										/>
+									) : (
+										<Text className="text-2xl font-bold text-center text-gray-800 m-0">
+											{appName}
+										</Text>
+									)}
+								</Column>
+							</Row>
+						</Section>
+
+						{/* Main Content */}
+						<Section className="px-5">
+							<Text className="text-3xl leading-tight font-bold text-gray-800 text-center m-0 mb-6">
+								{replaceVariables(translations.title, variables)}
+							</Text>
+
+							<Text className="text-base leading-relaxed text-gray-600 m-0 mb-4">
+								{replaceVariables(translations.greeting, variables)}
+							</Text>
+
+							<Text className="text-base leading-relaxed text-gray-600 m-0 mb-6">
+								{replaceVariables(translations.intro, variables)}
+							</Text>
+
+							{/* Activity */}
+							<Section className="my-8 p-6 bg-gray-50 rounded-lg">
+								<Text className="text-lg font-bold text-gray-800 m-0 mb-2">
+									{translations.newMembers} ({newMembers.length})
+								</Text>
+								{newMembers.length > 0 ? (
+									newMembers.map((name) => (
+										<Text key={name} className="text-sm text-gray-600 m-0 mb-1">
+											{name}
+										</Text>
+									))
+								) : (
+									<Text className="text-sm text-gray-600 m-0 mb-1">
+										{translations.noNewMembers}
+									</Text>
+								)}
+
+								<Hr className="border-gray-200 my-4" />
+
+								<Row>
+									<Column className="w-3/4">
+										<Text className="text-sm font-semibold text-gray-700 m-0">
+											{translations.pendingInvitations}
+										</Text>
+									</Column>
+									<Column className="w-1/4">
+										<Text className="text-sm text-gray-600 m-0 text-right">
+											{pendingInvitations}
+										</Text>
+									</Column>
+								</Row>
+							</Section>
+
+							<Section className="text-center my-8">
+								<Button
+									href={dashboardUrl}
+									className="bg-primary text-white font-bold py-3 px-6 rounded-md inline-block no-underline text-center mx-auto"
+								>
+									{translations.openDashboard}
+								</Button>
+							</Section>
+						</Section>
+
+						{/* Footer */}
+						<Section className="py-8 px-5 text-center">
+							<Hr className="border-gray-200 my-8" />
+
+							<Text className="text-xs leading-normal text-gray-400 text-center m-0 mb-2">
+								{replaceVariables(translations.footer, variables)}
+							</Text>
+
+							<Text className="text-xs leading-normal text-gray-400 text-center m-0 mb-2">
+								{replaceVariables(translations.copyright, variables)}
+							</Text>
+							{footerText && (
+								<Text className="text-xs leading-normal text-gray-400 text-center m-0 mb-2">
+									{footerText}
+								</Text>
+							)}
+							{unsubscribeUrl && (
+								<Text className="text-xs leading-normal text-gray-400 text-center m-0 mb-2">
+									<Link
+										href={unsubscribeUrl}
+										className="text-gray-400 underline"
+									>
+										{translations.unsubscribe}
+									</Link>
+								</Text>
+							)}
+						</Section>
+					</Container>
+				</Body>
+			</Html>
+		</Tailwind>
+	);
+}
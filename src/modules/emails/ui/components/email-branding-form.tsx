@@ -0,0 +1,161 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+	useMutation,
+	useQueryClient,
+	useSuspenseQuery,
+} from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { useForm } from "react-hook-form";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+	Form,
+	FormControl,
+	FormDescription,
+	FormField,
+	FormItem,
+	FormLabel,
+	FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useTRPC } from "@/trpc/client";
+import {
+	createEmailBrandingSchema,
+	type EmailBrandingInput,
+} from "../../branding/types";
+import { EMAIL_PRIMARY_COLOR } from "../../config";
+
+export const EmailBrandingForm = () => {
+	const t = useTranslations("emailBranding");
+	const trpc = useTRPC();
+	const queryClient = useQueryClient();
+	const { data: branding } = useSuspenseQuery(
+		trpc.emails.getBranding.queryOptions(),
+	);
+
+	const form = useForm<EmailBrandingInput>({
+		resolver: zodResolver(
+			createEmailBrandingSchema({
+				logoUrl: t("validation.logoUrl"),
+				primaryColor: t("validation.primaryColor"),
+				senderName: t("validation.senderName"),
+				footerText: t("validation.footerText"),
+			}),
+		),
+		defaultValues: branding,
+	});
+
+	const updateBranding = useMutation(
+		trpc.emails.updateBranding.mutationOptions({
+			onSuccess: async (values) => {
+				form.reset(values);
+				await queryClient.invalidateQueries(
+					trpc.emails.getBranding.queryFilter(),
+				);
+				toast.success(t("saved"));
+			},
+			onError: () => {
+				toast.error(t("error"));
+			},
+		}),
+	);
+
+	const primaryColor = form.watch("primaryColor");
+
+	return (
+		<Form {...form}>
+			<form
+				onSubmit={form.handleSubmit((values) => updateBranding.mutate(values))}
+				className="space-y-4 p-4"
+			>
+				<FormField
+					control={form.control}
+					name="logoUrl"
+					render={({ field }) => (
+						<FormItem>
+							<FormLabel>{t("fields.logoUrl.label")}</FormLabel>
+							<FormControl>
+								<Input {...field} placeholder="https://" />
+							</FormControl>
+							<FormDescription>
+								{t("fields.logoUrl.description")}
+							</FormDescription>
+							<FormMessage />
+						</FormItem>
+					)}
+				/>
+				<FormField
+					control={form.control}
+					name="primaryColor"
+					render={({ field }) => (
+						<FormItem>
+							<FormLabel>{t("fields.primaryColor.label")}</FormLabel>
+							<div className="flex items-center gap-2">
+								<div
+									className="size-9 shrink-0 rounded-md border"
+									style={{
+										backgroundColor: /^#[0-9a-fA-F]{6}$/.test(primaryColor)
+											? primaryColor
+											: EMAIL_PRIMARY_COLOR,
+									}}
+								/>
+								<FormControl>
+									<Input {...field} placeholder={EMAIL_PRIMARY_COLOR} />
+								</FormControl>
+							</div>
+							<FormDescription>
+								{t("fields.primaryColor.description")}
+							</FormDescription>
+							<FormMessage />
+						</FormItem>
+					)}
+				/>
+				<FormField
+					control={form.control}
+					name="senderName"
+					render={({ field }) => (
+						<FormItem>
+							<FormLabel>{t("fields.senderName.label")}</FormLabel>
+							<FormControl>
+								<Input {...field} />
+							</FormControl>
+							<FormDescription>
+								{t("fields.senderName.description")}
+							</FormDescription>
+							<FormMessage />
+						</FormItem>
+					)}
+				/>
+				<FormField
+					control={form.control}
+					name="footerText"
+					render={({ field }) => (
+						<FormItem>
+							<FormLabel>{t("fields.footerText.label")}</FormLabel>
+							<FormControl>
+								<Textarea {...field} rows={3} />
+							</FormControl>
+							<FormDescription>
+								{t("fields.footerText.description")}
+							</FormDescription>
+							<FormMessage />
+						</FormItem>
+					)}
+				/>
+				<div className="flex justify-end">
+					<Button
+						type="submit"
+						disabled={updateBranding.isPending || !form.formState.isDirty}
+					>
+						{updateBranding.isPending && <Loader2 className="animate-spin" />}
+						{t("save")}
+					</Button>
+				</div>
+			</form>
+		</Form>
+	);
+};
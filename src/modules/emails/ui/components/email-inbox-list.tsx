@@ -0,0 +1,137 @@
+"use client";
+
+import { useSuspenseQuery } from "@tanstack/react-query";
+import { Inbox } from "lucide-react";
+import { useFormatter, useTranslations } from "next-intl";
+import { useQueryStates } from "nuqs";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { cn } from "@/lib/utils";
+import { useTRPC } from "@/trpc/client";
+import type { InboxMessage } from "../../inbox/types";
+import { emailInboxSearchParams } from "../search-params";
+
+// Refresh the inbox while the page is open, emails arrive from other requests
+const REFETCH_INTERVAL_MS = 3000;
+
+/**
+ * Unique links of an email, e.g. verification and invitation links
+ */
+const getLinks = (html: string) =>
+	Array.from(
+		new Set(
+			Array.from(html.matchAll(/href="(https?:\/\/[^"]+)"/g), (match) =>
+				match[1].replaceAll("&amp;", "&"),
+			),
+		),
+	);
+
+export const EmailInboxList = () => {
+	const t = useTranslations("devInbox");
+	const format = useFormatter();
+	const trpc = useTRPC();
+	const [{ id, to }, setInbox] = useQueryStates(emailInboxSearchParams);
+	const { data: messages } = useSuspenseQuery({
+		...trpc.emails.listInbox.queryOptions({ to }),
+		refetchInterval: REFETCH_INTERVAL_MS,
+	});
+
+	if (messages.length === 0) {
+		return (
+			<div className="flex flex-col items-center gap-2 p-12 text-center text-muted-foreground">
+				<Inbox className="h-8 w-8" />
+				<p className="text-sm">{t("empty")}</p>
+			</div>
+		);
+	}
+
+	const selected = messages.find((message) => message.id === id) ?? messages[0];
+
+	return (
+		<div className="grid md:grid-cols-[320px_1fr]">
+			<ul className="max-h-[780px] overflow-auto border-b md:border-r md:border-b-0">
+				{messages.map((message) => (
+					<li key={message.id}>
+						<button
+							type="button"
+							onClick={() => setInbox({ id: message.id })}
+							className={cn(
+								"flex w-full flex-col gap-1 border-b p-4 text-left text-sm hover:bg-muted/50",
+								message.id === selected.id && "bg-muted",
+							)}
+						>
+							<span className="truncate font-medium">{message.subject}</span>
+							<span className="truncate text-muted-foreground">
+								{message.to}
+							</span>
+							<span className="text-xs text-muted-foreground">
+								{format.dateTime(new Date(message.createdAt), {
+									dateStyle: "short",
+									timeStyle: "medium",
+								})}
+							</span>
+						</button>
+					</li>
+				))}
+			</ul>
+			<EmailInboxMessage message={selected} />
+		</div>
+	);
+};
+
+const EmailInboxMessage = ({ message }: { message: InboxMessage }) => {
+	const t = useTranslations("devInbox");
+	const links = getLinks(message.html);
+
+	return (
+		<Tabs defaultValue="html" className="min-w-0 gap-0">
+			<div className="flex flex-col gap-2 border-b p-4 text-sm">
+				<div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+					<span className="font-medium">{message.subject}</span>
+					<TabsList>
+						<TabsTrigger value="html">{t("views.html")}</TabsTrigger>
+						<TabsTrigger value="text">{t("views.text")}</TabsTrigger>
+					</TabsList>
+				</div>
+				<div>
+					<span className="text-muted-foreground">{t("to")}: </span>
+					{message.to}
+				</div>
+				{(message.from || message.fromName) && (
+					<div>
+						<span className="text-muted-foreground">{t("from")}: </span>
+						{[message.fromName, message.from].filter(Boolean).join(" ")}
+					</div>
+				)}
+				{links.length > 0 && (
+					<div className="flex flex-col gap-1">
+						<span className="text-muted-foreground">{t("links")}:</span>
+						{links.map((link) => (
+							<a
+								key={link}
+								href={link}
+								target="_blank"
+								rel="noreferrer"
+								className="truncate text-primary underline"
+							>
+								{link}
+							</a>
+						))}
+					</div>
+				)}
+			</div>
+			<TabsContent value="html">
+				<iframe
+					title={message.subject}
+					srcDoc={message.html}
+					sandbox=""
+					className="h-[600px] w-full rounded-br-xl bg-white"
+				/>
+			</TabsContent>
+			<TabsContent value="text">
+				<pre className="h-[600px] overflow-auto whitespace-pre-wrap p-4 font-mono text-sm">
+					{message.text}
+				</pre>
+			</TabsContent>
+		</Tabs>
+	);
+};
@@ -0,0 +1,218 @@
+"use client";
+
+import { useSuspenseQuery } from "@tanstack/react-query";
+import type { ColumnDef } from "@tanstack/react-table";
+import {
+	flexRender,
+	getCoreRowModel,
+	useReactTable,
+} from "@tanstack/react-table";
+import { useTranslations } from "next-intl";
+import { useQueryStates } from "nuqs";
+import { useMemo } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import { useTRPC } from "@/trpc/client";
+import { EmailMessageStatus } from "../../messages/types";
+import {
+	EMAIL_MESSAGES_PAGE_SIZE,
+	emailMessagesSearchParams,
+} from "../search-params";
+
+type EmailMessageRow = {
+	id: string;
+	recipient: string;
+	template: string | null;
+	locale: string | null;
+	subject: string;
+	provider: string | null;
+	providerMessageId: string | null;
+	status: EmailMessageStatus;
+	error: string | null;
+	createdAt: string; // ISO string
+	sentAt: string | null; // ISO string
+};
+
+const statusVariants = {
+	[EmailMessageStatus.QUEUED]: "secondary",
+	[EmailMessageStatus.SENT]: "default",
+	[EmailMessageStatus.FAILED]: "outline",
+	[EmailMessageStatus.DEAD]: "destructive",
+	[EmailMessageStatus.DELIVERED]: "default",
+	[EmailMessageStatus.BOUNCED]: "destructive",
+	[EmailMessageStatus.COMPLAINED]: "destructive",
+} as const;
+
+export const EmailMessagesTable = () => {
+	const trpc = useTRPC();
+	const t = useTranslations("admin.emails");
+	const [{ status, template, search, page }, setFilters] = useQueryStates(
+		emailMessagesSearchParams,
+	);
+
+	const { data } = useSuspenseQuery(
+		trpc.emails.listMessages.queryOptions({
+			status: status ?? undefined,
+			template: template ?? undefined,
+			search: search || undefined,
+			page,
+			pageSize: EMAIL_MESSAGES_PAGE_SIZE,
+		}),
+	);
+
+	const pageCount = Math.max(
+		1,
+		Math.ceil(data.total / EMAIL_MESSAGES_PAGE_SIZE),
+	);
+
+	const columns = useMemo<ColumnDef<EmailMessageRow>[]>(
+		() => [
+			{
+				accessorKey: "createdAt",
+				header: t("columns.date"),
+				cell: ({ getValue }) => new Date(String(getValue())).toLocaleString(),
+			},
+			{
+				accessorKey: "recipient",
+				header: t("columns.recipient"),
+			},
+			{
+				accessorKey: "template",
+				header: t("columns.template"),
+				cell: ({ row }) => (
+					<div className="flex flex-col">
+						<span>{row.original.template ?? "—"}</span>
+						{row.original.locale ? (
+							<span className="text-xs text-muted-foreground">
+								{row.original.locale}
+							</span>
+						) : null}
+					</div>
+				),
+			},
+			{
+				accessorKey: "subject",
+				header: t("columns.subject"),
+				cell: ({ getValue }) => (
+					<span className="line-clamp-1 max-w-xs">{String(getValue())}</span>
+				),
+			},
+			{
+				accessorKey: "provider",
+				header: t("columns.provider"),
+				cell: ({ row }) => (
+					<div className="flex flex-col">
+						<span>{row.original.provider ?? "—"}</span>
+						{row.original.providerMessageId ? (
+							<span className="max-w-40 truncate font-mono text-xs text-muted-foreground">
+								{row.original.providerMessageId}
+							</span>
+						) : null}
+					</div>
+				),
+			},
+			{
+				accessorKey: "status",
+				header: t("columns.status"),
+				cell: ({ row }) => (
+					<div className="flex flex-col gap-1">
+						<Badge variant={statusVariants[row.original.status]}>
+							{t(`statuses.${row.original.status}`)}
+						</Badge>
+						{row.original.error ? (
+							<span
+								className="line-clamp-2 max-w-xs text-xs text-destructive"
+								title={row.original.error}
+							>
+								{row.original.error}
+							</span>
+						) : null}
+					</div>
+				),
+			},
+		],
+		[t],
+	);
+
+	const table = useReactTable({
+		data: data.messages,
+		columns,
+		getCoreRowModel: getCoreRowModel(),
+	});
+
+	return (
+		<div className="flex flex-col">
+			<Table>
+				<TableHeader>
+					{table.getHeaderGroups().map((headerGroup) => (
+						<TableRow key={headerGroup.id}>
+							{headerGroup.headers.map((header) => (
+								<TableHead key={header.id}>
+									{header.isPlaceholder
+										? null
+										: flexRender(
+												header.column.columnDef.header,
+												header.getContext(),
+											)}
+								</TableHead>
+							))}
+						</TableRow>
+					))}
+				</TableHeader>
+				<TableBody>
+					{table.getRowModel().rows?.length ? (
+						table.getRowModel().rows.map((row) => (
+							<TableRow key={row.id}>
+								{row.getVisibleCells().map((cell) => (
+									<TableCell key={cell.id}>
+										{flexRender(cell.column.columnDef.cell, cell.getContext())}
+									</TableCell>
+								))}
+							</TableRow>
+						))
+					) : (
+						<TableRow>
+							<TableCell colSpan={columns.length} className="h-32 text-center">
+								<div className="flex flex-col items-center justify-center gap-1 py-6 text-muted-foreground">
+									<div className="text-sm font-medium">{t("empty.title")}</div>
+									<div className="text-xs">{t("empty.description")}</div>
+								</div>
+							</TableCell>
+						</TableRow>
+					)}
+				</TableBody>
+			</Table>
+
+			<div className="flex items-center justify-between border-t px-4 py-3 text-sm text-muted-foreground">
+				<span>{t("pagination.total", { total: data.total })}</span>
+				<div className="flex items-center gap-2">
+					<span>{t("pagination.page", { page, pageCount })}</span>
+					<Button
+						variant="outline"
+						size="sm"
+						disabled={page <= 1}
+						onClick={() => setFilters({ page: page - 1 })}
+					>
+						{t("pagination.previous")}
+					</Button>
+					<Button
+						variant="outline"
+						size="sm"
+						disabled={page >= pageCount}
+						onClick={() => setFilters({ page: page + 1 })}
+					>
+						{t("pagination.next")}
+					</Button>
+				</div>
+			</div>
+		</div>
+	);
+};
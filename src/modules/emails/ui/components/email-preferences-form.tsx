@@ -0,0 +1,64 @@
+"use client";
+
+import {
+	useMutation,
+	useQueryClient,
+	useSuspenseQuery,
+} from "@tanstack/react-query";
+import { useTranslations } from "next-intl";
+import { toast } from "sonner";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useTRPC } from "@/trpc/client";
+import { EMAIL_PREFERENCE_CATEGORIES } from "../../preferences/types";
+
+export const EmailPreferencesForm = () => {
+	const t = useTranslations("emailPreferences");
+	const trpc = useTRPC();
+	const queryClient = useQueryClient();
+	const { data: preferences } = useSuspenseQuery(
+		trpc.emails.getPreferences.queryOptions(),
+	);
+
+	const updatePreference = useMutation(
+		trpc.emails.updatePreference.mutationOptions({
+			onSuccess: async () => {
+				await queryClient.invalidateQueries(
+					trpc.emails.getPreferences.queryFilter(),
+				);
+				toast.success(t("saved"));
+			},
+			onError: () => {
+				toast.error(t("error"));
+			},
+		}),
+	);
+
+	return (
+		<div className="divide-y">
+			{EMAIL_PREFERENCE_CATEGORIES.map((category) => (
+				<div
+					key={category}
+					className="flex items-center justify-between gap-6 p-4"
+				>
+					<div className="flex flex-col gap-1">
+						<Label htmlFor={`email-preference-${category}`}>
+							{t(`categories.${category}.title`)}
+						</Label>
+						<p className="text-sm text-muted-foreground">
+							{t(`categories.${category}.description`)}
+						</p>
+					</div>
+					<Switch
+						id={`email-preference-${category}`}
+						checked={preferences[category]}
+						disabled={updatePreference.isPending}
+						onCheckedChange={(enabled) =>
+							updatePreference.mutate({ category, enabled })
+						}
+					/>
+				</div>
+			))}
+		</div>
+	);
+};
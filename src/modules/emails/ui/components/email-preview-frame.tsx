@@ -0,0 +1,57 @@
+"use client";
+
+import { useSuspenseQuery } from "@tanstack/react-query";
+import { useTranslations } from "next-intl";
+import { useQueryStates } from "nuqs";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useTRPC } from "@/trpc/client";
+import { emailPreviewSearchParams } from "../search-params";
+
+// Approximates the forced dark mode of mail clients (Gmail, Outlook): colors are
+// inverted while images keep their original colors
+const DARK_MODE_STYLE =
+	"<style>html{filter:invert(1) hue-rotate(180deg);background:#fff}img{filter:invert(1) hue-rotate(180deg)}</style>";
+
+export const EmailPreviewFrame = () => {
+	const t = useTranslations("admin.emailTemplates");
+	const trpc = useTRPC();
+	const [{ template, locale, theme }] = useQueryStates(
+		emailPreviewSearchParams,
+	);
+	const { data: preview } = useSuspenseQuery(
+		trpc.emails.previewTemplate.queryOptions({ template, locale }),
+	);
+
+	const html =
+		theme === "dark"
+			? preview.html.replace("</head>", `${DARK_MODE_STYLE}</head>`)
+			: preview.html;
+
+	return (
+		<Tabs defaultValue="html" className="gap-0">
+			<div className="flex flex-col gap-2 border-b p-4 md:flex-row md:items-center md:justify-between">
+				<div className="min-w-0 text-sm">
+					<span className="text-muted-foreground">{t("subject")}: </span>
+					<span className="font-medium">{preview.subject}</span>
+				</div>
+				<TabsList>
+					<TabsTrigger value="html">{t("views.html")}</TabsTrigger>
+					<TabsTrigger value="text">{t("views.text")}</TabsTrigger>
+				</TabsList>
+			</div>
+			<TabsContent value="html">
+				<iframe
+					title={preview.subject}
+					srcDoc={html}
+					sandbox=""
+					className="h-[720px] w-full rounded-b-xl bg-white"
+				/>
+			</TabsContent>
+			<TabsContent value="text">
+				<pre className="h-[720px] overflow-auto whitespace-pre-wrap p-4 font-mono text-sm">
+					{preview.text}
+				</pre>
+			</TabsContent>
+		</Tabs>
+	);
+};
@@ -0,0 +1,282 @@
+"use client";
+
+import {
+	useMutation,
+	useQueryClient,
+	useSuspenseQuery,
+} from "@tanstack/react-query";
+import type { ColumnDef } from "@tanstack/react-table";
+import {
+	flexRender,
+	getCoreRowModel,
+	useReactTable,
+} from "@tanstack/react-table";
+import { useTranslations } from "next-intl";
+import { useQueryStates } from "nuqs";
+import { Fragment, useMemo, useState } from "react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import { useTRPC } from "@/trpc/client";
+import { type InboundEmailKind, InboundEmailStatus } from "../../inbound/types";
+import {
+	INBOUND_EMAILS_PAGE_SIZE,
+	inboundEmailsSearchParams,
+} from "../search-params";
+
+type InboundEmailRow = {
+	id: string;
+	kind: InboundEmailKind;
+	fromAddress: string;
+	fromName: string | null;
+	toAddress: string;
+	subject: string;
+	text: string | null;
+	html: string | null;
+	userName: string | null;
+	organizationName: string | null;
+	status: InboundEmailStatus;
+	createdAt: string; // ISO string
+};
+
+const statusVariants = {
+	[InboundEmailStatus.OPEN]: "default",
+	[InboundEmailStatus.RESOLVED]: "secondary",
+} as const;
+
+const InboundEmailBody = ({ email }: { email: InboundEmailRow }) => {
+	if (email.html) {
+		return (
+			<iframe
+				title={email.subject}
+				srcDoc={email.html}
+				sandbox=""
+				className="h-[400px] w-full rounded-md border bg-white"
+			/>
+		);
+	}
+
+	return (
+		<pre className="max-h-[400px] overflow-auto whitespace-pre-wrap rounded-md border p-4 font-mono text-sm">
+			{email.text}
+		</pre>
+	);
+};
+
+export const InboundEmailsTable = () => {
+	const trpc = useTRPC();
+	const queryClient = useQueryClient();
+	const t = useTranslations("admin.inboundEmails");
+	const [{ kind, status, search, page }, setFilters] = useQueryStates(
+		inboundEmailsSearchParams,
+	);
+	const [openId, setOpenId] = useState<string | null>(null);
+
+	const { data } = useSuspenseQuery(
+		trpc.emails.listInbound.queryOptions({
+			kind: kind ?? undefined,
+			status: status ?? undefined,
+			search: search || undefined,
+			page,
+			pageSize: INBOUND_EMAILS_PAGE_SIZE,
+		}),
+	);
+
+	const resolve = useMutation(
+		trpc.emails.resolveInbound.mutationOptions({
+			onSuccess: async ({ resolved }) => {
+				toast.success(t(resolved ? "resolved" : "reopened"));
+				await queryClient.invalidateQueries(
+					trpc.emails.listInbound.queryFilter(),
+				);
+			},
+			onError: () => {
+				toast.error(t("error"));
+			},
+		}),
+	);
+
+	const pageCount = Math.max(
+		1,
+		Math.ceil(data.total / INBOUND_EMAILS_PAGE_SIZE),
+	);
+
+	const columns = useMemo<ColumnDef<InboundEmailRow>[]>(
+		() => [
+			{
+				accessorKey: "createdAt",
+				header: t("columns.date"),
+				cell: ({ getValue }) => new Date(String(getValue())).toLocaleString(),
+			},
+			{
+				accessorKey: "fromAddress",
+				header: t("columns.from"),
+				cell: ({ row }) => (
+					<div className="flex flex-col">
+						<span>{row.original.fromName ?? row.original.fromAddress}</span>
+						<span className="text-xs text-muted-foreground">
+							{row.original.fromName ? row.original.fromAddress : null}
+							{row.original.userName ? ` · ${t("account")}` : null}
+						</span>
+					</div>
+				),
+			},
+			{
+				accessorKey: "organizationName",
+				header: t("columns.organization"),
+				cell: ({ getValue }) => (getValue() as string | null) ?? "—",
+			},
+			{
+				accessorKey: "kind",
+				header: t("columns.kind"),
+				cell: ({ row }) => t(`kinds.${row.original.kind}`),
+			},
+			{
+				accessorKey: "subject",
+				header: t("columns.subject"),
+				cell: ({ row }) => (
+					<button
+						type="button"
+						className="line-clamp-1 max-w-xs text-left hover:underline"
+						onClick={() =>
+							setOpenId((id) =>
+								id === row.original.id ? null : row.original.id,
+							)
+						}
+					>
+						{row.original.subject || t("noSubject")}
+					</button>
+				),
+			},
+			{
+				accessorKey: "status",
+				header: t("columns.status"),
+				cell: ({ row }) => (
+					<Badge variant={statusVariants[row.original.status]}>
+						{t(`statuses.${row.original.status}`)}
+					</Badge>
+				),
+			},
+			{
+				id: "actions",
+				cell: ({ row }) => (
+					<Button
+						variant="outline"
+						size="sm"
+						disabled={resolve.isPending}
+						onClick={() =>
+							resolve.mutate({
+								id: row.original.id,
+								resolved: row.original.status === InboundEmailStatus.OPEN,
+							})
+						}
+					>
+						{row.original.status === InboundEmailStatus.OPEN
+							? t("resolve")
+							: t("reopen")}
+					</Button>
+				),
+			},
+		],
+		[t, resolve],
+	);
+
+	const table = useReactTable({
+		data: data.emails,
+		columns,
+		getCoreRowModel: getCoreRowModel(),
+	});
+
+	return (
+		<div className="flex flex-col">
+			<Table>
+				<TableHeader>
+					{table.getHeaderGroups().map((headerGroup) => (
+						<TableRow key={headerGroup.id}>
+							{headerGroup.headers.map((header) => (
+								<TableHead key={header.id}>
+									{header.isPlaceholder
+										? null
+										: flexRender(
+												header.column.columnDef.header,
+												header.getContext(),
+											)}
+								</TableHead>
+							))}
+						</TableRow>
+					))}
+				</TableHeader>
+				<TableBody>
+					{table.getRowModel().rows?.length ? (
+						table.getRowModel().rows.map((row) => (
+							<Fragment key={row.id}>
+								<TableRow>
+									{row.getVisibleCells().map((cell) => (
+										<TableCell key={cell.id}>
+											{flexRender(
+												cell.column.columnDef.cell,
+												cell.getContext(),
+											)}
+										</TableCell>
+									))}
+								</TableRow>
+								{openId === row.original.id ? (
+									<TableRow>
+										<TableCell colSpan={columns.length}>
+											<div className="flex flex-col gap-2">
+												<span className="text-xs text-muted-foreground">
+													{t("sentTo", { address: row.original.toAddress })}
+												</span>
+												<InboundEmailBody email={row.original} />
+											</div>
+										</TableCell>
+									</TableRow>
+								) : null}
+							</Fragment>
+						))
+					) : (
+						<TableRow>
+							<TableCell colSpan={columns.length} className="h-32 text-center">
+								<div className="flex flex-col items-center justify-center gap-1 py-6 text-muted-foreground">
+									<div className="text-sm font-medium">{t("empty.title")}</div>
+									<div className="text-xs">{t("empty.description")}</div>
+								</div>
+							</TableCell>
+						</TableRow>
+					)}
+				</TableBody>
+			</Table>
+
+			<div className="flex items-center justify-between border-t px-4 py-3 text-sm text-muted-foreground">
+				<span>{t("pagination.total", { total: data.total })}</span>
+				<div className="flex items-center gap-2">
+					<span>{t("pagination.page", { page, pageCount })}</span>
+					<Button
+						variant="outline"
+						size="sm"
+						disabled={page <= 1}
+						onClick={() => setFilters({ page: page - 1 })}
+					>
+						{t("pagination.previous")}
+					</Button>
+					<Button
+						variant="outline"
+						size="sm"
+						disabled={page >= pageCount}
+						onClick={() => setFilters({ page: page + 1 })}
+					>
+						{t("pagination.next")}
+					</Button>
+				</div>
+			</div>
+		</div>
+	);
+};
@@ -0,0 +1,57 @@
+"use client";
+
+import { useMutation } from "@tanstack/react-query";
+import { Loader2, Send } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { useQueryStates } from "nuqs";
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useTRPC } from "@/trpc/client";
+import { emailPreviewSearchParams } from "../search-params";
+
+export const SendTestEmailForm = () => {
+	const t = useTranslations("admin.emailTemplates.sendTest");
+	const trpc = useTRPC();
+	const [{ template, locale }] = useQueryStates(emailPreviewSearchParams);
+	const [to, setTo] = useState("");
+
+	const sendTestEmail = useMutation(
+		trpc.emails.sendTestEmail.mutationOptions({
+			onSuccess: (result) => {
+				toast.success(t("success", { to, provider: result.provider }));
+			},
+			onError: (error) => {
+				toast.error(t("error", { reason: error.message }));
+			},
+		}),
+	);
+
+	return (
+		<form
+			className="flex flex-col gap-2 md:flex-row"
+			onSubmit={(event) => {
+				event.preventDefault();
+				sendTestEmail.mutate({ to, template, locale });
+			}}
+		>
+			<Input
+				type="email"
+				required
+				value={to}
+				onChange={(event) => setTo(event.target.value)}
+				placeholder={t("placeholder")}
+				aria-label={t("label")}
+			/>
+			<Button type="submit" disabled={sendTestEmail.isPending}>
+				{sendTestEmail.isPending ? (
+					<Loader2 className="animate-spin" />
+				) : (
+					<Send />
+				)}
+				{t("submit")}
+			</Button>
+		</form>
+	);
+};
@@ -0,0 +1,53 @@
+"use client";
+
+import { useMutation } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { Button } from "@/components/ui/button";
+import { Link } from "@/modules/i18n/navigation";
+import { useTRPC } from "@/trpc/client";
+import type { EmailPreferenceCategory } from "../../preferences/types";
+
+interface Props {
+	token: string;
+	category: EmailPreferenceCategory;
+}
+
+/**
+ * Asks for confirmation before unsubscribing, so that link scanners
+ * opening the URL don't unsubscribe the recipient
+ */
+export const UnsubscribeConfirmation = ({ token, category }: Props) => {
+	const t = useTranslations("unsubscribe");
+	const trpc = useTRPC();
+	const categoryName = t(`categories.${category}`);
+
+	const unsubscribe = useMutation(trpc.emails.unsubscribe.mutationOptions());
+
+	if (unsubscribe.isSuccess) {
+		return (
+			<div className="flex flex-col items-center gap-4 text-center">
+				<p>{t("success", { category: categoryName })}</p>
+				<Button asChild variant="outline">
+					<Link href="/account/notifications">{t("manage")}</Link>
+				</Button>
+			</div>
+		);
+	}
+
+	return (
+		<div className="flex flex-col items-center gap-4 text-center">
+			<p>{t("description", { category: categoryName })}</p>
+			{unsubscribe.isError && (
+				<p className="text-sm text-destructive">{t("error")}</p>
+			)}
+			<Button
+				disabled={unsubscribe.isPending}
+				onClick={() => unsubscribe.mutate({ token })}
+			>
+				{unsubscribe.isPending && <Loader2 className="animate-spin" />}
+				{t("confirm")}
+			</Button>
+		</div>
+	);
+};
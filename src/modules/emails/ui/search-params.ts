@@ -0,0 +1,72 @@
+import {
+	createLoader,
+	parseAsInteger,
+	parseAsString,
+	parseAsStringEnum,
+	parseAsStringLiteral,
+} from "nuqs/server";
+import { defaultLocale, supportedLocales } from "@/modules/i18n/routing";
+import { EMAIL_TEMPLATE_TYPES } from "../config";
+import { InboundEmailKind, InboundEmailStatus } from "../inbound/types";
+import { EmailMessageStatus } from "../messages/types";
+import {
+	EMAIL_PREVIEW_TEMPLATES,
+	EMAIL_PREVIEW_THEMES,
+} from "../preview/types";
+
+export const EMAIL_MESSAGES_PAGE_SIZE = 25;
+
+/**
+ * Delivery log filters, kept in the URL so a filtered view can be shared
+ */
+export const emailMessagesSearchParams = {
+	status: parseAsStringEnum(Object.values(EmailMessageStatus)),
+	template: parseAsStringEnum([...EMAIL_TEMPLATE_TYPES]),
+	search: parseAsString.withDefault(""),
+	page: parseAsInteger.withDefault(1),
+};
+
+export const loadEmailMessagesSearchParams = createLoader(
+	emailMessagesSearchParams,
+);
+
+export const INBOUND_EMAILS_PAGE_SIZE = 25;
+
+/**
+ * Admin inbox filters, kept in the URL so a filtered view can be shared
+ */
+export const inboundEmailsSearchParams = {
+	kind: parseAsStringEnum(Object.values(InboundEmailKind)),
+	status: parseAsStringEnum(Object.values(InboundEmailStatus)),
+	search: parseAsString.withDefault(""),
+	page: parseAsInteger.withDefault(1),
+};
+
+export const loadInboundEmailsSearchParams = createLoader(
+	inboundEmailsSearchParams,
+);
+
+/**
+ * Template preview selection, kept in the URL to link to a given preview
+ */
+export const emailPreviewSearchParams = {
+	template: parseAsStringLiteral(EMAIL_PREVIEW_TEMPLATES).withDefault(
+		EMAIL_PREVIEW_TEMPLATES[0],
+	),
+	locale: parseAsStringLiteral(supportedLocales).withDefault(defaultLocale),
+	theme: parseAsStringLiteral(EMAIL_PREVIEW_THEMES).withDefault("light"),
+};
+
+export const loadEmailPreviewSearchParams = createLoader(
+	emailPreviewSearchParams,
+);
+
+/**
+ * Local inbox selection, kept in the URL to link to a captured email
+ */
+export const emailInboxSearchParams = {
+	id: parseAsString,
+	to: parseAsString.withDefault(""),
+};
+
+export const loadEmailInboxSearchParams = createLoader(emailInboxSearchParams);
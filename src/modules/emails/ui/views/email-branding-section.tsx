@@ -0,0 +1,40 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import { Suspense } from "react";
+import { ErrorBoundary } from "react-error-boundary";
+import { PlanFeature } from "@/modules/billing/plans";
+import { FeatureGate } from "@/modules/billing/ui/components/feature-gate";
+import { EmailBrandingForm } from "../components/email-branding-form";
+
+export const EmailBrandingSection = () => {
+	const t = useTranslations("emailBranding");
+
+	return (
+		<div className="flex flex-col gap-4">
+			<div className="flex flex-col gap-1">
+				<div className="text-base font-medium">{t("title")}</div>
+				<p className="text-sm text-muted-foreground">{t("description")}</p>
+			</div>
+			<div className="rounded-xl border">
+				<Suspense fallback={<EmailBrandingSectionLoading />}>
+					<ErrorBoundary fallback={<EmailBrandingSectionError />}>
+						<FeatureGate feature={PlanFeature.EMAIL_BRANDING}>
+							<EmailBrandingForm />
+						</FeatureGate>
+					</ErrorBoundary>
+				</Suspense>
+			</div>
+		</div>
+	);
+};
+
+export const EmailBrandingSectionLoading = () => {
+	return <div className="h-[420px] w-full animate-pulse rounded-xl" />;
+};
+
+export const EmailBrandingSectionError = () => {
+	return (
+		<div className="p-4 text-destructive">Error loading email branding</div>
+	);
+};
@@ -0,0 +1,84 @@
+"use client";
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Search, Trash2 } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { useQueryStates } from "nuqs";
+import { Suspense, useState } from "react";
+import { ErrorBoundary } from "react-error-boundary";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useTRPC } from "@/trpc/client";
+import { EmailInboxList } from "../components/email-inbox-list";
+import { emailInboxSearchParams } from "../search-params";
+
+export const EmailInboxView = () => {
+	const t = useTranslations("devInbox");
+	const trpc = useTRPC();
+	const queryClient = useQueryClient();
+	const [{ to }, setInbox] = useQueryStates(emailInboxSearchParams);
+	const [toInput, setToInput] = useState(to);
+
+	const clearInbox = useMutation(
+		trpc.emails.clearInbox.mutationOptions({
+			onSuccess: async () => {
+				await setInbox({ id: null });
+				await queryClient.invalidateQueries(
+					trpc.emails.listInbox.queryFilter(),
+				);
+			},
+		}),
+	);
+
+	return (
+		<div className="mx-auto flex w-full max-w-6xl flex-col gap-6">
+			<div className="flex flex-col gap-1">
+				<h1 className="text-xl font-semibold">{t("title")}</h1>
+				<p className="text-sm text-muted-foreground">{t("description")}</p>
+			</div>
+
+			<div className="flex flex-col gap-2 md:flex-row">
+				<form
+					className="relative flex-1"
+					onSubmit={(event) => {
+						event.preventDefault();
+						setInbox({ to: toInput.trim(), id: null });
+					}}
+				>
+					<Search className="absolute top-1/2 left-3 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+					<Input
+						className="pl-9"
+						value={toInput}
+						onChange={(event) => setToInput(event.target.value)}
+						placeholder={t("filter")}
+						aria-label={t("filter")}
+					/>
+				</form>
+				<Button
+					variant="outline"
+					disabled={clearInbox.isPending}
+					onClick={() => clearInbox.mutate()}
+				>
+					<Trash2 />
+					{t("clear")}
+				</Button>
+			</div>
+
+			<div className="rounded-xl border">
+				<Suspense fallback={<EmailInboxViewLoading />}>
+					<ErrorBoundary fallback={<EmailInboxViewError />}>
+						<EmailInboxList />
+					</ErrorBoundary>
+				</Suspense>
+			</div>
+		</div>
+	);
+};
+
+export const EmailInboxViewLoading = () => {
+	return <div className="h-[600px] w-full animate-pulse rounded-xl" />;
+};
+
+export const EmailInboxViewError = () => {
+	return <div className="p-4 text-destructive">Error loading the inbox</div>;
+};
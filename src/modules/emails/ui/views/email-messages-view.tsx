@@ -0,0 +1,116 @@
+"use client";
+
+import { Search } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { useQueryStates } from "nuqs";
+import { Suspense, useState } from "react";
+import { ErrorBoundary } from "react-error-boundary";
+import { Input } from "@/components/ui/input";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { EMAIL_TEMPLATE_TYPES, type EmailTemplateType } from "../../config";
+import { EmailMessageStatus } from "../../messages/types";
+import { EmailMessagesTable } from "../components/email-messages-table";
+import { emailMessagesSearchParams } from "../search-params";
+
+// Select value standing for "no filter", Radix Select doesn't allow empty values
+const ALL = "all";
+
+export const EmailMessagesView = () => {
+	const t = useTranslations("admin.emails");
+	const [{ status, template, search }, setFilters] = useQueryStates(
+		emailMessagesSearchParams,
+	);
+	const [searchInput, setSearchInput] = useState(search);
+
+	return (
+		<div className="mx-auto flex w-full max-w-6xl flex-col gap-6">
+			<div className="flex flex-col gap-1">
+				<h1 className="text-xl font-semibold">{t("title")}</h1>
+				<p className="text-sm text-muted-foreground">{t("description")}</p>
+			</div>
+
+			<div className="flex flex-col gap-2 md:flex-row">
+				<form
+					className="relative flex-1"
+					onSubmit={(event) => {
+						event.preventDefault();
+						setFilters({ search: searchInput.trim(), page: 1 });
+					}}
+				>
+					<Search className="absolute top-1/2 left-3 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+					<Input
+						className="pl-9"
+						value={searchInput}
+						onChange={(event) => setSearchInput(event.target.value)}
+						placeholder={t("filters.search")}
+						aria-label={t("filters.search")}
+					/>
+				</form>
+				<Select
+					value={status ?? ALL}
+					onValueChange={(value) =>
+						setFilters({
+							status: value === ALL ? null : (value as EmailMessageStatus),
+							page: 1,
+						})
+					}
+				>
+					<SelectTrigger className="md:w-44" aria-label={t("columns.status")}>
+						<SelectValue />
+					</SelectTrigger>
+					<SelectContent>
+						<SelectItem value={ALL}>{t("filters.allStatuses")}</SelectItem>
+						{Object.values(EmailMessageStatus).map((value) => (
+							<SelectItem key={value} value={value}>
+								{t(`statuses.${value}`)}
+							</SelectItem>
+						))}
+					</SelectContent>
+				</Select>
+				<Select
+					value={template ?? ALL}
+					onValueChange={(value) =>
+						setFilters({
+							template: value === ALL ? null : (value as EmailTemplateType),
+							page: 1,
+						})
+					}
+				>
+					<SelectTrigger className="md:w-52" aria-label={t("columns.template")}>
+						<SelectValue />
+					</SelectTrigger>
+					<SelectContent>
+						<SelectItem value={ALL}>{t("filters.allTemplates")}</SelectItem>
+						{EMAIL_TEMPLATE_TYPES.map((value) => (
+							<SelectItem key={value} value={value}>
+								{value}
+							</SelectItem>
+						))}
+					</SelectContent>
+				</Select>
+			</div>
+
+			<div className="rounded-xl border">
+				<Suspense fallback={<EmailMessagesViewLoading />}>
+					<ErrorBoundary fallback={<EmailMessagesViewError />}>
+						<EmailMessagesTable />
+					</ErrorBoundary>
+				</Suspense>
+			</div>
+		</div>
+	);
+};
+
+export const EmailMessagesViewLoading = () => {
+	return <div className="h-[400px] w-full animate-pulse rounded-xl" />;
+};
+
+export const EmailMessagesViewError = () => {
+	return <div className="p-4 text-destructive">Error loading emails</div>;
+};
@@ -0,0 +1,39 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import { Suspense } from "react";
+import { ErrorBoundary } from "react-error-boundary";
+import { EmailPreferencesForm } from "../components/email-preferences-form";
+
+export const EmailPreferencesView = () => {
+	const t = useTranslations("emailPreferences");
+
+	return (
+		<div className="mx-auto flex w-full max-w-3xl flex-col gap-6">
+			<div className="flex flex-col gap-1">
+				<h1 className="text-xl font-semibold">{t("title")}</h1>
+				<p className="text-sm text-muted-foreground">{t("description")}</p>
+			</div>
+
+			<div className="rounded-xl border">
+				<Suspense fallback={<EmailPreferencesViewLoading />}>
+					<ErrorBoundary fallback={<EmailPreferencesViewError />}>
+						<EmailPreferencesForm />
+					</ErrorBoundary>
+				</Suspense>
+			</div>
+
+			<p className="text-sm text-muted-foreground">{t("transactional")}</p>
+		</div>
+	);
+};
+
+export const EmailPreferencesViewLoading = () => {
+	return <div className="h-[240px] w-full animate-pulse rounded-xl" />;
+};
+
+export const EmailPreferencesViewError = () => {
+	return (
+		<div className="p-4 text-destructive">Error loading email preferences</div>
+	);
+};
@@ -0,0 +1,119 @@
+"use client";
+
+import { Moon, Sun } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { useQueryStates } from "nuqs";
+import { Suspense } from "react";
+import { ErrorBoundary } from "react-error-boundary";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { supportedLocales } from "@/modules/i18n/routing";
+import {
+	EMAIL_PREVIEW_TEMPLATES,
+	type EmailPreviewTemplate,
+	type EmailPreviewTheme,
+} from "../../preview/types";
+import { EmailPreviewFrame } from "../components/email-preview-frame";
+import { SendTestEmailForm } from "../components/send-test-email-form";
+import { emailPreviewSearchParams } from "../search-params";
+
+export const EmailPreviewView = () => {
+	const t = useTranslations("admin.emailTemplates");
+	const [{ template, locale, theme }, setPreview] = useQueryStates(
+		emailPreviewSearchParams,
+	);
+
+	return (
+		<div className="mx-auto flex w-full max-w-6xl flex-col gap-6">
+			<div className="flex flex-col gap-1">
+				<h1 className="text-xl font-semibold">{t("title")}</h1>
+				<p className="text-sm text-muted-foreground">{t("description")}</p>
+			</div>
+
+			<div className="flex flex-col gap-2 md:flex-row">
+				<Select
+					value={template}
+					onValueChange={(value) =>
+						setPreview({ template: value as EmailPreviewTemplate })
+					}
+				>
+					<SelectTrigger className="md:w-64" aria-label={t("template")}>
+						<SelectValue />
+					</SelectTrigger>
+					<SelectContent>
+						{EMAIL_PREVIEW_TEMPLATES.map((value) => (
+							<SelectItem key={value} value={value}>
+								{value}
+							</SelectItem>
+						))}
+					</SelectContent>
+				</Select>
+				<Select
+					value={locale}
+					onValueChange={(value) =>
+						setPreview({ locale: value as (typeof supportedLocales)[number] })
+					}
+				>
+					<SelectTrigger className="md:w-32" aria-label={t("locale")}>
+						<SelectValue />
+					</SelectTrigger>
+					<SelectContent>
+						{supportedLocales.map((value) => (
+							<SelectItem key={value} value={value}>
+								{value.toUpperCase()}
+							</SelectItem>
+						))}
+					</SelectContent>
+				</Select>
+				<ToggleGroup
+					type="single"
+					variant="outline"
+					value={theme}
+					onValueChange={(value) => {
+						// Radix emits an empty value when the active item is clicked again
+						if (value) {
+							setPreview({ theme: value as EmailPreviewTheme });
+						}
+					}}
+				>
+					<ToggleGroupItem value="light" aria-label={t("themes.light")}>
+						<Sun />
+					</ToggleGroupItem>
+					<ToggleGroupItem value="dark" aria-label={t("themes.dark")}>
+						<Moon />
+					</ToggleGroupItem>
+				</ToggleGroup>
+			</div>
+
+			<div className="rounded-xl border">
+				<Suspense fallback={<EmailPreviewViewLoading />}>
+					<ErrorBoundary fallback={<EmailPreviewViewError />}>
+						<EmailPreviewFrame />
+					</ErrorBoundary>
+				</Suspense>
+			</div>
+
+			<div className="flex flex-col gap-2">
+				<div className="text-base font-medium">{t("sendTest.title")}</div>
+				<p className="text-sm text-muted-foreground">
+					{t("sendTest.description")}
+				</p>
+				<SendTestEmailForm />
+			</div>
+		</div>
+	);
+};
+
+export const EmailPreviewViewLoading = () => {
+	return <div className="h-[780px] w-full animate-pulse rounded-xl" />;
+};
+
+export const EmailPreviewViewError = () => {
+	return <div className="p-4 text-destructive">Error rendering template</div>;
+};
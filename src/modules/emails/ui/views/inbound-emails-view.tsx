@@ -0,0 +1,115 @@
+"use client";
+
+import { Search } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { useQueryStates } from "nuqs";
+import { Suspense, useState } from "react";
+import { ErrorBoundary } from "react-error-boundary";
+import { Input } from "@/components/ui/input";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { InboundEmailKind, InboundEmailStatus } from "../../inbound/types";
+import { InboundEmailsTable } from "../components/inbound-emails-table";
+import { inboundEmailsSearchParams } from "../search-params";
+
+// Select value standing for "no filter", Radix Select doesn't allow empty values
+const ALL = "all";
+
+export const InboundEmailsView = () => {
+	const t = useTranslations("admin.inboundEmails");
+	const [{ kind, status, search }, setFilters] = useQueryStates(
+		inboundEmailsSearchParams,
+	);
+	const [searchInput, setSearchInput] = useState(search);
+
+	return (
+		<div className="mx-auto flex w-full max-w-6xl flex-col gap-6">
+			<div className="flex flex-col gap-1">
+				<h1 className="text-xl font-semibold">{t("title")}</h1>
+				<p className="text-sm text-muted-foreground">{t("description")}</p>
+			</div>
+
+			<div className="flex flex-col gap-2 md:flex-row">
+				<form
+					className="relative flex-1"
+					onSubmit={(event) => {
+						event.preventDefault();
+						setFilters({ search: searchInput.trim(), page: 1 });
+					}}
+				>
+					<Search className="absolute top-1/2 left-3 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+					<Input
+						className="pl-9"
+						value={searchInput}
+						onChange={(event) => setSearchInput(event.target.value)}
+						placeholder={t("filters.search")}
+						aria-label={t("filters.search")}
+					/>
+				</form>
+				<Select
+					value={status ?? ALL}
+					onValueChange={(value) =>
+						setFilters({
+							status: value === ALL ? null : (value as InboundEmailStatus),
+							page: 1,
+						})
+					}
+				>
+					<SelectTrigger className="md:w-44" aria-label={t("columns.status")}>
+						<SelectValue />
+					</SelectTrigger>
+					<SelectContent>
+						<SelectItem value={ALL}>{t("filters.allStatuses")}</SelectItem>
+						{Object.values(InboundEmailStatus).map((value) => (
+							<SelectItem key={value} value={value}>
+								{t(`statuses.${value}`)}
+							</SelectItem>
+						))}
+					</SelectContent>
+				</Select>
+				<Select
+					value={kind ?? ALL}
+					onValueChange={(value) =>
+						setFilters({
+							kind: value === ALL ? null : (value as InboundEmailKind),
+							page: 1,
+						})
+					}
+				>
+					<SelectTrigger className="md:w-52" aria-label={t("columns.kind")}>
+						<SelectValue />
+					</SelectTrigger>
+					<SelectContent>
+						<SelectItem value={ALL}>{t("filters.allKinds")}</SelectItem>
+						{Object.values(InboundEmailKind).map((value) => (
+							<SelectItem key={value} value={value}>
+								{t(`kinds.${value}`)}
+							</SelectItem>
+						))}
+					</SelectContent>
+				</Select>
+			</div>
+
+			<div className="rounded-xl border">
+				<Suspense fallback={<InboundEmailsViewLoading />}>
+					<ErrorBoundary fallback={<InboundEmailsViewError />}>
+						<InboundEmailsTable />
+					</ErrorBoundary>
+				</Suspense>
+			</div>
+		</div>
+	);
+};
+
+export const InboundEmailsViewLoading = () => {
+	return <div className="h-[400px] w-full animate-pulse rounded-xl" />;
+};
+
+export const InboundEmailsViewError = () => {
+	return <div className="p-4 text-destructive">Error loading the inbox</div>;
+};
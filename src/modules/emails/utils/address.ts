@@ -0,0 +1,59 @@
+/**
+ * Email Address Utilities
+ *
+ * Helpers for validating, inspecting and masking email addresses
+ */
+
+/**
+ * Validate email address format
+ *
+ * Simple email validation using a regex pattern
+ */
+export function isValidEmail(email: string): boolean {
+	const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+	return emailRegex.test(email);
+}
+
+/**
+ * Extract domain from email address
+ *
+ * Useful for email analytics or domain-based logic
+ */
+export function getEmailDomain(email: string): string {
+	return email.split("@")[1] || "";
+}
+
+/**
+ * Mask email address for privacy
+ *
+ * Masks the local part of email for logging or display
+ * Example: user@domain.com → u***@domain.com
+ */
+export function maskEmail(email: string): string {
+	if (!isValidEmail(email)) {
+		return email;
+	}
+
+	const [local, domain] = email.split("@");
+	if (local.length <= 2) {
+		return `${local[0]}***@${domain}`;
+	}
+
+	return `${local[0]}${"*".repeat(local.length - 2)}${local[local.length - 1]}@${domain}`;
+}
+
+/**
+ * Format an address with an optional display name
+ *
+ * Example: ("noreply@domain.com", "Acme") → "Acme" <noreply@domain.com>
+ */
+export function formatEmailAddress(email: string, name?: string): string {
+	if (!name) {
+		return email;
+	}
+
+	// Quotes and line breaks would break the header
+	const displayName = name.replace(/["\\\r\n]/g, "").trim();
+
+	return displayName ? `"${displayName}" <${email}>` : email;
+}
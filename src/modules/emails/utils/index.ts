@@ -1,6 +1,14 @@
 import { render } from "@react-email/render";
-import { env } from "@/lib/env";
-import { sendVerificationEmail } from "../services";
+import { type EmailPreviewTemplate, sendEmailPreview } from "../preview";
+import type { SendEmailResult } from "../providers";
+
+export {
+	formatEmailAddress,
+	getEmailDomain,
+	isValidEmail,
+	maskEmail,
+} from "./address";
+export { type RenderedEmail, renderEmail } from "./render";
 
 /**
  * Email Utilities
@@ -22,50 +30,15 @@ export async function renderEmailTemplate(
 /**
  * Send a test email for development
  *
- * Sends a test verification email to verify email functionality
- */
-export async function sendTestEmail(to: string): Promise<void> {
-	await sendVerificationEmail({
-		to,
-		userName: "Test User",
-		verificationUrl: `${env.NEXT_PUBLIC_APP_URL}/verify-email?token=test-token`,
-	});
-}
-
-/**
- * Validate email address format
- *
- * Simple email validation using a regex pattern
- */
-export function isValidEmail(email: string): boolean {
-	const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-	return emailRegex.test(email);
-}
-
-/**
- * Extract domain from email address
- *
- * Useful for email analytics or domain-based logic
+ * Sends any template rendered with sample data (the verification email by
+ * default) through the configured provider
  */
-export function getEmailDomain(email: string): string {
-	return email.split("@")[1] || "";
-}
-
-/**
- * Mask email address for privacy
- *
- * Masks the local part of email for logging or display
- * Example: user@domain.com → u***@domain.com
- */
-export function maskEmail(email: string): string {
-	if (!isValidEmail(email)) {
-		return email;
-	}
-
-	const [local, domain] = email.split("@");
-	if (local.length <= 2) {
-		return `${local[0]}***@${domain}`;
-	}
-
-	return `${local[0]}${"*".repeat(local.length - 2)}${local[local.length - 1]}@${domain}`;
+export async function sendTestEmail(
+	to: string,
+	{
+		template = "email-verification",
+		locale = "en",
+	}: { template?: EmailPreviewTemplate; locale?: string } = {},
+): Promise<SendEmailResult> {
+	return sendEmailPreview({ to, template, locale });
 }
@@ -0,0 +1,23 @@
+import { render } from "@react-email/render";
+
+export interface RenderedEmail {
+	html: string;
+	text: string;
+}
+
+/**
+ * Render an email template to HTML and its plain-text alternative
+ *
+ * Every email is sent as multipart so text-only clients can read it
+ * and spam filters don't penalize HTML-only messages.
+ */
+export async function renderEmail(
+	template: React.ReactElement,
+): Promise<RenderedEmail> {
+	const [html, text] = await Promise.all([
+		render(template),
+		render(template, { plainText: true }),
+	]);
+
+	return { html, text };
+}
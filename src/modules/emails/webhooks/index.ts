@@ -0,0 +1,132 @@
+import { env } from "@/lib/env";
+import { EmailMessageStatus, logProviderEvent } from "../messages";
+import { EmailSuppressionReason, suppressEmail } from "../suppression";
+import { parsePostmarkWebhook } from "./postmark";
+import { parseResendWebhook } from "./resend";
+import { parseSendgridWebhook } from "./sendgrid";
+import { parseSesWebhook } from "./ses";
+import {
+	EmailWebhookError,
+	type EmailWebhookEvent,
+	EmailWebhookEventType,
+} from "./types";
+
+/**
+ * Email Provider Webhooks
+ *
+ * Every provider reports deliveries, bounces and complaints in its own format:
+ * - The request is verified with the provider's signature scheme
+ * - Events are normalized into `EmailWebhookEvent`s
+ * - The delivery log is updated and hard bounces / complaints are suppressed
+ */
+
+const statuses = {
+	[EmailWebhookEventType.DELIVERED]: EmailMessageStatus.DELIVERED,
+	[EmailWebhookEventType.BOUNCED]: EmailMessageStatus.BOUNCED,
+	[EmailWebhookEventType.COMPLAINED]: EmailMessageStatus.COMPLAINED,
+} as const;
+
+const notConfigured = (provider: string) =>
+	new EmailWebhookError(`Webhooks are not configured for ${provider}`, 404);
+
+/**
+ * Verify a webhook request and normalize its events
+ */
+async function parseWebhook(
+	provider: string,
+	request: Request,
+): Promise<EmailWebhookEvent[]> {
+	const body = await request.text();
+
+	switch (provider) {
+		case "resend":
+			if (!env.RESEND_WEBHOOK_SECRET) {
+				throw notConfigured(provider);
+			}
+			return parseResendWebhook(body, request.headers, {
+				secret: env.RESEND_WEBHOOK_SECRET,
+			});
+		case "postmark":
+			if (!env.POSTMARK_WEBHOOK_TOKEN) {
+				throw notConfigured(provider);
+			}
+			return parsePostmarkWebhook(body, request.headers, {
+				token: env.POSTMARK_WEBHOOK_TOKEN,
+			});
+		case "sendgrid":
+			if (!env.SENDGRID_WEBHOOK_PUBLIC_KEY) {
+				throw notConfigured(provider);
+			}
+			return parseSendgridWebhook(body, request.headers, {
+				publicKey: env.SENDGRID_WEBHOOK_PUBLIC_KEY,
+			});
+		case "ses":
+			// SNS messages are signed by AWS, but anyone can sign messages for
+			// their own topic, so only the configured one is accepted
+			if (!env.AWS_SES_WEBHOOK_TOPIC_ARN) {
+				throw notConfigured(provider);
+			}
+			return parseSesWebhook(body, {
+				topicArn: env.AWS_SES_WEBHOOK_TOPIC_ARN,
+			});
+		default:
+			throw new EmailWebhookError(`Unknown email provider ${provider}`, 404);
+	}
+}
+
+/**
+ * Apply normalized events to the delivery log and the suppression list
+ */
+export async function applyEmailWebhookEvents(
+	provider: string,
+	events: EmailWebhookEvent[],
+): Promise<void> {
+	for (const event of events) {
+		if (event.messageId) {
+			await logProviderEvent(event.messageId, {
+				status: statuses[event.type],
+				details: event.details,
+			});
+		}
+
+		// Soft bounces (full mailbox, greylisting...) may succeed later
+		const shouldSuppress =
+			event.type === EmailWebhookEventType.COMPLAINED ||
+			(event.type === EmailWebhookEventType.BOUNCED && event.permanent);
+
+		if (shouldSuppress) {
+			await suppressEmail({
+				email: event.email,
+				reason:
+					event.type === EmailWebhookEventType.COMPLAINED
+						? EmailSuppressionReason.COMPLAINT
+						: EmailSuppressionReason.BOUNCE,
+				provider,
+				details: event.details,
+			});
+		}
+	}
+}
+
+/**
+ * Handle a webhook request sent by an email provider
+ *
+ * Throws `EmailWebhookError` when the request is unknown, unsigned or malformed.
+ */
+export async function handleEmailWebhook(provider: string, request: Request) {
+	const events = await parseWebhook(provider, request);
+
+	await applyEmailWebhookEvents(provider, events);
+
+	return { received: events.length };
+}
+
+export { parsePostmarkWebhook } from "./postmark";
+export { parseResendWebhook } from "./resend";
+export { parseSendgridWebhook } from "./sendgrid";
+export { parseSesWebhook, type SesWebhookOptions } from "./ses";
+export {
+	EmailWebhookError,
+	type EmailWebhookEvent,
+	EmailWebhookEventType,
+} from "./types";
@@ -0,0 +1,99 @@
+import { timingSafeEqual } from "node:crypto";
+import {
+	EmailWebhookError,
+	type EmailWebhookEvent,
+	EmailWebhookEventType,
+	parseWebhookJson,
+} from "./types";
+
+type PostmarkWebhookPayload = {
+	RecordType: string;
+	MessageID?: string;
+	// Bounce and SpamComplaint
+	Email?: string;
+	Type?: string;
+	Inactive?: boolean;
+	Description?: string;
+	Details?: string;
+	// Delivery
+	Recipient?: string;
+};
+
+/**
+ * Check the HTTP basic auth credentials configured on the Postmark webhook
+ *
+ * Postmark doesn't sign webhooks, the webhook URL is set up as
+ * https://postmark:<POSTMARK_WEBHOOK_TOKEN>@yourapp.com/api/emails/webhooks/postmark
+ */
+function verifyToken(headers: Headers, token: string) {
+	const authorization = headers.get("authorization") ?? "";
+	const [scheme, credentials] = authorization.split(" ");
+	const password = Buffer.from(credentials ?? "", "base64")
+		.toString()
+		.split(":")
+		.slice(1)
+		.join(":");
+
+	const expected = Buffer.from(token);
+	const received = Buffer.from(password);
+
+	if (
+		scheme !== "Basic" ||
+		expected.length !== received.length ||
+		!timingSafeEqual(expected, received)
+	) {
+		throw new EmailWebhookError("Invalid webhook credentials", 401);
+	}
+}
+
+/**
+ * Verify and normalize a Postmark webhook
+ */
+export function parsePostmarkWebhook(
+	body: string,
+	headers: Headers,
+	{ token }: { token: string },
+): EmailWebhookEvent[] {
+	verifyToken(headers, token);
+
+	const payload = parseWebhookJson<PostmarkWebhookPayload>(body);
+
+	switch (payload.RecordType) {
+		case "Delivery":
+			return payload.Recipient
+				? [
+						{
+							type: EmailWebhookEventType.DELIVERED,
+							email: payload.Recipient,
+							messageId: payload.MessageID,
+						},
+					]
+				: [];
+		case "Bounce":
+			return payload.Email
+				? [
+						{
+							type: EmailWebhookEventType.BOUNCED,
+							email: payload.Email,
+							messageId: payload.MessageID,
+							// Postmark deactivates addresses that must not be emailed again
+							permanent:
+								payload.Inactive === true || payload.Type === "HardBounce",
+							details: payload.Details ?? payload.Description,
+						},
+					]
+				: [];
+		case "SpamComplaint":
+			return payload.Email
+				? [
+						{
+							type: EmailWebhookEventType.COMPLAINED,
+							email: payload.Email,
+							messageId: payload.MessageID,
+						},
+					]
+				: [];
+		default:
+			return [];
+	}
+}
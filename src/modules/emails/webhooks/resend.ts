@@ -0,0 +1,96 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import {
+	EmailWebhookError,
+	type EmailWebhookEvent,
+	EmailWebhookEventType,
+	parseWebhookJson,
+} from "./types";
+
+// Reject signed requests older (or newer) than this to prevent replays
+const TIMESTAMP_TOLERANCE_SECONDS = 5 * 60;
+
+type ResendWebhookPayload = {
+	type: string;
+	data: {
+		email_id?: string;
+		to?: string[];
+		bounce?: { type?: string; message?: string };
+	};
+};
+
+const eventTypes: Record<string, EmailWebhookEventType> = {
+	"email.delivered": EmailWebhookEventType.DELIVERED,
+	"email.bounced": EmailWebhookEventType.BOUNCED,
+	"email.complained": EmailWebhookEventType.COMPLAINED,
+};
+
+/**
+ * Verify the Svix signature Resend attaches to webhooks
+ *
+ * @see https://docs.svix.com/receiving/verifying-payloads/how-manual
+ */
+function verifySignature(body: string, headers: Headers, secret: string) {
+	const id = headers.get("svix-id");
+	const timestamp = headers.get("svix-timestamp");
+	const signatures = headers.get("svix-signature");
+
+	if (!id || !timestamp || !signatures) {
+		throw new EmailWebhookError("Missing webhook signature", 401);
+	}
+
+	if (
+		Math.abs(Date.now() / 1000 - Number(timestamp)) >
+		TIMESTAMP_TOLERANCE_SECONDS
+	) {
+		throw new EmailWebhookError("Webhook timestamp out of tolerance", 401);
+	}
+
+	const key = Buffer.from(secret.replace(/^whsec_/, ""), "base64");
+	const expected = createHmac("sha256", key)
+		.update(`${id}.${timestamp}.${body}`)
+		.digest();
+
+	// The header holds space separated "v1,<base64>" signatures, one per active secret
+	const isValid = signatures.split(" ").some((entry) => {
+		const [version, signature] = entry.split(",");
+		const received = Buffer.from(signature ?? "", "base64");
+		return (
+			version === "v1" &&
+			received.length === expected.length &&
+			timingSafeEqual(received, expected)
+		);
+	});
+
+	if (!isValid) {
+		throw new EmailWebhookError("Invalid webhook signature", 401);
+	}
+}
+
+/**
+ * Verify and normalize a Resend webhook
+ */
+export function parseResendWebhook(
+	body: string,
+	headers: Headers,
+	{ secret }: { secret: string },
+): EmailWebhookEvent[] {
+	verifySignature(body, headers, secret);
+
+	const payload = parseWebhookJson<ResendWebhookPayload>(body);
+	const type = eventTypes[payload.type];
+
+	if (!type) {
+		return [];
+	}
+
+	return (payload.data.to ?? []).map((email) => ({
+		type,
+		email,
+		messageId: payload.data.email_id,
+		// Bounces are permanent unless explicitly reported as transient
+		permanent:
+			type === EmailWebhookEventType.BOUNCED &&
+			payload.data.bounce?.type !== "Transient",
+		details: payload.data.bounce?.message,
+	}));
+}
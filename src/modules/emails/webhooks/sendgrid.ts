@@ -0,0 +1,112 @@
+import { createPublicKey, verify } from "node:crypto";
+import {
+	EmailWebhookError,
+	type EmailWebhookEvent,
+	EmailWebhookEventType,
+	parseWebhookJson,
+} from "./types";
+
+const SIGNATURE_HEADER = "x-twilio-email-event-webhook-signature";
+const TIMESTAMP_HEADER = "x-twilio-email-event-webhook-timestamp";
+
+// Reject signed requests older (or newer) than this to prevent replays
+const TIMESTAMP_TOLERANCE_SECONDS = 5 * 60;
+
+type SendgridWebhookEvent = {
+	email: string;
+	event: string;
+	sg_message_id?: string;
+	type?: string;
+	reason?: string;
+};
+
+/**
+ * Verify the ECDSA signature of the SendGrid Event Webhook
+ *
+ * @see https://www.twilio.com/docs/sendgrid/for-developers/tracking-events/getting-started-event-webhook-security-features
+ */
+function verifySignature(body: string, headers: Headers, publicKey: string) {
+	const signature = headers.get(SIGNATURE_HEADER);
+	const timestamp = headers.get(TIMESTAMP_HEADER);
+
+	if (!signature || !timestamp) {
+		throw new EmailWebhookError("Missing webhook signature", 401);
+	}
+
+	if (
+		Math.abs(Date.now() / 1000 - Number(timestamp)) >
+		TIMESTAMP_TOLERANCE_SECONDS
+	) {
+		throw new EmailWebhookError("Webhook timestamp out of tolerance", 401);
+	}
+
+	// SendGrid shows the verification key as a base64 encoded DER public key
+	const key = createPublicKey({
+		key: Buffer.from(publicKey, "base64"),
+		format: "der",
+		type: "spki",
+	});
+
+	const isValid = verify(
+		"sha256",
+		Buffer.from(timestamp + body),
+		key,
+		Buffer.from(signature, "base64"),
+	);
+
+	if (!isValid) {
+		throw new EmailWebhookError("Invalid webhook signature", 401);
+	}
+}
+
+const toEvent = (event: SendgridWebhookEvent): EmailWebhookEvent | null => {
+	// sg_message_id is "<X-Message-Id returned on send>.<filter id>"
+	const messageId = event.sg_message_id?.split(".")[0];
+
+	switch (event.event) {
+		case "delivered":
+			return {
+				type: EmailWebhookEventType.DELIVERED,
+				email: event.email,
+				messageId,
+			};
+		case "bounce":
+			return {
+				type: EmailWebhookEventType.BOUNCED,
+				email: event.email,
+				messageId,
+				// "blocked" bounces are temporary rejections by the receiving server
+				permanent: event.type !== "blocked",
+				details: event.reason,
+			};
+		case "spamreport":
+			return {
+				type: EmailWebhookEventType.COMPLAINED,
+				email: event.email,
+				messageId,
+			};
+		default:
+			return null;
+	}
+};
+
+/**
+ * Verify and normalize a batch of SendGrid events
+ */
+export function parseSendgridWebhook(
+	body: string,
+	headers: Headers,
+	{ publicKey }: { publicKey: string },
+): EmailWebhookEvent[] {
+	verifySignature(body, headers, publicKey);
+
+	const events = parseWebhookJson<SendgridWebhookEvent[]>(body);
+
+	if (!Array.isArray(events)) {
+		throw new EmailWebhookError("Expected an array of events", 400);
+	}
+
+	return events
+		.map(toEvent)
+		.filter((event): event is EmailWebhookEvent => event !== null);
+}
@@ -0,0 +1,208 @@
+import { createVerify } from "node:crypto";
+import {
+	EmailWebhookError,
+	type EmailWebhookEvent,
+	EmailWebhookEventType,
+	parseWebhookJson,
+} from "./types";
+
+// SNS signing certificates and subscription URLs are only trusted on AWS hosts
+const SNS_HOST_PATTERN = /^sns\.[a-z0-9-]+\.amazonaws\.com(\.cn)?$/;
+
+type SnsMessage = {
+	Type: "Notification" | "SubscriptionConfirmation" | "UnsubscribeConfirmation";
+	MessageId: string;
+	TopicArn: string;
+	Subject?: string;
+	Message: string;
+	Timestamp: string;
+	SignatureVersion: string;
+	Signature: string;
+	SigningCertURL: string;
+	SubscribeURL?: string;
+	Token?: string;
+};
+
+type SesNotification = {
+	notificationType?: string;
+	eventType?: string;
+	mail: { messageId: string };
+	bounce?: {
+		bounceType: string;
+		bouncedRecipients: { emailAddress: string; diagnosticCode?: string }[];
+	};
+	complaint?: {
+		complainedRecipients: { emailAddress: string }[];
+		complaintFeedbackType?: string;
+	};
+	delivery?: { recipients: string[] };
+};
+
+export interface SesWebhookOptions {
+	/**
+	 * Only accept notifications from this SNS topic
+	 */
+	topicArn: string;
+	/**
+	 * Download the PEM certificate used to sign SNS messages
+	 */
+	fetchCertificate?: (url: string) => Promise<string>;
+	/**
+	 * Visit the SubscribeURL of a subscription confirmation
+	 */
+	confirmSubscription?: (url: string) => Promise<void>;
+}
+
+const certificateCache = new Map<string, string>();
+
+const isTrustedSnsUrl = (value: string) => {
+	try {
+		const url = new URL(value);
+		return url.protocol === "https:" && SNS_HOST_PATTERN.test(url.hostname);
+	} catch {
+		return false;
+	}
+};
+
+async function fetchSnsCertificate(url: string): Promise<string> {
+	const cached = certificateCache.get(url);
+	if (cached) {
+		return cached;
+	}
+
+	const response = await fetch(url);
+	if (!response.ok) {
+		throw new EmailWebhookError("Failed to download SNS certificate", 401);
+	}
+
+	const certificate = await response.text();
+	certificateCache.set(url, certificate);
+	return certificate;
+}
+
+async function visitSubscribeUrl(url: string): Promise<void> {
+	const response = await fetch(url);
+	if (!response.ok) {
+		throw new Error(
+			`SNS subscription confirmation failed (${response.status})`,
+		);
+	}
+}
+
+/**
+ * Build the canonical string SNS signs for a message
+ *
+ * @see https://docs.aws.amazon.com/sns/latest/dg/sns-verify-signature-of-message.html
+ */
+function getStringToSign(message: SnsMessage): string {
+	const keys: (keyof SnsMessage)[] =
+		message.Type === "Notification"
+			? ["Message", "MessageId", "Subject", "Timestamp", "TopicArn", "Type"]
+			: [
+					"Message",
+					"MessageId",
+					"SubscribeURL",
+					"Timestamp",
+					"Token",
+					"TopicArn",
+					"Type",
+				];
+
+	return keys
+		.filter((key) => message[key] !== undefined)
+		.map((key) => `${key}\n${message[key]}\n`)
+		.join("");
+}
+
+async function verifySignature(
+	message: SnsMessage,
+	fetchCertificate: (url: string) => Promise<string>,
+) {
+	if (!message.Signature || !isTrustedSnsUrl(message.SigningCertURL ?? "")) {
+		throw new EmailWebhookError("Invalid SNS signing certificate URL", 401);
+	}
+
+	const certificate = await fetchCertificate(message.SigningCertURL);
+	const isValid = createVerify(
+		message.SignatureVersion === "2" ? "RSA-SHA256" : "RSA-SHA1",
+	)
+		.update(getStringToSign(message))
+		.verify(certificate, message.Signature, "base64");
+
+	if (!isValid) {
+		throw new EmailWebhookError("Invalid SNS signature", 401);
+	}
+}
+
+const toEvents = (notification: SesNotification): EmailWebhookEvent[] => {
+	const messageId = notification.mail.messageId;
+
+	switch (notification.notificationType ?? notification.eventType) {
+		case "Delivery":
+			return (notification.delivery?.recipients ?? []).map((email) => ({
+				type: EmailWebhookEventType.DELIVERED,
+				email,
+				messageId,
+			}));
+		case "Bounce":
+			return (notification.bounce?.bouncedRecipients ?? []).map(
+				(recipient) => ({
+					type: EmailWebhookEventType.BOUNCED,
+					email: recipient.emailAddress,
+					messageId,
+					permanent: notification.bounce?.bounceType === "Permanent",
+					details: recipient.diagnosticCode,
+				}),
+			);
+		case "Complaint":
+			return (notification.complaint?.complainedRecipients ?? []).map(
+				(recipient) => ({
+					type: EmailWebhookEventType.COMPLAINED,
+					email: recipient.emailAddress,
+					messageId,
+					details: notification.complaint?.complaintFeedbackType,
+				}),
+			);
+		default:
+			return [];
+	}
+};
+
+/**
+ * Verify and normalize an SES notification delivered through SNS
+ *
+ * Subscription confirmations to the expected topic are accepted
+ * automatically once their signature is verified.
+ */
+export async function parseSesWebhook(
+	body: string,
+	{
+		topicArn,
+		fetchCertificate = fetchSnsCertificate,
+		confirmSubscription = visitSubscribeUrl,
+	}: SesWebhookOptions,
+): Promise<EmailWebhookEvent[]> {
+	const message = parseWebhookJson<SnsMessage>(body);
+
+	await verifySignature(message, fetchCertificate);
+
+	if (message.TopicArn !== topicArn) {
+		throw new EmailWebhookError("Unexpected SNS topic", 403);
+	}
+
+	if (message.Type === "SubscriptionConfirmation") {
+		if (!message.SubscribeURL || !isTrustedSnsUrl(message.SubscribeURL)) {
+			throw new EmailWebhookError("Invalid SNS subscribe URL", 400);
+		}
+
+		await confirmSubscription(message.SubscribeURL);
+		console.log(`✅ Confirmed SNS subscription to ${message.TopicArn}`);
+		return [];
+	}
+
+	if (message.Type !== "Notification") {
+		return [];
+	}
+
+	return toEvents(parseWebhookJson<SesNotification>(message.Message));
+}
@@ -0,0 +1,54 @@
+/**
+ * Provider-agnostic delivery event reported by a webhook
+ */
+export enum EmailWebhookEventType {
+	DELIVERED = "delivered",
+	BOUNCED = "bounced",
+	COMPLAINED = "complained",
+}
+
+export interface EmailWebhookEvent {
+	type: EmailWebhookEventType;
+	/**
+	 * Recipient the event is about
+	 */
+	email: string;
+	/**
+	 * Provider message id, as returned when the email was sent
+	 */
+	messageId?: string;
+	/**
+	 * Hard bounce: the address doesn't exist and must not be emailed again
+	 */
+	permanent?: boolean;
+	/**
+	 * Bounce diagnostic or complaint feedback
+	 */
+	details?: string;
+}
+
+/**
+ * Error thrown when a webhook request can't be trusted or understood
+ *
+ * `status` is the HTTP status the route answers with.
+ */
+export class EmailWebhookError extends Error {
+	readonly status: number;
+
+	constructor(message: string, status: number) {
+		super(message);
+		this.name = "EmailWebhookError";
+		this.status = status;
+	}
+}
+
+/**
+ * Parse a JSON webhook body, rejecting malformed payloads with a 400
+ */
+export function parseWebhookJson<T>(body: string): T {
+	try {
+		return JSON.parse(body) as T;
+	} catch {
+		throw new EmailWebhookError("Invalid JSON payload", 400);
+	}
+}
@@ -60,7 +60,6 @@ export async function getUserPreferences(
 			language: "en",
 			theme: "system",
 			timezone: "UTC",
-			emailNotifications: true,
 			additionalPreferences: JSON.stringify({}),
 		};
 
@@ -212,7 +211,6 @@ export async function createDefaultPreferences(
 		language?: SupportedLocale;
 		theme?: SupportedTheme;
 		timezone?: string;
-		emailNotifications?: boolean;
 	},
 ): Promise<UserPreferences> {
 	const defaultPreferences: NewUserPreferences = {
@@ -222,7 +220,6 @@ export async function createDefaultPreferences(
 		language: options.language || defaultLocale,
 		theme: options.theme || "system",
 		timezone: options.timezone || "UTC",
-		emailNotifications: options.emailNotifications ?? true,
 		additionalPreferences: JSON.stringify({}),
 	};
 
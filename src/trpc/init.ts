@@ -2,6 +2,8 @@ import { initTRPC, TRPCError } from "@trpc/server";
 import { headers } from "next/headers";
 import { cache } from "react";
 import { auth } from "@/lib/auth";
+import { getMemberRole } from "@/modules/auth/server/utils";
+import { isAdmin } from "@/modules/auth/utils";
 
 export const createTRPCContext = cache(async () => {
 	/**
@@ -44,3 +46,53 @@ export const protectedProcedure = baseProcedure.use(async ({ ctx, next }) => {
 		},
 	});
 });
+
+// Restricts a procedure to users with the Better Auth "admin" role
+export const adminProcedure = protectedProcedure.use(async ({ ctx, next }) => {
+	if (!isAdmin(ctx.auth.user)) {
+		throw new TRPCError({
+			code: "FORBIDDEN",
+			message: "Forbidden",
+		});
+	}
+
+	return next({ ctx });
+});
+
+// Restricts a procedure to owners and admins of the active organization
+export const organizationAdminProcedure = protectedProcedure.use(
+	async ({ ctx, next }) => {
+		const organizationId = ctx.auth.session.activeOrganizationId;
+		const role = organizationId
+			? await getMemberRole(ctx.auth.user.id, organizationId)
+			: null;
+
+		if (!organizationId || (role !== "owner" && role !== "admin")) {
+			throw new TRPCError({
+				code: "FORBIDDEN",
+				message: "Forbidden",
+			});
+		}
+
+		return next({ ctx: { ...ctx, organizationId } });
+	},
+);
+
+// Restricts a procedure to owners of the active organization, who manage its subscription
+export const organizationOwnerProcedure = protectedProcedure.use(
+	async ({ ctx, next }) => {
+		const organizationId = ctx.auth.session.activeOrganizationId;
+		const role = organizationId
+			? await getMemberRole(ctx.auth.user.id, organizationId)
+			: null;
+
+		if (!organizationId || role !== "owner") {
+			throw new TRPCError({
+				code: "FORBIDDEN",
+				message: "Forbidden",
+			});
+		}
+
+		return next({ ctx: { ...ctx, organizationId } });
+	},
+);
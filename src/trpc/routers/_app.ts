@@ -1,11 +1,13 @@
 import { authRouter } from "@/modules/auth/server/procedures";
 import { billingRouter } from "@/modules/billing/server/procedures";
+import { emailsRouter } from "@/modules/emails/server/procedures";
 import { baseProcedure, createTRPCRouter } from "../init";
 
 export const appRouter = createTRPCRouter({
 	healthcheck: baseProcedure.query(() => "yay!"),
 	auth: authRouter,
 	billing: billingRouter,
+	emails: emailsRouter,
 });
 
 // export type definition of API
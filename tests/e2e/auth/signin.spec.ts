@@ -1,5 +1,5 @@
 import { test, expect } from "../../fixtures/test-extend";
-import { createTestInbox, deleteTestInbox, validateMailDevConfig, waitForMailDevReady, clearAllEmails, type EmailTestInbox } from "../utils/maildev";
+import { createTestInbox, deleteTestInbox, waitForInboxReady, clearAllEmails, type EmailTestInbox } from "../utils/inbox";
 import {
   generateTestUser,
   AUTH_SELECTORS,
@@ -34,10 +34,9 @@ test.describe("User Sign-In with Email and Password", () => {
   let testInbox: EmailTestInbox;
   let testUser: ReturnType<typeof generateTestUser>;
 
-  // Validate MailDev configuration and wait for service before running tests
+  // Wait for the local inbox before running tests
   test.beforeAll(async () => {
-    validateMailDevConfig();
-    await waitForMailDevReady();
+    await waitForInboxReady();
   });
 
   // Create a fresh inbox for each test and clear any existing emails
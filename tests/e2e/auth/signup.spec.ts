@@ -2,11 +2,10 @@ import { test, expect } from "../../fixtures/test-extend";
 import {
   createTestInbox,
   deleteTestInbox,
-  validateMailDevConfig,
-  waitForMailDevReady,
+  waitForInboxReady,
   clearAllEmails,
   type EmailTestInbox,
-} from "../utils/maildev";
+} from "../utils/inbox";
 import { TestAssertions } from "../utils/test-helpers";
 import { signupFlow } from "../../flows/auth-flows";
 import { AuthPage } from "../../page-objects/AuthPage";
@@ -18,7 +17,7 @@ import { AuthPage } from "../../page-objects/AuthPage";
  * 1. User navigates to signup page
  * 2. User fills out signup form
  * 3. Better Auth sends verification email
- * 4. User receives email via MailDev
+ * 4. User receives email in the local inbox
  * 5. User clicks verification link
  * 6. User is verified and signed in
  *
@@ -35,10 +34,9 @@ test.setTimeout(120_000); // 2 minutes
 test.describe("User Signup with Email Verification", () => {
   let testInbox: EmailTestInbox;
 
-  // Validate MailDev configuration and wait for service before running tests
+  // Wait for the local inbox before running tests
   test.beforeAll(async () => {
-    validateMailDevConfig();
-    await waitForMailDevReady();
+    await waitForInboxReady();
   });
 
   // Create a fresh inbox for each test and clear any existing emails
@@ -0,0 +1,55 @@
+import { test, expect } from "@playwright/test";
+import { getCreditPeriod } from "@/modules/billing/credits";
+
+/**
+ * Credit Period Tests
+ *
+ * Monthly credits reset on the day of the subscription's billing period.
+ */
+
+const utc = (value: string) => new Date(`${value}Z`);
+
+test.describe("Credit periods", () => {
+  test("start on the day of the subscription period", () => {
+    expect(
+      getCreditPeriod(utc("2026-01-15T10:00:00"), utc("2026-03-20T00:00:00"))
+    ).toEqual({
+      start: utc("2026-03-15T10:00:00"),
+      end: utc("2026-04-15T10:00:00"),
+    });
+  });
+
+  test("end before the anchor time of the month", () => {
+    expect(
+      getCreditPeriod(utc("2026-01-15T10:00:00"), utc("2026-03-15T09:59:59"))
+    ).toEqual({
+      start: utc("2026-02-15T10:00:00"),
+      end: utc("2026-03-15T10:00:00"),
+    });
+  });
+
+  test("use the last day of shorter months", () => {
+    expect(
+      getCreditPeriod(utc("2026-01-31T00:00:00"), utc("2026-03-01T00:00:00"))
+    ).toEqual({
+      start: utc("2026-02-28T00:00:00"),
+      end: utc("2026-03-31T00:00:00"),
+    });
+  });
+
+  test("reset monthly for yearly subscriptions", () => {
+    expect(
+      getCreditPeriod(utc("2025-06-10T00:00:00"), utc("2026-01-05T00:00:00"))
+    ).toEqual({
+      start: utc("2025-12-10T00:00:00"),
+      end: utc("2026-01-10T00:00:00"),
+    });
+  });
+
+  test("follow calendar months without a subscription", () => {
+    expect(getCreditPeriod(null, utc("2026-02-14T12:00:00"))).toEqual({
+      start: utc("2026-02-01T00:00:00"),
+      end: utc("2026-03-01T00:00:00"),
+    });
+  });
+});
@@ -0,0 +1,48 @@
+import { test, expect } from "@playwright/test";
+import { createCatalogPlanSchema } from "@/modules/billing/catalog";
+import { promotionCodeSchema } from "@/modules/billing/discounts";
+
+/**
+ * Trials and Discounts Tests
+ *
+ * Promotion codes are checked before they are sent to checkout, and plans
+ * start new subscriptions with a trial of up to 730 days.
+ */
+
+test.describe("Promotion codes", () => {
+  test("accept Stripe promotion codes", () => {
+    expect(promotionCodeSchema.parse(" SPRING-25 ")).toBe("SPRING-25");
+    expect(promotionCodeSchema.safeParse("WELCOME_10").success).toBe(true);
+  });
+
+  test("reject empty or malformed codes", () => {
+    expect(promotionCodeSchema.safeParse("").success).toBe(false);
+    expect(promotionCodeSchema.safeParse("TEN OFF").success).toBe(false);
+    expect(promotionCodeSchema.safeParse("A".repeat(51)).success).toBe(false);
+  });
+});
+
+test.describe("Plan trials", () => {
+  const plan = {
+    name: "Plus",
+    priceId: "price_plus_monthly",
+    annualDiscountPriceId: "price_plus_yearly",
+    seats: 10,
+    monthlyCredits: 5000,
+    features: [],
+    recommended: false,
+    active: true,
+  };
+  const schema = createCatalogPlanSchema();
+
+  test("accept trials up to the longest Stripe allows", () => {
+    expect(schema.parse({ ...plan, trialDays: "14" }).trialDays).toBe(14);
+    expect(schema.safeParse({ ...plan, trialDays: 0 }).success).toBe(true);
+    expect(schema.safeParse({ ...plan, trialDays: 730 }).success).toBe(true);
+  });
+
+  test("reject negative or longer trials", () => {
+    expect(schema.safeParse({ ...plan, trialDays: -1 }).success).toBe(false);
+    expect(schema.safeParse({ ...plan, trialDays: 731 }).success).toBe(false);
+  });
+});
@@ -0,0 +1,80 @@
+import { test, expect } from "@playwright/test";
+import {
+  DunningStep,
+  getDueDunningStep,
+  getDunningSchedule,
+  getGraceEnd,
+  isDunningStatus,
+  isGracePeriodOver,
+} from "@/modules/billing/dunning";
+
+/**
+ * Dunning Tests
+ *
+ * Past due and unpaid subscriptions keep their plan for a grace period from
+ * the first failed payment, while the owner gets the failed payment emails.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const failedAt = new Date("2026-03-01T10:00:00Z");
+const daysLater = (days: number) =>
+  new Date(failedAt.getTime() + days * DAY_MS);
+
+test.describe("Dunning statuses", () => {
+  test("past due and unpaid subscriptions are in dunning", () => {
+    expect(isDunningStatus("past_due")).toBe(true);
+    expect(isDunningStatus("unpaid")).toBe(true);
+    expect(isDunningStatus("active")).toBe(false);
+    expect(isDunningStatus(null)).toBe(false);
+  });
+});
+
+test.describe("Grace period", () => {
+  test("ends grace days after the first failure", () => {
+    expect(getGraceEnd(failedAt, 14)).toEqual(daysLater(14));
+    expect(isGracePeriodOver(failedAt, 14, daysLater(13.9))).toBe(false);
+    expect(isGracePeriodOver(failedAt, 14, daysLater(14))).toBe(true);
+  });
+
+  test("a zero day grace period downgrades right away", () => {
+    expect(isGracePeriodOver(failedAt, 0, failedAt)).toBe(true);
+  });
+});
+
+test.describe("Failed payment emails", () => {
+  test("send a reminder halfway and a final notice the day before", () => {
+    expect(getDunningSchedule(14)).toEqual([
+      { step: DunningStep.FAILED, day: 0 },
+      { step: DunningStep.REMINDER, day: 7 },
+      { step: DunningStep.FINAL_NOTICE, day: 13 },
+      { step: DunningStep.DOWNGRADED, day: 14 },
+    ]);
+  });
+
+  test("skip steps that fall on the same day in short grace periods", () => {
+    expect(getDunningSchedule(2).map(({ step }) => step)).toEqual([
+      DunningStep.FAILED,
+      DunningStep.FINAL_NOTICE,
+      DunningStep.DOWNGRADED,
+    ]);
+    expect(getDunningSchedule(0).map(({ step }) => step)).toEqual([
+      DunningStep.DOWNGRADED,
+    ]);
+  });
+
+  test("only the latest due email is sent", () => {
+    expect(getDueDunningStep(failedAt, 14, failedAt)).toBe(DunningStep.FAILED);
+    expect(getDueDunningStep(failedAt, 14, daysLater(6))).toBe(
+      DunningStep.FAILED
+    );
+    expect(getDueDunningStep(failedAt, 14, daysLater(10))).toBe(
+      DunningStep.REMINDER
+    );
+    expect(getDueDunningStep(failedAt, 14, daysLater(13))).toBe(
+      DunningStep.FINAL_NOTICE
+    );
+    expect(getDueDunningStep(failedAt, 14, daysLater(30))).toBe(
+      DunningStep.DOWNGRADED
+    );
+  });
+});
@@ -0,0 +1,371 @@
+import { test, expect } from "@playwright/test";
+import type Stripe from "stripe";
+import {
+  createLocalStripeClient,
+  LOCAL_STRIPE_PRODUCTS,
+  LocalStripeBackend,
+} from "@/modules/billing/local-stripe";
+import { getProrationAmount } from "@/modules/billing/plan-changes";
+import {
+  freePlan,
+  mapStripeToAppSubscription,
+  type Plan,
+} from "@/modules/billing/plans";
+import { startHttpStub, type HttpStub } from "../utils/http-stub";
+
+/**
+ * Local Stripe Tests
+ *
+ * Runs the upgrade, cancel and invoice flows of the app through the real
+ * Stripe SDK against the in-memory backend used with STRIPE_LOCAL=true.
+ * Webhook events are delivered to a local stub and verified like the app's
+ * webhook endpoint does, no Stripe account or browser needed. The same flows
+ * through the app's endpoints are in tests/e2e/organization/billing.spec.ts.
+ */
+
+const webhookSecret = "whsec_local_test";
+
+const [starter, pro] = LOCAL_STRIPE_PRODUCTS;
+
+// The catalog the plan sync creates from the fixture products
+const plans: Plan[] = [
+  freePlan,
+  ...LOCAL_STRIPE_PRODUCTS.map((product, index) => ({
+    id: index + 1,
+    name: product.name,
+    priceId: product.prices.month.id,
+    annualDiscountPriceId: product.prices.year.id,
+    limits: {
+      seats: Number(product.metadata.seats),
+      monthlyCredits: Number(product.metadata.monthly_credits),
+    },
+    features: [],
+  })),
+];
+
+let stub: HttpStub;
+let backend: LocalStripeBackend;
+let stripe: Stripe;
+
+test.beforeEach(async () => {
+  stub = await startHttpStub();
+  backend = new LocalStripeBackend({
+    appUrl: "http://localhost:3000",
+    webhookSecret,
+    webhookUrl: `${stub.url}/api/auth/stripe/webhook`,
+  });
+  stripe = createLocalStripeClient(backend);
+});
+
+test.afterEach(async () => {
+  await backend.waitForWebhooks();
+  await stub.close();
+});
+
+/**
+ * Webhook events the stub received, verified with the signing secret
+ */
+const receivedEvents = async () => {
+  await backend.waitForWebhooks();
+
+  return stub.requests.map((request) =>
+    stripe.webhooks.constructEvent(
+      request.body,
+      request.headers["stripe-signature"] as string,
+      webhookSecret
+    )
+  );
+};
+
+/**
+ * Subscribe through Checkout like the Stripe plugin's upgrade endpoint
+ */
+const checkout = async (
+  priceId: string,
+  subscriptionData: Stripe.Checkout.SessionCreateParams.SubscriptionData = {}
+) => {
+  const customer = await stripe.customers.create({
+    email: "owner@example.com",
+    name: "Owner",
+  });
+  const session = await stripe.checkout.sessions.create({
+    mode: "subscription",
+    customer: customer.id,
+    line_items: [{ price: priceId, quantity: 1 }],
+    success_url:
+      "http://localhost:3000/account/billing?session={CHECKOUT_SESSION_ID}",
+    cancel_url: "http://localhost:3000/account/billing",
+    client_reference_id: "org_1",
+    metadata: { subscriptionId: "subscription_1", referenceId: "org_1" },
+    subscription_data: {
+      ...subscriptionData,
+      metadata: { subscriptionId: "subscription_1", referenceId: "org_1" },
+    },
+  });
+
+  const redirectUrl = backend.completeCheckoutSession(session.id);
+  const completed = await stripe.checkout.sessions.retrieve(session.id);
+  const subscription = await stripe.subscriptions.retrieve(
+    completed.subscription as string
+  );
+
+  return { customer, session, redirectUrl, subscription };
+};
+
+test.describe("Local Stripe catalog", () => {
+  test("lists the fixture prices with their products", async () => {
+    const prices: Stripe.Price[] = [];
+
+    for await (const price of stripe.prices.list({
+      active: true,
+      type: "recurring",
+      expand: ["data.product"],
+      limit: 1,
+    })) {
+      prices.push(price);
+    }
+
+    expect(prices.map((price) => price.id).sort()).toEqual(
+      LOCAL_STRIPE_PRODUCTS.flatMap((product) => [
+        product.prices.month.id,
+        product.prices.year.id,
+      ]).sort()
+    );
+
+    const proMonthly = prices.find((price) => price.id === pro.prices.month.id);
+    expect(proMonthly?.unit_amount).toBe(2900);
+    expect(proMonthly?.recurring?.interval).toBe("month");
+    expect((proMonthly?.product as Stripe.Product).metadata).toMatchObject({
+      seats: "10",
+      trial_days: "14",
+    });
+  });
+
+  test("answers unknown objects like Stripe", async () => {
+    const error = await stripe.subscriptions
+      .retrieve("sub_missing")
+      .catch((error: Stripe.errors.StripeError) => error);
+
+    expect(error).toMatchObject({
+      type: "StripeInvalidRequestError",
+      statusCode: 404,
+      code: "resource_missing",
+    });
+  });
+});
+
+test.describe("Local Stripe upgrade", () => {
+  test("starts the subscription of a completed Checkout", async () => {
+    const { customer, session, redirectUrl, subscription } = await checkout(
+      pro.prices.month.id
+    );
+
+    expect(session.url).toBe(
+      `http://localhost:3000/api/dev/stripe/checkout/${session.id}`
+    );
+    expect(redirectUrl).toBe(
+      `http://localhost:3000/account/billing?session=${session.id}`
+    );
+    expect(subscription.status).toBe("active");
+    expect(subscription.metadata.subscriptionId).toBe("subscription_1");
+    expect(subscription.items.data[0].price.id).toBe(pro.prices.month.id);
+
+    const appSubscription = mapStripeToAppSubscription(
+      subscription,
+      "org_1",
+      plans
+    );
+    expect(appSubscription.plan).toBe("Pro");
+    expect(appSubscription.stripeCustomerId).toBe(customer.id);
+    expect(appSubscription.periodEnd?.getTime()).toBeGreaterThan(Date.now());
+
+    const active = await stripe.subscriptions.list({
+      customer: customer.id,
+      status: "active",
+      expand: ["data.items.data.price"],
+    });
+    expect(active.data.map(({ id }) => id)).toEqual([subscription.id]);
+  });
+
+  test("sends signed webhook events in order", async () => {
+    const { session, subscription } = await checkout(starter.prices.month.id);
+    const events = await receivedEvents();
+
+    expect(events.map((event) => event.type)).toEqual([
+      "customer.created",
+      "customer.subscription.created",
+      "invoice.paid",
+      "checkout.session.completed",
+    ]);
+    expect(stub.requests[0].path).toBe("/api/auth/stripe/webhook");
+
+    const completed = events[3].data.object as Stripe.Checkout.Session;
+    expect(completed.id).toBe(session.id);
+    expect(completed.subscription).toBe(subscription.id);
+    expect(completed.metadata?.subscriptionId).toBe("subscription_1");
+  });
+
+  test("starts trials with a free invoice", async () => {
+    const { subscription } = await checkout(pro.prices.month.id, {
+      trial_period_days: 14,
+    });
+
+    expect(subscription.status).toBe("trialing");
+    expect(subscription.trial_end! - subscription.trial_start!).toBe(
+      14 * 24 * 60 * 60
+    );
+
+    const invoice = await stripe.invoices.retrieve(
+      subscription.latest_invoice as string
+    );
+    expect(invoice.total).toBe(0);
+    expect(invoice.status).toBe("paid");
+  });
+
+  test("prorates a switch to another plan", async () => {
+    const { subscription } = await checkout(starter.prices.month.id);
+    const item = subscription.items.data[0];
+
+    const preview = await stripe.invoices.createPreview({
+      customer: subscription.customer as string,
+      subscription: subscription.id,
+      subscription_details: {
+        items: [{ id: item.id, price: pro.prices.month.id, quantity: 1 }],
+        proration_behavior: "create_prorations",
+      },
+    });
+    expect(getProrationAmount(preview.lines.data)).toBeGreaterThan(0);
+    expect(getProrationAmount(preview.lines.data)).toBeLessThanOrEqual(
+      2900 - 900
+    );
+
+    const updated = await stripe.subscriptions.update(subscription.id, {
+      items: [{ id: item.id, price: pro.prices.month.id, quantity: 1 }],
+      proration_behavior: "create_prorations",
+    });
+    expect(updated.items.data[0].price.id).toBe(pro.prices.month.id);
+
+    const events = await receivedEvents();
+    const update = events.at(-1) as Stripe.CustomerSubscriptionUpdatedEvent;
+    expect(update.type).toBe("customer.subscription.updated");
+    expect(update.data.previous_attributes).toHaveProperty("items");
+  });
+});
+
+test.describe("Local Stripe cancellation", () => {
+  test("cancels at the end of the period through the billing portal", async () => {
+    const { customer, subscription } = await checkout(pro.prices.month.id);
+
+    const portal = await stripe.billingPortal.sessions.create({
+      customer: customer.id,
+      return_url: "http://localhost:3000/account/billing",
+      flow_data: {
+        type: "subscription_cancel",
+        subscription_cancel: { subscription: subscription.id },
+      },
+    });
+    expect(backend.completePortalSession(portal.id)).toBe(
+      "http://localhost:3000/account/billing"
+    );
+
+    const scheduled = await stripe.subscriptions.retrieve(subscription.id);
+    expect(scheduled.status).toBe("active");
+    expect(scheduled.cancel_at_period_end).toBe(true);
+    expect(scheduled.cancel_at).toBe(
+      subscription.items.data[0].current_period_end
+    );
+
+    // The Stripe plugin recognizes this message
+    await expect(
+      stripe.billingPortal.sessions.create({
+        customer: customer.id,
+        flow_data: {
+          type: "subscription_cancel",
+          subscription_cancel: { subscription: subscription.id },
+        },
+      })
+    ).rejects.toThrow(/already set to be cancel/);
+
+    const ended = backend.renewSubscription(subscription.id);
+    expect(ended.status).toBe("canceled");
+
+    const events = await receivedEvents();
+    expect(events.map((event) => event.type).slice(-2)).toEqual([
+      "customer.subscription.updated",
+      "customer.subscription.deleted",
+    ]);
+
+    const remaining = await stripe.subscriptions.list({
+      customer: customer.id,
+    });
+    expect(remaining.data).toHaveLength(0);
+  });
+
+  test("cancels right away", async () => {
+    const { subscription } = await checkout(starter.prices.month.id);
+
+    const canceled = await stripe.subscriptions.cancel(subscription.id, {
+      cancellation_details: { comment: "Too expensive" },
+    });
+    expect(canceled.status).toBe("canceled");
+    expect(canceled.cancellation_details?.comment).toBe("Too expensive");
+
+    const events = await receivedEvents();
+    expect(events.at(-1)?.type).toBe("customer.subscription.deleted");
+  });
+});
+
+test.describe("Local Stripe invoices", () => {
+  test("lists the invoices of a customer, newest first", async () => {
+    const { customer, subscription } = await checkout(pro.prices.month.id);
+
+    backend.renewSubscription(subscription.id);
+
+    const invoices = await stripe.invoices.list({
+      customer: customer.id,
+      limit: 50,
+      expand: ["data.payment_intent", "data.charge"],
+    });
+
+    expect(invoices.data).toHaveLength(2);
+    expect(invoices.data.map((invoice) => invoice.billing_reason)).toEqual([
+      "subscription_cycle",
+      "subscription_create",
+    ]);
+    expect(invoices.data.every((invoice) => invoice.status === "paid")).toBe(
+      true
+    );
+    expect(invoices.data[0].total).toBe(2900);
+    expect(invoices.data[0].number).toMatch(/^LOCAL-\d{4}$/);
+  });
+
+  test("leaves the invoice of a failed renewal open until it is paid", async () => {
+    const { subscription } = await checkout(starter.prices.month.id);
+
+    const pastDue = backend.renewSubscription(subscription.id, { paid: false });
+    expect(pastDue.status).toBe("past_due");
+
+    const failed = await stripe.invoices.retrieve(
+      pastDue.latest_invoice as string
+    );
+    expect(failed.status).toBe("open");
+    expect(failed.amount_remaining).toBe(900);
+    expect(failed.parent?.subscription_details?.subscription).toBe(
+      subscription.id
+    );
+
+    const paid = await stripe.invoices.pay(failed.id!);
+    expect(paid.status).toBe("paid");
+    expect((await stripe.subscriptions.retrieve(subscription.id)).status).toBe(
+      "active"
+    );
+
+    const events = await receivedEvents();
+    expect(events.map((event) => event.type).slice(-4)).toEqual([
+      "customer.subscription.updated",
+      "invoice.payment_failed",
+      "invoice.paid",
+      "customer.subscription.updated",
+    ]);
+  });
+});
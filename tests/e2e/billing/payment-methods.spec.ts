@@ -0,0 +1,49 @@
+import { test, expect } from "@playwright/test";
+import { createBillingContactSchema } from "@/modules/billing/payment-methods";
+
+/**
+ * Billing Contact Tests
+ *
+ * Validates the billing contact the form and the tRPC procedure share.
+ */
+
+const schema = createBillingContactSchema();
+
+test.describe("Billing contact", () => {
+  test("accepts and trims a contact", () => {
+    expect(
+      schema.parse({
+        name: "  Acme Inc. ",
+        email: " billing@acme.com ",
+        phone: "+1 (555) 010-0000",
+      })
+    ).toEqual({
+      name: "Acme Inc.",
+      email: "billing@acme.com",
+      phone: "+1 (555) 010-0000",
+    });
+  });
+
+  test("requires an email and allows an empty name and phone", () => {
+    expect(
+      schema.safeParse({ name: "", email: "billing@acme.com", phone: "" })
+        .success
+    ).toBe(true);
+    expect(schema.safeParse({ name: "", email: "", phone: "" }).success).toBe(
+      false
+    );
+  });
+
+  test("rejects phones with letters", () => {
+    const result = schema.safeParse({
+      name: "",
+      email: "billing@acme.com",
+      phone: "call me",
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].message).toBe(
+      "Phone must be at most 20 digits, spaces, dashes or parentheses"
+    );
+  });
+});
@@ -0,0 +1,159 @@
+import { test, expect } from "@playwright/test";
+import { getProrationAmount } from "@/modules/billing/plan-changes";
+import {
+  BillingPeriod,
+  freePlan,
+  getPlanPriceId,
+  getPlanForSubscription,
+  isFreePlan,
+  isSubscribedTo,
+  type Plan,
+  PlanFeature,
+  PlanIssue,
+  planHasFeature,
+  validatePlan,
+} from "@/modules/billing/plans";
+
+// Catalog plans are stored in the database, these stand in for them
+const paidPlan = (
+  id: number,
+  name: string,
+  features: PlanFeature[] = []
+): Plan => ({
+  id,
+  name,
+  priceId: `price_${name.toLowerCase()}_monthly`,
+  annualDiscountPriceId: `price_${name.toLowerCase()}_yearly`,
+  limits: { seats: id * 5, monthlyCredits: id * 1000 },
+  features,
+});
+
+const plans = [
+  freePlan,
+  paidPlan(1, "Basic"),
+  paidPlan(2, "Plus", [PlanFeature.EMAIL_BRANDING]),
+  paidPlan(3, "Pro", [
+    PlanFeature.EMAIL_BRANDING,
+    PlanFeature.PRIORITY_SUPPORT,
+  ]),
+];
+
+/**
+ * Plan Tests
+ *
+ * Organizations without a paid subscription are on the free plan, and
+ * features are gated by the plan they are on.
+ */
+
+test.describe("Plans", () => {
+  test("tell the free plan from paid plans", () => {
+    expect(isFreePlan(freePlan)).toBe(true);
+    expect(plans.slice(1).some(isFreePlan)).toBe(false);
+  });
+
+  test("resolve subscriptions to their plan", () => {
+    expect(getPlanForSubscription(plans, { plan: "plus" }).name).toBe("Plus");
+    expect(getPlanForSubscription(plans, { plan: "PRO" }).name).toBe("Pro");
+  });
+
+  test("fall back to the free plan", () => {
+    expect(getPlanForSubscription(plans, undefined)).toBe(freePlan);
+    expect(getPlanForSubscription(plans, null)).toBe(freePlan);
+    expect(getPlanForSubscription(plans, { plan: "enterprise" })).toBe(
+      freePlan
+    );
+    expect(getPlanForSubscription(plans, { plan: "free" })).toBe(freePlan);
+  });
+
+  test("gate features by plan", () => {
+    const plus = getPlanForSubscription(plans, { plan: "plus" });
+
+    expect(planHasFeature(freePlan, PlanFeature.EMAIL_BRANDING)).toBe(false);
+    expect(planHasFeature(plus, PlanFeature.EMAIL_BRANDING)).toBe(true);
+    expect(planHasFeature(plus, PlanFeature.PRIORITY_SUPPORT)).toBe(false);
+  });
+});
+
+test.describe("Plan catalog", () => {
+  test("accept plans with distinct monthly and yearly prices", () => {
+    for (const plan of plans.slice(1)) {
+      expect(validatePlan(plan)).toEqual([]);
+    }
+  });
+
+  test("report what keeps a plan from being offered", () => {
+    const plus = plans[2];
+
+    expect(validatePlan({ ...plus, annualDiscountPriceId: "" })).toEqual([
+      PlanIssue.MISSING_YEARLY_PRICE,
+    ]);
+    expect(validatePlan({ ...plus, priceId: "" })).toEqual([
+      PlanIssue.MISSING_MONTHLY_PRICE,
+    ]);
+    expect(
+      validatePlan({ ...plus, annualDiscountPriceId: plus.priceId })
+    ).toEqual([PlanIssue.SAME_PRICES]);
+    expect(
+      validatePlan({ ...plus, limits: { seats: 0, monthlyCredits: 0 } })
+    ).toEqual([PlanIssue.NO_SEATS]);
+    expect(validatePlan(freePlan)).toEqual([
+      PlanIssue.MISSING_MONTHLY_PRICE,
+      PlanIssue.MISSING_YEARLY_PRICE,
+    ]);
+  });
+
+  test("only resolve subscriptions to plans of the catalog", () => {
+    expect(getPlanForSubscription([freePlan], { plan: "plus" })).toBe(freePlan);
+  });
+});
+
+test.describe("Plan changes", () => {
+  const plus = getPlanForSubscription(plans, { plan: "plus" });
+
+  test("pick the price of the billing period", () => {
+    expect(getPlanPriceId(plus, BillingPeriod.MONTHLY)).toBe(plus.priceId);
+    expect(getPlanPriceId(plus, BillingPeriod.YEARLY)).toBe(
+      plus.annualDiscountPriceId
+    );
+  });
+
+  test("tell a period switch from the current plan", () => {
+    const monthly = { plan: "plus", priceId: plus.priceId };
+
+    expect(isSubscribedTo(plans, monthly, plus, BillingPeriod.MONTHLY)).toBe(
+      true
+    );
+    expect(isSubscribedTo(plans, monthly, plus, BillingPeriod.YEARLY)).toBe(
+      false
+    );
+    expect(
+      isSubscribedTo(plans, { plan: "plus" }, plus, BillingPeriod.YEARLY)
+    ).toBe(true);
+    expect(isSubscribedTo(plans, null, freePlan, BillingPeriod.YEARLY)).toBe(
+      true
+    );
+    expect(isSubscribedTo(plans, null, plus, BillingPeriod.MONTHLY)).toBe(
+      false
+    );
+  });
+
+  test("sum the proration lines of an invoice preview", () => {
+    const line = (amount: number, proration: boolean) =>
+      ({
+        amount,
+        parent: {
+          type: "subscription_item_details",
+          subscription_item_details: { proration },
+        },
+      }) as Parameters<typeof getProrationAmount>[0][number];
+
+    expect(
+      getProrationAmount([
+        line(-1500, true),
+        line(4500, true),
+        line(9000, false),
+      ])
+    ).toBe(3000);
+    expect(getProrationAmount([])).toBe(0);
+  });
+});
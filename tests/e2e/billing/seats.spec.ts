@@ -0,0 +1,68 @@
+import { test, expect } from "@playwright/test";
+import { freePlan, type Plan } from "@/modules/billing/plans";
+import {
+  getAvailableSeats,
+  getSeatLimit,
+  hasSeatForMember,
+  type SeatUsage,
+} from "@/modules/billing/seats";
+
+/**
+ * Seat Limit Tests
+ *
+ * Members and pending invitations take the seats of the organization's plan
+ * while billing is enabled.
+ */
+
+const basicPlan: Plan = {
+  id: 1,
+  name: "Basic",
+  priceId: "price_basic_monthly",
+  annualDiscountPriceId: "price_basic_yearly",
+  limits: { seats: 3, monthlyCredits: 1000 },
+  features: [],
+};
+
+const usage = (
+  plan: Plan,
+  isBillingEnabled: boolean,
+  used: number,
+  pending = 0
+): SeatUsage => ({
+  used,
+  pending,
+  limit: getSeatLimit(plan, isBillingEnabled),
+  plan: plan.name,
+});
+
+test.describe("Seat limits", () => {
+  test("let an organization without a subscription invite members when billing is disabled", () => {
+    // The owner is the only member of a new organization
+    const ownerOnly = usage(freePlan, false, 1);
+
+    expect(ownerOnly.limit).toBeNull();
+    expect(getAvailableSeats(ownerOnly)).toBeGreaterThan(0);
+    expect(hasSeatForMember(ownerOnly)).toBe(true);
+    expect(getAvailableSeats(usage(freePlan, false, 25, 10))).toBeGreaterThan(
+      0
+    );
+  });
+
+  test("hold the free plan to its seats when billing is enabled", () => {
+    const ownerOnly = usage(freePlan, true, 1);
+
+    expect(ownerOnly.limit).toBe(freePlan.limits.seats);
+    expect(getAvailableSeats(ownerOnly)).toBe(0);
+    expect(hasSeatForMember(ownerOnly)).toBe(false);
+  });
+
+  test("count pending invitations against the plan's seats", () => {
+    expect(getAvailableSeats(usage(basicPlan, true, 1, 1))).toBe(1);
+    expect(getAvailableSeats(usage(basicPlan, true, 1, 2))).toBe(0);
+  });
+
+  test("leave pending invitations out when a member joins", () => {
+    expect(hasSeatForMember(usage(basicPlan, true, 2, 1))).toBe(true);
+    expect(hasSeatForMember(usage(basicPlan, true, 3))).toBe(false);
+  });
+});
@@ -0,0 +1,154 @@
+import { test, expect } from "@playwright/test";
+import {
+  EmailProviderError,
+  type EmailProvider,
+} from "@/modules/emails/providers/base";
+import { CompositeEmailProvider } from "@/modules/emails/providers/composite";
+
+/**
+ * Composite Email Provider Tests
+ *
+ * Covers failover between providers, weighted routing and the
+ * per-provider circuit breaker using in-memory fake providers.
+ */
+
+const message = {
+  to: "user@example.com",
+  subject: "Hello",
+  html: "<p>Hello</p>",
+};
+
+const breaker = { failureThreshold: 2, cooldownMs: 60_000 };
+
+/**
+ * Fake provider that records calls and fails while `failWith` is set
+ */
+function createFakeProvider() {
+  const fake = {
+    calls: 0,
+    failWith: null as Error | null,
+    provider: {
+      async sendEmail() {
+        fake.calls++;
+        if (fake.failWith) {
+          throw fake.failWith;
+        }
+        return { provider: "fake" };
+      },
+    } satisfies EmailProvider,
+  };
+  return fake;
+}
+
+const transportError = () =>
+  new EmailProviderError("connection refused", {
+    provider: "fake",
+    retryable: true,
+  });
+
+test.describe("CompositeEmailProvider", () => {
+  test("fails over to the next provider on transport errors", async () => {
+    const primary = createFakeProvider();
+    const secondary = createFakeProvider();
+    primary.failWith = transportError();
+
+    const composite = new CompositeEmailProvider(
+      [
+        { name: "primary", provider: primary.provider },
+        { name: "secondary", provider: secondary.provider },
+      ],
+      breaker
+    );
+
+    await composite.sendEmail(message);
+
+    expect(primary.calls).toBe(1);
+    expect(secondary.calls).toBe(1);
+  });
+
+  test("does not fail over when the message itself is rejected", async () => {
+    const primary = createFakeProvider();
+    const secondary = createFakeProvider();
+    primary.failWith = new EmailProviderError("invalid recipient", {
+      provider: "fake",
+      status: 422,
+      retryable: false,
+    });
+
+    const composite = new CompositeEmailProvider(
+      [
+        { name: "primary", provider: primary.provider },
+        { name: "secondary", provider: secondary.provider },
+      ],
+      breaker
+    );
+
+    await expect(composite.sendEmail(message)).rejects.toThrow(
+      "invalid recipient"
+    );
+    expect(secondary.calls).toBe(0);
+  });
+
+  test("opens the circuit after consecutive failures", async () => {
+    const primary = createFakeProvider();
+    const secondary = createFakeProvider();
+    primary.failWith = transportError();
+
+    const composite = new CompositeEmailProvider(
+      [
+        { name: "primary", provider: primary.provider },
+        { name: "secondary", provider: secondary.provider },
+      ],
+      breaker
+    );
+
+    await composite.sendEmail(message);
+    await composite.sendEmail(message);
+    expect(composite.getHealth()[0].state).toBe("open");
+
+    // The open provider is skipped while a healthy one is available
+    await composite.sendEmail(message);
+    expect(primary.calls).toBe(2);
+    expect(secondary.calls).toBe(3);
+  });
+
+  test("throws a retryable error when every provider fails", async () => {
+    const primary = createFakeProvider();
+    const secondary = createFakeProvider();
+    primary.failWith = transportError();
+    secondary.failWith = new Error("socket hang up");
+
+    const composite = new CompositeEmailProvider(
+      [
+        { name: "primary", provider: primary.provider },
+        { name: "secondary", provider: secondary.provider },
+      ],
+      breaker
+    );
+
+    const error = await composite.sendEmail(message).catch((e) => e);
+    expect(error).toBeInstanceOf(EmailProviderError);
+    expect(error.retryable).toBe(true);
+  });
+
+  test("splits traffic by weight", async () => {
+    const heavy = createFakeProvider();
+    const light = createFakeProvider();
+
+    const composite = new CompositeEmailProvider(
+      [
+        { name: "heavy", provider: heavy.provider, weight: 90 },
+        { name: "light", provider: light.provider, weight: 10 },
+      ],
+      breaker
+    );
+
+    for (let i = 0; i < 200; i++) {
+      await composite.sendEmail(message);
+    }
+
+    expect(heavy.calls + light.calls).toBe(200);
+    expect(heavy.calls).toBeGreaterThan(light.calls);
+    expect(light.calls).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,325 @@
+import { connect } from "node:net";
+import { test, expect } from "@playwright/test";
+import nodemailer from "nodemailer";
+import {
+  getInboundAddress,
+  parseInboundAddress,
+} from "@/modules/emails/inbound/addresses";
+import { htmlToPlainText, parseMimeEmail } from "@/modules/emails/inbound/mime";
+import { parseInboundEmailPayload } from "@/modules/emails/inbound/payload";
+import {
+  type InboundSmtpEnvelope,
+  type InboundSmtpServer,
+  startInboundSmtpServer,
+} from "@/modules/emails/inbound/smtp";
+import {
+  InboundEmailError,
+  InboundEmailKind,
+} from "@/modules/emails/inbound/types";
+
+/**
+ * Inbound Email Tests
+ *
+ * Verifies the routing of reply addresses, the parsing of raw MIME emails
+ * and JSON payloads, and the local SMTP listener.
+ */
+
+const domain = "reply.example.com";
+
+const mime = (lines: string[]) => Buffer.from(lines.join("\r\n"), "utf8");
+
+test.describe("Inbound addresses", () => {
+  test("round-trips invitation and support addresses", () => {
+    const invitation = getInboundAddress(domain, {
+      kind: InboundEmailKind.INVITATION_REPLY,
+      invitationId: "AbC123",
+    });
+    const support = getInboundAddress(domain, {
+      kind: InboundEmailKind.SUPPORT,
+      organizationId: "org_1",
+    });
+
+    expect(invitation).toBe("invitation+AbC123@reply.example.com");
+    expect(support).toBe("support+org_1@reply.example.com");
+    expect(getInboundAddress(domain, { kind: InboundEmailKind.SUPPORT })).toBe(
+      "support@reply.example.com"
+    );
+
+    expect(parseInboundAddress(invitation, domain)).toEqual({
+      kind: InboundEmailKind.INVITATION_REPLY,
+      invitationId: "AbC123",
+    });
+    expect(parseInboundAddress(support, domain)).toEqual({
+      kind: InboundEmailKind.SUPPORT,
+      organizationId: "org_1",
+    });
+  });
+
+  test("routes other mailboxes to support and ignores other domains", () => {
+    expect(parseInboundAddress("Hello@REPLY.example.com", domain)).toEqual({
+      kind: InboundEmailKind.SUPPORT,
+      organizationId: undefined,
+    });
+    expect(parseInboundAddress("invitation@reply.example.com", domain)).toEqual(
+      { kind: InboundEmailKind.SUPPORT, organizationId: undefined }
+    );
+    expect(parseInboundAddress("support@example.com", domain)).toBeNull();
+    expect(parseInboundAddress("not-an-address", domain)).toBeNull();
+  });
+});
+
+test.describe("MIME parsing", () => {
+  test("reads the text and HTML parts of a multipart email", () => {
+    const email = parseMimeEmail(
+      mime([
+        'From: "Jane Doe" <jane@example.com>',
+        "To: invitation+abc@reply.example.com, other@example.com",
+        "Cc: support@reply.example.com",
+        "Subject: =?UTF-8?B?UmU6IEludml0YWNpw7Nu?=",
+        "Message-ID: <reply-1@example.com>",
+        "MIME-Version: 1.0",
+        'Content-Type: multipart/alternative; boundary="b1"',
+        "",
+        "preamble",
+        "--b1",
+        'Content-Type: text/plain; charset="utf-8"',
+        "Content-Transfer-Encoding: quoted-printable",
+        "",
+        "Gracias por la invitaci=C3=B3n, =",
+        "nos vemos.",
+        "--b1",
+        "Content-Type: text/html; charset=utf-8",
+        "Content-Transfer-Encoding: base64",
+        "",
+        Buffer.from("<p>Gracias</p>").toString("base64"),
+        "--b1--",
+        "",
+      ])
+    );
+
+    expect(email).toEqual({
+      messageId: "<reply-1@example.com>",
+      from: { address: "jane@example.com", name: "Jane Doe" },
+      to: [
+        "invitation+abc@reply.example.com",
+        "other@example.com",
+        "support@reply.example.com",
+      ],
+      subject: "Re: Invitación",
+      text: "Gracias por la invitación, nos vemos.",
+      html: "<p>Gracias</p>",
+      autoReply: false,
+    });
+  });
+
+  test("walks nested multiparts and skips attachments", () => {
+    const email = parseMimeEmail(
+      mime([
+        "From: jane@example.com",
+        "To: support@reply.example.com",
+        "Subject: Logs",
+        'Content-Type: multipart/mixed; boundary="outer"',
+        "",
+        "--outer",
+        'Content-Type: multipart/alternative; boundary="inner"',
+        "",
+        "--inner",
+        "Content-Type: text/plain",
+        "",
+        "See the attached logs",
+        "--inner--",
+        "--outer",
+        "Content-Type: text/plain",
+        'Content-Disposition: attachment; filename="logs.txt"',
+        "",
+        "secret log lines",
+        "--outer--",
+        "",
+      ])
+    );
+
+    expect(email.text).toBe("See the attached logs");
+    expect(email.html).toBeUndefined();
+  });
+
+  test("flags auto-replies", () => {
+    const email = parseMimeEmail(
+      mime([
+        "From: jane@example.com",
+        "To: support@reply.example.com",
+        "Subject: Out of office",
+        "Auto-Submitted: auto-replied",
+        "",
+        "I'm away until Monday",
+      ])
+    );
+
+    expect(email.autoReply).toBe(true);
+    expect(email.text).toBe("I'm away until Monday");
+  });
+
+  test("converts HTML bodies to plain text", () => {
+    expect(
+      htmlToPlainText(
+        "<html><head><style>p{}</style></head><body><p>Hi &amp; welcome</p><div>Line<br>break</div></body></html>"
+      )
+    ).toBe("Hi & welcome\nLine\nbreak");
+  });
+});
+
+test.describe("JSON payload", () => {
+  test("normalizes addresses and auto-reply headers", () => {
+    const email = parseInboundEmailPayload({
+      messageId: "<reply-2@example.com>",
+      from: "Jane Doe <jane@example.com>",
+      to: "support+org_1@reply.example.com",
+      subject: "Billing question",
+      text: "How do I change my plan?",
+      headers: { Precedence: "auto_reply" },
+    });
+
+    expect(email).toEqual({
+      messageId: "<reply-2@example.com>",
+      from: { address: "jane@example.com", name: "Jane Doe" },
+      to: ["support+org_1@reply.example.com"],
+      subject: "Billing question",
+      text: "How do I change my plan?",
+      html: undefined,
+      autoReply: true,
+    });
+  });
+
+  test("rejects payloads without a valid sender", () => {
+    expect(() => parseInboundEmailPayload({ to: "support@x.com" })).toThrow(
+      InboundEmailError
+    );
+
+    try {
+      parseInboundEmailPayload({ from: "nobody", to: [] });
+      throw new Error("Expected an InboundEmailError");
+    } catch (error) {
+      expect(error).toBeInstanceOf(InboundEmailError);
+      expect((error as InboundEmailError).status).toBe(400);
+    }
+  });
+});
+
+test.describe("Inbound SMTP listener", () => {
+  let server: InboundSmtpServer;
+  let received: { raw: Buffer; envelope: InboundSmtpEnvelope }[];
+  let fail: boolean;
+
+  const createTransport = () =>
+    nodemailer.createTransport({
+      host: "127.0.0.1",
+      port: server.port,
+      secure: false,
+      ignoreTLS: true,
+    });
+
+  // Write raw bytes and collect the replies until the server hangs up
+  const converse = (input: string) =>
+    new Promise<string>((resolve, reject) => {
+      const socket = connect(server.port, "127.0.0.1");
+      let replies = "";
+
+      socket.on("data", (chunk) => {
+        replies += chunk.toString();
+      });
+      socket.on("close", () => resolve(replies));
+      socket.on("error", reject);
+      socket.setTimeout(5000, () => socket.destroy(new Error("Timed out")));
+      socket.write(input);
+    });
+
+  test.beforeEach(async () => {
+    received = [];
+    fail = false;
+    server = await startInboundSmtpServer({
+      host: "127.0.0.1",
+      port: 0,
+      domain,
+      maxMessageBytes: 4096,
+      onMessage: async (raw, envelope) => {
+        if (fail) {
+          throw new Error("Database unavailable");
+        }
+        received.push({ raw, envelope });
+      },
+    });
+  });
+
+  test.afterEach(async () => {
+    await server.close();
+  });
+
+  test("receives emails for the inbound domain", async () => {
+    await createTransport().sendMail({
+      from: "Jane Doe <jane@example.com>",
+      to: "invitation+abc@reply.example.com",
+      subject: "Re: Join Acme",
+      text: "Thanks!\n.leading dot",
+    });
+
+    expect(received).toHaveLength(1);
+    expect(received[0].envelope).toEqual({
+      from: "jane@example.com",
+      to: ["invitation+abc@reply.example.com"],
+    });
+
+    const email = parseMimeEmail(received[0].raw);
+    expect(email.from).toEqual({
+      address: "jane@example.com",
+      name: "Jane Doe",
+    });
+    expect(email.subject).toBe("Re: Join Acme");
+    expect(email.text).toBe("Thanks!\n.leading dot");
+  });
+
+  test("refuses to relay to other domains", async () => {
+    await expect(
+      createTransport().sendMail({
+        from: "jane@example.com",
+        to: "someone@example.com",
+        subject: "Relay",
+        text: "Hello",
+      })
+    ).rejects.toThrow(/Relaying denied/);
+
+    expect(received).toHaveLength(0);
+  });
+
+  test("asks the sender to retry when processing fails", async () => {
+    fail = true;
+
+    await expect(
+      createTransport().sendMail({
+        from: "jane@example.com",
+        to: "support@reply.example.com",
+        subject: "Hello",
+        text: "Hello",
+      })
+    ).rejects.toMatchObject({ responseCode: 451 });
+  });
+
+  test("hangs up on lines over the RFC 5321 limits", async () => {
+    const command = await converse(`EHLO ${"a".repeat(600)}\r\n`);
+    expect(command).toMatch(/^500 5\.5\.2 Line too long/m);
+
+    const unterminated = await converse("x".repeat(5000));
+    expect(unterminated).toMatch(/^500 5\.5\.6 Line too long/m);
+  });
+
+  test("hangs up on messages over the size limit", async () => {
+    await expect(
+      createTransport().sendMail({
+        from: "jane@example.com",
+        to: "support@reply.example.com",
+        subject: "Large",
+        text: "Hello\n".repeat(1000),
+      })
+    ).rejects.toMatchObject({ responseCode: 552 });
+
+    expect(received).toHaveLength(0);
+  });
+});
@@ -0,0 +1,123 @@
+import { test, expect } from "@playwright/test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  FileEmailInbox,
+  MemoryEmailInbox,
+} from "@/modules/emails/inbox/stores";
+import type { InboxMessage } from "@/modules/emails/inbox/types";
+import { InboxEmailProvider } from "@/modules/emails/providers/inbox";
+
+/**
+ * Local Inbox Tests
+ *
+ * Verifies the inbox stores and provider that capture emails during
+ * development and E2E tests instead of delivering them.
+ */
+
+const message = (id: string, to: string, createdAt: string): InboxMessage => ({
+  id,
+  to,
+  subject: `Subject ${id}`,
+  html: `<a href="https://example.com/${id}">Open</a>`,
+  createdAt,
+});
+
+test.describe("Memory inbox", () => {
+  test("lists emails newest first", async () => {
+    const inbox = new MemoryEmailInbox();
+    await inbox.add(message("a", "user@example.com", "2026-01-01T00:00:00Z"));
+    await inbox.add(message("b", "user@example.com", "2026-01-02T00:00:00Z"));
+
+    const emails = await inbox.list();
+    expect(emails.map((email) => email.id)).toEqual(["b", "a"]);
+  });
+
+  test("filters emails by recipient case-insensitively", async () => {
+    const inbox = new MemoryEmailInbox();
+    await inbox.add(message("a", "user@example.com", "2026-01-01T00:00:00Z"));
+    await inbox.add(message("b", "other@example.com", "2026-01-02T00:00:00Z"));
+
+    const emails = await inbox.list({ to: "USER@example.com" });
+    expect(emails.map((email) => email.id)).toEqual(["a"]);
+  });
+
+  test("gets and clears emails", async () => {
+    const inbox = new MemoryEmailInbox();
+    await inbox.add(message("a", "user@example.com", "2026-01-01T00:00:00Z"));
+
+    expect((await inbox.get("a"))?.subject).toBe("Subject a");
+    expect(await inbox.get("missing")).toBeNull();
+
+    await inbox.clear();
+    expect(await inbox.list()).toEqual([]);
+  });
+});
+
+test.describe("File inbox", () => {
+  let directory: string;
+
+  test.beforeEach(async () => {
+    directory = path.join(
+      await mkdtemp(path.join(tmpdir(), "inbox-")),
+      "emails"
+    );
+  });
+
+  test.afterEach(async () => {
+    await rm(path.dirname(directory), { recursive: true, force: true });
+  });
+
+  test("shares emails between instances", async () => {
+    await new FileEmailInbox(directory).add(
+      message("a", "user@example.com", "2026-01-01T00:00:00Z")
+    );
+
+    const inbox = new FileEmailInbox(directory);
+    expect((await inbox.list()).map((email) => email.id)).toEqual(["a"]);
+    expect((await inbox.get("a"))?.to).toBe("user@example.com");
+  });
+
+  test("returns an empty list before the first email", async () => {
+    expect(await new FileEmailInbox(directory).list()).toEqual([]);
+  });
+
+  test("does not read files outside the directory", async () => {
+    const inbox = new FileEmailInbox(directory);
+    await inbox.add(message("a", "user@example.com", "2026-01-01T00:00:00Z"));
+
+    expect(await inbox.get("../emails/a")).not.toBeNull();
+    expect(await inbox.get("../../etc/passwd")).toBeNull();
+  });
+
+  test("clears emails", async () => {
+    const inbox = new FileEmailInbox(directory);
+    await inbox.add(message("a", "user@example.com", "2026-01-01T00:00:00Z"));
+    await inbox.clear();
+
+    expect(await inbox.list()).toEqual([]);
+  });
+});
+
+test.describe("Inbox email provider", () => {
+  test("captures sent emails in the inbox", async () => {
+    const inbox = new MemoryEmailInbox();
+    const provider = new InboxEmailProvider(inbox);
+
+    const result = await provider.sendEmail({
+      to: "user@example.com",
+      subject: "Verify your email",
+      html: "<p>Hello</p>",
+      text: "Hello",
+    });
+
+    expect(result.provider).toBe("inbox");
+    const captured = await inbox.get(result.messageId ?? "");
+    expect(captured).toMatchObject({
+      to: "user@example.com",
+      subject: "Verify your email",
+      text: "Hello",
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import { test, expect } from "@playwright/test";
+import { EmailProviderError } from "@/modules/emails/providers/base";
+import { PostmarkEmailProvider } from "@/modules/emails/providers/postmark";
+import { ResendEmailProvider } from "@/modules/emails/providers/resend";
+import { SendgridEmailProvider } from "@/modules/emails/providers/sendgrid";
+import { SesEmailProvider } from "@/modules/emails/providers/ses";
+import { startHttpStub, type HttpStub } from "../utils/http-stub";
+
+/**
+ * HTTP Email Provider Tests
+ *
+ * Verifies that every API-based email provider sends the expected request
+ * and maps failures to retryable / non-retryable errors.
+ * Runs against a local HTTP stub, no provider account or browser needed.
+ */
+
+const FROM = "noreply@example.com";
+const message = {
+  to: "user@example.com",
+  subject: "Verify your email",
+  html: "<p>Hello</p>",
+  text: "Hello",
+};
+
+test.describe("HTTP email providers", () => {
+  let stub: HttpStub;
+
+  test.beforeEach(async () => {
+    stub = await startHttpStub();
+  });
+
+  test.afterEach(async () => {
+    await stub.close();
+  });
+
+  test("Resend posts the email with a bearer token", async () => {
+    const provider = new ResendEmailProvider({
+      apiKey: "re_test",
+      from: FROM,
+      baseUrl: stub.url,
+    });
+
+    stub.respondWith({ status: 200, body: { id: "re_123" } });
+    const result = await provider.sendEmail(message);
+
+    expect(result).toEqual({ provider: "resend", messageId: "re_123" });
+    const [request] = stub.requests;
+    expect(request.path).toBe("/emails");
+    expect(request.headers.authorization).toBe("Bearer re_test");
+    expect(JSON.parse(request.body)).toMatchObject({
+      from: FROM,
+      to: [message.to],
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+    });
+  });
+
+  test("Postmark posts the email with the server token", async () => {
+    const provider = new PostmarkEmailProvider({
+      serverToken: "pm_test",
+      from: FROM,
+      messageStream: "outbound",
+      baseUrl: stub.url,
+    });
+
+    await provider.sendEmail(message);
+
+    const [request] = stub.requests;
+    expect(request.path).toBe("/email");
+    expect(request.headers["x-postmark-server-token"]).toBe("pm_test");
+    expect(JSON.parse(request.body)).toMatchObject({
+      From: FROM,
+      To: message.to,
+      HtmlBody: message.html,
+      TextBody: message.text,
+      MessageStream: "outbound",
+    });
+  });
+
+  test("Postmark maps cc, reply-to, headers, attachments and tags", async () => {
+    const provider = new PostmarkEmailProvider({
+      serverToken: "pm_test",
+      from: FROM,
+      messageStream: "outbound",
+      baseUrl: stub.url,
+    });
+
+    await provider.sendEmail({
+      ...message,
+      cc: ["a@example.com", "b@example.com"],
+      replyTo: "support@example.com",
+      headers: { "X-Entity-Ref-ID": "123" },
+      attachments: [
+        {
+          filename: "invoice.pdf",
+          content: "JVBERi0=",
+          contentType: "application/pdf",
+        },
+      ],
+      tags: { category: "billing" },
+    });
+
+    expect(JSON.parse(stub.requests[0].body)).toMatchObject({
+      Cc: "a@example.com,b@example.com",
+      ReplyTo: "support@example.com",
+      Headers: [{ Name: "X-Entity-Ref-ID", Value: "123" }],
+      Attachments: [
+        {
+          Name: "invoice.pdf",
+          Content: "JVBERi0=",
+          ContentType: "application/pdf",
+        },
+      ],
+      Metadata: { category: "billing" },
+    });
+  });
+
+  test("SendGrid posts text before html content", async () => {
+    const provider = new SendgridEmailProvider({
+      apiKey: "SG.test",
+      from: FROM,
+      baseUrl: stub.url,
+    });
+
+    await provider.sendEmail(message);
+
+    const [request] = stub.requests;
+    const body = JSON.parse(request.body);
+    expect(request.path).toBe("/v3/mail/send");
+    expect(request.headers.authorization).toBe("Bearer SG.test");
+    expect(body.personalizations[0].to[0].email).toBe(message.to);
+    expect(body.content.map((c: { type: string }) => c.type)).toEqual([
+      "text/plain",
+      "text/html",
+    ]);
+  });
+
+  test("the sender display name keeps the configured address", async () => {
+    const resend = new ResendEmailProvider({
+      apiKey: "re_test",
+      from: FROM,
+      baseUrl: stub.url,
+    });
+    const sendgrid = new SendgridEmailProvider({
+      apiKey: "SG.test",
+      from: FROM,
+      baseUrl: stub.url,
+    });
+
+    await resend.sendEmail({ ...message, fromName: 'Acme "Inc"' });
+    await sendgrid.sendEmail({ ...message, fromName: "Acme" });
+
+    const [resendRequest, sendgridRequest] = stub.requests;
+    expect(JSON.parse(resendRequest.body).from).toBe(`"Acme Inc" <${FROM}>`);
+    expect(JSON.parse(sendgridRequest.body).from).toEqual({
+      email: FROM,
+      name: "Acme",
+    });
+  });
+
+  test("SES signs the request with AWS Signature V4", async () => {
+    const provider = new SesEmailProvider({
+      region: "us-east-1",
+      accessKeyId: "AKIDTEST",
+      secretAccessKey: "secret",
+      from: FROM,
+      baseUrl: stub.url,
+    });
+
+    await provider.sendEmail(message);
+
+    const [request] = stub.requests;
+    expect(request.path).toBe("/v2/email/outbound-emails");
+    expect(request.headers["x-amz-date"]).toMatch(/^\d{8}T\d{6}Z$/);
+    expect(request.headers.authorization).toMatch(
+      /^AWS4-HMAC-SHA256 Credential=AKIDTEST\/\d{8}\/us-east-1\/ses\/aws4_request, SignedHeaders=content-type;host;x-amz-date, Signature=[0-9a-f]{64}$/
+    );
+    expect(JSON.parse(request.body)).toMatchObject({
+      FromEmailAddress: FROM,
+      Destination: { ToAddresses: [message.to] },
+    });
+  });
+
+  test("server errors are retryable, client errors are not", async () => {
+    const provider = new ResendEmailProvider({
+      apiKey: "re_test",
+      from: FROM,
+      baseUrl: stub.url,
+    });
+
+    stub.respondWith({ status: 503, body: { message: "unavailable" } });
+    const serverError = await provider.sendEmail(message).catch((e) => e);
+    expect(serverError).toBeInstanceOf(EmailProviderError);
+    expect(serverError.retryable).toBe(true);
+
+    stub.respondWith({ status: 422, body: { message: "invalid from" } });
+    const clientError = await provider.sendEmail(message).catch((e) => e);
+    expect(clientError).toBeInstanceOf(EmailProviderError);
+    expect(clientError.status).toBe(422);
+    expect(clientError.retryable).toBe(false);
+  });
+});
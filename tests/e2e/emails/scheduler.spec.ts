@@ -0,0 +1,49 @@
+import { test, expect } from "@playwright/test";
+import {
+  getIsoWeek,
+  getScheduledEmailKey,
+} from "@/modules/emails/scheduler/keys";
+
+/**
+ * Scheduled Email Key Tests
+ *
+ * Verifies the idempotency keys that prevent a reminder or digest from
+ * being sent twice.
+ */
+
+test.describe("Scheduled email keys", () => {
+  test("identify the occurrence of a reminder", () => {
+    const trialEnd = new Date("2026-01-15T12:00:00.000Z");
+
+    expect(getScheduledEmailKey("trialEnding", "sub_123", trialEnd)).toBe(
+      "trialEnding:sub_123:2026-01-15T12:00:00.000Z"
+    );
+  });
+
+  test("differ when the trial end moves", () => {
+    const first = getScheduledEmailKey(
+      "trialEnding",
+      "sub_123",
+      new Date("2026-01-15T12:00:00.000Z")
+    );
+    const second = getScheduledEmailKey(
+      "trialEnding",
+      "sub_123",
+      new Date("2026-01-22T12:00:00.000Z")
+    );
+
+    expect(first).not.toBe(second);
+  });
+
+  test("digests share the key within an ISO week", () => {
+    // Monday to Sunday
+    expect(getIsoWeek(new Date("2026-01-05T00:00:00Z"))).toBe("2026-W02");
+    expect(getIsoWeek(new Date("2026-01-11T23:59:59Z"))).toBe("2026-W02");
+    expect(getIsoWeek(new Date("2026-01-12T00:00:00Z"))).toBe("2026-W03");
+  });
+
+  test("weeks around new year belong to the year of their Thursday", () => {
+    expect(getIsoWeek(new Date("2025-12-29T00:00:00Z"))).toBe("2026-W01");
+    expect(getIsoWeek(new Date("2027-01-01T00:00:00Z"))).toBe("2026-W53");
+  });
+});
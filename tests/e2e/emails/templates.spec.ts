@@ -0,0 +1,155 @@
+import { readdirSync } from "node:fs";
+import path from "node:path";
+import { test, expect } from "@playwright/test";
+import type { ReactNode } from "react";
+import { DunningStep } from "@/modules/billing/dunning";
+import EmailVerification from "@/modules/emails/templates/email-verification";
+import InvitationEmail from "@/modules/emails/templates/invitation";
+import InvitationExpiringEmail from "@/modules/emails/templates/invitation-expiring";
+import InvitationReplyEmail from "@/modules/emails/templates/invitation-reply";
+import PasswordResetEmail from "@/modules/emails/templates/password-reset";
+import PaymentFailedEmail from "@/modules/emails/templates/payment-failed";
+import RenewalReminderEmail from "@/modules/emails/templates/renewal-reminder";
+import SubscriptionCancellationEmail from "@/modules/emails/templates/subscription-cancellation";
+import SubscriptionDowngradedEmail from "@/modules/emails/templates/subscription-downgraded";
+import SubscriptionUpgradeEmail from "@/modules/emails/templates/subscription-upgrade";
+import { EMAIL_PREVIEW_TEMPLATES } from "@/modules/emails/preview/types";
+import TrialEndingEmail from "@/modules/emails/templates/trial-ending";
+import WeeklyDigestEmail from "@/modules/emails/templates/weekly-digest";
+import WelcomeEmail from "@/modules/emails/templates/welcome";
+import { type RenderedEmail, renderEmail } from "@/modules/emails/utils/render";
+import { createReactElement } from "../utils/react-elements";
+
+/**
+ * Email Template Rendering Tests
+ *
+ * Verifies that every template in src/modules/emails/templates renders both
+ * an HTML body and a non-empty plain-text alternative.
+ * New templates must be registered below with sample props, otherwise the test fails.
+ */
+
+const TEMPLATES_DIR = path.join(process.cwd(), "src/modules/emails/templates");
+
+/**
+ * Render a template in the given locale, keeping its props type-checked
+ */
+const renderer =
+  <P extends { locale?: string }>(
+    template: (props: P) => ReactNode,
+    props: Omit<P, "locale">
+  ) =>
+  (locale: string) =>
+    renderEmail(createReactElement(template, { ...props, locale } as P));
+
+const templates: Record<string, (locale: string) => Promise<RenderedEmail>> = {
+  "email-verification": renderer(EmailVerification, {
+    userName: "Jane",
+    userEmail: "jane@example.com",
+    verificationUrl: "https://example.com/verify-email?token=abc",
+  }),
+  invitation: renderer(InvitationEmail, {
+    organizationName: "Acme",
+    inviterName: "John",
+    inviterEmail: "john@example.com",
+    role: "member",
+    inviteLink: "https://example.com/accept-invitation/abc",
+  }),
+  "invitation-expiring": renderer(InvitationExpiringEmail, {
+    organizationName: "Acme",
+    inviterName: "John",
+    inviteLink: "https://example.com/accept-invitation/abc",
+    expirationDate: "January 1, 2026",
+  }),
+  "invitation-reply": renderer(InvitationReplyEmail, {
+    inviterName: "John",
+    organizationName: "Acme",
+    senderName: "Jane",
+    senderEmail: "jane@example.com",
+    message: "Thanks, see you there!",
+  }),
+  "password-reset": renderer(PasswordResetEmail, {
+    userName: "Jane",
+    resetUrl: "https://example.com/reset-password?token=abc",
+  }),
+  "payment-failed": renderer(PaymentFailedEmail, {
+    userName: "Jane",
+    planName: "Pro",
+    step: DunningStep.REMINDER,
+    graceEndDate: "January 1, 2026",
+    billingUrl: "https://example.com/account/billing",
+    invoiceUrl: "https://invoice.stripe.com/i/abc",
+  }),
+  "renewal-reminder": renderer(RenewalReminderEmail, {
+    userName: "Jane",
+    planName: "Pro",
+    renewalDate: "January 1, 2026",
+    billingUrl: "https://example.com/account/billing",
+  }),
+  "subscription-cancellation": renderer(SubscriptionCancellationEmail, {
+    userName: "Jane",
+    userEmail: "jane@example.com",
+    dashboardUrl: "https://example.com/dashboard",
+    planName: "Pro",
+    effectiveDate: "January 1, 2026",
+  }),
+  "subscription-downgraded": renderer(SubscriptionDowngradedEmail, {
+    userName: "Jane",
+    planName: "Pro",
+    billingUrl: "https://example.com/account/billing",
+    invoiceUrl: "https://invoice.stripe.com/i/abc",
+  }),
+  "subscription-upgrade": renderer(SubscriptionUpgradeEmail, {
+    userName: "Jane",
+    userEmail: "jane@example.com",
+    dashboardUrl: "https://example.com/dashboard",
+    planName: "Pro",
+    planPrice: "$20.00",
+    billingCycle: "month",
+    nextBillingDate: "January 1, 2026",
+  }),
+  "trial-ending": renderer(TrialEndingEmail, {
+    userName: "Jane",
+    planName: "Pro",
+    trialEndDate: "January 1, 2026",
+    daysLeft: 3,
+    billingUrl: "https://example.com/account/billing",
+  }),
+  "weekly-digest": renderer(WeeklyDigestEmail, {
+    userName: "Jane",
+    organizationName: "Acme",
+    newMembers: ["John"],
+    pendingInvitations: 0,
+    dashboardUrl: "https://example.com/dashboard",
+  }),
+  welcome: renderer(WelcomeEmail, {
+    userName: "Jane",
+    userEmail: "jane@example.com",
+    dashboardUrl: "https://example.com/dashboard",
+  }),
+};
+
+const templateNames = readdirSync(TEMPLATES_DIR)
+  .filter((file) => file.endsWith(".tsx"))
+  .map((file) => path.basename(file, ".tsx"));
+
+test.describe("Email templates", () => {
+  test("every template is covered", () => {
+    expect(Object.keys(templates).sort()).toEqual(templateNames.sort());
+  });
+
+  test("every template is listed in the preview console", () => {
+    expect([...EMAIL_PREVIEW_TEMPLATES].sort()).toEqual(templateNames.sort());
+  });
+
+  for (const [name, render] of Object.entries(templates)) {
+    for (const locale of ["en", "es"]) {
+      test(`${name} renders html and plain text (${locale})`, async () => {
+        const { html, text } = await render(locale);
+
+        expect(html).toContain("<html");
+        expect(text.trim()).not.toBe("");
+        expect(text).not.toContain("<");
+      });
+    }
+  }
+});
@@ -0,0 +1,59 @@
+import { createHmac } from "node:crypto";
+import { test, expect } from "@playwright/test";
+import {
+  createUnsubscribeToken,
+  verifyUnsubscribeToken,
+} from "@/modules/emails/preferences/tokens";
+import { EmailCategory } from "@/modules/emails/preferences/types";
+
+/**
+ * Unsubscribe Token Tests
+ *
+ * Verifies that unsubscribe links can't be forged or altered to unsubscribe
+ * another user or from another category.
+ */
+
+const SECRET = "test-secret-with-at-least-32-characters";
+const payload = {
+  userId: "user_123",
+  category: EmailCategory.BILLING,
+} as const;
+
+test.describe("Unsubscribe tokens", () => {
+  test("round-trips the user and category", () => {
+    const token = createUnsubscribeToken(payload, SECRET);
+
+    expect(verifyUnsubscribeToken(token, SECRET)).toEqual(payload);
+  });
+
+  test("rejects tokens signed with another secret", () => {
+    const token = createUnsubscribeToken(payload, `${SECRET}-other`);
+
+    expect(verifyUnsubscribeToken(token, SECRET)).toBeNull();
+  });
+
+  test("rejects a tampered payload", () => {
+    const [, signature] = createUnsubscribeToken(payload, SECRET).split(".");
+    const forged = Buffer.from(
+      JSON.stringify({ u: "user_456", c: EmailCategory.BILLING })
+    ).toString("base64url");
+
+    expect(verifyUnsubscribeToken(`${forged}.${signature}`, SECRET)).toBeNull();
+  });
+
+  test("rejects transactional emails and malformed tokens", () => {
+    // Correctly signed, but transactional emails can't be turned off
+    const transactional = Buffer.from(
+      JSON.stringify({ u: "user_123", c: EmailCategory.TRANSACTIONAL })
+    ).toString("base64url");
+    const signature = createHmac("sha256", SECRET)
+      .update(`unsubscribe:${transactional}`)
+      .digest("base64url");
+
+    expect(
+      verifyUnsubscribeToken(`${transactional}.${signature}`, SECRET)
+    ).toBeNull();
+    expect(verifyUnsubscribeToken("not-a-token", SECRET)).toBeNull();
+    expect(verifyUnsubscribeToken("", SECRET)).toBeNull();
+  });
+});
@@ -0,0 +1,404 @@
+import { test, expect } from "@playwright/test";
+import { createHmac, createSign, generateKeyPairSync, sign } from "node:crypto";
+import type {
+  EmailProvider,
+  SendEmailOptions,
+} from "@/modules/emails/providers/base";
+import { SuppressionListEmailProvider } from "@/modules/emails/providers/suppression";
+import { parsePostmarkWebhook } from "@/modules/emails/webhooks/postmark";
+import { parseResendWebhook } from "@/modules/emails/webhooks/resend";
+import { parseSendgridWebhook } from "@/modules/emails/webhooks/sendgrid";
+import { parseSesWebhook } from "@/modules/emails/webhooks/ses";
+import {
+  EmailWebhookError,
+  EmailWebhookEventType,
+} from "@/modules/emails/webhooks/types";
+
+/**
+ * Email Webhook Tests
+ *
+ * Verifies that provider webhooks are only accepted with a valid signature
+ * and that bounces, complaints and deliveries are normalized, and that
+ * suppressed recipients are never emailed.
+ * Signatures are computed locally, no provider account or browser needed.
+ */
+
+const expectWebhookError = (fn: () => unknown, status: number) => {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).toBeInstanceOf(EmailWebhookError);
+    expect((error as EmailWebhookError).status).toBe(status);
+    return;
+  }
+  throw new Error("Expected an EmailWebhookError");
+};
+
+test.describe("Resend webhooks", () => {
+  const secret = `whsec_${Buffer.from("resend-secret").toString("base64")}`;
+  const body = JSON.stringify({
+    type: "email.bounced",
+    data: {
+      email_id: "re_123",
+      to: ["user@example.com"],
+      bounce: { type: "Permanent", message: "Mailbox does not exist" },
+    },
+  });
+
+  const signedHeaders = (payload: string, timestamp = Date.now() / 1000) => {
+    const id = "msg_1";
+    const signature = createHmac("sha256", Buffer.from("resend-secret"))
+      .update(`${id}.${Math.floor(timestamp)}.${payload}`)
+      .digest("base64");
+    return new Headers({
+      "svix-id": id,
+      "svix-timestamp": String(Math.floor(timestamp)),
+      "svix-signature": `v1,invalid v1,${signature}`,
+    });
+  };
+
+  test("normalizes a signed bounce", () => {
+    const events = parseResendWebhook(body, signedHeaders(body), { secret });
+
+    expect(events).toEqual([
+      {
+        type: EmailWebhookEventType.BOUNCED,
+        email: "user@example.com",
+        messageId: "re_123",
+        permanent: true,
+        details: "Mailbox does not exist",
+      },
+    ]);
+  });
+
+  test("rejects a tampered body", () => {
+    const headers = signedHeaders(body);
+    expectWebhookError(
+      () => parseResendWebhook(`${body} `, headers, { secret }),
+      401
+    );
+  });
+
+  test("rejects a replayed request", () => {
+    const headers = signedHeaders(body, Date.now() / 1000 - 60 * 60);
+    expectWebhookError(
+      () => parseResendWebhook(body, headers, { secret }),
+      401
+    );
+  });
+});
+
+test.describe("Postmark webhooks", () => {
+  const token = "postmark-token";
+  const basicAuth = (password: string) =>
+    new Headers({
+      authorization: `Basic ${Buffer.from(`postmark:${password}`).toString("base64")}`,
+    });
+
+  test("normalizes a spam complaint", () => {
+    const body = JSON.stringify({
+      RecordType: "SpamComplaint",
+      MessageID: "pm_123",
+      Email: "user@example.com",
+    });
+
+    expect(parsePostmarkWebhook(body, basicAuth(token), { token })).toEqual([
+      {
+        type: EmailWebhookEventType.COMPLAINED,
+        email: "user@example.com",
+        messageId: "pm_123",
+      },
+    ]);
+  });
+
+  test("treats soft bounces as temporary", () => {
+    const body = JSON.stringify({
+      RecordType: "Bounce",
+      MessageID: "pm_123",
+      Email: "user@example.com",
+      Type: "SoftBounce",
+      Inactive: false,
+      Description: "Mailbox full",
+    });
+
+    const [event] = parsePostmarkWebhook(body, basicAuth(token), { token });
+
+    expect(event.permanent).toBe(false);
+  });
+
+  test("rejects wrong credentials", () => {
+    expectWebhookError(
+      () => parsePostmarkWebhook("{}", basicAuth("wrong"), { token }),
+      401
+    );
+  });
+});
+
+test.describe("SendGrid webhooks", () => {
+  const { publicKey, privateKey } = generateKeyPairSync("ec", {
+    namedCurve: "prime256v1",
+  });
+  const verificationKey = publicKey
+    .export({ format: "der", type: "spki" })
+    .toString("base64");
+
+  const signedHeaders = (payload: string, timestamp = Date.now() / 1000) => {
+    const signedAt = String(Math.floor(timestamp));
+    const signature = sign(
+      "sha256",
+      Buffer.from(signedAt + payload),
+      privateKey
+    ).toString("base64");
+    return new Headers({
+      "x-twilio-email-event-webhook-signature": signature,
+      "x-twilio-email-event-webhook-timestamp": signedAt,
+    });
+  };
+
+  test("normalizes a signed batch of events", () => {
+    const body = JSON.stringify([
+      {
+        email: "user@example.com",
+        event: "delivered",
+        sg_message_id: "sg_123.filter0001",
+      },
+      {
+        email: "other@example.com",
+        event: "bounce",
+        type: "blocked",
+        sg_message_id: "sg_456.filter0001",
+      },
+      { email: "user@example.com", event: "open" },
+    ]);
+
+    const events = parseSendgridWebhook(body, signedHeaders(body), {
+      publicKey: verificationKey,
+    });
+
+    expect(events).toEqual([
+      {
+        type: EmailWebhookEventType.DELIVERED,
+        email: "user@example.com",
+        messageId: "sg_123",
+      },
+      {
+        type: EmailWebhookEventType.BOUNCED,
+        email: "other@example.com",
+        messageId: "sg_456",
+        permanent: false,
+        details: undefined,
+      },
+    ]);
+  });
+
+  test("rejects an invalid signature", () => {
+    const headers = signedHeaders("[]");
+    expectWebhookError(
+      () =>
+        parseSendgridWebhook('[{"event":"spamreport"}]', headers, {
+          publicKey: verificationKey,
+        }),
+      401
+    );
+  });
+
+  test("rejects a replayed batch", () => {
+    const body = '[{"email":"user@example.com","event":"spamreport"}]';
+    const headers = signedHeaders(body, Date.now() / 1000 - 60 * 60);
+
+    expectWebhookError(
+      () => parseSendgridWebhook(body, headers, { publicKey: verificationKey }),
+      401
+    );
+  });
+});
+
+test.describe("SES webhooks", () => {
+  const { publicKey, privateKey } = generateKeyPairSync("rsa", {
+    modulusLength: 2048,
+  });
+  const certificate = publicKey.export({ format: "pem", type: "spki" });
+  const topicArn = "arn:aws:sns:us-east-1:123456789012:ses-notifications";
+  const certUrl = "https://sns.us-east-1.amazonaws.com/cert.pem";
+
+  const signMessage = (message: Record<string, string>) => {
+    const keys =
+      message.Type === "Notification"
+        ? ["Message", "MessageId", "Subject", "Timestamp", "TopicArn", "Type"]
+        : [
+            "Message",
+            "MessageId",
+            "SubscribeURL",
+            "Timestamp",
+            "Token",
+            "TopicArn",
+            "Type",
+          ];
+    const stringToSign = keys
+      .filter((key) => message[key] !== undefined)
+      .map((key) => `${key}\n${message[key]}\n`)
+      .join("");
+    const signature = createSign("RSA-SHA256")
+      .update(stringToSign)
+      .sign(privateKey, "base64");
+
+    return JSON.stringify({
+      ...message,
+      SignatureVersion: "2",
+      Signature: signature,
+      SigningCertURL: certUrl,
+    });
+  };
+
+  const notification = (topic = topicArn) =>
+    signMessage({
+      Type: "Notification",
+      MessageId: "sns_1",
+      TopicArn: topic,
+      Timestamp: new Date().toISOString(),
+      Message: JSON.stringify({
+        notificationType: "Bounce",
+        mail: { messageId: "ses_123" },
+        bounce: {
+          bounceType: "Permanent",
+          bouncedRecipients: [
+            { emailAddress: "user@example.com", diagnosticCode: "550 5.1.1" },
+          ],
+        },
+      }),
+    });
+
+  const fetchCertificate = async (url: string) => {
+    expect(url).toBe(certUrl);
+    return certificate.toString();
+  };
+
+  test("normalizes a signed bounce notification", async () => {
+    const events = await parseSesWebhook(notification(), {
+      topicArn,
+      fetchCertificate,
+    });
+
+    expect(events).toEqual([
+      {
+        type: EmailWebhookEventType.BOUNCED,
+        email: "user@example.com",
+        messageId: "ses_123",
+        permanent: true,
+        details: "550 5.1.1",
+      },
+    ]);
+  });
+
+  test("rejects notifications from another topic", async () => {
+    const body = notification("arn:aws:sns:us-east-1:123456789012:other");
+
+    await expect(
+      parseSesWebhook(body, { topicArn, fetchCertificate })
+    ).rejects.toMatchObject({ status: 403 });
+  });
+
+  test("rejects certificates outside of AWS", async () => {
+    const body = JSON.stringify({
+      ...JSON.parse(notification()),
+      SigningCertURL: "https://attacker.example.com/cert.pem",
+    });
+
+    await expect(
+      parseSesWebhook(body, { topicArn, fetchCertificate })
+    ).rejects.toMatchObject({ status: 401 });
+  });
+
+  const subscribeUrl =
+    "https://sns.us-east-1.amazonaws.com/?Action=ConfirmSubscription";
+
+  const subscriptionConfirmation = (topic = topicArn) =>
+    signMessage({
+      Type: "SubscriptionConfirmation",
+      MessageId: "sns_2",
+      TopicArn: topic,
+      Timestamp: new Date().toISOString(),
+      Message: "You have chosen to subscribe to the topic",
+      SubscribeURL: subscribeUrl,
+      Token: "token",
+    });
+
+  test("confirms subscriptions", async () => {
+    const confirmed: string[] = [];
+
+    const events = await parseSesWebhook(subscriptionConfirmation(), {
+      topicArn,
+      fetchCertificate,
+      confirmSubscription: async (url) => {
+        confirmed.push(url);
+      },
+    });
+
+    expect(events).toEqual([]);
+    expect(confirmed).toEqual([subscribeUrl]);
+  });
+
+  test("does not confirm subscriptions to another topic", async () => {
+    const confirmed: string[] = [];
+    const body = subscriptionConfirmation(
+      "arn:aws:sns:us-east-1:999999999999:attacker"
+    );
+
+    await expect(
+      parseSesWebhook(body, {
+        topicArn,
+        fetchCertificate,
+        confirmSubscription: async (url) => {
+          confirmed.push(url);
+        },
+      })
+    ).rejects.toMatchObject({ status: 403 });
+    expect(confirmed).toEqual([]);
+  });
+});
+
+test.describe("Suppression list", () => {
+  const createProvider = (suppressed: string[]) => {
+    const sent: SendEmailOptions[] = [];
+    const inner: EmailProvider = {
+      sendEmail: async (options) => {
+        sent.push(options);
+        return { provider: "fake" };
+      },
+    };
+    const provider = new SuppressionListEmailProvider(inner, async (emails) =>
+      emails
+        .map((email) => email.toLowerCase())
+        .filter((email) => suppressed.includes(email))
+    );
+    return { provider, sent };
+  };
+
+  const message = {
+    to: "user@example.com",
+    subject: "Hello",
+    html: "<p>Hello</p>",
+  };
+
+  test("never emails a suppressed recipient", async () => {
+    const { provider, sent } = createProvider(["user@example.com"]);
+
+    await expect(
+      provider.sendEmail({ ...message, to: "User@Example.com" })
+    ).rejects.toMatchObject({ provider: "suppression", retryable: false });
+    expect(sent).toEqual([]);
+  });
+
+  test("drops suppressed cc and bcc addresses", async () => {
+    const { provider, sent } = createProvider(["bounced@example.com"]);
+
+    await provider.sendEmail({
+      ...message,
+      cc: ["bounced@example.com", "cc@example.com"],
+      bcc: ["bounced@example.com"],
+    });
+
+    expect(sent[0].cc).toEqual(["cc@example.com"]);
+    expect(sent[0].bcc).toEqual([]);
+  });
+});
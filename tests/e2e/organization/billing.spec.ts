@@ -0,0 +1,185 @@
+import type { Page } from "@playwright/test";
+import { test, expect } from "../../fixtures/test-extend";
+import {
+  createTestInbox,
+  deleteTestInbox,
+  waitForInboxReady,
+  type EmailTestInbox,
+} from "../utils/inbox";
+import { signupFlow } from "../../flows/auth-flows";
+import {
+  authRequest,
+  checkoutFlow,
+  syncPlansFlow,
+  trpcQuery,
+} from "../../flows/billing-flows";
+
+/**
+ * Billing Against Local Stripe (E2E)
+ *
+ * Upgrades, cancels and lists invoices through the app's billing endpoints
+ * and procedures, with STRIPE_LOCAL=true on the dev server. The stand-in's
+ * webhook events go through /api/auth/stripe/webhook, so the app's records
+ * only change once the app handled them.
+ *
+ * Needs in .env.local: STRIPE_LOCAL="true", STRIPE_SECRET_KEY,
+ * STRIPE_WEBHOOK_SECRET and CRON_SECRET (to sync the plans).
+ */
+
+type AppSubscription = {
+  plan: string;
+  status: string;
+  stripeSubscriptionId?: string;
+  cancelAtPeriodEnd?: boolean;
+};
+
+type AppInvoice = {
+  id: string;
+  number?: string;
+  amount: number;
+  status: string;
+};
+
+/**
+ * The organization's subscriptions as stored by the app
+ */
+const storedSubscriptions = (page: Page, referenceId: string) =>
+  authRequest<AppSubscription[]>(
+    page,
+    `/subscription/list?referenceId=${encodeURIComponent(referenceId)}`
+  );
+
+test.skip(
+  process.env.STRIPE_LOCAL !== "true",
+  "Run the dev server with STRIPE_LOCAL=true"
+);
+
+test.setTimeout(180_000);
+
+test.describe("Billing with local Stripe", () => {
+  let inbox: EmailTestInbox;
+
+  test.beforeAll(async () => {
+    await waitForInboxReady();
+  });
+
+  test.beforeEach(async ({ page }) => {
+    inbox = await createTestInbox();
+    await signupFlow(page, inbox);
+    await syncPlansFlow(page);
+  });
+
+  test.afterEach(async () => {
+    if (inbox) await deleteTestInbox(inbox.id);
+  });
+
+  test("upgrades the organization through Checkout", async ({ page }) => {
+    const { referenceId } = await checkoutFlow(page, "pro");
+
+    await expect
+      .poll(
+        async () =>
+          (await storedSubscriptions(page, referenceId)).map(
+            ({ plan, status }) => ({ plan, status })
+          ),
+        { timeout: 30_000 }
+      )
+      .toEqual([{ plan: "pro", status: "active" }]);
+
+    const active = await trpcQuery<AppSubscription | null>(
+      page,
+      "billing.getActiveSubscription"
+    );
+    expect(active?.plan.toLowerCase()).toBe("pro");
+    expect(active?.status).toBe("active");
+
+    const entitlements = await trpcQuery<{ plan: string }>(
+      page,
+      "billing.getEntitlements"
+    );
+    expect(entitlements.plan).toBe("Pro");
+  });
+
+  test("cancels at the end of the period through the billing portal", async ({
+    page,
+  }) => {
+    const { referenceId } = await checkoutFlow(page, "starter");
+
+    await expect
+      .poll(async () => (await storedSubscriptions(page, referenceId)).length, {
+        timeout: 30_000,
+      })
+      .toBe(1);
+
+    const portal = await authRequest<{ url: string }>(
+      page,
+      "/subscription/cancel",
+      { referenceId, returnUrl: "/account/billing" }
+    );
+    await page.goto(portal.url);
+    await page.getByRole("button", { name: "Confirm" }).click();
+    await page.waitForURL(/\/account\/billing/, { timeout: 30_000 });
+
+    await expect
+      .poll(
+        async () =>
+          (await storedSubscriptions(page, referenceId))[0]?.cancelAtPeriodEnd,
+        { timeout: 30_000 }
+      )
+      .toBe(true);
+
+    // Ending the period deletes the subscription in Stripe
+    const [{ stripeSubscriptionId }] = await storedSubscriptions(
+      page,
+      referenceId
+    );
+    const renewal = await page.request.post(
+      `/api/dev/stripe/subscriptions/${stripeSubscriptionId}/renew`
+    );
+    expect(await renewal.json()).toMatchObject({ status: "canceled" });
+
+    await expect
+      .poll(async () => (await storedSubscriptions(page, referenceId)).length, {
+        timeout: 30_000,
+      })
+      .toBe(0);
+    expect(
+      await trpcQuery<AppSubscription | null>(
+        page,
+        "billing.getActiveSubscription"
+      )
+    ).toBeNull();
+  });
+
+  test("lists the organization's invoices", async ({ page }) => {
+    const { referenceId } = await checkoutFlow(page, "pro");
+
+    await expect
+      .poll(async () => (await storedSubscriptions(page, referenceId)).length, {
+        timeout: 30_000,
+      })
+      .toBe(1);
+
+    const [{ stripeSubscriptionId }] = await storedSubscriptions(
+      page,
+      referenceId
+    );
+    const renewal = await page.request.post(
+      `/api/dev/stripe/subscriptions/${stripeSubscriptionId}/renew`
+    );
+    expect(await renewal.json()).toMatchObject({ status: "active" });
+
+    const invoices = await trpcQuery<AppInvoice[]>(page, "billing.getInvoices");
+    expect(invoices).toHaveLength(2);
+    expect(invoices.map(({ amount, status }) => ({ amount, status }))).toEqual([
+      { amount: 2900, status: "paid" },
+      { amount: 2900, status: "paid" },
+    ]);
+
+    // The billing page shows the same invoices
+    await page.goto("/account/billing");
+    for (const invoice of invoices) {
+      await expect(page.getByText(invoice.number ?? invoice.id)).toBeVisible();
+    }
+  });
+});
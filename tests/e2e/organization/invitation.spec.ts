@@ -3,10 +3,9 @@ import {
 	createTestInbox,
 	clearAllEmails,
 	deleteTestInbox,
-	validateMailDevConfig,
-	waitForMailDevReady,
+	waitForInboxReady,
 	type EmailTestInbox,
-} from "../utils/maildev";
+} from "../utils/inbox";
 import { logoutFlow, signupFlow } from "../../flows/auth-flows";
 import { OrgPage } from "../../page-objects/OrgPage";
 import { acceptInvitationFlow } from "../../flows/org-flows";
@@ -28,8 +27,7 @@ test.describe("Organization Member Invitation", () => {
 	let invitedInbox: EmailTestInbox;
 
 	test.beforeAll(async () => {
-		validateMailDevConfig();
-		await waitForMailDevReady();
+		await waitForInboxReady();
 	});
 
 	test.beforeEach(async () => {
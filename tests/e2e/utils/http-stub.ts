@@ -0,0 +1,76 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+
+/**
+ * Local HTTP Stub
+ *
+ * A tiny HTTP server used to test API-based integrations (email providers, etc.)
+ * without reaching the real services. Every request is recorded and answered
+ * with the configured response.
+ */
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  headers: Record<string, string | string[] | undefined>;
+  body: string;
+}
+
+export interface StubResponse {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+export interface HttpStub {
+  url: string;
+  requests: RecordedRequest[];
+  respondWith(response: StubResponse): void;
+  close(): Promise<void>;
+}
+
+/**
+ * Start a stub server on a random local port
+ */
+export async function startHttpStub(
+  initialResponse: StubResponse = { status: 200, body: {} }
+): Promise<HttpStub> {
+  const requests: RecordedRequest[] = [];
+  let response = initialResponse;
+
+  const server: Server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => {
+      body += chunk;
+    });
+    req.on("end", () => {
+      requests.push({
+        method: req.method ?? "GET",
+        path: req.url ?? "/",
+        headers: req.headers,
+        body,
+      });
+
+      res.writeHead(response.status, {
+        "Content-Type": "application/json",
+        ...response.headers,
+      });
+      res.end(response.body === undefined ? "" : JSON.stringify(response.body));
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    respondWith(next) {
+      response = next;
+    },
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve()))
+      ),
+  };
+}
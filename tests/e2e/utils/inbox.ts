@@ -0,0 +1,172 @@
+/**
+ * Local Inbox Testing Utilities
+ *
+ * Reads emails captured by the inbox email provider (EMAIL_PROVIDER=inbox)
+ * through the app's /api/dev/inbox endpoint, so E2E tests don't need a
+ * MailDev container. Drop-in replacement for the helpers in ./maildev.
+ *
+ * Environment Variables:
+ * - NEXT_PUBLIC_APP_URL: URL of the app under test (default: http://localhost:3000)
+ */
+
+import type { InboxMessage } from "@/modules/emails/inbox/types";
+import {
+  type EmailTestInbox,
+  type EmailWithVerificationLink,
+  extractVerificationLink,
+} from "./maildev";
+
+export type { EmailTestInbox, EmailWithVerificationLink };
+
+const INBOX_URL = `${process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000"}/api/dev/inbox`;
+
+// Timeout for email operations (60 seconds)
+const EMAIL_TIMEOUT = 60_000;
+
+/**
+ * Get the captured emails, newest first, optionally for a single recipient
+ */
+export async function getAllEmails(to?: string): Promise<InboxMessage[]> {
+  const url = to ? `${INBOX_URL}?to=${encodeURIComponent(to)}` : INBOX_URL;
+  const response = await fetch(url);
+
+  if (!response.ok) {
+    throw new Error(
+      `Inbox API error: ${response.status} ${response.statusText}`
+    );
+  }
+
+  return await response.json();
+}
+
+/**
+ * Create a test inbox with unique email address
+ * The local inbox accepts any recipient, so this only generates an address
+ */
+export async function createTestInbox(): Promise<EmailTestInbox> {
+  const timestamp = Date.now();
+  const randomId = Math.random().toString(36).substring(2, 15);
+  const testId = `test-${timestamp}-${randomId}`;
+
+  const emailAddress = `${testId}@localhost.local`;
+
+  console.log(`📧 Generated test email: ${emailAddress}`);
+
+  return {
+    id: testId,
+    emailAddress: emailAddress,
+  };
+}
+
+/**
+ * Wait for email with specific subject containing text
+ * Polls the inbox API until email arrives or timeout is reached
+ */
+export async function waitForEmailWithSubject(
+  inboxId: string,
+  subjectContains: string,
+  timeout: number = EMAIL_TIMEOUT
+): Promise<EmailWithVerificationLink> {
+  const startTime = Date.now();
+  const pollInterval = 500;
+  const pattern = subjectContains
+    ? new RegExp(subjectContains.toLowerCase())
+    : null;
+
+  console.log(
+    `📧 Waiting for email with subject containing "${subjectContains}" (timeout: ${timeout}ms)...`
+  );
+
+  while (Date.now() - startTime < timeout) {
+    try {
+      const emails = await getAllEmails(`${inboxId}@localhost.local`);
+
+      // Supports regex-like patterns such as "verify|confirm"
+      const targetEmail = emails.find((email) =>
+        pattern ? pattern.test(email.subject.toLowerCase()) : true
+      );
+
+      if (targetEmail) {
+        console.log(
+          `📬 Found email: "${targetEmail.subject}" (ID: ${targetEmail.id})`
+        );
+
+        return {
+          id: targetEmail.id,
+          subject: targetEmail.subject,
+          body: targetEmail.html,
+          verificationLink: extractVerificationLink(
+            targetEmail.text || targetEmail.html
+          ),
+        };
+      }
+    } catch (error) {
+      console.warn(`⚠️  Error polling the inbox API:`, error);
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, pollInterval));
+  }
+
+  throw new Error(
+    `Timeout waiting for email with subject containing "${subjectContains}" after ${timeout}ms`
+  );
+}
+
+/**
+ * Delete a test inbox - no-op, addresses are unique per test
+ */
+export async function deleteTestInbox(inboxId: string): Promise<void> {
+  console.log(`✅ Test inbox ${inboxId} cleanup completed`);
+}
+
+/**
+ * Clear all captured emails
+ */
+export async function clearAllEmails(): Promise<void> {
+  try {
+    const response = await fetch(INBOX_URL, { method: "DELETE" });
+
+    if (!response.ok) {
+      throw new Error(
+        `Failed to clear emails: ${response.status} ${response.statusText}`
+      );
+    }
+
+    console.log("🗑️  Cleared all emails from the inbox");
+  } catch (error) {
+    console.warn("⚠️  Failed to clear emails from the inbox:", error);
+  }
+}
+
+/**
+ * Wait for the inbox API to be ready
+ * Returns 404 when the app doesn't run outside production
+ */
+export async function waitForInboxReady(
+  timeout: number = 30_000
+): Promise<void> {
+  const startTime = Date.now();
+
+  console.log("⏳ Waiting for the inbox API to be ready...");
+
+  while (Date.now() - startTime < timeout) {
+    try {
+      const response = await fetch(INBOX_URL);
+      if (response.ok) {
+        console.log("✅ Inbox API is ready!");
+        return;
+      }
+      console.log(
+        `⏳ Inbox API responded with status: ${response.status} ${response.statusText}`
+      );
+    } catch (error) {
+      console.log(
+        `⏳ Inbox API connection attempt failed: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+  }
+
+  throw new Error(`Inbox API not ready after ${timeout}ms`);
+}
@@ -0,0 +1,83 @@
+import {
+  createElement,
+  Fragment,
+  type JSXElementConstructor,
+  type ReactElement,
+  type ReactNode,
+} from "react";
+
+/**
+ * React Elements from Playwright JSX
+ *
+ * Playwright compiles JSX in every .tsx file it loads (including the email
+ * templates imported by a spec) into plain `{ __pw_type: "jsx" }` objects meant
+ * for component testing. React can't render those, so this helper converts them
+ * back into real React elements, wrapping function components so their output
+ * is converted too.
+ */
+
+type PlaywrightJsx = {
+  __pw_type: "jsx";
+  type: unknown;
+  props: Record<string, unknown>;
+  key?: string;
+};
+
+type Component = JSXElementConstructor<Record<string, unknown>>;
+
+const wrappedComponents = new WeakMap<Component, Component>();
+
+const isPlaywrightJsx = (node: unknown): node is PlaywrightJsx =>
+  typeof node === "object" &&
+  node !== null &&
+  (node as PlaywrightJsx).__pw_type === "jsx";
+
+function wrapComponent(component: Component): Component {
+  let wrapped = wrappedComponents.get(component);
+
+  if (!wrapped) {
+    wrapped = (props: Record<string, unknown>) =>
+      toReactNode((component as (props: unknown) => unknown)(props));
+    wrappedComponents.set(component, wrapped);
+  }
+
+  return wrapped;
+}
+
+function toReactNode(node: unknown): ReactNode {
+  if (Array.isArray(node)) {
+    return node.map(toReactNode);
+  }
+
+  if (!isPlaywrightJsx(node)) {
+    return node as ReactNode;
+  }
+
+  const { children, ...props } = node.props;
+  const type =
+    (node.type as { __pw_jsx_fragment?: boolean }).__pw_jsx_fragment === true
+      ? Fragment
+      : typeof node.type === "function"
+        ? wrapComponent(node.type as Component)
+        : node.type;
+
+  // Pass children as arguments so static children don't need keys
+  return createElement(
+    type as Component,
+    { ...props, key: node.key },
+    ...(Array.isArray(children) ? children : [children]).map(toReactNode)
+  );
+}
+
+/**
+ * Create a React element for a component declared in a .tsx file
+ */
+export function createReactElement<P extends object>(
+  component: (props: P) => ReactNode,
+  props: P
+): ReactElement {
+  return createElement(
+    wrapComponent(component as Component),
+    props as Record<string, unknown>
+  );
+}
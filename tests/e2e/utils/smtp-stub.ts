@@ -0,0 +1,127 @@
+import { createServer, type Server, type Socket } from "node:net";
+import type { AddressInfo } from "node:net";
+
+/**
+ * Local SMTP Stub
+ *
+ * A tiny SMTP server used to test the SMTP email provider without a mail
+ * server. Supports AUTH PLAIN with the configured credentials and records
+ * every accepted message with its raw content (headers included).
+ */
+
+export interface RecordedSmtpMessage {
+  from: string;
+  to: string[];
+  data: string;
+}
+
+export interface SmtpStub {
+  host: string;
+  port: number;
+  messages: RecordedSmtpMessage[];
+  close(): Promise<void>;
+}
+
+/**
+ * Start a stub SMTP server on a random local port
+ */
+export async function startSmtpStub(credentials: {
+  user: string;
+  pass: string;
+}): Promise<SmtpStub> {
+  const messages: RecordedSmtpMessage[] = [];
+  const sockets = new Set<Socket>();
+
+  const server: Server = createServer((socket) => {
+    sockets.add(socket);
+    socket.on("close", () => sockets.delete(socket));
+
+    let buffer = "";
+    let message: RecordedSmtpMessage = { from: "", to: [], data: "" };
+    let readingData = false;
+
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+
+    const handleLine = (line: string) => {
+      if (readingData) {
+        if (line === ".") {
+          readingData = false;
+          messages.push(message);
+          message = { from: "", to: [], data: "" };
+          reply("250 OK queued");
+        } else {
+          // Undo dot-stuffing
+          message.data += `${line.startsWith("..") ? line.slice(1) : line}\r\n`;
+        }
+        return;
+      }
+
+      const [command, ...args] = line.split(" ");
+      switch (command.toUpperCase()) {
+        case "EHLO":
+        case "HELO":
+          reply("250-localhost");
+          reply("250 AUTH PLAIN");
+          break;
+        case "AUTH": {
+          const [, user, pass] = Buffer.from(args[1] ?? "", "base64")
+            .toString()
+            .split("\0");
+          reply(
+            user === credentials.user && pass === credentials.pass
+              ? "235 Authentication successful"
+              : "535 Authentication failed"
+          );
+          break;
+        }
+        case "MAIL":
+          message.from = line.match(/<(.*)>/)?.[1] ?? "";
+          reply("250 OK");
+          break;
+        case "RCPT":
+          message.to.push(line.match(/<(.*)>/)?.[1] ?? "");
+          reply("250 OK");
+          break;
+        case "DATA":
+          readingData = true;
+          reply("354 End data with <CR><LF>.<CR><LF>");
+          break;
+        case "QUIT":
+          reply("221 Bye");
+          socket.end();
+          break;
+        default:
+          reply("250 OK");
+      }
+    };
+
+    socket.on("data", (chunk) => {
+      buffer += chunk.toString();
+      let index = buffer.indexOf("\r\n");
+      while (index !== -1) {
+        handleLine(buffer.slice(0, index));
+        buffer = buffer.slice(index + 2);
+        index = buffer.indexOf("\r\n");
+      }
+    });
+
+    reply("220 localhost ESMTP stub");
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    host: "127.0.0.1",
+    port,
+    messages,
+    close: () => {
+      for (const socket of sockets) {
+        socket.destroy();
+      }
+      return new Promise<void>((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve()))
+      );
+    },
+  };
+}
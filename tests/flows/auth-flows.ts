@@ -1,7 +1,7 @@
 import { Page, expect } from "@playwright/test";
 import { nanoid } from "nanoid";
 import { AuthPage } from "../page-objects/AuthPage";
-import { waitForEmailWithSubject, type EmailTestInbox } from "../e2e/utils/maildev";
+import { waitForEmailWithSubject, type EmailTestInbox } from "../e2e/utils/inbox";
 
 export async function signupFlow(page: Page, inbox: EmailTestInbox, options: { skipOnboarding?: boolean } = {}) {
   const auth = new AuthPage(page);
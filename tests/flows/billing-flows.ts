@@ -0,0 +1,91 @@
+import { Page, expect } from "@playwright/test";
+
+/**
+ * Billing-related reusable flows
+ * - Drive the app's billing endpoints with the signed in user's cookies
+ * - Meant for the local Stripe stand-in (STRIPE_LOCAL=true), whose Checkout
+ *   and billing portal pages are served by the app under /api/dev/stripe
+ */
+
+/**
+ * Call a Better Auth endpoint like the auth client does
+ */
+export async function authRequest<T>(
+  page: Page,
+  path: string,
+  body?: Record<string, unknown>
+): Promise<T> {
+  const origin = new URL(page.url()).origin;
+  const response = body
+    ? await page.request.post(`/api/auth${path}`, {
+        data: body,
+        headers: { origin },
+      })
+    : await page.request.get(`/api/auth${path}`, { headers: { origin } });
+
+  expect(response.ok(), `${path} failed: ${await response.text()}`).toBe(true);
+  return (await response.json()) as T;
+}
+
+/**
+ * Read a tRPC query of the app, e.g. "billing.getInvoices"
+ */
+export async function trpcQuery<T>(page: Page, path: string): Promise<T> {
+  const response = await page.request.get(`/api/trpc/${path}`);
+
+  expect(response.ok(), `${path} failed: ${await response.text()}`).toBe(true);
+  return ((await response.json()) as { result: { data: T } }).result.data;
+}
+
+/**
+ * Active organization of the signed in user
+ */
+export async function getActiveOrganizationId(page: Page): Promise<string> {
+  const { session } = await authRequest<{
+    session: { activeOrganizationId?: string | null };
+  }>(page, "/get-session");
+
+  expect(session.activeOrganizationId).toBeTruthy();
+  return session.activeOrganizationId!;
+}
+
+/**
+ * Import the stand-in's products as plans, through the sync endpoint
+ */
+export async function syncPlansFlow(page: Page) {
+  const response = await page.request.get("/api/billing/plans/sync", {
+    headers: { authorization: `Bearer ${process.env.CRON_SECRET}` },
+  });
+
+  expect(response.ok(), await response.text()).toBe(true);
+}
+
+/**
+ * Subscribe the active organization to a plan through Stripe Checkout
+ * - Starts the upgrade like the plan cards do
+ * - Pays on the local Checkout page and follows the redirect back
+ */
+export async function checkoutFlow(
+  page: Page,
+  plan: string,
+  options: { annual?: boolean } = {}
+) {
+  const referenceId = await getActiveOrganizationId(page);
+  const session = await authRequest<{ url: string }>(
+    page,
+    "/subscription/upgrade",
+    {
+      plan,
+      annual: options.annual,
+      referenceId,
+      successUrl: "/account/billing",
+      cancelUrl: "/account/billing",
+    }
+  );
+
+  await page.goto(session.url);
+  await page.getByRole("button", { name: "Pay" }).click();
+  await page.waitForURL(/\/account\/billing/, { timeout: 30_000 });
+
+  return { referenceId };
+}
@@ -1,5 +1,5 @@
 import { Page, expect } from "@playwright/test";
-import { waitForEmailWithSubject, type EmailTestInbox } from "../e2e/utils/maildev";
+import { waitForEmailWithSubject, type EmailTestInbox } from "../e2e/utils/inbox";
 import { signupFlow } from "./auth-flows";
 import { AuthPage } from "../page-objects/AuthPage";
 